@@ -0,0 +1,86 @@
+/**
+ * Echo Wallet - Local stand-in indexer endpoint
+ * Answers the Etherscan `txlist`, `txlistinternal` and `tokentx` queries used by the
+ * history sync from transfers seeded with POST, so sync can be exercised without an API key.
+ * Production builds answer 404 unless NEXT_PUBLIC_USE_MOCK_INDEXER is set.
+ */
+
+import { NextResponse } from 'next/server'
+import { EtherscanTransfer } from '@/services/indexerService'
+
+type TransferAction = 'txlist' | 'txlistinternal' | 'tokentx'
+
+interface SeededTransfer {
+  chainId: number
+  action: TransferAction
+  row: EtherscanTransfer
+}
+
+// Lives as long as the dev server process
+const transfers: SeededTransfer[] = []
+
+function isDisabled(): boolean {
+  return process.env.NODE_ENV === 'production' && process.env.NEXT_PUBLIC_USE_MOCK_INDEXER !== 'true'
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Not found' }, { status: 404 })
+}
+
+export async function GET(request: Request) {
+  if (isDisabled()) return notFound()
+
+  const params = new URL(request.url).searchParams
+  const action = params.get('action')
+  const address = params.get('address')?.toLowerCase()
+
+  if (action !== 'txlist' && action !== 'txlistinternal' && action !== 'tokentx') {
+    return NextResponse.json({ status: '0', message: 'NOTOK', result: `Unsupported action: ${action}` })
+  }
+  if (!address) {
+    return NextResponse.json({ status: '0', message: 'NOTOK', result: 'Missing address' })
+  }
+
+  const chainId = Number(params.get('chainid') ?? 1)
+  const startBlock = Number(params.get('startblock') ?? 0)
+  const endBlock = Number(params.get('endblock') ?? Number.MAX_SAFE_INTEGER)
+
+  const result = transfers
+    .filter(({ chainId: seededChainId, action: seededAction, row }) =>
+      seededChainId === chainId &&
+      seededAction === action &&
+      (row.from.toLowerCase() === address || row.to.toLowerCase() === address) &&
+      Number(row.blockNumber) >= startBlock &&
+      Number(row.blockNumber) <= endBlock
+    )
+    .map(({ row }) => row)
+
+  // Etherscan reports an empty result as status 0
+  return NextResponse.json(
+    result.length > 0
+      ? { status: '1', message: 'OK', result }
+      : { status: '0', message: 'No transactions found', result: [] }
+  )
+}
+
+/**
+ * Seed transfers: { chainId, action, transfers: EtherscanTransfer[] }, or { reset: true } to clear
+ */
+export async function POST(request: Request) {
+  if (isDisabled()) return notFound()
+
+  const body = await request.json().catch(() => null)
+
+  if (body?.reset) {
+    transfers.length = 0
+    return NextResponse.json({ ok: true, count: 0 })
+  }
+
+  const action = body?.action ?? 'txlist'
+  if (typeof body?.chainId !== 'number' || !Array.isArray(body?.transfers) || !['txlist', 'txlistinternal', 'tokentx'].includes(action)) {
+    return NextResponse.json({ ok: false, error: 'Expected { chainId, action, transfers }' }, { status: 400 })
+  }
+
+  transfers.push(...(body.transfers as EtherscanTransfer[]).map((row) => ({ chainId: body.chainId, action, row })))
+  return NextResponse.json({ ok: true, count: transfers.length })
+}
@@ -0,0 +1,41 @@
+/**
+ * Echo Wallet - Local stand-in paymaster endpoint
+ * Answers pm_sponsorUserOperation so gasless transfers can be exercised without ZeroDev.
+ */
+
+import { NextResponse } from 'next/server'
+import { createMockSponsorship } from '@/services/paymasterService'
+import { UserOperation } from '@/types'
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const id = body?.id ?? null
+
+  if (body?.method !== 'pm_sponsorUserOperation') {
+    return NextResponse.json({
+      jsonrpc: '2.0',
+      id,
+      error: { code: -32601, message: `Method not supported: ${body?.method}` }
+    })
+  }
+
+  const userOp = body.params?.[0] as UserOperation | undefined
+  if (!userOp?.sender) {
+    return NextResponse.json({
+      jsonrpc: '2.0',
+      id,
+      error: { code: -32602, message: 'Missing UserOperation' }
+    })
+  }
+
+  const sponsorship = createMockSponsorship(userOp)
+  if (!sponsorship) {
+    return NextResponse.json({
+      jsonrpc: '2.0',
+      id,
+      error: { code: -32500, message: 'Sponsorship policy rejected this operation' }
+    })
+  }
+
+  return NextResponse.json({ jsonrpc: '2.0', id, result: sponsorship })
+}
@@ -6,8 +6,9 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { useWalletStore, useVoiceState } from '@/store'
+import { useWalletStore, useVoiceState, useSpeechEngine } from '@/store'
 import { commandService } from '@/services/commandService'
+import { voiceService, SpeechEngineOption } from '@/services/voiceService'
 
 interface VoiceButtonProps {
   className?: string
@@ -262,6 +263,58 @@ export function KeyboardHelp() {
   )
 }
 
+/**
+ * Speech engine picker: the browser's speech service, or recognition on this device
+ */
+export function SpeechEngineSettings() {
+  const selected = useSpeechEngine()
+  const setSpeechEngine = useWalletStore((state) => state.setSpeechEngine)
+  const [engines, setEngines] = useState<SpeechEngineOption[]>([])
+
+  // Support is only known in the browser
+  useEffect(() => {
+    setEngines(voiceService.listEngines())
+  }, [])
+
+  const handleChange = (engine: SpeechEngineOption) => {
+    setSpeechEngine(engine.id)
+    void voiceService.speak(`Speech engine set to ${engine.label}.`)
+  }
+
+  return (
+    <fieldset>
+      <legend className="text-xs uppercase tracking-[0.3em] text-slate-400 mb-2">
+        Speech Engine
+      </legend>
+
+      <div className="space-y-2">
+        {engines.map((engine) => (
+          <label key={engine.id} className="flex items-start gap-3 text-xs text-slate-300">
+            <input
+              type="radio"
+              name="speech-engine"
+              value={engine.id}
+              checked={selected === engine.id}
+              disabled={!engine.supported}
+              onChange={() => handleChange(engine)}
+              className="mt-0.5"
+            />
+            <span>
+              <strong className="text-white">{engine.label}</strong>
+              <span className="block text-slate-400">
+                {engine.onDevice
+                  ? 'Works offline. Audio never leaves this device.'
+                  : "Audio is sent to your browser's speech service."}
+                {!engine.supported && ' Not supported in this browser.'}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  )
+}
+
 /**
  * Read for Me button component - matches landing page style
  */
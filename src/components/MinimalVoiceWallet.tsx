@@ -9,12 +9,14 @@ import React, { useEffect, useState, useCallback, useMemo } from 'react'
 import { useWalletStore, useVoiceState } from '@/store'
 import { VoiceFeedbackModal } from './VoiceFeedbackModal'
 import { commandService } from '@/services/commandService'
-import { voiceService } from '@/services/voiceService'
-import { AccessibleText, KeyboardHelp, ReadForMeButton } from './AccessibilityComponents'
+import { voiceService, SpeakOptions } from '@/services/voiceService'
+import { walletService } from '@/services/walletService'
+import { AccessibleText, KeyboardHelp, ReadForMeButton, SpeechEngineSettings } from './AccessibilityComponents'
 import Spline from '@splinetool/react-spline'
 
 export function MinimalVoiceWallet() {
   const { wallet, sharedAddress } = useWalletStore()
+  const accountAddress = wallet ? walletService.getAccountAddress(wallet) : ''
   const voiceState = useVoiceState()
   const [feedbackMessage, setFeedbackMessage] = useState('')
   const [showFeedback, setShowFeedback] = useState(false)
@@ -32,7 +34,7 @@ export function MinimalVoiceWallet() {
 
   useEffect(() => {
     setCopyState('idle')
-  }, [sharedAddress, wallet?.address])
+  }, [sharedAddress, accountAddress])
 
   // 确保客户端渲染
   useEffect(() => {
@@ -85,9 +87,7 @@ export function MinimalVoiceWallet() {
     }
   }, [isListening, isProcessing, startVoiceInteraction])
 
-  type SpeakOptions = { rate?: number; pitch?: number; volume?: number }
-
-  const primaryAddress = useMemo(() => sharedAddress || wallet?.address || '', [sharedAddress, wallet?.address])
+  const primaryAddress = useMemo(() => sharedAddress || accountAddress || '', [sharedAddress, accountAddress])
 
   const formattedSharedAddress = useMemo(() => {
     if (!sharedAddress) return ''
@@ -105,7 +105,7 @@ export function MinimalVoiceWallet() {
 
   const handleCopyAddress = useCallback(
     async (targetAddress?: string) => {
-      const addressToCopy = targetAddress || sharedAddress || wallet?.address
+      const addressToCopy = targetAddress || sharedAddress || accountAddress
       if (!addressToCopy) return
 
       try {
@@ -122,15 +122,15 @@ export function MinimalVoiceWallet() {
         voiceService.speak('Unable to copy the address automatically. Please copy it manually from the screen.')
       }
     },
-    [sharedAddress, wallet?.address]
+    [sharedAddress, accountAddress]
   )
 
   // Initialize voice service and welcome message
   useEffect(() => {
     const originalSpeak = voiceService.speak.bind(voiceService) as typeof voiceService.speak
     voiceService.speak = (text: string, options?: SpeakOptions) => {
-      originalSpeak(text, options)
       handleVoiceFeedback(text)
+      return originalSpeak(text, options)
     }
 
     if (!isClient) return
@@ -165,7 +165,7 @@ export function MinimalVoiceWallet() {
       if (event.key === 'r' || event.key === 'R') {
         event.preventDefault()
         if (lastCommand) {
-          const message = `Repeating last command: ${lastCommand.parameters?.text || 'unknown command'}`
+          const message = `Repeating last command: ${lastCommand.slots?.text || 'unknown command'}`
           voiceService.speak(message)
         } else {
           voiceService.speak('No command available to repeat.')
@@ -187,8 +187,8 @@ export function MinimalVoiceWallet() {
   }, [handleVoiceFeedback, hasPlayedWelcome, isClient, isListening, isProcessing, lastCommand, showHelp, startVoiceInteraction])
 
   const lastCommandDescription = useMemo(() => {
-    if (typeof lastCommand?.parameters?.text === 'string') {
-      return lastCommand.parameters.text
+    if (lastCommand?.slots?.text) {
+      return lastCommand.slots.text
     }
     if (lastCommand?.type) return lastCommand.type
     return 'No voice command yet'
@@ -288,6 +288,9 @@ export function MinimalVoiceWallet() {
           <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-3">
             <KeyboardHelp />
           </div>
+          <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-3">
+            <SpeechEngineSettings />
+          </div>
         </div>
 
         {sharedAddress && (
@@ -330,7 +333,7 @@ export function MinimalVoiceWallet() {
         <h1>Echo Wallet - Voice-first Web3 wallet</h1>
         <p>Ethereum wallet built for blind users with full voice control</p>
         <p>Current status: {isListening ? 'Listening for voice input' : isProcessing ? 'Processing voice command' : 'Voice standby'}</p>
-        {wallet && <p>Wallet connected, address: {wallet.address}</p>}
+        {wallet && <p>Wallet connected, address: {accountAddress}</p>}
       </div>
     </div>
   )
@@ -34,19 +34,17 @@ export function VoiceTestDemo() {
     voiceService.startListening(
       (command) => {
         console.log('🎯 Received command:', command)
-        const transcript = typeof command.parameters?.text === 'string'
-          ? command.parameters.text
-          : command.type
+        const transcript = command.slots?.text ?? command.type
         setLastResult(transcript)
 
         // Display the optimized result
-        if (typeof command.parameters?.text === 'string') {
-          const optimized = VoiceRecognitionOptimizer.optimizeText(command.parameters.text)
+        if (command.slots?.text) {
+          const optimized = VoiceRecognitionOptimizer.optimizeText(command.slots.text)
           setOptimizedResult(optimized)
         }
 
         // Record the result for history
-        const result = `${new Date().toLocaleTimeString()}: ${command.type} - ${typeof command.parameters?.text === 'string' ? command.parameters.text : ''}`
+        const result = `${new Date().toLocaleTimeString()}: ${command.type} - ${command.slots?.text ?? ''}`
         setTestResults(prev => [result, ...prev.slice(0, 9)])
 
         setIsListening(false)
@@ -12,20 +12,26 @@ import {
   WalletStatus,
   KeyboardHelp,
   ReadForMeButton,
+  SpeechEngineSettings,
 } from './AccessibilityComponents'
 import { ContactManager } from './ContactManager'
 import { voiceService } from '@/services/voiceService'
 import { contactsService } from '@/services/contactsService'
-import { useWalletStore, useVoiceState } from '@/store'
+import { walletService } from '@/services/walletService'
+import { useWalletStore, useVoiceState, accountHistory } from '@/store'
 import type { Contact } from '@/types/contacts'
-import type { WalletAccount, WalletBalance } from '@/types'
+import type { NetworkId, WalletAccount, WalletBalance } from '@/types'
+import { WALLET_CONFIG } from '@/config'
 import Spline from '@splinetool/react-spline'
 
 const VOICE_PROMPTS = [
   'Create wallet – generate a new wallet address',
   'Import wallet – recover using biometrics',
-  'Check balance – hear your current balance',
+  'Check balance – hear your ETH and token balances',
   'Transfer 0.1 ETH to Alice – guided transfer with confirmation',
+  'Send 20 USDC to Bob – token transfer with confirmation',
+  'Switch to savings account – change the active account',
+  'List my wallets – hear the names of your saved wallets',
   'Show contacts – list your saved contacts'
 ]
 
@@ -46,7 +52,8 @@ const TRANSFER_STEPS = [
 
 export function WalletInterface() {
   const voiceState = useVoiceState()
-  const { wallet, balance, network, transactions, sharedAddress } = useWalletStore()
+  const { wallet, accounts, wallets, activeWalletId, balance, network, transactions, sharedAddress } = useWalletStore()
+  const walletName = wallets.find((record) => record.id === activeWalletId)?.name
 
   const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle')
 
@@ -55,7 +62,14 @@ export function WalletInterface() {
   const [topContact, setTopContact] = useState<Contact | null>(null)
   const [recentCommands, setRecentCommands] = useState<string[]>([])
 
-  const primaryAddress = useMemo(() => sharedAddress || wallet?.address || '', [sharedAddress, wallet?.address])
+  const accountAddress = wallet ? walletService.getAccountAddress(wallet) : ''
+
+  // History follows the active account and network
+  const accountTransactions = useMemo(
+    () => accountHistory(transactions, WALLET_CONFIG.NETWORKS[network].chainId, accountAddress),
+    [transactions, network, accountAddress]
+  )
+  const primaryAddress = useMemo(() => sharedAddress || accountAddress, [sharedAddress, accountAddress])
 
   const shortAddress = useMemo(() => {
     if (!primaryAddress) return null
@@ -109,8 +123,8 @@ export function WalletInterface() {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.key.toLowerCase() === 'r') {
         event.preventDefault()
-        if (voiceState.lastCommand?.parameters?.text) {
-          voiceService.speak(`Repeating the last command: ${voiceState.lastCommand.parameters.text}`)
+        if (voiceState.lastCommand?.slots?.text) {
+          voiceService.speak(`Repeating the last command: ${voiceState.lastCommand.slots.text}`)
         } else if (voiceState.lastCommand) {
           voiceService.speak(`Repeating the last command: ${voiceState.lastCommand.type}`)
         } else {
@@ -138,9 +152,7 @@ export function WalletInterface() {
   // Recent commands log
   useEffect(() => {
     if (!voiceState.lastCommand) return
-    const descriptor = typeof voiceState.lastCommand.parameters?.text === 'string'
-      ? voiceState.lastCommand.parameters.text
-      : voiceState.lastCommand.type
+    const descriptor = voiceState.lastCommand.slots?.text ?? voiceState.lastCommand.type
 
     setRecentCommands((prev) => {
       if (!descriptor || prev[0] === descriptor) return prev
@@ -171,7 +183,7 @@ export function WalletInterface() {
         <div className="absolute bottom-[-18%] right-[-12%] h-[520px] w-[520px] rounded-full bg-[radial-gradient(circle_at_center,_rgba(100,234,132,0.08),_transparent_60%)] blur-3xl" />
       </div>
 
-      <div className="pointer-events-none fixed right-4 top-4 z-40 flex justify-end">
+      <div className="pointer-events-none fixed right-4 top-4 z-40 flex flex-col items-end gap-3">
         <div className="pointer-events-auto inline-flex max-w-full items-center gap-3 rounded-full border border-white/20 bg-black/40 px-4 py-2 text-xs font-medium text-slate-100 backdrop-blur-xl sm:text-sm">
           <span className="hidden text-emerald-200/80 sm:inline">Current address</span>
           <span className="truncate text-white/90" aria-live="polite">
@@ -187,6 +199,7 @@ export function WalletInterface() {
             <span className="sm:hidden">{copyState === 'copied' ? '✓' : '⧉'}</span>
           </button>
         </div>
+        <PaymentNotifications />
       </div>
       <div className="relative z-20">
         <main className="relative z-10 mx-auto flex max-w-6xl flex-col gap-16 px-4 pb-24 pt-16 sm:px-8 lg:pt-20">
@@ -199,9 +212,11 @@ export function WalletInterface() {
         <WalletStatusSection />
         <MissionControlGrid
           wallet={wallet}
+          walletName={walletName}
+          accounts={accounts}
           balance={balance}
           network={network}
-          transactionsCount={transactions.length}
+          transactionsCount={accountTransactions.length}
             topContact={topContact}
             recentCommands={recentCommands}
           />
@@ -217,6 +232,36 @@ export function WalletInterface() {
   )
 }
 
+/* -------------------------------------------------------------------------- */
+/*  Payment notifications                                                      */
+/* -------------------------------------------------------------------------- */
+
+function PaymentNotifications() {
+  const { notifications, dismissNotification } = useWalletStore()
+
+  // The live region stays mounted so screen readers announce notices added later
+  return (
+    <ul role="status" aria-live="polite" aria-label="Incoming payments" className="flex w-80 max-w-full flex-col gap-2">
+      {notifications.map((notification) => (
+        <li
+          key={notification.id}
+          className="pointer-events-auto flex items-start justify-between gap-3 rounded-2xl border border-emerald-300/30 bg-black/60 px-4 py-3 text-sm text-emerald-50 backdrop-blur-xl"
+        >
+          <span>{notification.message}</span>
+          <button
+            type="button"
+            onClick={() => dismissNotification(notification.id)}
+            aria-label={`Dismiss: ${notification.message}`}
+            className="shrink-0 rounded-full px-2 text-emerald-100/70 transition-colors duration-200 hover:text-emerald-100 focus:outline-none focus:ring-2 focus:ring-emerald-300/60"
+          >
+            ✕
+          </button>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
 /* -------------------------------------------------------------------------- */
 /*  Hero                                                                      */
 /* -------------------------------------------------------------------------- */
@@ -281,9 +326,7 @@ interface VoiceInteractionPanelProps {
 }
 
 function VoiceInteractionPanel({ voiceStateLabel, recentCommands, lastCommand }: VoiceInteractionPanelProps) {
-  const lastCommandDescription = typeof lastCommand?.parameters?.text === 'string'
-    ? lastCommand.parameters.text
-    : lastCommand?.type ?? '—'
+  const lastCommandDescription = lastCommand?.slots?.text ?? lastCommand?.type ?? '—'
 
   return (
     <section className="grid gap-6 rounded-[32px] border border-white/10 bg-slate-950/60 backdrop-blur-2xl shadow-[0_32px_120px_-60px_rgba(15,23,42,0.8)] p-8 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
@@ -353,14 +396,18 @@ function StatusPill({ children, tone = 'blue' }: { children: React.ReactNode; to
 
 interface MissionControlGridProps {
   wallet: WalletAccount | null
+  walletName?: string
+  accounts: WalletAccount[]
   balance: WalletBalance
-  network: 'mainnet' | 'sepolia' | 'polygon'
+  network: NetworkId
   transactionsCount: number
   topContact: Contact | null
   recentCommands: string[]
 }
 
-function MissionControlGrid({ wallet, balance, network, transactionsCount, topContact, recentCommands }: MissionControlGridProps) {
+function MissionControlGrid({ wallet, walletName, accounts, balance, network, transactionsCount, topContact, recentCommands }: MissionControlGridProps) {
+  const chain = WALLET_CONFIG.NETWORKS[network]
+
   return (
     <section className="space-y-6">
       <AccessibleText text="Mission Control" level="h2" className="text-2xl font-semibold text-white" />
@@ -368,9 +415,22 @@ function MissionControlGrid({ wallet, balance, network, transactionsCount, topCo
         <GlassCard title="Wallet" caption="Encrypted with WebAuthn">
           {wallet ? (
             <div className="space-y-2">
-              <p className="text-lg font-medium text-white">{wallet.address.slice(0, 6)}…{wallet.address.slice(-4)}</p>
-              <p className="text-sm text-slate-300">Balance • {balance.eth} ETH</p>
+              {walletName && <p className="text-sm font-medium text-slate-200">{walletName}</p>}
+              {wallet.label && <p className="text-xs uppercase tracking-wide text-slate-400">{wallet.label} account</p>}
+              <p className="text-lg font-medium text-white">{walletService.getAccountAddress(wallet).slice(0, 6)}…{walletService.getAccountAddress(wallet).slice(-4)}</p>
+              {wallet.isSmartWallet && <p className="text-xs text-slate-400">ERC-4337 smart account</p>}
+              <p className="text-sm text-slate-300">Balance • {balance.eth} {chain.nativeCurrency.symbol}</p>
+              {balance.tokens.map((token) => (
+                <p key={token.address} className="text-sm text-slate-300">
+                  {token.name} • {token.error ? 'unavailable' : `${token.balance} ${token.symbol}`}
+                </p>
+              ))}
               <p className="text-xs text-slate-400">Transactions tracked • {transactionsCount}</p>
+              {accounts.length > 1 && (
+                <p className="text-xs text-slate-400">
+                  Accounts • {accounts.map((account, index) => account.label ?? `Account ${index + 1}`).join(', ')}
+                </p>
+              )}
             </div>
           ) : (
             <Placeholder>Say “create wallet” to get started.</Placeholder>
@@ -403,8 +463,9 @@ function MissionControlGrid({ wallet, balance, network, transactionsCount, topCo
 
         <GlassCard title="Network" caption="Current chain">
           <div className="space-y-2 text-sm text-slate-200">
-            <p className="text-lg font-medium text-white">{network === 'mainnet' ? 'Ethereum Mainnet' : 'Sepolia Testnet'}</p>
-            <p className="text-xs text-slate-400">Switch by saying “switch to mainnet” or “switch to testnet”.</p>
+            <p className="text-lg font-medium text-white">{chain.name}</p>
+            <p className="text-xs text-slate-400">Chain ID {chain.chainId}{chain.testnet ? ' • test network' : ''}</p>
+            <p className="text-xs text-slate-400">Switch by saying “switch to Arbitrum”, “switch to Base” or “switch to testnet”.</p>
           </div>
         </GlassCard>
       </div>
@@ -487,6 +548,9 @@ function SecurityAndHelp() {
         <div className="rounded-2xl bg-white/5 p-4">
           <KeyboardHelp />
         </div>
+        <div className="rounded-2xl bg-white/5 p-4">
+          <SpeechEngineSettings />
+        </div>
       </article>
     </section>
   )
@@ -6,12 +6,13 @@
 'use client'
 
 import React, { useState } from 'react'
-import { useWallet } from '@/store'
+import { useWallet, useWalletStore } from '@/store'
 import { walletService } from '@/services/walletService'
 import { AccessibleText } from './AccessibilityComponents'
 
 export function WalletVerification() {
   const wallet = useWallet()
+  const walletLocked = useWalletStore((state) => state.walletLocked)
   const [verificationResult, setVerificationResult] = useState<{
     isValid: boolean
     details: string[]
@@ -32,12 +33,7 @@ export function WalletVerification() {
       if (isValid) {
         details.push('✅ Wallet basics verified successfully')
         details.push('📍 Wallet address format is correct')
-        details.push(`🔑 Private key length: ${wallet.privateKey.length} characters`)
-        
-        if (wallet.mnemonic) {
-          const wordCount = wallet.mnemonic.split(' ').length
-          details.push(`📝 Mnemonic: ${wordCount} words`)
-        }
+        details.push('🔐 Signing key held in the encrypted keyring')
       } else {
         details.push('❌ Wallet basics verification failed')
       }
@@ -104,12 +100,10 @@ export function WalletVerification() {
             <span className="ml-2">{wallet.isSmartWallet ? 'Smart wallet' : 'EOA wallet'}</span>
           </div>
           
-          {wallet.mnemonic && (
-            <div>
-              <strong>Mnemonic:</strong> 
-              <span className="ml-2">{wallet.mnemonic.split(' ').length} words</span>
-            </div>
-          )}
+          <div>
+            <strong>Keyring:</strong> 
+            <span className="ml-2">{walletLocked ? 'Locked' : 'Unlocked'}</span>
+          </div>
         </div>
       </div>
 
@@ -171,7 +165,7 @@ export function WalletVerification() {
         <AccessibleText text="Verification Notes" level="h4" className="mb-2" />
         <ul className="text-sm space-y-1 text-blue-800">
           <li>• Click "Verify wallet" to run the full verification.</li>
-          <li>• Checks include address format, private key validity, and mnemonic completeness.</li>
+          <li>• Checks include address format and that the signing key is held in the keyring.</li>
           <li>• Network connectivity test ensures blockchain access.</li>
           <li>• See the browser console for detailed logs.</li>
         </ul>
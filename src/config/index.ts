@@ -3,58 +3,85 @@
  * Wallet configuration including network and speech settings.
  */
 
+import { ChainConfig, NativeCurrency, NetworkId, SpeechEngineId } from '@/types'
+
 const INFURA_KEY = process.env.NEXT_PUBLIC_INFURA_KEY || ''
 
-const buildRpcUrl = (network: 'sepolia' | 'mainnet') => {
-  if (INFURA_KEY) {
-    return `https://${network}.infura.io/v3/${INFURA_KEY}`
-  }
+const ZERODEV_PROJECT_ID = process.env.NEXT_PUBLIC_ZERODEV_PROJECT_ID || ''
 
-  return network === 'sepolia'
-    ? 'https://ethereum-sepolia-rpc.publicnode.com'
-    : 'https://cloudflare-eth.com'
-}
+// SimpleAccountFactory (eth-infinitism v0.6) deployed at the same address on every supported chain
+const SIMPLE_ACCOUNT_FACTORY = '0x9406Cc6185a346906296840746125a0E44976454'
 
-export const WALLET_CONFIG = {
-  // ZeroDev configuration
-  ZERODEV_PROJECT_ID: process.env.NEXT_PUBLIC_ZERODEV_PROJECT_ID || '',
-  
-  // Network configuration
-  NETWORKS: {
-    sepolia: {
-      chainId: 11155111,
-      name: 'Sepolia Testnet',
-      rpcUrl: buildRpcUrl('sepolia'),
-      bundlerUrl: `https://rpc.zerodev.app/api/v2/bundler/${process.env.NEXT_PUBLIC_ZERODEV_PROJECT_ID}`,
-      paymasterUrl: `https://rpc.zerodev.app/api/v2/paymaster/${process.env.NEXT_PUBLIC_ZERODEV_PROJECT_ID}`,
-      entryPointAddress: '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
-      explorerUrl: 'https://sepolia.etherscan.io'
-    },
-    mainnet: {
-      chainId: 1,
-      name: 'Ethereum Mainnet',
-      rpcUrl: buildRpcUrl('mainnet'),
-      bundlerUrl: `https://rpc.zerodev.app/api/v2/bundler/${process.env.NEXT_PUBLIC_ZERODEV_PROJECT_ID}`,
-      paymasterUrl: `https://rpc.zerodev.app/api/v2/paymaster/${process.env.NEXT_PUBLIC_ZERODEV_PROJECT_ID}`,
-      entryPointAddress: '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
-      explorerUrl: 'https://etherscan.io'
-    }
-  },
+// Coinbase Smart Wallet factory (EntryPoint v0.6); accepts P-256 passkey owners
+const PASSKEY_ACCOUNT_FACTORY = '0x0BA5ED0c6AA8c49038F819E587E2633c4A9F428a'
+
+const ENTRY_POINT_V06 = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789'
+
+// ENS registry, at the same address on Ethereum and Sepolia
+const ENS_REGISTRY = '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e'
 
-  // Default token list
-  DEFAULT_TOKENS: {
-    sepolia: [
+const ETHER: NativeCurrency = { name: 'Ether', symbol: 'ETH', decimals: 18 }
+
+// Infura first when a key is configured, then the chain's public endpoints
+const buildRpcUrls = (infuraNetwork: string, publicUrls: string[]) =>
+  INFURA_KEY ? [`https://${infuraNetwork}.infura.io/v3/${INFURA_KEY}`, ...publicUrls] : publicUrls
+
+// ZeroDev serves bundler and paymaster for every chain of a project from one URL; none without a project
+const buildZeroDevUrl = (chainId: number) =>
+  ZERODEV_PROJECT_ID ? `https://rpc.zerodev.app/api/v3/${ZERODEV_PROJECT_ID}/chain/${chainId}` : ''
+
+const buildChain = (
+  chain: Omit<ChainConfig, 'bundlerUrl' | 'paymasterUrl' | 'entryPointAddress' | 'factoryAddress' | 'passkeyFactoryAddress'>
+): ChainConfig => ({
+  bundlerUrl: buildZeroDevUrl(chain.chainId),
+  paymasterUrl: buildZeroDevUrl(chain.chainId),
+  entryPointAddress: ENTRY_POINT_V06,
+  factoryAddress: SIMPLE_ACCOUNT_FACTORY,
+  passkeyFactoryAddress: PASSKEY_ACCOUNT_FACTORY,
+  ...chain
+})
+
+// Chain registry: the single list of networks the wallet, store and voice commands know about
+const NETWORKS: Record<NetworkId, ChainConfig> = {
+  sepolia: buildChain({
+    id: 'sepolia',
+    chainId: 11155111,
+    name: 'Sepolia Testnet',
+    spokenNames: ['sepolia', 'testnet', 'test net'],
+    testnet: true,
+    blockTime: 12,
+    nativeCurrency: ETHER,
+    rpcUrls: buildRpcUrls('sepolia', [
+      'https://ethereum-sepolia-rpc.publicnode.com', 'https://rpc.sepolia.org', 'https://sepolia.drpc.org'
+    ]),
+    explorerUrl: 'https://sepolia.etherscan.io',
+    ensRegistry: ENS_REGISTRY,
+    tokens: [
       {
         symbol: 'USDC',
         address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
         name: 'USD Coin',
         decimals: 6
       }
-    ],
-    mainnet: [
+    ]
+  }),
+  mainnet: buildChain({
+    id: 'mainnet',
+    chainId: 1,
+    name: 'Ethereum Mainnet',
+    spokenNames: ['mainnet', 'main net', 'ethereum', 'eth'],
+    testnet: false,
+    blockTime: 12,
+    nativeCurrency: ETHER,
+    rpcUrls: buildRpcUrls('mainnet', [
+      'https://cloudflare-eth.com', 'https://ethereum-rpc.publicnode.com', 'https://eth.drpc.org'
+    ]),
+    explorerUrl: 'https://etherscan.io',
+    ensRegistry: ENS_REGISTRY,
+    tokens: [
       {
         symbol: 'USDC',
-        address: '0xA0b86a33E6575d7eBeA5Ae8C48Fd0e4E0C0C1b9a',
+        address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
         name: 'USD Coin',
         decimals: 6
       },
@@ -65,6 +92,226 @@ export const WALLET_CONFIG = {
         decimals: 6
       }
     ]
+  }),
+  arbitrum: buildChain({
+    id: 'arbitrum',
+    chainId: 42161,
+    name: 'Arbitrum One',
+    spokenNames: ['arbitrum'],
+    testnet: false,
+    blockTime: 0.25,
+    nativeCurrency: ETHER,
+    rpcUrls: buildRpcUrls('arbitrum-mainnet', [
+      'https://arb1.arbitrum.io/rpc', 'https://arbitrum-one-rpc.publicnode.com', 'https://arbitrum.drpc.org'
+    ]),
+    explorerUrl: 'https://arbiscan.io',
+    ensNetwork: 'mainnet',
+    tokens: [
+      {
+        symbol: 'USDC',
+        address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+        name: 'USD Coin',
+        decimals: 6
+      },
+      {
+        symbol: 'USDT',
+        address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+        name: 'Tether USD',
+        decimals: 6
+      }
+    ]
+  }),
+  optimism: buildChain({
+    id: 'optimism',
+    chainId: 10,
+    name: 'OP Mainnet',
+    spokenNames: ['optimism', 'op mainnet', 'o p'],
+    testnet: false,
+    blockTime: 2,
+    nativeCurrency: ETHER,
+    rpcUrls: buildRpcUrls('optimism-mainnet', [
+      'https://mainnet.optimism.io', 'https://optimism-rpc.publicnode.com', 'https://optimism.drpc.org'
+    ]),
+    explorerUrl: 'https://optimistic.etherscan.io',
+    ensNetwork: 'mainnet',
+    tokens: [
+      {
+        symbol: 'USDC',
+        address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+        name: 'USD Coin',
+        decimals: 6
+      },
+      {
+        symbol: 'USDT',
+        address: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58',
+        name: 'Tether USD',
+        decimals: 6
+      }
+    ]
+  }),
+  base: buildChain({
+    id: 'base',
+    chainId: 8453,
+    name: 'Base',
+    spokenNames: ['base'],
+    testnet: false,
+    blockTime: 2,
+    nativeCurrency: ETHER,
+    rpcUrls: buildRpcUrls('base-mainnet', [
+      'https://mainnet.base.org', 'https://base-rpc.publicnode.com', 'https://base.drpc.org'
+    ]),
+    explorerUrl: 'https://basescan.org',
+    ensNetwork: 'mainnet',
+    tokens: [
+      {
+        symbol: 'USDC',
+        address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+        name: 'USD Coin',
+        decimals: 6
+      }
+    ]
+  }),
+  polygon: buildChain({
+    id: 'polygon',
+    chainId: 137,
+    name: 'Polygon',
+    spokenNames: ['polygon', 'matic', 'pol'],
+    testnet: false,
+    blockTime: 2,
+    nativeCurrency: { name: 'Polygon Ecosystem Token', symbol: 'POL', decimals: 18 },
+    rpcUrls: buildRpcUrls('polygon-mainnet', [
+      'https://polygon-rpc.com', 'https://polygon-bor-rpc.publicnode.com', 'https://polygon.drpc.org'
+    ]),
+    explorerUrl: 'https://polygonscan.com',
+    ensNetwork: 'mainnet',
+    tokens: [
+      {
+        symbol: 'USDC',
+        address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+        name: 'USD Coin',
+        decimals: 6
+      },
+      {
+        symbol: 'USDT',
+        address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+        name: 'Tether USD',
+        decimals: 6
+      }
+    ]
+  }),
+  // Local Anvil or Hardhat node; the 4337 contracts must be deployed at their canonical addresses
+  devnet: {
+    id: 'devnet',
+    chainId: 31337,
+    name: 'Local Devnet',
+    spokenNames: ['devnet', 'dev net', 'local network', 'localhost', 'anvil', 'hardhat'],
+    testnet: true,
+    blockTime: 1,
+    nativeCurrency: ETHER,
+    rpcUrls: [process.env.NEXT_PUBLIC_DEVNET_RPC_URL || 'http://127.0.0.1:8545'],
+    bundlerUrl: process.env.NEXT_PUBLIC_DEVNET_BUNDLER_URL || 'http://127.0.0.1:4337',
+    paymasterUrl: process.env.NEXT_PUBLIC_DEVNET_BUNDLER_URL || 'http://127.0.0.1:4337',
+    entryPointAddress: ENTRY_POINT_V06,
+    factoryAddress: SIMPLE_ACCOUNT_FACTORY,
+    passkeyFactoryAddress: PASSKEY_ACCOUNT_FACTORY,
+    tokens: [],
+    // Registry of a locally deployed ENS, for testing name resolution
+    ensRegistry: process.env.NEXT_PUBLIC_DEVNET_ENS_REGISTRY || undefined
+  }
+}
+
+export const DEFAULT_NETWORK: NetworkId = 'sepolia'
+
+// Speech engines offered in settings, the default first
+export const SPEECH_ENGINE_IDS: SpeechEngineId[] = ['web-speech', 'local']
+
+export const WALLET_CONFIG = {
+  // ZeroDev configuration
+  ZERODEV_PROJECT_ID,
+  
+  // Network configuration
+  NETWORKS,
+
+  // ERC-4337 account abstraction configuration
+  ACCOUNT_ABSTRACTION: {
+    ENABLED: process.env.NEXT_PUBLIC_AA_ENABLED !== 'false',
+    // The in-memory mock bundler reports every UserOperation as included, so it is only used when asked for
+    USE_MOCK_BUNDLER: process.env.NEXT_PUBLIC_USE_MOCK_BUNDLER === 'true',
+    // Ask the paymaster to cover gas before falling back to user-paid fees
+    PAYMASTER_ENABLED: process.env.NEXT_PUBLIC_PAYMASTER_ENABLED !== 'false',
+    USE_MOCK_PAYMASTER: process.env.NEXT_PUBLIC_USE_MOCK_PAYMASTER === 'true',
+    MOCK_PAYMASTER_URL: '/api/mock-paymaster'
+  },
+
+  // BIP-44 accounts derived from one recovery phrase (index appended to BASE_PATH)
+  HD_ACCOUNTS: {
+    BASE_PATH: "m/44'/60'/0'/0",
+    DEFAULT_LABELS: ['Main', 'Savings', 'Spending']
+  },
+
+  // RPC endpoint pool: per-request timeout, passes over all endpoints, and backoff in ms
+  RPC_POOL: {
+    REQUEST_TIMEOUT: 8000,
+    MAX_ROUNDS: 3,
+    BASE_BACKOFF: 500,
+    MAX_BACKOFF: 30000,
+    HEALTH_CHECK_INTERVAL: 60000
+  },
+
+  // EIP-1559 fee tiers: priority fee percentile over recent blocks, headroom above the
+  // next base fee, and blocks to wait for inclusion
+  FEES: {
+    HISTORY_BLOCKS: 10,
+    TIERS: {
+      slow: { PERCENTILE: 10, BASE_FEE_MULTIPLIER: 1.125, WAIT_BLOCKS: 6 },
+      normal: { PERCENTILE: 50, BASE_FEE_MULTIPLIER: 1.5, WAIT_BLOCKS: 3 },
+      fast: { PERCENTILE: 90, BASE_FEE_MULTIPLIER: 2, WAIT_BLOCKS: 1 }
+    },
+    // Nodes and bundlers only accept a replacement paying at least 10% more on both fees
+    REPLACEMENT_MULTIPLIER: 1.125
+  },
+
+  // Transaction history. The indexer speaks the Etherscan API (Etherscan v2, Blockscout,
+  // or the local stand-in); without one, history comes from scanning the chain: ERC-20
+  // Transfer logs over SCAN_BLOCKS and full blocks for native transfers over NATIVE_SCAN_BLOCKS
+  HISTORY: {
+    INDEXER_URL: process.env.NEXT_PUBLIC_USE_MOCK_INDEXER === 'true'
+      ? '/api/mock-indexer'
+      : process.env.NEXT_PUBLIC_INDEXER_URL || (process.env.NEXT_PUBLIC_INDEXER_API_KEY ? 'https://api.etherscan.io/v2/api' : ''),
+    INDEXER_API_KEY: process.env.NEXT_PUBLIC_INDEXER_API_KEY || '',
+    SCAN_BLOCKS: 10000,
+    NATIVE_SCAN_BLOCKS: 200,
+    // Many public RPCs cap eth_getLogs ranges
+    LOG_CHUNK_BLOCKS: 2000,
+    // Oldest entries beyond this are dropped from the saved history
+    MAX_TRANSACTIONS: 1000,
+    // The active account is re-synced this often (ms) to catch incoming payments
+    POLL_INTERVAL: 15000
+  },
+
+  // ENS forward and reverse lookups are reused for CACHE_TTL ms
+  ENS: {
+    CACHE_TTL: 10 * 60 * 1000
+  },
+
+  // Pending transactions are re-checked every POLL_INTERVAL ms; one the network has not
+  // seen for DROP_AFTER ms, with its nonce still unused, is reported as dropped
+  TRANSACTION_WATCHER: {
+    POLL_INTERVAL: 4000,
+    DROP_AFTER: 30 * 60 * 1000
+  },
+
+  // Recovery phrase dictation: words per spoken group and retries per group
+  MNEMONIC_DICTATION: {
+    GROUP_SIZE: 4,
+    MAX_ATTEMPTS: 3
+  },
+
+  // Voice dialogs: milliseconds to wait for an answer once a question has been spoken,
+  // and missing or unclear answers allowed before the dialog gives up
+  DIALOG: {
+    ANSWER_TIMEOUT: 15000,
+    RETRIES: 2
   },
 
   // Speech recognition configuration
@@ -73,9 +320,20 @@ export const WALLET_CONFIG = {
     DEFAULT_LANGUAGE: 'en-US',
     CONFIDENCE_THRESHOLD: 0.7,
     MAX_ALTERNATIVES: 3,
+    // Two readings that mean different things and score closer than this are asked about
+    AMBIGUITY_MARGIN: 0.1,
     CONTINUOUS_MODE: true
   },
 
+  // On-device recognition with vosk-browser (WebAssembly). The script and the model are
+  // served by the app itself, so neither audio nor transcripts leave the device.
+  LOCAL_SPEECH: {
+    SCRIPT_URL: process.env.NEXT_PUBLIC_LOCAL_SPEECH_SCRIPT_URL || '/speech/vosk.js',
+    MODEL_URL: process.env.NEXT_PUBLIC_LOCAL_SPEECH_MODEL_URL || '/speech/vosk-model-small-en-us-0.15.tar.gz',
+    // Milliseconds to wait for speech before giving up, as the browser recognizer does
+    NO_SPEECH_TIMEOUT: 8000
+  },
+
   // Accessibility configuration
   ACCESSIBILITY: {
     ANNOUNCE_ACTIONS: true,
@@ -98,6 +356,35 @@ export const WALLET_CONFIG = {
   }
 }
 
+export function isNetworkId(value: unknown): value is NetworkId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(NETWORKS, value)
+}
+
+export function isSpeechEngineId(value: unknown): value is SpeechEngineId {
+  return SPEECH_ENGINE_IDS.includes(value as SpeechEngineId)
+}
+
+// A network name followed by these is an ordinary word, as in "base fee"
+const NOT_A_NETWORK_NAME = '(?!\\s+(?:fees?|gas|price)\\b)'
+
+/**
+ * Find the chain named in a transcript by whole words. The longest name heard wins, and
+ * Ethereum's names count only when no other chain is named, so "op mainnet" resolves to
+ * the L2 and "ethereum sepolia" to the testnet.
+ */
+export function findNetworkByName(text: string): ChainConfig | undefined {
+  const spoken = text.toLowerCase()
+  let found: { chain: ChainConfig; specificity: number } | undefined
+  for (const chain of Object.values(NETWORKS)) {
+    for (const name of chain.spokenNames) {
+      if (!new RegExp(`\\b${name}\\b${NOT_A_NETWORK_NAME}`).test(spoken)) continue
+      const specificity = chain.id === 'mainnet' ? 0 : name.length
+      if (!found || specificity > found.specificity) found = { chain, specificity }
+    }
+  }
+  return found?.chain
+}
+
 // Voice command templates
 export const VOICE_COMMANDS = {
   CREATE_WALLET: [
@@ -139,10 +426,23 @@ export const VOICE_COMMANDS = {
 export const TTS_TEMPLATES = {
   WALLET_CREATED: 'Wallet created successfully. Your address is {address}',
   BALANCE_RESULT: 'Your {token} balance is {amount}',
+  BALANCE_RESULT_NAMED: 'The {token} balance of {account} is {amount}',
+  BALANCE_UNREADABLE: 'I could not read your {token} balance',
   TRANSFER_CONFIRM: 'Please confirm the transfer: send {amount} {token} to address {to}',
-  TRANSFER_SUCCESS: 'Transfer submitted successfully. Waiting for network confirmation.',
+  TRANSFER_SUCCESS: 'Transfer submitted successfully. I will tell you when the network confirms it.',
   TRANSFER_FAILED: 'Transfer failed: {error}',
+  GAS_SPONSORED: 'Network fees for this transfer are sponsored. You pay no gas.',
+  GAS_SPONSORSHIP_REFUSED: 'Gas sponsorship is not available for this transfer, so you will pay the network fee.',
   WAITING_FOR_COMMAND: 'Please say your command.',
   COMMAND_NOT_RECOGNIZED: 'Sorry, I did not understand your command. Please try again.',
-  PROCESSING: 'Processing your request, please wait...'
+  PROCESSING: 'Processing your request, please wait...',
+  NETWORK_UNAVAILABLE: 'I cannot reach {network} right now, so I cannot read your balance. Please try again in a moment.',
+  TRANSACTION_CONFIRMED: 'Your {transfer} is confirmed.',
+  TRANSACTION_FAILED: 'Your {transfer} failed: {reason}.',
+  TRANSACTION_CANCELLED: 'Your {transfer} was cancelled. Only the network fee was spent.',
+  TRANSACTION_REPLACED: 'Your {transfer} was replaced by another transaction from your account and will not go through.',
+  TRANSACTION_DROPPED: 'Your {transfer} was dropped by the network and will not go through. No funds were sent.',
+  PAYMENT_RECEIVED: 'You received {amount} {token} from {sender}.',
+  SPEECH_NOT_CAUGHT: "Sorry, I didn't catch that.",
+  CLARIFY_CHOICE: 'Did you mean {first} or {second}?'
 }
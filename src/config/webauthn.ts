@@ -43,7 +43,17 @@ export const WEBAUTHN_CONFIG = {
   STORAGE_KEYS: {
     CREDENTIALS: 'echo_wallet_credentials',
     LAST_USED: 'echo_wallet_last_used',
-    USER_PREFERENCES: 'echo_wallet_webauthn_prefs'
+    USER_PREFERENCES: 'echo_wallet_webauthn_prefs',
+    PASSKEY_SIGNERS: 'echo_wallet_passkey_signers'
+  },
+
+  // Mnemonic encryption (AES-GCM key derived from the PRF extension or a passphrase)
+  ENCRYPTION: {
+    VERSION: 2,
+    SALT_LENGTH: 32,
+    IV_LENGTH: 12,
+    HKDF_INFO: 'echo-wallet/mnemonic/v2',
+    PBKDF2_ITERATIONS: 310000
   },
 
   // Challenge byte length
@@ -60,6 +70,10 @@ export const WEBAUTHN_CONFIG = {
     REGISTRATION_FAILED: 'Biometric registration failed.',
     CREDENTIAL_NOT_FOUND: 'Stored wallet credential not found.',
     DECRYPTION_FAILED: 'Failed to decrypt wallet data.',
+    PASSPHRASE_REQUIRED: 'This device cannot derive an encryption key from biometrics. A passphrase is required.',
+    VERIFICATION_FAILED: 'The authenticator response could not be verified.',
+    CLONED_AUTHENTICATOR: 'This authenticator may have been cloned. Access was refused.',
+    REREGISTRATION_REQUIRED: 'This wallet was saved before its biometric key could be checked, so it cannot be restored with biometrics. Please restore it from its recovery phrase.',
     UNKNOWN_ERROR: 'An unknown error occurred.'
   } satisfies Record<string, string>,
 
@@ -116,6 +130,13 @@ export function base64ToUint8Array(base64: string): Uint8Array {
   return new Uint8Array(atob(base64).split('').map(c => c.charCodeAt(0)))
 }
 
+/**
+ * Convert Base64 to Base64URL (used for PRF evalByCredential keys)
+ */
+export function base64ToBase64Url(base64: string): string {
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
 /**
  * Resolve the relying party ID based on runtime context.
  * - Uses the browser's hostname when available.
@@ -135,6 +156,16 @@ export function resolveRelyingPartyId(): string {
   return envId || WEBAUTHN_CONFIG.RP.defaultId
 }
 
+/**
+ * Origin that client data must report (the page origin in the browser).
+ */
+export function resolveExpectedOrigin(): string {
+  if (typeof window !== 'undefined' && window.location?.origin) {
+    return window.location.origin
+  }
+  return `https://${resolveRelyingPartyId()}`
+}
+
 /**
  * Build the relying party entity for WebAuthn requests.
  */
@@ -0,0 +1,170 @@
+/**
+ * Echo Wallet - ERC-4337 bundler clients
+ * Sends signed UserOperations to a bundler over JSON-RPC, or to the local mock bundler.
+ */
+
+import { ethers } from 'ethers'
+import { UserOperation, UserOperationReceipt } from '@/types'
+
+export interface UserOperationGasEstimate {
+  callGasLimit: string
+  verificationGasLimit: string
+  preVerificationGas: string
+}
+
+/**
+ * Minimal bundler API used by the wallet service.
+ */
+export interface BundlerClient {
+  sendUserOperation(userOp: UserOperation): Promise<string>
+  estimateUserOperationGas(userOp: UserOperation): Promise<UserOperationGasEstimate>
+  getUserOperationReceipt(userOpHash: string): Promise<UserOperationReceipt | null>
+}
+
+/**
+ * Compute the ERC-4337 v0.6 userOpHash (same value as EntryPoint.getUserOpHash).
+ */
+export function computeUserOpHash(userOp: UserOperation, entryPointAddress: string, chainId: number): string {
+  const packed = ethers.utils.defaultAbiCoder.encode(
+    ['address', 'uint256', 'bytes32', 'bytes32', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'bytes32'],
+    [
+      userOp.sender,
+      userOp.nonce,
+      ethers.utils.keccak256(userOp.initCode),
+      ethers.utils.keccak256(userOp.callData),
+      userOp.callGasLimit,
+      userOp.verificationGasLimit,
+      userOp.preVerificationGas,
+      userOp.maxFeePerGas,
+      userOp.maxPriorityFeePerGas,
+      ethers.utils.keccak256(userOp.paymasterAndData)
+    ]
+  )
+
+  return ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(
+      ['bytes32', 'address', 'uint256'],
+      [ethers.utils.keccak256(packed), entryPointAddress, chainId]
+    )
+  )
+}
+
+/**
+ * JSON-RPC bundler client (ZeroDev, Pimlico, Stackup...).
+ */
+export class HttpBundlerClient implements BundlerClient {
+  private requestId = 0
+
+  constructor(
+    private readonly bundlerUrl: string,
+    private readonly entryPointAddress: string
+  ) {}
+
+  async sendUserOperation(userOp: UserOperation): Promise<string> {
+    return await this.request<string>('eth_sendUserOperation', [userOp, this.entryPointAddress])
+  }
+
+  async estimateUserOperationGas(userOp: UserOperation): Promise<UserOperationGasEstimate> {
+    const estimate = await this.request<Record<string, string | number>>(
+      'eth_estimateUserOperationGas',
+      [userOp, this.entryPointAddress]
+    )
+
+    return {
+      callGasLimit: ethers.BigNumber.from(estimate.callGasLimit).toHexString(),
+      // Older bundlers still return "verificationGas"
+      verificationGasLimit: ethers.BigNumber.from(estimate.verificationGasLimit ?? estimate.verificationGas).toHexString(),
+      preVerificationGas: ethers.BigNumber.from(estimate.preVerificationGas).toHexString()
+    }
+  }
+
+  async getUserOperationReceipt(userOpHash: string): Promise<UserOperationReceipt | null> {
+    const receipt = await this.request<any>('eth_getUserOperationReceipt', [userOpHash])
+    if (!receipt) return null
+
+    return {
+      userOpHash,
+      transactionHash: receipt.receipt?.transactionHash ?? '',
+      success: receipt.success,
+      actualGasUsed: receipt.actualGasUsed ? ethers.BigNumber.from(receipt.actualGasUsed).toString() : undefined,
+      blockNumber: receipt.receipt?.blockNumber ? ethers.BigNumber.from(receipt.receipt.blockNumber).toNumber() : undefined,
+      reason: receipt.reason || undefined
+    }
+  }
+
+  private async request<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await fetch(this.bundlerUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Bundler request failed with HTTP ${response.status}`)
+    }
+
+    const payload = await response.json()
+    if (payload.error) {
+      throw new Error(payload.error.message || `Bundler rejected ${method}`)
+    }
+
+    return payload.result as T
+  }
+}
+
+/**
+ * In-memory bundler for offline development and tests.
+ * Accepts every well-formed UserOperation and reports it as included right away.
+ */
+export class MockBundlerClient implements BundlerClient {
+  private readonly operations = new Map<string, UserOperation>()
+
+  constructor(
+    private readonly entryPointAddress: string,
+    private readonly chainId: number
+  ) {}
+
+  async sendUserOperation(userOp: UserOperation): Promise<string> {
+    if (!ethers.utils.isAddress(userOp.sender)) {
+      throw new Error('Mock bundler: invalid sender')
+    }
+    if (!userOp.signature || userOp.signature === '0x') {
+      throw new Error('Mock bundler: missing signature')
+    }
+
+    const userOpHash = computeUserOpHash(userOp, this.entryPointAddress, this.chainId)
+    this.operations.set(userOpHash, userOp)
+    console.log('🧪 Mock bundler accepted UserOperation:', userOpHash)
+
+    return userOpHash
+  }
+
+  async estimateUserOperationGas(userOp: UserOperation): Promise<UserOperationGasEstimate> {
+    const deploying = userOp.initCode && userOp.initCode !== '0x'
+
+    return {
+      callGasLimit: ethers.BigNumber.from(100000).toHexString(),
+      verificationGasLimit: ethers.BigNumber.from(deploying ? 400000 : 100000).toHexString(),
+      preVerificationGas: ethers.BigNumber.from(50000).toHexString()
+    }
+  }
+
+  async getUserOperationReceipt(userOpHash: string): Promise<UserOperationReceipt | null> {
+    if (!this.operations.has(userOpHash)) return null
+
+    return {
+      userOpHash,
+      // Deterministic pseudo transaction hash so repeated lookups agree
+      transactionHash: ethers.utils.keccak256(userOpHash),
+      success: true,
+      actualGasUsed: '150000'
+    }
+  }
+
+  /**
+   * UserOperations received so far (test inspection helper).
+   */
+  getSubmittedOperations(): UserOperation[] {
+    return Array.from(this.operations.values())
+  }
+}
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { Transaction, WalletAccount } from '@/types'
+import { useWalletStore } from '@/store'
+import { ScriptedSpeechEngine } from './scriptedSpeechEngine'
+import { voiceService } from './voiceService'
+import { commandService } from './commandService'
+
+// The chain side of the wallet; the command service only decides what to ask it
+const chain = vi.hoisted(() => ({
+  replaceTransaction: vi.fn(async () => ({ hash: `0x${'02'.repeat(32)}`, nonce: 7 }))
+}))
+
+vi.mock('./walletService', () => ({
+  walletService: {
+    getAccountAddress: (wallet: WalletAccount) => wallet.address,
+    getCurrentNetwork: () => ({ chainId: 1, name: 'Ethereum' }),
+    checkTransaction: async () => null,
+    replaceTransaction: chain.replaceTransaction
+  },
+  TransactionNotPendingError: class extends Error {},
+  BundlerUnavailableError: class extends Error {},
+  SponsorshipRefusedError: class extends Error {}
+}))
+
+vi.mock('./keyringService', () => ({
+  keyringService: {
+    onLockChange: () => {},
+    hasAccount: () => true,
+    isLocked: () => false
+  }
+}))
+
+vi.mock('./transactionWatcher', () => ({
+  transactionWatcher: { start: () => {}, describe: () => 'transfer of 1 ETH' }
+}))
+vi.mock('./historySyncService', () => ({ historySyncService: { start: () => {} } }))
+vi.mock('./incomingPaymentService', () => ({ incomingPaymentService: { start: () => {} } }))
+
+const ACCOUNT = '0x1111111111111111111111111111111111111111'
+
+const wallet: WalletAccount = { address: ACCOUNT, isSmartWallet: false }
+
+const pending: Transaction = {
+  hash: `0x${'01'.repeat(32)}`,
+  chainId: 1,
+  from: ACCOUNT,
+  to: '0x2222222222222222222222222222222222222222',
+  value: '1',
+  nonce: 7,
+  timestamp: Date.now(),
+  status: 'pending'
+}
+
+describe('commandService', () => {
+  let engine: ScriptedSpeechEngine
+
+  beforeEach(() => {
+    engine = new ScriptedSpeechEngine()
+    voiceService.useEngine(engine)
+    chain.replaceTransaction.mockClear()
+    useWalletStore.setState({ wallet, transactions: [pending] })
+  })
+
+  describe('replacing a pending transaction', () => {
+    const speedUp = (): Promise<void> => (commandService as any).handleReplaceTransaction('speed_up')
+
+    it('resends it once the user agrees', async () => {
+      engine.say('yes')
+      await speedUp()
+
+      expect(chain.replaceTransaction).toHaveBeenCalledWith(pending, ACCOUNT, 'speed_up')
+      expect(useWalletStore.getState().transactions.find((tx) => tx.hash === pending.hash)?.status).toBe('replaced')
+    })
+
+    it('leaves it alone on a negated answer that mentions confirm', async () => {
+      engine.say("no, don't confirm")
+      await speedUp()
+
+      expect(chain.replaceTransaction).not.toHaveBeenCalled()
+      expect(engine.spoken).toContain('Transaction left unchanged.')
+      expect(useWalletStore.getState().transactions).toEqual([pending])
+    })
+  })
+
+  it('asks for a wallet before a complete transfer command', async () => {
+    useWalletStore.setState({ wallet: null })
+
+    await (commandService as any).handleCompleteTransferCommand({
+      amount: '1',
+      token: 'eth',
+      recipient: { type: 'ens', value: 'alice.eth' },
+      isComplete: true
+    })
+
+    expect(engine.spoken).toEqual(['Please create or import a wallet first.'])
+    expect(useWalletStore.getState().transfer.isActive).toBe(false)
+  })
+})
@@ -3,20 +3,100 @@
  * Coordinates speech recognition with wallet operations.
  */
 
-import { VoiceCommand, TransferRequest, TokenBalance } from '@/types'
+import { VoiceCommand, VoiceCommandSlots, NetworkId, TransferRequest, TransferState, WalletAccount, FeeTier, FeeEstimate, ReplacementKind } from '@/types'
 import { voiceService } from './voiceService'
-import { walletService } from './walletService'
+import { walletService, TransactionNotPendingError, BundlerUnavailableError, SponsorshipRefusedError } from './walletService'
 import { useWalletStore } from '@/store'
 import { contactsService } from './contactsService'
+import { keyringService } from './keyringService'
+import { NetworkUnavailableError } from './rpcPool'
+import { transactionWatcher } from './transactionWatcher'
+import { ensService, EnsNotSupportedError } from './ensService'
+import { historySyncService } from './historySyncService'
+import { historyQueryService } from './historyQueryService'
+import { incomingPaymentService } from './incomingPaymentService'
 import { VoiceRecognitionOptimizer } from './voiceOptimizer'
+import { MnemonicRecognizer } from './mnemonicRecognizer'
+import { IntentParser } from './intentParser'
+import { dialogEngine, DialogFlow, DialogTransition, DIALOG_CANCEL } from './dialogEngine'
+import { WALLET_CONFIG, TTS_TEMPLATES } from '@/config'
+
+// Steps of the guided transfer, one dialog state each
+type TransferStep = Exclude<TransferState['step'], 'idle'>
+
+type MnemonicStep = 'length' | 'words' | 'check' | 'fix'
+
+// Recovery phrase dictation in progress
+interface MnemonicDictation {
+  wordCount: number
+  // Confirmed word groups
+  groups: string[][]
+  // Index of the group being dictated
+  group: number
+  // Words heard for that group, awaiting a yes
+  heard: string[]
+  // Redoing a group after a checksum mismatch
+  fixing: boolean
+  checksumMismatches: number
+}
+
+// Contacts read aloud a page at a time
+interface ContactListing {
+  entries: string[]
+  page: number
+}
+
+const CONTACTS_PER_PAGE = 5
 
 class CommandService {
   private isProcessing = false
+  // Fee estimates for the transfer awaiting confirmation, one per tier
+  private transferFees: Record<FeeTier, FeeEstimate> | null = null
+  // Whether the paymaster said it would cover that transfer's gas; unset when none was asked
+  private transferSponsored: boolean | undefined
+
+  constructor() {
+    // Mirror the keyring lock state into the store and announce auto-lock
+    keyringService.onLockChange((locked) => {
+      const { wallet, setWalletLocked } = useWalletStore.getState()
+      setWalletLocked(locked)
+      if (locked && wallet) {
+        voiceService.speak('Your wallet has been locked for your security. It will ask you to unlock before the next transfer.', { priority: 'urgent' })
+      }
+    })
+
+    // Announce pending transfers as they confirm, fail or drop
+    transactionWatcher.start()
+    // Announce payments that later history syncs find
+    incomingPaymentService.start()
+    // Pull past transfers, including incoming ones, into the saved history
+    historySyncService.start()
+  }
 
   /**
-   * Start voice listening.
+   * Start voice listening when the user presses the voice key.
    */
   startListening() {
+    // Barge-in: the key stops whatever is being said
+    const wasSpeaking = voiceService.isSpeaking()
+    voiceService.interrupt()
+
+    // A dialog in progress listens for the answer itself. Once its question is cut off it
+    // is already listening; otherwise the question is asked again.
+    if (dialogEngine.isActive()) {
+      if (!wasSpeaking && !dialogEngine.repeat()) {
+        voiceService.speak('The system is processing. Please wait a moment.')
+      }
+      return
+    }
+
+    this.listenForCommand()
+  }
+
+  /**
+   * Ask for a command and listen once the question has been spoken
+   */
+  private listenForCommand() {
     const { setVoiceState } = useWalletStore.getState()
     
     if (this.isProcessing) {
@@ -32,11 +112,11 @@ class CommandService {
       (error) => {
         setVoiceState({ isListening: false, error })
         
-        // Handle "no speech" errors gracefully by restarting the listener
-        if (error.includes('No speech detected')) {
+        // Handle "no speech" and unclear speech gracefully by restarting the listener
+        if (voiceService.isRetryableError(error)) {
           setTimeout(() => {
             if (!this.isProcessing) {
-              this.startListening()
+              this.listenForCommand()
             }
           }, 2000)
         } else {
@@ -47,10 +127,11 @@ class CommandService {
   }
 
   /**
-   * Stop voice listening.
+   * Stop voice listening, ending any dialog in progress.
    */
   stopListening() {
     const { setVoiceState } = useWalletStore.getState()
+    dialogEngine.cancel()
     voiceService.stopListening()
     setVoiceState({ isListening: false })
   }
@@ -59,16 +140,15 @@ class CommandService {
    * Handle recognized voice command.
    */
   private async handleCommand(command: VoiceCommand) {
-    const { setVoiceState, setLoading, setError, transfer } = useWalletStore.getState()
-    const parameterText = this.getParameterString(command.parameters, 'text')
-    const isCompleteTransfer = this.getParameterBoolean(command.parameters, 'isComplete')
+    const { setVoiceState, setLoading, setError } = useWalletStore.getState()
+    const slots = command.slots ?? {}
 
     try {
       this.isProcessing = true
       setVoiceState({ isProcessing: true, lastCommand: command })
       setLoading(true)
 
-      voiceService.speak('Processing your request...')
+      voiceService.speak('Processing your request...', { priority: 'chatter' })
 
       switch (command.type) {
         case 'create_wallet':
@@ -78,58 +158,107 @@ class CommandService {
         case 'import_wallet':
           await this.handleImportWallet()
           break
+
+        case 'import_mnemonic':
+          await this.handleImportMnemonic()
+          break
+
+        case 'create_passkey_wallet':
+          await this.handleCreatePasskeyWallet()
+          break
+
+        case 'restore_passkey_wallet':
+          await this.handleRestorePasskeyWallet()
+          break
+
+        case 'list_wallets':
+          this.handleListWallets()
+          break
+
+        case 'switch_wallet':
+          await this.handleSwitchWallet(slots.name ?? '')
+          break
+
+        case 'rename_wallet':
+          this.handleRenameWallet(slots.name)
+          break
+
+        case 'remove_wallet':
+          await this.handleRemoveWallet(slots.name)
+          break
+
+        case 'list_accounts':
+          this.handleListAccounts()
+          break
+
+        case 'switch_account':
+          await this.handleSwitchAccount(slots.name ?? '')
+          break
+
+        case 'add_account':
+          await this.handleAddAccount(slots.name)
+          break
         
         case 'balance':
           await this.handleCheckBalance()
           break
         
         case 'transfer':
-          // Check whether a transfer flow is already active
-          if (transfer.isActive) {
-            await this.handleTransferStepInput(parameterText ?? '')
+          // Determine whether the command already includes full transfer details
+          if (slots.isComplete) {
+            // For complete transfer commands, go straight to the confirmation
+            await this.handleCompleteTransferCommand(slots)
           } else {
-            // Determine whether the command already includes full transfer details
-            if (isCompleteTransfer) {
-              // For complete transfer commands, use the optimized flow
-              await this.handleCompleteTransferCommand(command.parameters)
-            } else {
-              // For partial commands (e.g., just "transfer"), start the guided flow
-              await this.startStepByStepTransferFlow()
-            }
+            // For partial commands (e.g., just "transfer"), start the guided flow
+            await this.startStepByStepTransferFlow()
           }
           break
 
         case 'contacts':
-          await this.handleContactCommand(parameterText ?? '')
+          await this.handleContactCommand(slots.text ?? '')
           break
 
         case 'read_address':
           await this.handleReadAddress()
           break
 
-        case 'text_input':
-          // Handle text input during the transfer flow
-          if (transfer.isActive) {
-            await this.handleTransferStepInput(parameterText ?? '')
-          } else {
-            voiceService.speak('Sorry, I did not understand that command.')
+        case 'lock_wallet':
+          keyringService.lock()
+          voiceService.speak('Wallet locked.')
+          break
+
+        case 'unlock_wallet':
+          if (await this.ensureUnlocked()) {
+            voiceService.speak('Wallet unlocked.')
           }
           break
 
+        case 'set_passphrase':
+          await this.handleSetPassphrase()
+          break
+
+        case 'unknown':
+          this.handleUnknownCommand(slots)
+          break
+
         case 'switch_network':
-          const rawText = (parameterText ?? '').toLowerCase()
-          let targetNetwork: 'mainnet' | 'sepolia' = 'sepolia'
-          if (rawText.includes('mainnet')) {
-            targetNetwork = 'mainnet'
-          } else if (rawText.includes('sepolia') || rawText.includes('testnet')) {
-            targetNetwork = 'sepolia'
-          }
-          await walletService.switchNetwork(targetNetwork)
-          voiceService.speak(`Switched to ${targetNetwork === 'mainnet' ? 'mainnet' : 'testnet'}`)
+          await this.handleSwitchNetwork(slots.network)
           break
         
         case 'transaction_status':
-          await this.handleTransactionStatus(this.getParameterString(command.parameters, 'hash'))
+          await this.handleTransactionStatus(slots.hash)
+          break
+
+        case 'history_query':
+          await this.handleHistoryQuery(slots.text ?? '')
+          break
+
+        case 'speed_up_transaction':
+          await this.handleReplaceTransaction('speed_up')
+          break
+
+        case 'cancel_transaction':
+          await this.handleReplaceTransaction('cancel')
           break
         
         default:
@@ -147,50 +276,88 @@ class CommandService {
     }
   }
 
+  /**
+   * Offer the closest commands for an unclear one, or acknowledge a negated one
+   */
+  private handleUnknownCommand(slots: VoiceCommandSlots) {
+    const labels = (slots.guesses ?? []).map((guess) => IntentParser.describeIntent(guess.type))
+
+    if (slots.negated) {
+      voiceService.speak(labels.length > 0 ? `Okay, I will not ${labels[0]}.` : 'Okay.')
+      return
+    }
+
+    if (labels.length === 0) {
+      voiceService.speak('Sorry, I did not understand that command.')
+      return
+    }
+
+    const options = labels.length > 1 ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}` : labels[0]
+    voiceService.speak(`Sorry, I did not understand that command. Did you mean to ${options}?`)
+  }
+
   /**
    * Handle create wallet command
    */
   private async handleCreateWallet() {
-    const { setWallet } = useWalletStore.getState()
-    
     try {
       console.log('🎤 User requested wallet creation')
       
       // Check biometric availability and inform the user
       const biometricAvailability = await walletService.checkBiometricAvailability()
+      let saveToDevice = biometricAvailability.isSupported && biometricAvailability.isAvailable
+      let passphrase: string | null = null
       
-      if (biometricAvailability.isSupported && biometricAvailability.isAvailable) {
+      if (saveToDevice) {
         voiceService.speak('Biometric support detected. The wallet will be saved to your device after creation.')
+
+        // Without the PRF extension the saved wallet is encrypted with a passphrase instead
+        const prfSupported = await walletService.isBiometricEncryptionSupported()
+        if (prfSupported !== true) {
+          passphrase = await this.askForPassphrase(
+            'Your device may not be able to encrypt the saved wallet with biometrics alone. Please say a passphrase of at least three words to protect it.'
+          )
+          if (!passphrase && prfSupported === false) {
+            voiceService.speak('No passphrase given. The wallet will not be saved to this device.')
+            saveToDevice = false
+          }
+        }
       }
       
       // Use the enhanced wallet creation method
-      const wallet = await walletService.createAndVerifyWallet()
-      setWallet(wallet)
+      const walletName = this.getNextWalletName()
+      const wallet = await walletService.createAndVerifyWallet({
+        enableBiometric: saveToDevice,
+        passphrase: passphrase ?? undefined,
+        walletName
+      })
+      await this.activateAccounts(wallet, walletName)
+
+      // The same passphrase unlocks the keyring when biometrics are unavailable
+      if (passphrase) {
+        await keyringService.setPassphrase(passphrase)
+      }
+      if (saveToDevice) {
+        await this.enableBiometricUnlock()
+      }
       
       console.log('💾 Wallet saved to state management')
       
-      if (wallet.mnemonic) {
-        voiceService.speak('Wallet created successfully. The recovery phrase is displayed; please store it safely.')
-        
-        // If biometrics are available, confirm saving
-        if (biometricAvailability.isSupported && biometricAvailability.isAvailable) {
-          setTimeout(() => {
-            voiceService.speak('The wallet has been securely saved via biometrics on your device. Next time, say "import wallet" and use biometrics to restore quickly.')
-          }, 3000)
-        }
-        
-        setTimeout(() => {
-          voiceService.speakTemplate('WALLET_CREATED', {
-            address: walletService.formatAddressForSpeech(wallet.address)
-          })
-          
-          // Announce verification details
-          voiceService.speak('Wallet verification completed. All information is correct. Check the browser console for details.')
-        }, 2000)
+      voiceService.speak('Wallet created successfully. Your signing key is sealed in the encrypted keyring.')
+      voiceService.speakTemplate('WALLET_CREATED', {
+        address: walletService.formatAddressForSpeech(walletService.getAccountAddress(wallet))
+      })
+
+      // Announce verification details
+      voiceService.speak('Wallet verification completed. All information is correct. Check the browser console for details.')
+
+      // If the wallet was saved to the device, confirm saving
+      if (saveToDevice) {
+        voiceService.speak('The wallet has been securely saved via biometrics on your device. Next time, say "import wallet" and use biometrics to restore quickly.')
       }
       
       // Update the balance as well
-      await this.updateBalance(wallet.address)
+      await this.updateBalance(walletService.getAccountAddress(wallet))
       
     } catch (error) {
       console.error('❌ Wallet creation failed:', error)
@@ -199,17 +366,16 @@ class CommandService {
   }
 
   /**
-   * Handle import wallet command (biometrics only)
+   * Handle import wallet command: biometrics when a wallet is saved on this device,
+   * otherwise the recovery phrase
    */
   private async handleImportWallet() {
-    const { setWallet } = useWalletStore.getState()
-    
     try {
       // Check biometric availability
       const biometricAvailability = await walletService.checkBiometricAvailability()
       
       if (!biometricAvailability.isSupported || !biometricAvailability.isAvailable) {
-        voiceService.speak('Your device does not support biometrics, so the wallet cannot be imported. Please create the wallet on a device that supports biometrics first.')
+        await this.handleImportMnemonic('Biometrics are not available on this device, so we will restore the wallet from its recovery phrase.')
         return
       }
       
@@ -217,37 +383,83 @@ class CommandService {
       const recoveryState = await walletService.getWalletRecoveryState()
       
       if (!recoveryState.hasStoredCredentials) {
-        voiceService.speak('No saved wallet found. Please create a wallet first so it can be saved to your device.')
+        await this.handleImportMnemonic('No wallet is saved on this device, so we will restore it from its recovery phrase.')
         return
       }
       
+      // Several saved wallets: read their names and let the user pick one by voice
+      let candidates = recoveryState.availableWallets
+      if (candidates.length > 1) {
+        const choice = await this.chooseByVoice(
+          `I found ${candidates.length} saved wallets. Which one should I restore?`,
+          candidates.map((saved) => saved.walletName)
+        )
+        if (choice === null) {
+          voiceService.speak('I did not catch which wallet you want. Say "import wallet" to try again.')
+          return
+        }
+        candidates = [candidates[choice]]
+      } else {
+        voiceService.speak(`Restoring ${candidates[0].walletName}.`)
+      }
+      const credentialId = candidates.length === 1 ? candidates[0].credentialId : undefined
+
+      // Wallets saved without PRF support are encrypted with a passphrase
+      let passphrase: string | null = null
+      if (candidates.some((saved) => saved.encryption === 'pbkdf2')) {
+        passphrase = await this.askForPassphrase('Please say the passphrase that protects your saved wallet.')
+      }
+
       // Begin biometric recovery
       console.log('🔐 Starting biometric wallet recovery...')
       voiceService.speak('Please use biometrics to verify your identity and restore the wallet.')
       
-      const recoveryResult = await walletService.recoverWalletWithBiometric()
+      let recoveryResult = await walletService.recoverWalletWithBiometric(passphrase ?? undefined, credentialId)
+
+      // Older saved wallets are re-encrypted on unlock and may need a passphrase on this device
+      if (!recoveryResult.success && recoveryResult.errorType === 'PASSPHRASE_REQUIRED' && !passphrase) {
+        passphrase = await this.askForPassphrase(
+          'Your saved wallet needs a passphrase to be stored securely on this device. Please say a passphrase of at least three words.'
+        )
+        if (passphrase) {
+          voiceService.speak('Please verify your identity once more.')
+          recoveryResult = await walletService.recoverWalletWithBiometric(passphrase, credentialId)
+        }
+      }
       
+      // Saved before its public key was kept: the phrase is the only safe way back in
+      if (!recoveryResult.success && recoveryResult.errorType === 'REREGISTRATION_REQUIRED') {
+        await this.handleImportMnemonic(recoveryResult.error)
+        return
+      }
+
       if (recoveryResult.success && recoveryResult.wallets && recoveryResult.wallets.length > 0) {
-        // Biometric recovery succeeded
-        const wallet = recoveryResult.wallets[0] // Use the first recovered wallet
-        setWallet(wallet)
+        // Biometric recovery succeeded; the recovered wallet is the one chosen above
+        const wallet = recoveryResult.wallets[0]
+        const savedName = recoveryState.availableWallets.find(
+          (saved) => saved.walletAddress.toLowerCase() === wallet.address.toLowerCase()
+        )?.walletName
+        await this.activateAccounts(wallet, savedName ?? this.getNextWalletName())
+
+        if (passphrase) {
+          await keyringService.setPassphrase(passphrase)
+        }
+        await this.enableBiometricUnlock()
         
         voiceService.speak('Biometric verification succeeded. Wallet restored.')
         console.log('✅ Wallet restored via biometrics:', wallet.address)
         
         // Refresh the balance
-        await this.updateBalance(wallet.address)
+        await this.updateBalance(walletService.getAccountAddress(wallet))
         
-        setTimeout(() => {
-          voiceService.speakTemplate('WALLET_CREATED', {
-            address: walletService.formatAddressForSpeech(wallet.address)
-          })
-        }, 2000)
+        voiceService.speakTemplate('WALLET_CREATED', {
+          address: walletService.formatAddressForSpeech(walletService.getAccountAddress(wallet))
+        })
         
       } else {
         // Biometric recovery failed
         const errorMessage = recoveryResult.error || 'Biometric verification failed'
-        voiceService.speak(`Wallet recovery failed: ${errorMessage}`)
+        voiceService.speak(`Wallet recovery failed: ${errorMessage}`, { priority: 'urgent' })
         console.error('❌ Biometric wallet recovery failed:', recoveryResult.error)
       }
       
@@ -258,140 +470,396 @@ class CommandService {
   }
 
   /**
-   * Handle read address command
+   * Handle create passkey wallet command: the passkey itself owns the smart account
    */
-  private async handleReadAddress() {
-    const { wallet, setSharedAddress } = useWalletStore.getState()
-
-    if (!wallet) {
-      voiceService.speak('No wallet is available yet. Please create or import a wallet first.')
+  private async handleCreatePasskeyWallet() {
+    const biometricAvailability = await walletService.checkBiometricAvailability()
+    if (!biometricAvailability.isSupported || !biometricAvailability.isAvailable) {
+      voiceService.speak('Passkey wallets need biometrics on this device. Say "create wallet" to use a regular wallet instead.')
       return
     }
 
-    setSharedAddress(wallet.address)
+    try {
+      voiceService.speak('Creating a passkey wallet. Please verify your identity to create the passkey.')
+      const wallet = await walletService.createPasskeyWallet(`Passkey Wallet ${new Date().toLocaleDateString()}`)
+      await this.activateAccounts(wallet, wallet.label ?? this.getNextWalletName())
+
+      voiceService.speak('Passkey wallet created. There is no recovery phrase: your passkey is the key, and every transfer asks for your biometrics.')
+      voiceService.speakTemplate('WALLET_CREATED', {
+        address: walletService.formatAddressForSpeech(wallet.address)
+      })
+
+      await this.updateBalance(wallet.address)
+    } catch (error) {
+      console.error('❌ Passkey wallet creation failed:', error)
+      voiceService.speak('Passkey wallet creation failed. Please try again.')
+    }
+  }
+
+  /**
+   * Handle restore passkey wallet command; needs only the passkey, not local storage
+   */
+  private async handleRestorePasskeyWallet() {
+    try {
+      voiceService.speak('Restoring your passkey wallet. Please choose your passkey and verify your identity. You may be asked twice.')
+      const wallet = await walletService.restorePasskeyWallet()
+      await this.activateAccounts(wallet, wallet.label ?? this.getNextWalletName())
+
+      voiceService.speak('Passkey wallet restored.')
+      voiceService.speakTemplate('WALLET_CREATED', {
+        address: walletService.formatAddressForSpeech(wallet.address)
+      })
+
+      await this.updateBalance(wallet.address)
+    } catch (error) {
+      console.error('❌ Passkey wallet restore failed:', error)
+      voiceService.speak('Passkey wallet restore failed. Please try again.')
+    }
+  }
+
+  /**
+   * Save a new or restored wallet with its derived accounts in the registry and make it active
+   */
+  private async activateAccounts(wallet: WalletAccount, name: string) {
+    const { addWallet } = useWalletStore.getState()
+
+    let accounts = [wallet]
+    try {
+      accounts = await walletService.deriveDefaultAccounts(wallet)
+    } catch (error) {
+      console.warn('⚠️ Could not derive additional accounts:', error)
+    }
+
+    addWallet({ id: wallet.address.toLowerCase(), name, accounts, createdAt: Date.now() })
+  }
 
-    const spokenAddress = wallet.address.split('').join(' ')
+  private getNextWalletName(): string {
+    const { wallets } = useWalletStore.getState()
+    const names = new Set(wallets.map((record) => record.name.toLowerCase()))
+    let number = wallets.length + 1
+    while (names.has(`wallet ${number}`)) number++
+    return `Wallet ${number}`
+  }
+
+  /**
+   * Handle list wallets command
+   */
+  private handleListWallets() {
+    const { wallets, activeWalletId } = useWalletStore.getState()
+
+    if (wallets.length === 0) {
+      voiceService.speak('You have no saved wallets. Say "create wallet" or "import wallet" to add one.')
+      return
+    }
+
+    const active = wallets.find((record) => record.id === activeWalletId)
     voiceService.speak(
-      `Your wallet address is ${spokenAddress}. The full address is now displayed on screen for sharing.`,
-      { rate: 0.95 }
+      `You have ${wallets.length} ${wallets.length === 1 ? 'wallet' : 'wallets'}: ${wallets.map((record) => record.name).join(', ')}.` +
+        (active ? ` The active wallet is ${active.name}.` : '')
     )
   }
 
   /**
-   * Handle check balance command
+   * Handle switch wallet command
    */
-  private async handleCheckBalance() {
+  private async handleSwitchWallet(name: string) {
+    const { wallets, setActiveWallet } = useWalletStore.getState()
+
+    const record = this.findWalletByName(name)
+    if (!record) {
+      voiceService.speak(
+        wallets.length > 0
+          ? `I could not find a wallet called ${name}. Your wallets are ${wallets.map((entry) => entry.name).join(', ')}.`
+          : 'You have no saved wallets yet.'
+      )
+      return
+    }
+
+    setActiveWallet(record.id)
+    voiceService.speak(`Switched to ${record.name}.`)
+
     const { wallet } = useWalletStore.getState()
-    
-    if (!wallet) {
+    if (wallet) {
+      await this.updateBalance(walletService.getAccountAddress(wallet))
+    }
+  }
+
+  /**
+   * Handle rename wallet command (renames the active wallet)
+   */
+  private handleRenameWallet(name?: string) {
+    const { wallets, activeWalletId, renameWallet } = useWalletStore.getState()
+
+    const active = wallets.find((record) => record.id === activeWalletId)
+    if (!active) {
       voiceService.speak('Please create or import a wallet first.')
       return
     }
 
-    await this.updateBalance(wallet.address)
-    
-    const { balance } = useWalletStore.getState()
-    
-    // Announce ETH balance
-    voiceService.speakTemplate('BALANCE_RESULT', {
-      token: 'ETH',
-      amount: parseFloat(balance.eth).toFixed(4)
+    const newName = name?.trim().replace(/\b\w/g, (letter) => letter.toUpperCase())
+    if (!newName) {
+      voiceService.speak('Please say the new name, for example "rename wallet to travel".')
+      return
+    }
+
+    renameWallet(active.id, newName)
+    voiceService.speak(`Renamed ${active.name} to ${newName}.`)
+  }
+
+  /**
+   * Handle remove wallet command. Only this session's copy is removed;
+   * a biometric backup on the device can still be restored with "import wallet".
+   */
+  private async handleRemoveWallet(name?: string) {
+    const { wallets, activeWalletId, removeWallet } = useWalletStore.getState()
+
+    const record = name ? this.findWalletByName(name) : wallets.find((entry) => entry.id === activeWalletId)
+    if (!record) {
+      voiceService.speak(name ? `I could not find a wallet called ${name}.` : 'There is no active wallet to remove.')
+      return
+    }
+
+    const answer = await dialogEngine.ask(`Remove ${record.name} from this device's wallet list? Say confirm or cancel.`)
+    if (!answer || IntentParser.parseAnswer(answer) !== 'yes') {
+      voiceService.speak('Wallet not removed.')
+      return
+    }
+
+    record.accounts.forEach((account) => keyringService.removeAccount(account.address))
+    removeWallet(record.id)
+    voiceService.speak(`${record.name} removed. If it was saved with biometrics, you can restore it by saying "import wallet".`)
+  }
+
+  private findWalletByName(name: string) {
+    const { wallets } = useWalletStore.getState()
+    const spoken = name.trim().toLowerCase()
+    const number = parseInt(spoken.match(/\b(\d+)\b/)?.[1] ?? '', 10)
+
+    return wallets.find((record) => record.name.toLowerCase() === spoken) ??
+      wallets.find((record) => spoken.includes(record.name.toLowerCase()) || record.name.toLowerCase().includes(spoken)) ??
+      (number >= 1 && number <= wallets.length ? wallets[number - 1] : undefined)
+  }
+
+  /**
+   * Read numbered options aloud and match the spoken answer by name or number.
+   * Returns the chosen index, or null when nothing matched.
+   */
+  private async chooseByVoice(question: string, options: string[], sensitive = false): Promise<number | null> {
+    const answer = await dialogEngine.ask(this.describeOptions(question, options), {
+      sensitive,
+      validate: (spoken) => (this.matchOption(spoken, options) === null ? 'I did not catch which one you mean.' : null)
     })
-    
-    // Announce token balances
-    if (balance.tokens.length > 0) {
-      setTimeout(() => {
-        balance.tokens.forEach((token, index) => {
-          setTimeout(() => {
-            voiceService.speakTemplate('BALANCE_RESULT', {
-              token: token.symbol,
-              amount: parseFloat(token.balance).toFixed(4)
-            })
-          }, index * 2000)
-        })
-      }, 2000)
+    return answer === null ? null : this.matchOption(answer, options)
+  }
+
+  /**
+   * The question followed by its numbered options
+   */
+  private describeOptions(question: string, options: string[]): string {
+    return `${question} ${options.map((option, index) => `${index + 1}: ${option}`).join('. ')}.`
+  }
+
+  /**
+   * Index of the option an answer names, by name or number
+   */
+  private matchOption(answer: string, options: string[]): number | null {
+    const spoken = VoiceRecognitionOptimizer.optimizeText(answer)
+    if (!spoken) return null
+
+    const byName = options.findIndex((option) => spoken.includes(option.toLowerCase()))
+    if (byName >= 0) return byName
+
+    const number = parseInt(spoken.match(/\b(\d+)\b/)?.[1] ?? '', 10)
+    return number >= 1 && number <= options.length ? number - 1 : null
+  }
+
+  /**
+   * Handle list accounts command
+   */
+  private handleListAccounts() {
+    const { accounts, wallet } = useWalletStore.getState()
+
+    if (!wallet || accounts.length === 0) {
+      voiceService.speak('Please create or import a wallet first.')
+      return
     }
+
+    const names = accounts.map((account, index) => this.getAccountName(account, index))
+    const activeName = this.getAccountName(wallet, accounts.indexOf(wallet))
+    voiceService.speak(
+      `You have ${accounts.length} ${accounts.length === 1 ? 'account' : 'accounts'}: ${names.join(', ')}. The active account is ${activeName}.`
+    )
   }
 
   /**
-   * Handle transfer command
+   * Handle switch account command, by label ("savings") or number ("account 2")
    */
-  private async handleTransfer(params: any) {
-    const { wallet } = useWalletStore.getState()
-    
-    if (!wallet) {
+  private async handleSwitchAccount(name: string) {
+    const { accounts, setActiveAccount } = useWalletStore.getState()
+
+    if (accounts.length === 0) {
       voiceService.speak('Please create or import a wallet first.')
       return
     }
 
-    if (!params || !params.amount || !params.to) {
-      voiceService.speak('Transfer information is incomplete. Please restate the amount and recipient address.')
+    const spoken = name.trim().toLowerCase()
+    const number = parseInt(spoken.match(/\b(\d+)\b/)?.[1] ?? '', 10)
+    const target = number >= 1 && number <= accounts.length
+      ? accounts[number - 1]
+      : accounts.find((account) => account.label?.toLowerCase() === spoken) ??
+        accounts.find((account) => account.label && spoken.includes(account.label.toLowerCase()))
+
+    if (!target) {
+      const names = accounts.map((account, index) => this.getAccountName(account, index))
+      voiceService.speak(`I could not find an account called ${name}. Your accounts are ${names.join(', ')}.`)
       return
     }
 
-    // Validate address format
-    if (!walletService.isValidAddress(params.to)) {
-      voiceService.speak('The recipient address format is invalid. Please check it.')
+    setActiveAccount(target.address)
+    const accountAddress = walletService.getAccountAddress(target)
+    voiceService.speak(`Switched to ${this.getAccountName(target, accounts.indexOf(target))} account.`)
+    await this.updateBalance(accountAddress)
+  }
+
+  /**
+   * Handle add account command: derive the next BIP-44 account
+   */
+  private async handleAddAccount(name?: string) {
+    const { accounts, wallet, addAccount } = useWalletStore.getState()
+
+    const primary = accounts[0]
+    if (!wallet || !primary) {
+      voiceService.speak('Please create or import a wallet first.')
       return
     }
+    if (primary.signer === 'passkey') {
+      voiceService.speak('Passkey wallets have a single account. Say "create passkey wallet" to add another passkey.')
+      return
+    }
+
+    if (!(await this.ensureUnlocked())) return
 
-    const transferRequest: TransferRequest = {
-      to: params.to,
-      amount: params.amount,
-      token: params.token === 'eth' ? undefined : params.token,
-      tokenSymbol: params.token
+    const index = accounts.length
+    const label = name?.trim()
+      ? name.trim().replace(/\b\w/g, (letter) => letter.toUpperCase())
+      : `Account ${index + 1}`
+
+    try {
+      const account = await walletService.deriveAccount(primary, index, label)
+      addAccount(account)
+      voiceService.speak(`Added ${label} account. Say "switch to ${label} account" to use it.`)
+    } catch (error) {
+      console.error('❌ Account derivation failed:', error)
+      voiceService.speak('Sorry, the new account could not be added.')
     }
+  }
+
+  private getAccountName(account: WalletAccount, index: number): string {
+    return account.label ?? `Account ${index + 1}`
+  }
 
-    // Voice confirmation
-    const tokenName = params.token || 'ETH'
-    const addressForSpeech = walletService.formatAddressForSpeech(params.to)
+  /**
+   * Handle read address command
+   */
+  private async handleReadAddress() {
+    const { wallet, setSharedAddress } = useWalletStore.getState()
+
+    if (!wallet) {
+      voiceService.speak('No wallet is available yet. Please create or import a wallet first.')
+      return
+    }
+
+    const accountAddress = walletService.getAccountAddress(wallet)
+    setSharedAddress(accountAddress)
+
+    const spokenAddress = accountAddress.split('').join(' ')
+    const accountName = await ensService.lookupAddress(accountAddress).catch(() => null)
+    const namePrefix = accountName ? `Your ENS name is ${accountName}. ` : ''
+    voiceService.speak(
+      `${namePrefix}Your wallet address is ${spokenAddress}. The full address is now displayed on screen for sharing.`,
+      { rate: 0.95 }
+    )
+  }
+
+  /**
+   * Handle check balance command
+   */
+  private async handleCheckBalance() {
+    const { wallet } = useWalletStore.getState()
     
-    voiceService.speakTemplate('TRANSFER_CONFIRM', {
-      amount: params.amount,
-      token: tokenName,
-      to: addressForSpeech
-    })
+    if (!wallet) {
+      voiceService.speak('Please create or import a wallet first.')
+      return
+    }
 
-    // Await user confirmation
-    setTimeout(() => {
-      voiceService.speak('Please say "confirm" to complete the transfer or "cancel" to abort.')
-      
-      voiceService.startListening(
-        async (confirmCommand) => {
-          const text = this.getParameterString(confirmCommand.parameters, 'text') || ''
-          if (text.includes('confirm') || text.includes('yes')) {
-            await this.executeTransfer(transferRequest, wallet.privateKey)
-          } else {
-            voiceService.speak('Transfer cancelled.')
-          }
-        },
-        () => voiceService.speak('Confirmation failed. Transfer cancelled.')
-      )
-    }, 3000)
+    // Never announce a stale or made-up balance when the network is down
+    if (!(await this.updateBalance(walletService.getAccountAddress(wallet)))) {
+      voiceService.speakTemplate('NETWORK_UNAVAILABLE', { network: walletService.getCurrentNetwork().name })
+      return
+    }
+    
+    const { balance } = useWalletStore.getState()
+
+    // An account with a primary ENS name is announced by it
+    const accountName = await ensService.lookupAddress(walletService.getAccountAddress(wallet)).catch(() => null)
+    
+    // Announce the native currency balance
+    const nativeBalance = {
+      token: walletService.getNativeCurrency().symbol,
+      amount: parseFloat(balance.eth).toFixed(4)
+    }
+    if (accountName) {
+      voiceService.speakTemplate('BALANCE_RESULT_NAMED', { ...nativeBalance, account: accountName })
+    } else {
+      voiceService.speakTemplate('BALANCE_RESULT', nativeBalance)
+    }
+    
+    // Announce token balances, one after another
+    balance.tokens.forEach((token) => {
+      if (token.error) {
+        voiceService.speakTemplate('BALANCE_UNREADABLE', { token: token.symbol })
+        return
+      }
+      voiceService.speakTemplate('BALANCE_RESULT', {
+        token: token.symbol,
+        amount: parseFloat(token.balance).toFixed(4)
+      })
+    })
   }
 
   /**
-   * Execute transfer (ETH only)
+   * Execute transfer (ETH or ERC-20 when request.token is set)
    */
-  private async executeTransfer(request: TransferRequest, privateKey: string) {
-    const { addTransaction } = useWalletStore.getState()
+  private async executeTransfer(request: TransferRequest, ownerAddress: string) {
+    const { addTransaction, wallet } = useWalletStore.getState()
+    const tokenSymbol = (request.tokenSymbol || walletService.getNativeCurrency().symbol).toUpperCase()
     
-    console.log('🔄 Starting ETH transfer')
+    console.log(`🔄 Starting ${tokenSymbol} transfer`)
     console.log('📋 Transfer request details:', request)
     
     try {
-      // Handle ETH transfers only
-      console.log('🌐 Calling walletService.transferETH...')
-      const txHash = await walletService.transferETH(request, privateKey)
+      if (!(await this.ensureUnlocked())) {
+        throw new Error('Wallet is locked')
+      }
+
+      const { hash: txHash, nonce, userOperation } = request.token
+        ? await walletService.transferToken(request, ownerAddress)
+        : await walletService.transferETH(request, ownerAddress)
       console.log('✅ Transfer succeeded, transaction hash:', txHash)
 
       // Record the transaction
       const transaction = {
         hash: txHash,
+        chainId: walletService.getCurrentNetwork().chainId,
+        nonce,
+        from: wallet ? walletService.getAccountAddress(wallet) : undefined,
         to: request.to,
         value: request.amount,
+        tokenSymbol,
+        tokenAddress: request.token,
         timestamp: Date.now(),
-        status: 'pending' as const
+        status: 'pending' as const,
+        userOperation
       }
       
       addTransaction(transaction)
@@ -404,18 +872,140 @@ class CommandService {
         const { wallet } = useWalletStore.getState()
         if (wallet) {
           console.log('🔄 Updating balance again in 5 seconds...')
-          this.updateBalance(wallet.address)
+          this.updateBalance(walletService.getAccountAddress(wallet))
         }
       }, 5000)
       
     } catch (error) {
       console.error('❌ Transfer execution failed:', error)
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      voiceService.speakTemplate('TRANSFER_FAILED', { error: errorMessage })
+      // A refused sponsorship is a security warning: the user agreed to a gasless transfer
+      voiceService.speakTemplate('TRANSFER_FAILED', { error: errorMessage }, {
+        priority: error instanceof SponsorshipRefusedError ? 'urgent' : 'normal'
+      })
       throw error // Rethrow the error so callers can handle it
     }
   }
 
+  /**
+   * Make sure the keyring can sign, asking for biometrics or the passphrase
+   */
+  private async ensureUnlocked(): Promise<boolean> {
+    const { wallet } = useWalletStore.getState()
+
+    // Passkey wallets verify the user on every signature instead of holding keys
+    if (wallet?.signer === 'passkey') {
+      if (await walletService.ensurePasskeySigner(wallet)) return true
+      voiceService.speak('This passkey wallet is not set up on this device. Say "restore passkey wallet" to reconnect it.')
+      return false
+    }
+
+    // Saved wallets come back after a reload without their keys
+    if (wallet && !keyringService.hasAccount(wallet.address)) {
+      voiceService.speak('The keys for this wallet are not loaded. Say "import wallet" to restore them with biometrics.')
+      return false
+    }
+
+    if (!keyringService.isLocked()) return true
+
+    // The keys are sealed with a key that only biometrics or the passphrase can unwrap
+    if (!keyringService.hasBiometricUnlock() && !keyringService.hasPassphrase()) {
+      voiceService.speak('Your wallet is locked and has no biometric unlock or passphrase on this device. Say "import wallet" to load its keys again.')
+      return false
+    }
+
+    if (keyringService.hasBiometricUnlock()) {
+      voiceService.speak('Your wallet is locked. Please verify your identity with biometrics.')
+      if (await keyringService.unlockWithBiometric()) {
+        return true
+      }
+    }
+
+    if (keyringService.hasPassphrase()) {
+      const prompt = keyringService.hasBiometricUnlock()
+        ? 'Biometric unlock did not succeed. Please say your wallet passphrase.'
+        : 'Your wallet is locked. Please say your wallet passphrase.'
+      const passphrase = await dialogEngine.ask(prompt, { sensitive: true })
+      if (passphrase && await keyringService.unlockWithPassphrase(passphrase.trim().toLowerCase())) {
+        return true
+      }
+    }
+
+    voiceService.speak('The wallet could not be unlocked.', { priority: 'urgent' })
+    return false
+  }
+
+  /**
+   * Let biometrics unlock the keyring after it locks; needs one more verification
+   */
+  private async enableBiometricUnlock() {
+    voiceService.speak('Please verify your identity once more so biometrics can unlock the wallet after it locks.')
+    if (await keyringService.enableBiometricUnlock()) return
+
+    voiceService.speak(keyringService.hasPassphrase()
+      ? 'Biometric unlock is not available, so your passphrase will unlock the wallet.'
+      : 'Biometric unlock is not available on this device. Say "set passphrase" so you can unlock the wallet after it locks.')
+  }
+
+  /**
+   * Handle set passphrase command
+   */
+  private async handleSetPassphrase() {
+    const { wallet } = useWalletStore.getState()
+
+    if (!wallet) {
+      voiceService.speak('Please create or import a wallet first.')
+      return
+    }
+
+    if (!(await this.ensureUnlocked())) return
+
+    const passphrase = await this.askForPassphrase('Please say the passphrase you want to use to unlock your wallet.')
+    if (!passphrase) {
+      voiceService.speak('Passphrase not set.')
+      return
+    }
+
+    await keyringService.setPassphrase(passphrase)
+    voiceService.speak('Passphrase saved for this session.')
+  }
+
+  /**
+   * Ask for a spoken passphrase of at least three words; null when none was given
+   */
+  private async askForPassphrase(prompt: string): Promise<string | null> {
+    const passphrase = await dialogEngine.ask(prompt, {
+      sensitive: true,
+      validate: (answer) => (answer.trim().split(/\s+/).length < 3 ? 'The passphrase must have at least three words.' : null)
+    })
+    return passphrase?.trim().toLowerCase() ?? null
+  }
+
+  /**
+   * Handle switch network command by chain name ("switch to arbitrum")
+   */
+  private async handleSwitchNetwork(networkId?: NetworkId) {
+    const chain = networkId ? WALLET_CONFIG.NETWORKS[networkId] : undefined
+    if (!chain) {
+      const names = Object.values(WALLET_CONFIG.NETWORKS).map((network) => network.name)
+      voiceService.speak(`Which network? You can say ${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}.`)
+      return
+    }
+
+    const { network, wallet } = useWalletStore.getState()
+    if (chain.id === network) {
+      voiceService.speak(`You are already on ${chain.name}.`)
+      return
+    }
+
+    walletService.switchNetwork(chain.id)
+    voiceService.speak(`Switched to ${chain.name}.${chain.testnet ? ' This is a test network.' : ''}`)
+
+    if (wallet) {
+      await this.updateBalance(walletService.getAccountAddress(wallet))
+    }
+  }
+
   /**
    * Handle transaction status query
    */
@@ -439,260 +1029,424 @@ class CommandService {
   }
 
   /**
-   * Update wallet balance
+   * Answer a question about past transfers ("what was my last transaction",
+   * "how much did I send to Bob this month") from the saved history
+   */
+  private async handleHistoryQuery(text: string) {
+    const { wallet } = useWalletStore.getState()
+
+    // Catch up with transfers since the last sync; a failure still leaves the saved history to answer from
+    if (wallet) {
+      await historySyncService.sync(walletService.getAccountAddress(wallet)).catch((error) => {
+        console.warn('⚠️ History sync before answering failed:', error)
+      })
+    }
+
+    voiceService.speak(await historyQueryService.answer(text))
+  }
+
+  /**
+   * Speed up or cancel the account's latest transaction while it is still pending.
+   * The replacement reuses its nonce; both stay in the history, linked to each other.
+   */
+  private async handleReplaceTransaction(kind: ReplacementKind) {
+    const { wallet, transactions, addTransaction, updateTransaction } = useWalletStore.getState()
+    const action = kind === 'cancel' ? 'cancel' : 'speed up'
+
+    if (!wallet) {
+      voiceService.speak('Please create or import a wallet first.')
+      return
+    }
+
+    const accountAddress = walletService.getAccountAddress(wallet).toLowerCase()
+    const { chainId } = walletService.getCurrentNetwork()
+    const latest = transactions.find(
+      (tx) => tx.status !== 'replaced' && tx.chainId === chainId && (!tx.from || tx.from.toLowerCase() === accountAddress)
+    )
+    if (!latest) {
+      voiceService.speak(`You have no transactions to ${action}.`)
+      return
+    }
+
+    // The watcher only polls every few seconds, so ask the network now
+    const checked = latest.status === 'pending' ? await walletService.checkTransaction(latest) : null
+    if (latest.status !== 'pending' || checked) {
+      const status = checked?.status ?? latest.status
+      if (checked) {
+        updateTransaction(latest.hash, { status, blockNumber: checked.blockNumber, gasUsed: checked.gasUsed, failureReason: checked.reason })
+      }
+      const outcome = status === 'failed' ? 'failed' : `been ${status}`
+      voiceService.speak(`Your last transaction has already ${outcome}, so there is nothing to ${action}.`)
+      return
+    }
+
+    const description = `your ${transactionWatcher.describe(latest)}`
+    const outcome = kind === 'cancel'
+      ? 'This sends an empty transaction in its place, and you still pay a network fee.'
+      : 'This resends it with a higher network fee.'
+    // "cancel" declines here; a cancellation is approved with "confirm" or "yes"
+    const question = `${kind === 'cancel' ? 'Cancel' : 'Speed up'} ${description}? ${outcome} Say confirm or cancel.`
+    const answer = await dialogEngine.ask(question)
+    if (!answer || IntentParser.parseAnswer(answer) !== 'yes') {
+      voiceService.speak('Transaction left unchanged.')
+      return
+    }
+
+    if (!(await this.ensureUnlocked())) return
+
+    try {
+      const result = await walletService.replaceTransaction(latest, wallet.address, kind)
+      addTransaction({
+        ...latest,
+        hash: result.hash,
+        nonce: result.nonce ?? latest.nonce,
+        to: kind === 'cancel' ? latest.from ?? walletService.getAccountAddress(wallet) : latest.to,
+        value: kind === 'cancel' ? '0' : latest.value,
+        timestamp: Date.now(),
+        status: 'pending',
+        userOperation: result.userOperation,
+        replaces: latest.hash,
+        replacedBy: undefined,
+        replacement: kind
+      })
+      updateTransaction(latest.hash, { status: 'replaced', replacedBy: result.hash })
+
+      voiceService.speak(kind === 'cancel'
+        ? 'Cancellation submitted. If it is confirmed first, your original transfer will not go through.'
+        : 'Your transaction was resubmitted with a higher fee. Waiting for network confirmation.')
+    } catch (error) {
+      if (error instanceof TransactionNotPendingError) {
+        voiceService.speak('Your last transaction is no longer pending, so it cannot be changed.')
+        return
+      }
+      if (error instanceof NetworkUnavailableError) {
+        voiceService.speak(`I cannot reach ${error.networkName} right now. Please try again in a moment.`)
+        return
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Update wallet balance; false when it could not be read
    */
-  private async updateBalance(address: string) {
+  private async updateBalance(address: string): Promise<boolean> {
     const { updateBalance } = useWalletStore.getState()
     
     try {
       const ethBalance = await walletService.getETHBalance(address)
       
-      // Fetch token balances
-      const tokens: TokenBalance[] = []
-      // TODO: fetch default token balances based on network configuration
+      // Fetch default token balances for the current network
+      const tokens = await walletService.getTokenBalances(address)
       
       updateBalance({
         eth: ethBalance,
         tokens
       })
-      
+      return true
     } catch (error) {
-      console.error('Failed to update balance:', error)
+      if (error instanceof NetworkUnavailableError) {
+        console.warn(`⚠️ ${error.message}; balance not updated`)
+      } else {
+        console.error('Failed to update balance:', error)
+      }
+      return false
     }
   }
 
   /**
-   * Extract mnemonic from voice command
+   * Handle import recovery phrase command: dictate the phrase, then import it
    */
-  private extractMnemonic(): string | null {
-    // TODO: parse 12-word mnemonic from speech results
-    // Currently returns null; implement parsing when available
-    return null
-  }
+  private async handleImportMnemonic(intro?: string) {
+    const mnemonic = await this.dictateMnemonic(intro)
+    if (!mnemonic) return
 
-  /**
-   * Parse transfer command using optimizer
-   */
-  private parseTransferCommand(text: string) {
-    console.log('🔍 Starting transfer command parsing:', text)
-    
-    // Use optimized parser
-    const result = VoiceRecognitionOptimizer.parseTransferCommand(text)
-    
-    if (result) {
-      // Validate amount format
-      const amountValidation = VoiceRecognitionOptimizer.validateAmount(result.amount)
-      
-      if (!amountValidation.isValid) {
-        voiceService.speak(amountValidation.message)
-        return null
+    try {
+      const wallet = await walletService.importWallet(mnemonic)
+      await this.activateAccounts(wallet, this.getNextWalletName())
+      console.log('✅ Wallet restored from recovery phrase:', wallet.address)
+
+      // No biometric credential holds this wallet here, so a passphrase unlocks the keyring
+      const passphrase = await this.askForPassphrase(
+        'Recovery phrase accepted and wallet restored. Please say a passphrase of at least three words to unlock it later.'
+      )
+      if (passphrase) {
+        await keyringService.setPassphrase(passphrase)
+        voiceService.speak('Passphrase saved.')
+      } else {
+        voiceService.speak('No passphrase set. Once the wallet locks, say "import recovery phrase" to restore it again.')
       }
-      
-      // Store corrected amount
-      result.amount = amountValidation.corrected
-      
-      console.log('✅ Transfer command parsed successfully:', result)
-      return result
+
+      await this.updateBalance(walletService.getAccountAddress(wallet))
+
+      voiceService.speakTemplate('WALLET_CREATED', {
+        address: walletService.formatAddressForSpeech(walletService.getAccountAddress(wallet))
+      })
+    } catch (error) {
+      console.error('❌ Recovery phrase import failed:', error)
+      voiceService.speak('The wallet could not be imported from this recovery phrase. Please try again.')
     }
-    
-    console.log('❌ Failed to parse transfer command')
-    return null
   }
 
   /**
-   * Handle transfer command (optimized)
+   * Take a recovery phrase by voice a few words at a time. Every group is matched
+   * against the BIP-39 word list and read back; the checksum is verified at the end.
    */
-  private async handleTransferOptimized(params: any) {
-    const { wallet } = useWalletStore.getState()
-    
-    if (!wallet) {
-      voiceService.speak('Please create or import a wallet first.')
-      return
-    }
+  private async dictateMnemonic(intro?: string): Promise<string | null> {
+    const dictation: MnemonicDictation = { wordCount: 0, groups: [], group: 0, heard: [], fixing: false, checksumMismatches: 0 }
+    const outcome = await dialogEngine.run(this.mnemonicDialog(), dictation, { intro })
+    return outcome.status === 'done' ? dictation.groups.flat().join(' ') : null
+  }
 
-    if (!params || !params.amount) {
-      voiceService.speak('Please specify the transfer amount.')
-      return
+  /**
+   * Recovery phrase dialog: the length, then each group of words and its read-back,
+   * then the group to redo while the checksum does not match
+   */
+  private mnemonicDialog(): DialogFlow<MnemonicDictation, MnemonicStep> {
+    const { GROUP_SIZE, MAX_ATTEMPTS } = WALLET_CONFIG.MNEMONIC_DICTATION
+    const groupLength = (dictation: MnemonicDictation) => Math.min(GROUP_SIZE, dictation.wordCount - dictation.group * GROUP_SIZE)
+    const range = (dictation: MnemonicDictation) => {
+      const start = dictation.group * GROUP_SIZE + 1
+      const count = groupLength(dictation)
+      return count === 1 ? `word ${start}` : `words ${start} to ${start + count - 1}`
     }
 
-    let targetAddress: string | undefined
-    let contactName: string | undefined
+    // The next group, or the checksum once every group is confirmed
+    const advance = (dictation: MnemonicDictation): DialogTransition<MnemonicStep> => {
+      if (!dictation.fixing && dictation.groups.length * GROUP_SIZE < dictation.wordCount) {
+        dictation.group = dictation.groups.length
+        return { type: 'goto', state: 'words' }
+      }
+      if (MnemonicRecognizer.isValidMnemonic(dictation.groups.flat().join(' '))) return { type: 'done' }
 
-    // Handle according to recipient type
-    switch (params.type) {
-      case 'contact':
-        const contact = contactsService.findContact(params.contactName)
-        if (!contact) {
-        voiceService.speak(`No contact found for ${params.contactName}. Please add this contact on the web interface.`)
-          return
-        }
-        targetAddress = contact.address
-        contactName = contact.name
-        contactsService.markContactUsed(contact.id)
-        break
-
-      case 'quick':
-        const recentContacts = contactsService.getFrequentContacts(1)
-        if (recentContacts.length === 0) {
-          voiceService.speak('No recently used contacts. Please add contacts on the web interface.')
-          return
-        }
-        targetAddress = recentContacts[0].address
-        contactName = recentContacts[0].name
-        contactsService.markContactUsed(recentContacts[0].id)
-        break
-
-      case 'address':
-        if (!walletService.isValidAddress(params.to)) {
-          voiceService.speak('The recipient address format is invalid. Please check it.')
-          return
+      dictation.checksumMismatches++
+      if (dictation.checksumMismatches > MAX_ATTEMPTS) {
+        return {
+          type: 'cancel',
+          reason: 'The recovery phrase is still not valid. Please check your written copy and say "import recovery phrase" to try again.'
         }
-        targetAddress = params.to
-        break
-
-      default:
-        voiceService.speak('Transfer information is incomplete. Please restate it.')
-        return
-    }
-
-    // Build transfer request
-    const transferRequest: TransferRequest = {
-      to: targetAddress!,
-      amount: params.amount,
-      token: params.token === 'eth' ? undefined : params.token,
-      tokenSymbol: params.token
+      }
+      return { type: 'goto', state: 'fix' }
     }
 
-    // Voice confirmation with contact name or shortened address
-    const tokenName = params.token || 'ETH'
-    const recipientInfo = contactName || walletService.formatAddressForSpeech(targetAddress!)
-    
-    voiceService.speakTemplate('TRANSFER_CONFIRM', {
-      amount: params.amount,
-      token: tokenName,
-      to: recipientInfo
-    })
+    return {
+      name: 'recovery phrase',
+      initial: 'length',
+      states: {
+        length: {
+          prompt: () => 'Is your recovery phrase 12 or 24 words long?',
+          onInput: (input, dictation) => {
+            const wordCount = /\b(24|twenty[ -]?four)\b/.test(input) ? 24
+              : /\b(12|twelve)\b/.test(input) ? 12
+              : null
+            if (!wordCount) return { type: 'retry', say: 'Recovery phrases have 12 or 24 words.' }
+
+            Object.assign(dictation, { wordCount, groups: [], group: 0, fixing: false })
+            return { type: 'goto', state: 'words' }
+          }
+        },
+        words: {
+          prompt: (dictation) => `Please say ${range(dictation)}.`,
+          sensitive: true,
+          raw: true,
+          // "cancel", "exit" and "repeat" are recovery words themselves
+          intents: { cancel: /\b(?:stop|cancel import)\b/, repeat: null },
+          retries: MAX_ATTEMPTS - 1,
+          onInput: (input, dictation) => {
+            const matches = MnemonicRecognizer.parseGroup(input)
+            const unmatched = matches.find((match) => !match.word)
+            if (unmatched) {
+              return { type: 'retry', say: `I could not match ${unmatched.spoken} to a recovery word. You can also spell a word letter by letter.` }
+            }
+            if (matches.length !== groupLength(dictation)) {
+              return { type: 'retry', say: `I heard ${matches.length} words but expected ${groupLength(dictation)}.` }
+            }
 
-    // Await user confirmation
-    this.waitForTransferConfirmation(transferRequest, wallet.privateKey)
-  }
+            dictation.heard = matches.map((match) => match.word as string)
+            return { type: 'goto', state: 'check' }
+          },
+          // The group before this one, rather than the read-back of a rejected attempt
+          back: (dictation) => {
+            if (dictation.fixing) return { type: 'goto', state: 'fix' }
+            if (dictation.group === 0) return { type: 'goto', state: 'length' }
+            dictation.group--
+            return { type: 'goto', state: 'words' }
+          }
+        },
+        check: {
+          prompt: (dictation) => `I heard: ${dictation.heard.join(', ')}. Is that right? Say yes or no.`,
+          sensitive: true,
+          onInput: (input, dictation) => {
+            if (!/\b(?:yes|correct|confirm)\b/.test(input.toLowerCase())) {
+              return { type: 'goto', state: 'words', say: 'Okay, once more.' }
+            }
 
-  /**
-   * Wait for transfer confirmation
-   */
-  private waitForTransferConfirmation(request: TransferRequest, privateKey: string) {
-    setTimeout(() => {
-      voiceService.speak('Please say "confirm" to complete the transfer or "cancel" to abort.')
-      
-      voiceService.startListening(
-        async (confirmCommand) => {
-          const text = (this.getParameterString(confirmCommand.parameters, 'text') || '').toLowerCase()
-        if (text.includes('confirm') || text.includes('yes')) {
-            await this.executeTransfer(request, privateKey)
-          } else if (text.includes('cancel') || text.includes('no') || text.includes('stop')) {
-            voiceService.speak('Transfer cancelled.')
-          } else {
-            voiceService.speak('Please say "confirm" or "cancel".')
-            this.waitForTransferConfirmation(request, privateKey) // Retry waiting
+            dictation.groups[dictation.group] = dictation.heard
+            return advance(dictation)
           }
         },
-        () => {
-          voiceService.speak('Confirmation failed. Transfer cancelled.')
+        // The checksum cannot say which word is wrong, so the user picks the group to redo
+        fix: {
+          prompt: (dictation) => this.describeOptions(
+            'The recovery phrase checksum does not match, so at least one word is wrong. Which group should we say again?',
+            dictation.groups.map((group) => group.join(' '))
+          ),
+          sensitive: true,
+          onInput: (input, dictation) => {
+            const choice = this.matchOption(input, dictation.groups.map((group) => group.join(' ')))
+            if (choice === null) return { type: 'retry', say: 'I did not catch which group.' }
+
+            Object.assign(dictation, { group: choice, fixing: true })
+            return { type: 'goto', state: 'words' }
+          }
         }
-      )
-    }, 3000)
+      },
+      onCancel: (reason) => {
+        voiceService.speak(
+          reason === DIALOG_CANCEL.USER ? 'Recovery phrase import cancelled.'
+            : reason === DIALOG_CANCEL.NO_ANSWER ? 'Recovery phrase import stopped after several attempts. Say "import recovery phrase" to try again.'
+            : reason
+        )
+      }
+    }
   }
 
   /**
-   * Handle contact-related voice commands.
+   * Handle contact-related voice commands: saved or frequent contacts, read a page at a time
    */
   private async handleContactCommand(command: string) {
     console.log('🔍 Handling contacts command:', command)
-    
-    if (command.includes('show contacts') || command.includes('view contacts') || 
-        command.includes('contacts list') || command.includes('contact list')) {
-      const contacts = contactsService.getContacts()
-      
-      console.log('📞 Current contact count:', contacts.length)
-      
-      if (contacts.length === 0) {
-        voiceService.speak('No contacts saved. Please add a contact on the web interface.')
-        return
-      }
-
-      voiceService.speak(`You have ${contacts.length} contacts. Announcing them now.`)
-      
-      // Announce up to the first five contacts
-      contacts.slice(0, 5).forEach((contact, index) => {
-        setTimeout(() => {
-          const announcement = `${index + 1}. ${contact.name}, address ending ${contact.address.slice(-6)}`
-          voiceService.speak(announcement)
-          console.log(`📢 Announcing contact ${index + 1}:`, announcement)
-        }, (index + 1) * 2000)
-      })
 
-      // Mention remaining contacts if more than five
-      if (contacts.length > 5) {
-        setTimeout(() => {
-          voiceService.speak(`There are ${contacts.length - 5} more contacts, ${contacts.length} in total.`)
-        }, 6 * 2000)
-      }
-    }
-    
-    if (command.includes('frequent contacts')) {
+    if (command.includes('frequent')) {
       const frequent = contactsService.getFrequentContacts()
-      
+
       console.log('⭐ Frequent contacts count:', frequent.length)
-      
+
       if (frequent.length === 0) {
         voiceService.speak('No frequent contacts yet. Frequent contacts are generated automatically based on usage.')
         return
       }
 
-      voiceService.speak('Frequent contacts list:')
-      frequent.forEach((contact, index) => {
-        setTimeout(() => {
-          const announcement = `${contact.name}, used ${contact.usageCount} times`
-          voiceService.speak(announcement)
-          console.log('📢 Announcing frequent contact:', announcement)
-        }, (index + 1) * 2000)
-      })
+      this.readContactList('Frequent contacts:', frequent.map((contact) => `${contact.name}, used ${contact.usageCount} times`))
+      return
+    }
+
+    const contacts = contactsService.getContacts()
+
+    console.log('📞 Current contact count:', contacts.length)
+
+    if (contacts.length === 0) {
+      voiceService.speak('No contacts saved. Please add a contact on the web interface.')
+      return
     }
+
+    this.readContactList(
+      `You have ${contacts.length} contacts.`,
+      contacts.map((contact, index) => `${index + 1}. ${contact.name}, address ending ${contact.address.slice(-6)}`)
+    )
   }
 
   /**
-   * Get voice service state
+   * Read entries a page at a time: "more" reads the next page, "go back" the one before.
+   * Not awaited; the list listens for its own answers.
    */
-  getVoiceState() {
-    return voiceService.getState()
+  private readContactList(intro: string, entries: string[]) {
+    const listing: ContactListing = { entries, page: 0 }
+
+    void dialogEngine.run<ContactListing, 'page'>(
+      {
+        name: 'contacts',
+        initial: 'page',
+        states: {
+          page: {
+            prompt: ({ page }) => {
+              const start = page * CONTACTS_PER_PAGE
+              const text = `${entries.slice(start, start + CONTACTS_PER_PAGE).join('. ')}.`
+              const remaining = entries.length - start - CONTACTS_PER_PAGE
+              if (remaining <= 0) return { type: 'done', say: text }
+              return `${text} There are ${remaining} more. Say "more" to continue or "done" to stop.`
+            },
+            reprompt: () => 'Say "more" to hear the next contacts or "done" to stop.',
+            onInput: (input, listing) => {
+              if (/\b(?:more|next|continue)\b/.test(input)) {
+                listing.page++
+                return { type: 'goto', state: 'page' }
+              }
+              if (/\b(?:done|stop|enough)\b/.test(input)) return { type: 'done', say: 'Okay.' }
+              return { type: 'retry' }
+            },
+            back: (listing) => {
+              if (listing.page === 0) return { type: 'stay', say: 'This is the first page. Say "more" to continue or "done" to stop.' }
+              listing.page--
+              return { type: 'goto', state: 'page' }
+            }
+          }
+        }
+      },
+      listing,
+      { intro }
+    )
   }
 
   /**
-   * Check if the transfer command is complete
+   * Get voice service state
    */
-  private isCompleteTransferCommand(params: any): boolean {
-    if (!params || !params.text) return false
-    
-    const optimized = VoiceRecognitionOptimizer.parseTransferCommand(params.text)
-    return !!(optimized && optimized.amount && optimized.contactName)
+  getVoiceState() {
+    return voiceService.getState()
   }
 
   /**
    * Handle a complete transfer command
    */
-  private async handleCompleteTransferCommand(params: any) {
-    const optimized = VoiceRecognitionOptimizer.parseTransferCommand(params.text)
-    
-    if (!optimized || !optimized.contactName || !optimized.amount) {
+  private async handleCompleteTransferCommand(slots: VoiceCommandSlots) {
+    const { wallet } = useWalletStore.getState()
+    if (!wallet) {
+      voiceService.speak('Please create or import a wallet first.')
+      return
+    }
+
+    const { recipient, amount, token = 'eth' } = slots
+
+    if (!recipient || !recipient.value || !amount) {
       // If parsing fails, fall back to the guided flow
-      voiceService.speak('Transfer information is incomplete. Starting the guided transfer flow. Please say the contact name.')
-      await this.startStepByStepTransferFlow()
+      await this.startStepByStepTransferFlow('Transfer information is incomplete. Starting the guided transfer flow.')
+      return
+    }
+
+    const tokenSymbol = this.resolveTokenSymbol(token)
+    if (!tokenSymbol) {
+      voiceService.speak(`${token.toUpperCase()} is not available on this network.`)
+      this.cancelTransferFlow('Unsupported token')
       return
     }
 
     // Handle recipient
-    if (optimized.type === 'contact' && optimized.contactName) {
-      const contact = contactsService.findContact(optimized.contactName)
+    if (recipient.type === 'ens') {
+      const resolved = await this.resolveEnsRecipient(recipient.value)
+      if ('reason' in resolved) {
+        this.cancelTransferFlow(resolved.reason)
+        return
+      }
+
+      useWalletStore.getState().setTransferState({
+        isActive: true,
+        step: 'confirm',
+        recipient: {
+          type: 'ens',
+          value: resolved.address,
+          displayName: recipient.value
+        },
+        amount,
+        token: tokenSymbol,
+        feeTier: 'normal',
+      })
+
+      this.runTransferDialog('confirm')
+      return
+    }
+
+    if (recipient.type === 'contact') {
+      const contact = contactsService.findContact(recipient.value)
       if (contact) {
         useWalletStore.getState().setTransferState({
           isActive: true,
@@ -702,81 +1456,69 @@ class CommandService {
             value: contact.address,
             displayName: contact.name
           },
-          amount: optimized.amount,
+          amount,
+          token: tokenSymbol,
+          feeTier: 'normal',
         })
         
-        voiceService.speak(`Confirm transfer details: send ${optimized.amount} ETH to ${contact.name}.`)
-        this.waitForConfirmation()
+        this.runTransferDialog('confirm')
         return
       } else {
         // Handle missing contacts explicitly
-        voiceService.speak(`No contact found for "${optimized.contactName}". Please add this contact on the web interface and try again.`)
+        voiceService.speak(`No contact found for "${recipient.value}". Please add this contact on the web interface and try again.`)
         this.cancelTransferFlow('Contact does not exist')
         return
       }
     }
 
     // Return to the guided flow when no contact is found
-    voiceService.speak('Could not identify the contact. Starting the step-by-step transfer flow. Please say the contact name.')
-    await this.startStepByStepTransferFlow()
+    await this.startStepByStepTransferFlow('Could not identify the contact. Starting the step-by-step transfer flow.')
   }
 
   /**
-   * Wait for recipient input
+   * Guided transfer dialog: recipient, amount, token when none was spoken, then the
+   * summary to confirm. Each step is mirrored into the store for the on-screen flow.
    */
-  private waitForRecipientInput() {
-    setTimeout(() => {
-      voiceService.startListeningForText(
-        (text) => this.handleTransferStepInput(text),
-        (error) => {
-          const { transfer } = useWalletStore.getState()
-          // Ignore "no speech" errors and prompt again gently
-          if (error.includes('No speech detected')) {
-            // voiceService already handled the spoken feedback
-            setTimeout(() => {
-              if (transfer.isActive && transfer.step === 'recipient') {
-                this.waitForRecipientInput()
-              }
-            }, 2000)
-            return
-          }
-          
-          this.cancelTransferFlow('Too many speech recognition failures')
+  private transferDialog(): DialogFlow<null, TransferStep> {
+    return {
+      name: 'transfer',
+      initial: 'recipient',
+      states: {
+        recipient: {
+          prompt: () => 'Please say the contact name or an ENS name such as alice dot eth.',
+          onInput: (input) => this.handleRecipientInput(input)
+        },
+        amount: {
+          prompt: () => 'Please specify the transfer amount now.',
+          onInput: (input) => this.handleAmountInput(input)
+        },
+        token: {
+          prompt: () => `Which token? Say ${this.describeTokenChoices()}.`,
+          onInput: (input) => this.handleTokenInput(input)
+        },
+        confirm: {
+          prompt: () => this.buildTransferSummary(),
+          reprompt: () => 'Please clearly say "confirm" to execute the transfer or "cancel" to exit.',
+          onInput: (input) => this.handleConfirmationInput(input)
         }
-      )
-    }, 1000)
+      },
+      onEnter: (step) => useWalletStore.getState().setTransferState({ step }),
+      onCancel: (reason) => this.cancelTransferFlow(reason)
+    }
   }
 
   /**
-   * Handle transfer step input
+   * Run the transfer dialog from a step. Not awaited: the dialog listens for its own
+   * answers, so the command that started it is finished.
    */
-  private async handleTransferStepInput(input: string) {
-    const { transfer } = useWalletStore.getState()
-    if (!transfer.isActive) return
-
-    // Handle cancel commands
-    if (input.includes('cancel') || input.includes('exit')) {
-      this.cancelTransferFlow('User cancelled')
-      return
-    }
-
-    switch (transfer.step) {
-      case 'recipient':
-        await this.handleRecipientInput(input)
-        break
-      case 'amount':
-        await this.handleAmountInput(input)
-        break
-      case 'confirm':
-        await this.handleConfirmationInput(input)
-        break
-    }
+  private runTransferDialog(initial: TransferStep, intro?: string) {
+    void dialogEngine.run(this.transferDialog(), null, { initial, intro })
   }
 
   /**
    * Handle recipient input
    */
-  private async handleRecipientInput(input: string) {
+  private async handleRecipientInput(input: string): Promise<DialogTransition<TransferStep>> {
     const { setTransferState } = useWalletStore.getState()
     // Normalize the raw input
     const optimizedInput = VoiceRecognitionOptimizer.optimizeText(input)
@@ -791,6 +1533,22 @@ class CommandService {
       contactName = contactMatch[1].trim()
     }
     
+    // ENS names ("vitalik dot eth") are resolved on the network
+    const ensName = VoiceRecognitionOptimizer.extractEnsName(optimizedInput)
+    if (ensName) {
+      const resolved = await this.resolveEnsRecipient(ensName)
+      if ('reason' in resolved) return { type: 'retry', say: resolved.reason }
+
+      setTransferState({
+        recipient: {
+          type: 'ens',
+          value: resolved.address,
+          displayName: ensName
+        }
+      })
+      return { type: 'goto', state: 'amount', say: `Recipient: ${ensName}, address ${this.formatHexForSpeech(resolved.address)}.` }
+    }
+
     // Attempt to find the contact
     const contact = contactsService.findContact(contactName)
     
@@ -800,12 +1558,9 @@ class CommandService {
           type: 'contact',
           value: contact.address,
           displayName: contact.name
-        },
-        step: 'amount'
+        }
       })
-      voiceService.speak(`Recipient: ${contact.name}. Please specify the transfer amount now.`)
-      this.waitForAmountInput()
-      return
+      return { type: 'goto', state: 'amount', say: `Recipient: ${contact.name}.` }
     }
 
     // Check whether the input is a wallet address
@@ -815,59 +1570,29 @@ class CommandService {
         recipient: {
           type: 'address',
           value: addressMatch[1]
-        },
-        step: 'amount'
+        }
       })
       const shortAddress = `${addressMatch[1].slice(0, 6)}...${addressMatch[1].slice(-4)}`
-      voiceService.speak(`Recipient address: ${shortAddress}. Please specify the transfer amount now.`)
-      this.waitForAmountInput()
-      return
+      return { type: 'goto', state: 'amount', say: `Recipient address: ${shortAddress}.` }
     }
 
     // No match found
-    this.cancelTransferFlow('Could not recognize the recipient information.')
-  }
-
-  /**
-   * Wait for amount input
-   */
-  private waitForAmountInput() {
-    setTimeout(() => {
-      voiceService.startListeningForText(
-        (text) => this.handleTransferStepInput(text),
-        (error) => {
-          const { transfer } = useWalletStore.getState()
-          // Ignore "no speech" errors and prompt again gently
-          if (error.includes('No speech detected')) {
-            // voiceService already handled the spoken feedback
-            setTimeout(() => {
-              if (transfer.isActive && transfer.step === 'amount') {
-                this.waitForAmountInput()
-              }
-            }, 2000)
-            return
-          }
-          
-          this.cancelTransferFlow('Too many speech recognition failures')
-        }
-      )
-    }, 1000)
+    return { type: 'retry', say: 'I could not recognize the recipient information.' }
   }
 
   /**
    * Handle amount input
    */
-  private async handleAmountInput(input: string) {
+  private handleAmountInput(input: string): DialogTransition<TransferStep> {
     const { setTransferState } = useWalletStore.getState()
     // Normalize the amount input
     const optimizedInput = VoiceRecognitionOptimizer.optimizeText(input)
     
-    // Extract numeric amount only
-    const amountMatch = optimizedInput.match(/([0-9.]+)/i)
+    // Extract the amount, or a share of the balance ("half my balance" → "50%")
+    const amountMatch = VoiceRecognitionOptimizer.normalizeBalanceShare(optimizedInput).match(/([0-9.]+%?)/i)
     
     if (!amountMatch) {
-      this.cancelTransferFlow('Could not identify the amount.')
-      return
+      return { type: 'retry', say: 'I could not identify the amount.' }
     }
 
     const amount = amountMatch[1]
@@ -875,75 +1600,172 @@ class CommandService {
     // Validate the amount
     const validation = VoiceRecognitionOptimizer.validateAmount(amount)
     if (!validation.isValid) {
-      this.cancelTransferFlow('Invalid amount format.')
-      return
+      return { type: 'retry', say: 'Invalid amount format.' }
+    }
+
+    // The token may be spoken together with the amount ("20 USDC")
+    const spokenToken = VoiceRecognitionOptimizer.extractToken(optimizedInput)
+    const availableTokens = walletService.getDefaultTokens()
+
+    if (spokenToken || availableTokens.length === 0) {
+      const tokenSymbol = this.resolveTokenSymbol(spokenToken || 'eth')
+      if (!tokenSymbol) {
+        return { type: 'retry', say: `${(spokenToken || 'eth').toUpperCase()} is not available on this network.` }
+      }
+
+      setTransferState({ amount: validation.corrected, token: tokenSymbol })
+      return { type: 'goto', state: 'confirm', say: `Transfer amount: ${this.describeAmount(validation.corrected, tokenSymbol)}.` }
     }
 
-    setTransferState({ amount: validation.corrected, step: 'confirm' })
-    voiceService.speak(`Transfer amount: ${validation.corrected} ETH`)
-    this.showTransferSummary()
+    setTransferState({ amount: validation.corrected })
+    return { type: 'goto', state: 'token', say: `Transfer amount: ${this.describeAmount(validation.corrected)}.` }
   }
 
   /**
-   * Present transfer summary and await confirmation
+   * Spoken list of tokens available on the current network
    */
-  private showTransferSummary() {
-    const { transfer } = useWalletStore.getState()
-    const recipientInfo = transfer.recipient!.displayName || 
-                         `address ${transfer.recipient!.value.slice(0, 6)}...${transfer.recipient!.value.slice(-4)}`
-    
-    const summary = `Please confirm the transfer: send ${transfer.amount} ETH to ${recipientInfo}. Say "confirm" to execute the transfer or "cancel" to exit.`
-    
-    voiceService.speak(summary)
-    this.waitForConfirmation()
+  private describeTokenChoices(): string {
+    const symbols = [walletService.getNativeCurrency().symbol, ...walletService.getDefaultTokens().map((token) => token.symbol)]
+    return `${symbols.slice(0, -1).join(', ')} or ${symbols[symbols.length - 1]}`
   }
 
   /**
-   * Wait for final confirmation
+   * Canonical symbol of a spoken token on the current network; null when it is not available
    */
-  private waitForConfirmation() {
-    console.log('⏳ Waiting for final confirmation...')
-    const { transfer } = useWalletStore.getState()
-    console.log('🔍 Current transfer state:', transfer)
+  private resolveTokenSymbol(spoken: string): string | null {
+    if (walletService.isNativeToken(spoken)) return walletService.getNativeCurrency().symbol
+    return walletService.findToken(spoken)?.symbol ?? null
+  }
+
+  /**
+   * Handle token input
+   */
+  private handleTokenInput(input: string): DialogTransition<TransferStep> {
+    const { setTransferState } = useWalletStore.getState()
+    const spokenToken = VoiceRecognitionOptimizer.extractToken(VoiceRecognitionOptimizer.optimizeText(input))
+    const tokenSymbol = spokenToken ? this.resolveTokenSymbol(spokenToken) : null
+
+    if (!tokenSymbol) {
+      return { type: 'retry' }
+    }
+
+    setTransferState({ token: tokenSymbol })
+    return { type: 'goto', state: 'confirm', say: `Token: ${tokenSymbol}.` }
+  }
+
+  /**
+   * Transfer summary to confirm, with the network fee; cancels the transfer when a
+   * share of the balance comes to nothing
+   */
+  private async buildTransferSummary(): Promise<string | DialogTransition<TransferStep>> {
+    // "Send everything" and "half my balance" become a number before anything is confirmed
+    let readback = ''
+    const share = VoiceRecognitionOptimizer.getBalanceShare(useWalletStore.getState().transfer.amount)
+    if (share !== null) {
+      const resolved = await this.resolveBalanceShare(share)
+      if ('reason' in resolved) return { type: 'cancel', reason: resolved.reason }
+      readback = `${resolved.readback} `
+    }
+
+    const { wallet, transfer } = useWalletStore.getState()
+    // ENS names are read back with the address they resolved to
+    const recipientInfo = transfer.recipient!.type === 'ens'
+      ? `${transfer.recipient!.displayName}, address ${this.formatHexForSpeech(transfer.recipient!.value)}`
+      : transfer.recipient!.displayName || `address ${this.formatHexForSpeech(transfer.recipient!.value)}`
     
-    setTimeout(() => {
-      voiceService.startListeningForText(
-        (text) => {
-          console.log('🎤 Received speech input during confirmation step:', text)
-          const { transfer } = useWalletStore.getState()
-          console.log('📊 Current flow state:', {
-            isActive: transfer.isActive,
-            step: transfer.step,
-            recipient: transfer.recipient?.displayName || transfer.recipient?.value,
-            amount: transfer.amount
-          })
-          this.handleTransferStepInput(text)
-        },
-        (error) => {
-          console.log('❌ Speech recognition error during confirmation step:', error)
-          const { transfer } = useWalletStore.getState()
-          // Ignore "no speech" errors and prompt again gently
-          if (error.includes('No speech detected')) {
-            // voiceService already handled the spoken feedback
-            setTimeout(() => {
-              if (transfer.isActive && transfer.step === 'confirm') {
-                voiceService.speak('Please say "confirm" to execute the transfer or "cancel" to exit.')
-                this.waitForConfirmation()
-              }
-            }, 2000)
-            return
-          }
-          
-          this.cancelTransferFlow('Too many speech recognition failures')
+    // Quote the network fee so the user can pick a speed before confirming
+    let feeInfo = 'The network fee could not be estimated right now.'
+    this.transferFees = null
+    this.transferSponsored = undefined
+    const request = this.buildStepTransferRequest()
+    if (wallet && request) {
+      try {
+        // Who pays is said before confirming; with no paymaster there is nothing to say
+        const quote = await walletService.quoteTransfer(request, wallet.address)
+        this.transferFees = quote.fees
+        this.transferSponsored = quote.sponsored
+        const fee = `Network fee: ${walletService.formatFeeForSpeech(quote.fees[transfer.feeTier])}.`
+        const payer = quote.sponsored
+          ? TTS_TEMPLATES.GAS_SPONSORED
+          : quote.sponsored === false ? `${TTS_TEMPLATES.GAS_SPONSORSHIP_REFUSED} ${fee}` : fee
+        feeInfo = `${payer} Say "fast" or "cheapest" to change the speed.`
+      } catch (error) {
+        // A smart account without a bundler cannot send at all, so there is nothing to confirm
+        if (error instanceof BundlerUnavailableError) return { type: 'cancel', reason: `${error.message}.` }
+        console.warn('⚠️ Fee estimation failed:', error)
+      }
+    }
+
+    return `${readback}Please confirm the transfer: send ${this.formatAmountForSpeech(transfer.amount)} ${transfer.token} to ${recipientInfo}. ${feeInfo} Say "confirm" to execute the transfer or "cancel" to exit.`
+  }
+
+  /**
+   * Replace a share of the balance with the amount it comes to, and say how it was worked
+   * out; the reason to cancel the transfer when there is nothing to send.
+   */
+  private async resolveBalanceShare(share: number): Promise<{ readback: string } | { reason: string }> {
+    const { wallet, transfer, setTransferState } = useWalletStore.getState()
+    const request = this.buildStepTransferRequest()
+    if (!wallet || !request) return { reason: 'Transfer information is incomplete' }
+
+    const portion = VoiceRecognitionOptimizer.describeBalanceShare(share)
+    try {
+      const { amount, feeReserved } = await walletService.getBalanceShareAmount(wallet, request, share)
+      if (parseFloat(amount) <= 0) {
+        return {
+          reason: feeReserved ? `Your ${transfer.token} balance does not cover the network fee.` : `You have no ${transfer.token} to send.`
         }
-      )
-    }, 1000)
+      }
+
+      setTransferState({ amount })
+      const subject = portion === 'all' ? 'Your whole' : `${portion.charAt(0).toUpperCase()}${portion.slice(1)} of your`
+      const fee = feeReserved ? ', after keeping back the network fee,' : ''
+      return { readback: `${subject} ${transfer.token} balance${fee} is ${this.formatAmountForSpeech(amount)} ${transfer.token}.` }
+    } catch (error) {
+      console.error('❌ Could not work out the amount from the balance:', error)
+      return {
+        reason: error instanceof NetworkUnavailableError
+          ? `I cannot reach ${walletService.getCurrentNetwork().name} to read your balance.`
+          : 'I could not read your balance.'
+      }
+    }
+  }
+
+  /**
+   * Spoken amount: "0.5 USDC", or a share such as "half of your USDC balance"
+   */
+  private describeAmount(amount: string, token?: string): string {
+    const share = VoiceRecognitionOptimizer.getBalanceShare(amount)
+    if (share === null) return token ? `${amount} ${token}` : amount
+    return `${VoiceRecognitionOptimizer.describeBalanceShare(share)} of your ${token ? `${token} ` : ''}balance`
+  }
+
+  /**
+   * At most six decimals, cut rather than rounded so a whole balance is never read as more than it is
+   */
+  private formatAmountForSpeech(amount: string): string {
+    const [whole, fraction = ''] = amount.split('.')
+    const decimals = fraction.slice(0, 6).replace(/0+$/, '')
+    return decimals ? `${whole}.${decimals}` : whole
+  }
+
+  /**
+   * Switch the fee tier of the transfer awaiting confirmation and read out its cost
+   */
+  private changeFeeTier(feeTier: FeeTier): DialogTransition<TransferStep> {
+    useWalletStore.getState().setTransferState({ feeTier })
+
+    // A sponsored fee costs the user nothing at any speed
+    const estimate = this.transferSponsored ? undefined : this.transferFees?.[feeTier]
+    const label = feeTier === 'slow' ? 'Cheapest' : feeTier === 'fast' ? 'Fast' : 'Normal'
+    const cost = estimate ? `: ${walletService.formatFeeForSpeech(estimate)}` : ''
+    return { type: 'stay', say: `${label} fee selected${cost}. Say "confirm" to execute the transfer or "cancel" to exit.` }
   }
 
   /**
    * Handle final confirmation input
    */
-  private async handleConfirmationInput(input: string) {
+  private async handleConfirmationInput(input: string): Promise<DialogTransition<TransferStep>> {
     console.log('🔍 Handling confirmation input:', input)
     const { transfer } = useWalletStore.getState()
     console.log('📊 Transfer state at confirmation:', {
@@ -953,30 +1775,34 @@ class CommandService {
       amount: transfer.amount,
     })
     
-    if (input.includes('confirm') || input.includes('yes') || input.includes('ok')) {
-      console.log('✅ User confirmed the transfer. Executing...')
-      try {
-        await this.executeStepTransfer()
-        console.log('🎉 Transfer execution completed')
-      } catch (error) {
-        console.error('❌ Transfer execution exception:', error)
-        this.cancelTransferFlow(`Transfer execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
-      }
-    } else if (input.includes('cancel') || input.includes('no') || input.includes('stop')) {
+    // With a confirmation ("send it fast") the transfer goes out at that speed; otherwise a
+    // speed is re-quoted, which never sends, so "no, make it fast" changes the fee.
+    const answer = IntentParser.parseAnswer(input)
+    const feeTier = VoiceRecognitionOptimizer.extractFeeTier(input.toLowerCase())
+    if (feeTier && answer !== 'yes') {
+      return this.changeFeeTier(feeTier)
+    }
+
+    if (answer === 'no') {
       console.log('❌ User cancelled the transfer')
-      this.cancelTransferFlow('User cancelled')
-    } else {
-      console.log('🔄 Input unclear; asking again')
-      console.log('🔍 User said:', `"${input}"`)
-      voiceService.speak('Please clearly say "confirm" to execute the transfer or "cancel" to exit.')
-      this.waitForConfirmation()
+      return { type: 'cancel', reason: DIALOG_CANCEL.USER }
+    }
+    if (answer === 'yes') {
+      if (feeTier) useWalletStore.getState().setTransferState({ feeTier })
+      console.log('✅ User confirmed the transfer. Executing...')
+      const failure = await this.executeStepTransfer()
+      return failure ? { type: 'cancel', reason: failure } : { type: 'done' }
     }
+
+    console.log('🔄 Input unclear; asking again')
+    console.log('🔍 User said:', `"${input}"`)
+    return { type: 'retry' }
   }
 
   /**
-   * Execute step-by-step transfer
+   * Execute step-by-step transfer; the reason it failed, or null once it is sent
    */
-  private async executeStepTransfer() {
+  private async executeStepTransfer(): Promise<string | null> {
     const { wallet, transfer } = useWalletStore.getState()
     
     console.log('🚀 Starting step-by-step transfer')
@@ -987,19 +1813,13 @@ class CommandService {
     
     if (!wallet || !transfer.recipient) {
       console.error('❌ Transfer information is incomplete')
-      this.cancelTransferFlow('Transfer information is incomplete')
-      return
+      return 'Transfer information is incomplete'
     }
 
-    const transferRequest: TransferRequest = {
-      to: transfer.recipient.value,
-      amount: transfer.amount,
-      token: undefined, // ETH only
-      tokenSymbol: 'eth'
-    }
+    const transferRequest = this.buildStepTransferRequest()!
 
     try {
-      voiceService.speak('Executing the transfer. Please wait...')
+      voiceService.speak('Executing the transfer. Please wait...', { priority: 'chatter' })
       console.log('📤 Sending transfer request:', transferRequest)
       
       // Mark contact as used when applicable
@@ -1011,18 +1831,59 @@ class CommandService {
         }
       }
 
-      await this.executeTransfer(transferRequest, wallet.privateKey)
+      await this.executeTransfer(transferRequest, wallet.address)
       console.log('✅ Transfer execution completed')
       this.resetTransferSteps()
+      return null
       
     } catch (error) {
+      // executeTransfer has already said why
       console.error('❌ Transfer execution failed:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      voiceService.speak(`Transfer failed: ${errorMessage}`)
-      this.cancelTransferFlow(`Transfer failed: ${errorMessage}`)
+      return `Transfer failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }
+  }
+
+  /**
+   * Transfer request for the guided flow's current state
+   */
+  private buildStepTransferRequest(): TransferRequest | null {
+    const { transfer } = useWalletStore.getState()
+    if (!transfer.recipient) return null
+
+    const token = walletService.isNativeToken(transfer.token) ? undefined : walletService.findToken(transfer.token)
+    return {
+      to: transfer.recipient.value,
+      amount: transfer.amount,
+      token: token?.address,
+      tokenSymbol: token?.symbol ?? walletService.getNativeCurrency().symbol,
+      feeTier: transfer.feeTier,
+      requireSponsorship: this.transferSponsored === true
+    }
+  }
+
+  /**
+   * Address of an ENS recipient, or why there is none
+   */
+  private async resolveEnsRecipient(name: string): Promise<{ address: string } | { reason: string }> {
+    try {
+      const address = await ensService.resolveName(name)
+      return address ? { address } : { reason: `${name} does not point to an address on ${walletService.getCurrentNetwork().name}.` }
+    } catch (error) {
+      console.error('❌ ENS resolution failed:', error)
+      if (error instanceof EnsNotSupportedError) {
+        return { reason: `ENS names cannot be used on ${error.networkName}.` }
+      }
+      return { reason: `I could not look up ${name} right now. Please try again in a moment.` }
     }
   }
 
+  /**
+   * First 6 and last 4 characters, even when the address has an ENS name
+   */
+  private formatHexForSpeech(address: string): string {
+    return `${address.slice(0, 6)}...${address.slice(-4)}`
+  }
+
   /**
    * Cancel transfer flow
    */
@@ -1040,13 +1901,15 @@ class CommandService {
       step: 'idle',
       recipient: null,
       amount: '',
+      token: 'ETH',
+      feeTier: 'normal',
     })
   }
 
   /**
    * Start guided step-by-step transfer flow
    */
-  private async startStepByStepTransferFlow() {
+  private async startStepByStepTransferFlow(intro = 'Starting transfer flow.') {
     const { wallet, setTransferState } = useWalletStore.getState()
     
     if (!wallet) {
@@ -1060,27 +1923,12 @@ class CommandService {
       step: 'recipient',
       recipient: null,
       amount: '',
+      token: 'ETH',
+      feeTier: 'normal',
     })
 
     // Begin by asking for the contact
-    voiceService.speak('Starting transfer flow. Please say the contact name.')
-    this.waitForRecipientInput()
-  }
-
-  private getParameterString(
-    params: Record<string, unknown> | undefined,
-    key: string
-  ): string | undefined {
-    const value = params?.[key]
-    return typeof value === 'string' ? value : undefined
-  }
-
-  private getParameterBoolean(
-    params: Record<string, unknown> | undefined,
-    key: string
-  ): boolean {
-    const value = params?.[key]
-    return typeof value === 'boolean' ? value : false
+    this.runTransferDialog('recipient', intro)
   }
 }
 
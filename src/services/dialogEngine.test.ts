@@ -0,0 +1,372 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { WALLET_CONFIG } from '@/config'
+import { DIALOG_CANCEL, DialogClock, DialogEngine, DialogFlow, DialogIO } from './dialogEngine'
+
+// The engine is driven through DialogIO here, never the app's voice service
+vi.mock('./voiceService', () => ({ voiceService: {} }))
+
+const { ANSWER_TIMEOUT, RETRIES } = WALLET_CONFIG.DIALOG
+
+// Let every promise the engine has started run to its end
+const settle = () => new Promise<void>((resolve) => setImmediate(resolve))
+
+interface Listener {
+  onText: (text: string) => void
+  onError: (error: string) => void
+}
+
+// Time moves only when a test says so
+class FakeClock implements DialogClock {
+  private time = 0
+  private timers: { at: number; callback: () => void }[] = []
+
+  now(): number {
+    return this.time
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const timer = { at: this.time + ms, callback }
+    this.timers.push(timer)
+    return timer
+  }
+
+  clearTimeout(handle: unknown) {
+    this.timers = this.timers.filter((timer) => timer !== handle)
+  }
+
+  get pending(): number {
+    return this.timers.length
+  }
+
+  async advance(ms: number) {
+    this.time += ms
+    for (const timer of this.timers.filter((candidate) => candidate.at <= this.time)) {
+      if (!this.timers.includes(timer)) continue
+      this.clearTimeout(timer)
+      timer.callback()
+      await settle()
+    }
+    await settle()
+  }
+}
+
+// Speech is written down and finishes at once; answers are given by the test
+class ScriptedIO implements DialogIO {
+  readonly spoken: string[] = []
+  listener: Listener | null = null
+
+  speak(text: string): Promise<void> {
+    this.spoken.push(text)
+    return Promise.resolve()
+  }
+
+  listen(onText: (text: string) => void, onError: (error: string) => void) {
+    this.listener = { onText, onError }
+  }
+
+  stopListening() {
+    this.listener = null
+  }
+
+  isRetryableError(error: string): boolean {
+    return error === 'no-speech'
+  }
+
+  async answer(text: string) {
+    this.take().onText(text)
+    await settle()
+  }
+
+  async fail(error: string) {
+    this.take().onError(error)
+    await settle()
+  }
+
+  private take(): Listener {
+    const listener = this.listener
+    if (!listener) throw new Error('Nothing is listening')
+    this.listener = null
+    return listener
+  }
+}
+
+interface TransferContext {
+  amount?: string
+  recipient?: string
+}
+
+type TransferStep = 'amount' | 'recipient'
+
+describe('DialogEngine', () => {
+  let clock: FakeClock
+  let io: ScriptedIO
+  let engine: DialogEngine
+  let context: TransferContext
+  let cancelled: string[]
+
+  const transferFlow = (): DialogFlow<TransferContext, TransferStep> => ({
+    name: 'transfer',
+    initial: 'amount',
+    states: {
+      amount: {
+        prompt: () => 'How much?',
+        onInput: (input, flowContext) => {
+          if (!/^\d+$/.test(input)) return { type: 'retry', say: 'That is not an amount.' }
+          flowContext.amount = input
+          return { type: 'goto', state: 'recipient' }
+        }
+      },
+      recipient: {
+        prompt: () => 'To whom?',
+        onInput: (input, flowContext) => {
+          flowContext.recipient = input
+          return { type: 'done', say: 'Sent.' }
+        }
+      }
+    },
+    onCancel: (reason) => cancelled.push(reason)
+  })
+
+  // Start a flow and wait for its first question. The outcome is wrapped, or awaiting
+  // the start would wait for the flow to end.
+  const start = async (flow = transferFlow()) => {
+    const outcome = engine.run(flow, context)
+    await settle()
+    return { outcome }
+  }
+
+  beforeEach(() => {
+    clock = new FakeClock()
+    io = new ScriptedIO()
+    engine = new DialogEngine(io, clock)
+    context = {}
+    cancelled = []
+  })
+
+  it('moves through the states and finishes', async () => {
+    const { outcome } = await start()
+    await io.answer('5')
+    await io.answer('alice')
+
+    await expect(outcome).resolves.toEqual({ status: 'done' })
+    expect(context).toEqual({ amount: '5', recipient: 'alice' })
+    expect(io.spoken).toEqual(['How much?', 'To whom?', 'Sent.'])
+    expect(engine.isActive()).toBe(false)
+    expect(clock.pending).toBe(0)
+  })
+
+  describe('timeouts', () => {
+    it('asks again once the answer timeout has passed', async () => {
+      await start()
+      await clock.advance(ANSWER_TIMEOUT - 1)
+      expect(io.spoken).toEqual(['How much?'])
+
+      await clock.advance(1)
+      expect(io.spoken).toEqual(['How much?', 'I did not hear anything. How much?'])
+      expect(io.listener).not.toBeNull()
+    })
+
+    it('cancels once every retry has timed out', async () => {
+      const { outcome } = await start()
+      for (let attempt = 0; attempt <= RETRIES; attempt++) {
+        await clock.advance(ANSWER_TIMEOUT)
+      }
+
+      await expect(outcome).resolves.toEqual({ status: 'cancelled', reason: DIALOG_CANCEL.NO_ANSWER })
+      expect(cancelled).toEqual([DIALOG_CANCEL.NO_ANSWER])
+      expect(io.spoken).toHaveLength(RETRIES + 1)
+      expect(io.listener).toBeNull()
+      expect(clock.pending).toBe(0)
+    })
+
+    it('starts the timeout again for the next question', async () => {
+      const { outcome } = await start()
+      await clock.advance(ANSWER_TIMEOUT - 1)
+      await io.answer('5')
+      await clock.advance(ANSWER_TIMEOUT - 1)
+      await io.answer('alice')
+
+      await expect(outcome).resolves.toEqual({ status: 'done' })
+      expect(io.spoken).toEqual(['How much?', 'To whom?', 'Sent.'])
+    })
+
+    it("uses a state's own timeout and retry budget", async () => {
+      const flow = transferFlow()
+      flow.states.amount = { ...flow.states.amount, timeout: 5000, retries: 1, reprompt: () => 'Say an amount.' }
+      const { outcome } = await start(flow)
+
+      await clock.advance(5000)
+      expect(io.spoken).toEqual(['How much?', 'I did not hear anything. Say an amount.'])
+      await clock.advance(5000)
+      await expect(outcome).resolves.toEqual({ status: 'cancelled', reason: DIALOG_CANCEL.NO_ANSWER })
+    })
+
+    it('ignores an answer that arrives after its question timed out', async () => {
+      const { outcome } = await start()
+      const late = io.listener as Listener
+      await clock.advance(ANSWER_TIMEOUT)
+
+      late.onText('5')
+      await settle()
+      expect(context.amount).toBeUndefined()
+
+      await io.answer('7')
+      await io.answer('bob')
+      await expect(outcome).resolves.toEqual({ status: 'done' })
+      expect(context).toEqual({ amount: '7', recipient: 'bob' })
+    })
+  })
+
+  describe('retry budget', () => {
+    it('says why an answer will not do and asks again', async () => {
+      await start()
+      await io.answer('lots')
+
+      expect(io.spoken).toEqual(['How much?', 'That is not an amount. How much?'])
+    })
+
+    it('cancels after too many answers that will not do', async () => {
+      const { outcome } = await start()
+      for (let attempt = 0; attempt <= RETRIES; attempt++) {
+        await io.answer('lots')
+      }
+
+      await expect(outcome).resolves.toEqual({ status: 'cancelled', reason: DIALOG_CANCEL.NO_ANSWER })
+      expect(io.spoken).toHaveLength(RETRIES + 1)
+    })
+
+    it('is shared by timeouts and unclear answers', async () => {
+      const { outcome } = await start()
+      await clock.advance(ANSWER_TIMEOUT)
+      await io.answer('lots')
+      await io.fail('no-speech')
+
+      await expect(outcome).resolves.toEqual({ status: 'cancelled', reason: DIALOG_CANCEL.NO_ANSWER })
+    })
+
+    it('is full again in the next state', async () => {
+      const { outcome } = await start()
+      for (let attempt = 0; attempt < RETRIES; attempt++) {
+        await io.answer('lots')
+      }
+      await io.answer('5')
+      for (let attempt = 0; attempt < RETRIES; attempt++) {
+        await clock.advance(ANSWER_TIMEOUT)
+      }
+      await io.answer('alice')
+
+      await expect(outcome).resolves.toEqual({ status: 'done' })
+    })
+
+    it('cancels at once on a recognition error that cannot be retried', async () => {
+      const { outcome } = await start()
+      await io.fail('not-allowed')
+
+      await expect(outcome).resolves.toEqual({ status: 'cancelled', reason: DIALOG_CANCEL.RECOGNITION })
+      expect(clock.pending).toBe(0)
+    })
+  })
+
+  describe('global intents', () => {
+    it('cancels on "cancel"', async () => {
+      const { outcome } = await start()
+      await io.answer('5')
+      await io.answer('cancel that')
+
+      await expect(outcome).resolves.toEqual({ status: 'cancelled', reason: DIALOG_CANCEL.USER })
+      expect(cancelled).toEqual([DIALOG_CANCEL.USER])
+      expect(context.recipient).toBeUndefined()
+      expect(io.listener).toBeNull()
+    })
+
+    it('returns to the previous state on "go back"', async () => {
+      const { outcome } = await start()
+      await io.answer('5')
+      await io.answer('go back')
+      expect(io.spoken).toEqual(['How much?', 'To whom?', 'How much?'])
+
+      await io.answer('7')
+      await io.answer('bob')
+      await expect(outcome).resolves.toEqual({ status: 'done' })
+      expect(context).toEqual({ amount: '7', recipient: 'bob' })
+    })
+
+    it('stays in the first state on "go back"', async () => {
+      await start()
+      await io.answer('go back')
+
+      expect(io.spoken).toEqual(['How much?', 'There is no earlier step. How much?'])
+    })
+
+    it('repeats the prompt without using up the retry budget', async () => {
+      const { outcome } = await start()
+      for (let attempt = 0; attempt <= RETRIES; attempt++) {
+        await io.answer('repeat')
+      }
+      expect(io.spoken).toEqual(Array(RETRIES + 2).fill('How much?'))
+
+      await io.answer('5')
+      await io.answer('alice')
+      await expect(outcome).resolves.toEqual({ status: 'done' })
+    })
+
+    it('leaves turned off intents to the state', async () => {
+      const flow = transferFlow()
+      flow.states.recipient = { ...flow.states.recipient, intents: { cancel: null } }
+      const { outcome } = await start(flow)
+      await io.answer('5')
+      await io.answer('cancel')
+
+      await expect(outcome).resolves.toEqual({ status: 'done' })
+      expect(context.recipient).toBe('cancel')
+    })
+  })
+
+  describe('ask', () => {
+    it('resolves the answer', async () => {
+      const answer = engine.ask('What is the name?')
+      await settle()
+      await io.answer('savings')
+
+      await expect(answer).resolves.toBe('savings')
+    })
+
+    it('asks again until the answer is valid', async () => {
+      const answer = engine.ask('How many words?', { validate: (input) => (input === '12' || input === '24' ? null : 'Say 12 or 24.') })
+      await settle()
+      await io.answer('10')
+      await io.answer('12')
+
+      await expect(answer).resolves.toBe('12')
+      expect(io.spoken).toEqual(['How many words?', 'Say 12 or 24. How many words?'])
+    })
+
+    it('resolves null when no answer comes', async () => {
+      const answer = engine.ask('What is the name?')
+      await settle()
+      for (let attempt = 0; attempt <= RETRIES; attempt++) {
+        await clock.advance(ANSWER_TIMEOUT)
+      }
+
+      await expect(answer).resolves.toBeNull()
+    })
+  })
+
+  it('cancels a waiting flow when another one starts', async () => {
+    const { outcome: first } = await start()
+    const second = engine.ask('What is the name?')
+    await settle()
+
+    await expect(first).resolves.toEqual({ status: 'cancelled', reason: DIALOG_CANCEL.INTERRUPTED })
+    await io.answer('savings')
+    await expect(second).resolves.toBe('savings')
+  })
+
+  it('records events at the time of the fake clock', async () => {
+    await start()
+    await clock.advance(ANSWER_TIMEOUT)
+
+    const timeout = engine.getLog().find((event) => event.type === 'timeout')
+    expect(timeout).toMatchObject({ at: ANSWER_TIMEOUT, flow: 'transfer', state: 'amount' })
+  })
+})
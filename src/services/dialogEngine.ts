@@ -0,0 +1,460 @@
+/**
+ * Echo Wallet - Dialog engine
+ * Runs multi-turn voice flows (the guided transfer, recovery phrase dictation, contact
+ * lists, spoken questions) as explicit state machines. Each state speaks a prompt, then
+ * listens once the prompt has finished, with its own answer timeout and retry budget.
+ * "Cancel", "go back" and "repeat" work in every state unless the state overrides them.
+ * Answers and timers from an earlier turn are ignored, so late callbacks cannot race a
+ * newer prompt. A question asked while a flow is acting on an answer (the passphrase
+ * while a transfer is being sent) runs inside that flow. Every step is recorded in an
+ * event log.
+ */
+
+import { WALLET_CONFIG } from '@/config'
+import { voiceService } from './voiceService'
+
+export type GlobalIntent = 'cancel' | 'back' | 'repeat'
+
+export type DialogTransition<S extends string> =
+  // Enter another state, optionally saying something before its prompt
+  | { type: 'goto'; state: S; say?: string }
+  // Say something and listen again; does not use up the retry budget
+  | { type: 'stay'; say: string }
+  // The answer would not do: say why (or the prompt again) and listen; uses up the retry budget
+  | { type: 'retry'; say?: string }
+  | { type: 'done'; say?: string }
+  | { type: 'cancel'; reason: string }
+
+export interface DialogState<C, S extends string> {
+  // Spoken on entry and on "repeat"; a transition instead when there is nothing to ask
+  prompt: (context: C) => string | DialogTransition<S> | Promise<string | DialogTransition<S>>
+  // Spoken when no answer came; the prompt when omitted
+  reprompt?: (context: C) => string
+  onInput: (input: string, context: C) => DialogTransition<S> | Promise<DialogTransition<S>>
+  // Custom "go back", e.g. the previous page of a list; by default the previous state
+  back?: (context: C) => DialogTransition<S> | null
+  // Prompts and answers are kept out of logs
+  sensitive?: boolean
+  // Answers are delivered as heard, without the optimizer
+  raw?: boolean
+  // Replacement phrases for the global intents; null turns one off
+  intents?: Partial<Record<GlobalIntent, RegExp | null>>
+  // Milliseconds to wait for an answer once the prompt has been spoken
+  timeout?: number
+  // Missing, unclear or rejected answers allowed before the flow is cancelled
+  retries?: number
+}
+
+export interface DialogFlow<C, S extends string> {
+  name: string
+  initial: S
+  states: Record<S, DialogState<C, S>>
+  onEnter?: (state: S, context: C) => void
+  // Clean up and tell the user; `reason` is a DIALOG_CANCEL value or a flow's own message
+  onCancel?: (reason: string, context: C) => void
+}
+
+export interface DialogOutcome {
+  status: 'done' | 'cancelled'
+  reason?: string
+}
+
+export interface DialogEvent {
+  at: number
+  flow: string
+  type: 'start' | 'enter' | 'prompt' | 'input' | 'timeout' | 'error' | 'retry' | 'back' | 'repeat' | 'done' | 'cancel'
+  state?: string
+  detail?: string
+}
+
+export const DIALOG_CANCEL = {
+  USER: 'User cancelled',
+  NO_ANSWER: 'No clear answer after several attempts',
+  RECOGNITION: 'Too many speech recognition failures',
+  INTERRUPTED: 'Interrupted by another conversation'
+} as const
+
+// Speech in and out; the voice service in the app, a script in tests
+export interface DialogIO {
+  // Resolves once the text has been spoken
+  speak(text: string, options?: { sensitive?: boolean }): Promise<void>
+  listen(onText: (text: string) => void, onError: (error: string) => void, options?: { raw?: boolean }): void
+  stopListening(): void
+  isRetryableError(error: string): boolean
+}
+
+export interface DialogClock {
+  now(): number
+  setTimeout(callback: () => void, ms: number): unknown
+  clearTimeout(handle: unknown): void
+}
+
+const GLOBAL_INTENTS: Record<GlobalIntent, RegExp> = {
+  cancel: /\b(?:cancel|exit)\b/,
+  back: /\b(?:go back|previous step)\b/,
+  repeat: /\b(?:repeat|say (?:that|it) again)\b/
+}
+
+// Events kept for inspection
+const LOG_SIZE = 200
+
+const systemClock: DialogClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+}
+
+const voiceIO: DialogIO = {
+  speak: (text, options) => voiceService.speak(text, { sensitive: options?.sensitive }),
+  listen: (onText, onError, options) => voiceService.startListeningForText(onText, onError, options),
+  stopListening: () => voiceService.stopListening(),
+  isRetryableError: (error) => voiceService.isRetryableError(error)
+}
+
+interface ActiveDialog {
+  readonly name: string
+  // Acting on an answer rather than waiting for one
+  readonly busy: boolean
+  submit(input: string): void
+  repeat(): boolean
+  cancel(reason: string): void
+}
+
+class DialogSession<C, S extends string> implements ActiveDialog {
+  private state: S
+  // States entered before the current one, for "go back"
+  private history: S[] = []
+  private attempts = 0
+  // Bumped on every prompt and answer; callbacks from an older turn are ignored
+  private turn = 0
+  private timer: unknown = null
+  private lastPrompt = ''
+  private pending = false
+  private finished = false
+
+  constructor(
+    private flow: DialogFlow<C, S>,
+    private context: C,
+    private io: DialogIO,
+    private clock: DialogClock,
+    private record: (event: Omit<DialogEvent, 'at' | 'flow'>) => void,
+    private onFinish: (outcome: DialogOutcome) => void
+  ) {
+    this.state = flow.initial
+  }
+
+  get name() {
+    return this.flow.name
+  }
+
+  get busy() {
+    return this.pending
+  }
+
+  start(initial: S, intro?: string) {
+    this.record({ type: 'start', state: initial })
+    void this.enter(initial, intro, false)
+  }
+
+  submit(input: string) {
+    if (this.finished || this.pending) return
+    this.io.stopListening()
+    void this.handle(input)
+  }
+
+  repeat(): boolean {
+    if (this.finished || this.pending) return false
+    this.io.stopListening()
+    this.record({ type: 'repeat', state: this.state })
+    void this.ask(this.lastPrompt)
+    return true
+  }
+
+  cancel(reason: string) {
+    if (this.finished) return
+    this.finish({ status: 'cancelled', reason })
+    this.flow.onCancel?.(reason, this.context)
+  }
+
+  private get definition(): DialogState<C, S> {
+    return this.flow.states[this.state]
+  }
+
+  private async enter(state: S, say: string | undefined, remember: boolean) {
+    const turn = this.nextTurn()
+    if (remember) this.history.push(this.state)
+    this.state = state
+    this.attempts = 0
+    this.record({ type: 'enter', state })
+    this.flow.onEnter?.(state, this.context)
+
+    const prompt = await this.settle(() => this.definition.prompt(this.context))
+    if (turn !== this.turn) return
+    if (typeof prompt !== 'string') {
+      if (say) await this.io.speak(say)
+      if (turn !== this.turn) return
+      await this.apply(prompt)
+      return
+    }
+
+    this.lastPrompt = prompt
+    await this.ask(say ? `${say} ${prompt}` : prompt)
+  }
+
+  /**
+   * Speak, then listen for the answer with the state's timeout
+   */
+  private async ask(text: string) {
+    const turn = this.nextTurn()
+    const { sensitive, raw, timeout = WALLET_CONFIG.DIALOG.ANSWER_TIMEOUT } = this.definition
+    this.record({ type: 'prompt', state: this.state, detail: sensitive ? undefined : text })
+
+    await this.io.speak(text, { sensitive })
+    if (turn !== this.turn) return
+
+    this.timer = this.clock.setTimeout(() => {
+      if (turn !== this.turn) return
+      this.io.stopListening()
+      this.record({ type: 'timeout', state: this.state })
+      this.retry('I did not hear anything.')
+    }, timeout)
+
+    this.io.listen(
+      (input) => {
+        if (turn === this.turn) void this.handle(input)
+      },
+      (error) => {
+        if (turn !== this.turn) return
+        this.nextTurn()
+        this.record({ type: 'error', state: this.state, detail: error })
+        if (this.io.isRetryableError(error)) {
+          this.retry()
+        } else {
+          this.cancel(DIALOG_CANCEL.RECOGNITION)
+        }
+      },
+      { raw }
+    )
+  }
+
+  private async handle(input: string) {
+    const turn = this.nextTurn()
+    const definition = this.definition
+    this.record({ type: 'input', state: this.state, detail: definition.sensitive ? undefined : input })
+
+    const spoken = input.toLowerCase()
+    const intents = { ...GLOBAL_INTENTS, ...definition.intents }
+    if (intents.cancel?.test(spoken)) {
+      this.cancel(DIALOG_CANCEL.USER)
+      return
+    }
+    if (intents.repeat?.test(spoken)) {
+      this.repeat()
+      return
+    }
+    if (intents.back?.test(spoken)) {
+      await this.back()
+      return
+    }
+
+    const transition = await this.settle(() => definition.onInput(input, this.context))
+    if (turn !== this.turn) return
+    await this.apply(transition)
+  }
+
+  /**
+   * Run a prompt or answer handler; a failure cancels the flow with its message
+   */
+  private async settle<T>(step: () => T | Promise<T>): Promise<T | DialogTransition<S>> {
+    this.pending = true
+    try {
+      return await step()
+    } catch (error) {
+      console.error(`❌ Dialog ${this.flow.name} failed:`, error)
+      return { type: 'cancel', reason: error instanceof Error ? error.message : 'Unknown error' }
+    } finally {
+      this.pending = false
+    }
+  }
+
+  private async back() {
+    const custom = this.definition.back?.(this.context)
+    this.record({ type: 'back', state: this.state })
+    if (custom) {
+      await this.apply(custom)
+      return
+    }
+
+    const previous = this.history.pop()
+    if (previous === undefined) {
+      await this.ask(`There is no earlier step. ${this.lastPrompt}`)
+      return
+    }
+    await this.enter(previous, undefined, false)
+  }
+
+  private async apply(transition: DialogTransition<S>) {
+    if (this.finished) return
+
+    switch (transition.type) {
+      case 'goto':
+        await this.enter(transition.state, transition.say, true)
+        break
+      case 'stay':
+        await this.ask(transition.say)
+        break
+      case 'retry':
+        this.retry(transition.say)
+        break
+      case 'done':
+        this.finish({ status: 'done' })
+        if (transition.say) void this.io.speak(transition.say)
+        break
+      case 'cancel':
+        this.cancel(transition.reason)
+        break
+    }
+  }
+
+  private retry(say?: string) {
+    const { retries = WALLET_CONFIG.DIALOG.RETRIES, reprompt } = this.definition
+    this.attempts++
+    this.record({ type: 'retry', state: this.state, detail: `${this.attempts}/${retries}` })
+    if (this.attempts > retries) {
+      this.cancel(DIALOG_CANCEL.NO_ANSWER)
+      return
+    }
+
+    const again = reprompt?.(this.context) ?? this.lastPrompt
+    void this.ask(say ? `${say} ${again}` : again)
+  }
+
+  private finish(outcome: DialogOutcome) {
+    this.finished = true
+    this.nextTurn()
+    this.io.stopListening()
+    this.record({ type: outcome.status === 'done' ? 'done' : 'cancel', state: this.state, detail: outcome.reason })
+    this.onFinish(outcome)
+  }
+
+  private nextTurn(): number {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer)
+      this.timer = null
+    }
+    return this.finished ? -1 : ++this.turn
+  }
+}
+
+export class DialogEngine {
+  // Running flows; the last one is listening, the others wait for it
+  private stack: ActiveDialog[] = []
+  private events: DialogEvent[] = []
+
+  constructor(private io: DialogIO = voiceIO, private clock: DialogClock = systemClock) {}
+
+  /**
+   * Run a flow to its end. A flow that is waiting for an answer is cancelled first;
+   * one that is acting on an answer waits for this one.
+   */
+  run<C, S extends string>(flow: DialogFlow<C, S>, context: C, options?: { initial?: S; intro?: string }): Promise<DialogOutcome> {
+    const current = this.current
+    if (current && !current.busy) current.cancel(DIALOG_CANCEL.INTERRUPTED)
+
+    return new Promise((resolve) => {
+      const session: DialogSession<C, S> = new DialogSession(
+        flow,
+        context,
+        this.io,
+        this.clock,
+        (event) => this.record(flow.name, event),
+        (outcome) => {
+          this.stack = this.stack.filter((active) => active !== session)
+          resolve(outcome)
+        }
+      )
+      this.stack.push(session)
+      session.start(options?.initial ?? flow.initial, options?.intro)
+    })
+  }
+
+  /**
+   * Ask one question and resolve the answer, or null when the user cancels or gives
+   * none. `validate` returns what to say about an answer that will not do.
+   */
+  async ask(
+    prompt: string,
+    options?: { sensitive?: boolean; raw?: boolean; validate?: (answer: string) => string | null }
+  ): Promise<string | null> {
+    const context: { answer: string | null } = { answer: null }
+    const outcome = await this.run<typeof context, 'question'>(
+      {
+        name: 'question',
+        initial: 'question',
+        states: {
+          question: {
+            prompt: () => prompt,
+            sensitive: options?.sensitive,
+            raw: options?.raw,
+            onInput: (input) => {
+              const problem = options?.validate?.(input)
+              if (problem) return { type: 'retry', say: problem }
+              context.answer = input
+              return { type: 'done' }
+            }
+          }
+        }
+      },
+      context
+    )
+    return outcome.status === 'done' ? context.answer : null
+  }
+
+  isActive(): boolean {
+    return this.stack.length > 0
+  }
+
+  /**
+   * Hand the listening flow an answer heard elsewhere, e.g. typed on screen.
+   * False when no flow is waiting for one.
+   */
+  submit(input: string): boolean {
+    const current = this.current
+    if (!current || current.busy) return false
+    current.submit(input)
+    return true
+  }
+
+  /**
+   * Ask the current question again; false while the flow is busy or none is running
+   */
+  repeat(): boolean {
+    return this.current?.repeat() ?? false
+  }
+
+  /**
+   * Cancel every running flow, the innermost first
+   */
+  cancel(reason: string = DIALOG_CANCEL.USER) {
+    for (const active of [...this.stack].reverse()) {
+      active.cancel(reason)
+    }
+  }
+
+  getLog(): DialogEvent[] {
+    return [...this.events]
+  }
+
+  private get current(): ActiveDialog | undefined {
+    return this.stack[this.stack.length - 1]
+  }
+
+  private record(flow: string, event: Omit<DialogEvent, 'at' | 'flow'>) {
+    const entry: DialogEvent = { at: this.clock.now(), flow, ...event }
+    this.events.push(entry)
+    if (this.events.length > LOG_SIZE) this.events.shift()
+    console.log(`🧩 Dialog ${flow}: ${event.type}${event.state ? ` (${event.state})` : ''}${event.detail ? ` – ${event.detail}` : ''}`)
+  }
+}
+
+export const dialogEngine = new DialogEngine()
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ethers } from 'ethers'
+import { ChainConfig, NetworkId } from '@/types'
+import { WALLET_CONFIG } from '@/config'
+import { useWalletStore } from '@/store'
+import { ensService } from './ensService'
+
+const DEVNET_REGISTRY = vi.hoisted(() => {
+  // Runs before the imports, so the config reads it when it loads
+  const registry = '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+  process.env.NEXT_PUBLIC_DEVNET_ENS_REGISTRY = registry
+  return registry
+})
+
+const RESOLVER = '0x1111111111111111111111111111111111111111'
+const ETHEREUM_ADDRESS = '0x2222222222222222222222222222222222222222'
+const BASE_ADDRESS = '0x3333333333333333333333333333333333333333'
+const RESOLVER_INTERFACE = new ethers.utils.Interface(['function addr(bytes32 node, uint256 coinType) view returns (bytes)'])
+
+// What the fake chains know: names with a resolver, and what multichain record calls answer
+const chainState = vi.hoisted(() => ({
+  names: new Set<string>(),
+  // ENSIP-11 record call: the record, or an error to throw
+  record: (() => '0x') as (coinType: number) => string,
+  // Chain ids asked for a resolver
+  lookups: [] as number[]
+}))
+
+vi.mock('./rpcPool', () => ({
+  RpcPoolProvider: class {
+    readonly _isProvider = true
+
+    constructor(private readonly chain: ChainConfig) {}
+
+    async getResolver(name: string) {
+      chainState.lookups.push(this.chain.chainId)
+      if (!chainState.names.has(name)) return null
+      return { address: RESOLVER, getAddress: async () => ETHEREUM_ADDRESS }
+    }
+
+    async call(transaction: { data: string }) {
+      const [, coinType] = RESOLVER_INTERFACE.decodeFunctionData('addr', transaction.data)
+      return RESOLVER_INTERFACE.encodeFunctionResult('addr', [chainState.record(coinType.toNumber())])
+    }
+  }
+}))
+
+const BASE_COIN_TYPE = (0x80000000 | 8453) >>> 0
+
+// Every test uses its own name, so the cache of an earlier test never answers
+let nameCount = 0
+const freshName = () => {
+  const name = `name${++nameCount}.eth`
+  chainState.names.add(name)
+  return name
+}
+
+const onNetwork = (network: NetworkId) => useWalletStore.setState({ network })
+
+describe('ensService', () => {
+  beforeEach(() => {
+    chainState.record = () => '0x'
+    chainState.lookups = []
+  })
+
+  describe('on the devnet', () => {
+    beforeEach(() => onNetwork('devnet'))
+
+    it('uses the registry from NEXT_PUBLIC_DEVNET_ENS_REGISTRY', () => {
+      expect(WALLET_CONFIG.NETWORKS.devnet.ensRegistry).toBe(DEVNET_REGISTRY)
+    })
+
+    it('resolves names on the devnet itself', async () => {
+      await expect(ensService.resolveName(freshName())).resolves.toBe(ETHEREUM_ADDRESS)
+      expect(chainState.lookups).toEqual([31337])
+    })
+
+    it('resolves a name without a resolver to null', async () => {
+      await expect(ensService.resolveName('unknown.eth')).resolves.toBeNull()
+    })
+  })
+
+  describe('on an L2', () => {
+    beforeEach(() => onNetwork('base'))
+
+    it("resolves through Ethereum's ENS to the name's address on the L2", async () => {
+      chainState.record = (coinType) => (coinType === BASE_COIN_TYPE ? BASE_ADDRESS : '0x')
+
+      await expect(ensService.resolveName(freshName())).resolves.toBe(BASE_ADDRESS)
+      expect(chainState.lookups).toEqual([1])
+    })
+
+    it('does not fall back to the Ethereum address when the name has no L2 address', async () => {
+      await expect(ensService.resolveName(freshName())).resolves.toBeNull()
+    })
+
+    it('does not fall back to the Ethereum address when the resolver has no multichain records', async () => {
+      chainState.record = () => {
+        throw Object.assign(new Error('execution reverted'), { code: ethers.errors.CALL_EXCEPTION })
+      }
+
+      await expect(ensService.resolveName(freshName())).resolves.toBeNull()
+    })
+
+    it('reports a failed lookup and asks again next time', async () => {
+      const name = freshName()
+      chainState.record = () => {
+        throw Object.assign(new Error('could not detect network'), { code: ethers.errors.NETWORK_ERROR })
+      }
+      await expect(ensService.resolveName(name)).rejects.toThrow('could not detect network')
+
+      chainState.record = () => BASE_ADDRESS
+      await expect(ensService.resolveName(name)).resolves.toBe(BASE_ADDRESS)
+    })
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Echo Wallet - ENS names
+ * Resolves ENS names such as "vitalik.eth" to transfer recipients, and looks up the
+ * primary names of addresses so they can be spoken instead of hex. Chains without their
+ * own registry use the registry of their `ensNetwork` (Ethereum for the L2s). Results,
+ * including "no name", are cached for ENS.CACHE_TTL.
+ */
+
+import { ethers } from 'ethers'
+import { ChainConfig } from '@/types'
+import { WALLET_CONFIG } from '@/config'
+import { useWalletStore } from '@/store'
+import { RpcPoolProvider } from './rpcPool'
+
+// ENSIP-9 multichain address record
+const RESOLVER_ABI = ['function addr(bytes32 node, uint256 coinType) view returns (bytes)']
+
+// Dot-separated labels ending in .eth, as left by VoiceRecognitionOptimizer
+const ENS_NAME = /^(?:[a-z0-9-]+\.)+eth$/
+
+/**
+ * Thrown when the current chain has no ENS registry to resolve names on.
+ */
+export class EnsNotSupportedError extends Error {
+  constructor(readonly networkName: string) {
+    super(`ENS names are not available on ${networkName}`)
+    this.name = 'EnsNotSupportedError'
+  }
+}
+
+interface CacheEntry {
+  lookup: Promise<string | null>
+  // Set once the lookup settles, for synchronous readers
+  result?: string | null
+  expires: number
+}
+
+class EnsService {
+  // ENS chains are read through their own pools, whichever chain the wallet is on
+  private providers = new Map<number, RpcPoolProvider>()
+  // Keyed by `${chainId}:${name}`: the address a name resolves to on that chain
+  private addresses = new Map<string, CacheEntry>()
+  // Keyed by `${ensChainId}:${address}`: the verified primary name of an address
+  private names = new Map<string, CacheEntry>()
+
+  isEnsName(text: string): boolean {
+    return ENS_NAME.test(text.trim().toLowerCase())
+  }
+
+  /**
+   * Address of an ENS name on the current chain, or null when the name has none
+   */
+  resolveName(name: string): Promise<string | null> {
+    const chain = this.getCurrentChain()
+    const ensChain = this.getEnsChain(chain)
+    if (!ensChain) return Promise.reject(new EnsNotSupportedError(chain.name))
+
+    const normalized = name.trim().toLowerCase()
+    return this.cached(this.addresses, `${chain.chainId}:${normalized}`, async () => {
+      const address = await this.resolveOn(chain, ensChain, normalized)
+      console.log(`🔎 ENS ${normalized} → ${address ?? 'no address'}`)
+      return address
+    })
+  }
+
+  /**
+   * Primary name of an address, checked against the name's own address record; null when
+   * it has none or the chain has no ENS
+   */
+  lookupAddress(address: string): Promise<string | null> {
+    const ensChain = this.getEnsChain(this.getCurrentChain())
+    if (!ensChain) return Promise.resolve(null)
+
+    return this.cached(this.names, `${ensChain.chainId}:${address.toLowerCase()}`, () =>
+      this.getProvider(ensChain).lookupAddress(address)
+    )
+  }
+
+  /**
+   * Look up primary names ahead of speaking several addresses; failures leave them as hex
+   */
+  async lookupAddresses(addresses: string[]): Promise<void> {
+    const unique = Array.from(new Set(addresses.filter(Boolean).map((address) => address.toLowerCase())))
+    await Promise.all(
+      unique.map((address) =>
+        this.lookupAddress(address).catch((error) => {
+          console.warn(`⚠️ ENS reverse lookup failed for ${address}:`, error)
+          return null
+        })
+      )
+    )
+  }
+
+  /**
+   * Primary name from a finished lookup, without touching the network
+   */
+  getCachedName(address: string): string | null {
+    const ensChain = this.getEnsChain(this.getCurrentChain())
+    if (!ensChain) return null
+
+    const entry = this.names.get(`${ensChain.chainId}:${address.toLowerCase()}`)
+    return entry && entry.expires > Date.now() ? entry.result ?? null : null
+  }
+
+  /**
+   * The name's address on the chain: its ENSIP-11 record on the L2s, or the Ethereum
+   * address on chains with their own registry. The Ethereum address is never used for an
+   * L2, since whoever owns it there may not own it on the L2.
+   */
+  private async resolveOn(chain: ChainConfig, ensChain: ChainConfig, name: string): Promise<string | null> {
+    const provider = this.getProvider(ensChain)
+    const resolver = await provider.getResolver(name)
+    if (!resolver) return null
+
+    if (chain.chainId === ensChain.chainId) return resolver.getAddress()
+
+    const coinType = (0x80000000 | chain.chainId) >>> 0
+    const contract = new ethers.Contract(resolver.address, RESOLVER_ABI, provider)
+    try {
+      const record: string = await contract.addr(ethers.utils.namehash(name), coinType)
+      return ethers.utils.hexDataLength(record) === 20 ? ethers.utils.getAddress(record) : null
+    } catch (error: any) {
+      // Older resolvers have no multichain records; other failures are worth asking again
+      if (error?.code !== ethers.errors.CALL_EXCEPTION) throw error
+      console.warn(`⚠️ The resolver of ${name} has no ${chain.name} address records`)
+      return null
+    }
+  }
+
+  private cached(cache: Map<string, CacheEntry>, key: string, load: () => Promise<string | null>): Promise<string | null> {
+    const existing = cache.get(key)
+    if (existing && existing.expires > Date.now()) return existing.lookup
+
+    const entry: CacheEntry = { lookup: Promise.resolve(null), expires: Date.now() + WALLET_CONFIG.ENS.CACHE_TTL }
+    entry.lookup = load().then(
+      (result) => {
+        entry.result = result
+        return result
+      },
+      (error) => {
+        // Only answers are cached; the next lookup asks the network again
+        if (cache.get(key) === entry) cache.delete(key)
+        throw error
+      }
+    )
+    cache.set(key, entry)
+    return entry.lookup
+  }
+
+  private getCurrentChain(): ChainConfig {
+    return WALLET_CONFIG.NETWORKS[useWalletStore.getState().network]
+  }
+
+  private getEnsChain(chain: ChainConfig): ChainConfig | null {
+    if (chain.ensRegistry) return chain
+    const ensChain = chain.ensNetwork ? WALLET_CONFIG.NETWORKS[chain.ensNetwork] : undefined
+    return ensChain?.ensRegistry ? ensChain : null
+  }
+
+  private getProvider(chain: ChainConfig): RpcPoolProvider {
+    let provider = this.providers.get(chain.chainId)
+    if (!provider) {
+      provider = new RpcPoolProvider(chain)
+      this.providers.set(chain.chainId, provider)
+    }
+    return provider
+  }
+}
+
+export const ensService = new EnsService()
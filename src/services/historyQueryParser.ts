@@ -0,0 +1,129 @@
+/**
+ * Echo Wallet - Transaction history question parser
+ * Turns spoken questions about past transfers ("how much did I send to Bob this month")
+ * into a structured query. Expects text already normalized by VoiceRecognitionOptimizer.
+ */
+
+import { TimeRange } from '@/types'
+import { VoiceRecognitionOptimizer } from './voiceOptimizer'
+
+export type HistoryPeriod = TimeRange
+
+export interface HistoryQuery {
+  // 'list': read transfers; 'total': add up amounts; 'any': yes or no, then the transfers
+  kind: 'list' | 'total' | 'any'
+  direction: 'in' | 'out' | 'both'
+  // Transfers to read for 'list'
+  count: number
+  contactName?: string
+  token?: string
+  period?: HistoryPeriod
+}
+
+// Words that end a spoken contact name ("to bob this month")
+const NAME_TERMINATORS = 'today|yesterday|this|last|in|during|since|on|over|so|for|eth|and'
+
+export class HistoryQueryParser {
+  static readonly MAX_LIST = 10
+
+  /**
+   * Whether the text asks about past transfers rather than starting one
+   */
+  static isHistoryQuestion(text: string): boolean {
+    const spoken = text.toLowerCase()
+    return (
+      /\b(?:last|latest|recent|previous|past)\b(?:\s+\d+)?\s+(?:transactions?|transfers?|payments?)\b/.test(spoken) ||
+      /\bhow much\b.*\b(?:did|have|has)\s+i\b/.test(spoken) ||
+      /\bdid i\s+(?:receive|get|send|pay|spend)\b/.test(spoken) ||
+      /\bhave i\s+(?:received|got|gotten|sent|paid|spent)\b/.test(spoken) ||
+      /\b(?:transaction|transfer|payment) history\b/.test(spoken) ||
+      /\bwhat did i\s+(?:send|receive|pay|spend)\b/.test(spoken)
+    )
+  }
+
+  static parse(text: string, now = new Date()): HistoryQuery {
+    const spoken = text.toLowerCase()
+
+    const direction = /\b(?:receive|received|get|got|gotten|incoming|came in|paid me)\b/.test(spoken)
+      ? 'in'
+      : /\b(?:send|sent|pay|paid|spend|spent|outgoing)\b/.test(spoken)
+        ? 'out'
+        : 'both'
+
+    const kind = /\bhow much\b/.test(spoken)
+      ? 'total'
+      : /\b(?:did|have) i\b/.test(spoken) && !/\bwhat (?:did|have) i\b/.test(spoken)
+        ? 'any'
+        : 'list'
+
+    const period = this.parsePeriod(spoken, now)
+
+    // "last 5 transactions"; a singular "last transaction" reads one
+    const countMatch = spoken.match(/\b(?:last|latest|recent|previous|past)\s+(\d+)\s+(?:transactions|transfers|payments)\b/)
+    const plural = /\b(?:transactions|transfers|payments|history)\b/.test(spoken)
+    const count = Math.min(this.MAX_LIST, countMatch ? Math.max(1, parseInt(countMatch[1], 10)) : plural || period ? 5 : 1)
+
+    const contactPattern = direction === 'in' ? 'from' : direction === 'out' ? 'to' : '(?:to|from|with)'
+    const contactMatch = spoken.match(
+      new RegExp(`\\b${contactPattern}\\s+([a-z][a-z' ]*?)(?=\\s+(?:${NAME_TERMINATORS})\\b|[?.!,]|$)`)
+    )
+    const contactName = contactMatch?.[1].replace(/^(?:my|the)\s+/, '').trim() || undefined
+
+    return {
+      kind,
+      direction,
+      count,
+      contactName: contactName && contactName !== 'me' ? contactName : undefined,
+      token: VoiceRecognitionOptimizer.extractToken(spoken),
+      period
+    }
+  }
+
+  /**
+   * Calendar periods in local time: today, yesterday, this or last week (from Monday),
+   * month and year, and "in the last N days"
+   */
+  static parsePeriod(spoken: string, now = new Date()): HistoryPeriod | undefined {
+    // Local midnight `offset` days from today; Date handles month ends and daylight saving
+    const dayStart = (offset: number) => new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset).getTime()
+    const today = dayStart(0)
+
+    const lastDays = spoken.match(/\b(?:in |over )?the (?:last|past) (\d+) days\b/)
+    if (lastDays) {
+      const days = parseInt(lastDays[1], 10)
+      return { label: `in the last ${days} days`, start: dayStart(1 - days), end: now.getTime() + 1 }
+    }
+
+    if (/\btoday\b/.test(spoken)) {
+      return { label: 'today', start: today, end: dayStart(1) }
+    }
+    if (/\byesterday\b/.test(spoken)) {
+      return { label: 'yesterday', start: dayStart(-1), end: today }
+    }
+
+    const monday = -((now.getDay() + 6) % 7)
+    if (/\bthis week\b/.test(spoken)) {
+      return { label: 'this week', start: dayStart(monday), end: dayStart(monday + 7) }
+    }
+    if (/\blast week\b/.test(spoken)) {
+      return { label: 'last week', start: dayStart(monday - 7), end: dayStart(monday) }
+    }
+
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime()
+    if (/\bthis month\b/.test(spoken)) {
+      return { label: 'this month', start: monthStart, end: new Date(now.getFullYear(), now.getMonth() + 1, 1).getTime() }
+    }
+    if (/\blast month\b/.test(spoken)) {
+      return { label: 'last month', start: new Date(now.getFullYear(), now.getMonth() - 1, 1).getTime(), end: monthStart }
+    }
+
+    if (/\bthis year\b/.test(spoken)) {
+      return { label: 'this year', start: new Date(now.getFullYear(), 0, 1).getTime(), end: new Date(now.getFullYear() + 1, 0, 1).getTime() }
+    }
+    if (/\blast year\b/.test(spoken)) {
+      return { label: 'last year', start: new Date(now.getFullYear() - 1, 0, 1).getTime(), end: new Date(now.getFullYear(), 0, 1).getTime() }
+    }
+
+    return undefined
+  }
+}
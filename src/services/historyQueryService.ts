@@ -0,0 +1,205 @@
+/**
+ * Echo Wallet - Transaction history answers
+ * Answers spoken history questions from the saved history of the active account on the
+ * current network, naming counterparties by contact or account label.
+ */
+
+import { ethers } from 'ethers'
+import { Transaction } from '@/types'
+import { useWalletStore, accountHistory } from '@/store'
+import { walletService } from './walletService'
+import { contactsService } from './contactsService'
+import { ensService } from './ensService'
+import { HistoryQuery, HistoryQueryParser } from './historyQueryParser'
+
+type Direction = 'in' | 'out' | 'self'
+
+// Transfers read out in full before the rest is summarized as "and N more"
+const MAX_READ = 3
+
+class HistoryQueryService {
+  /**
+   * Spoken answer to a history question
+   */
+  async answer(text: string, now = new Date()): Promise<string> {
+    const { wallet, transactions } = useWalletStore.getState()
+    if (!wallet) return 'Please create or import a wallet first.'
+
+    const query = HistoryQueryParser.parse(text, now)
+    const account = walletService.getAccountAddress(wallet)
+
+    let counterparty: string | undefined
+    if (query.contactName) {
+      const contact = contactsService.findContact(query.contactName)
+      if (!contact) return `I could not find a contact called ${query.contactName}.`
+      counterparty = contact.address.toLowerCase()
+    }
+
+    const matches = accountHistory(transactions, walletService.getCurrentNetwork().chainId, account).filter((tx) => {
+      if (tx.status === 'replaced') return false
+      const direction = this.directionOf(tx, account)
+      if (query.direction !== 'both' && direction !== 'self' && direction !== query.direction) return false
+      if (counterparty && this.counterpartyOf(tx, account).toLowerCase() !== counterparty) return false
+      if (query.token && !this.isToken(tx, query.token)) return false
+      if (query.period && (tx.timestamp < query.period.start || tx.timestamp >= query.period.end)) return false
+      return true
+    })
+
+    // Counterparties that may be read out are named by their primary ENS names
+    await ensService.lookupAddresses(matches.slice(0, HistoryQueryParser.MAX_LIST).map((tx) => this.counterpartyOf(tx, account)))
+
+    switch (query.kind) {
+      case 'total':
+        return this.answerTotal(query, matches, account)
+      case 'any':
+        return this.answerAny(query, matches, account, now)
+      default:
+        return this.answerList(query, matches, account, now)
+    }
+  }
+
+  private answerTotal(query: HistoryQuery, matches: Transaction[], account: string): string {
+    // Failed and dropped transfers moved nothing
+    const counted = matches.filter((tx) => tx.status === 'confirmed' || tx.status === 'pending')
+    const directions: Exclude<Direction, 'self'>[] = query.direction === 'both' ? ['out', 'in'] : [query.direction]
+    const when = query.period ? ` ${query.period.label}` : ''
+
+    return directions
+      .map((direction) => {
+        const transfers = counted.filter((tx) => this.directionOf(tx, account) === direction)
+        const verb = direction === 'out' ? 'sent' : 'received'
+        const party = query.contactName ? ` ${direction === 'out' ? 'to' : 'from'} ${query.contactName}` : ''
+        if (transfers.length === 0) return `You have not ${verb} anything${party}${when}.`
+
+        const totals = this.sumBySymbol(transfers)
+        const plural = transfers.length === 1 ? 'transfer' : 'transfers'
+        return `You ${verb} ${this.joinList(totals)}${party}${when}, in ${transfers.length} ${plural}.`
+      })
+      .join(' ')
+  }
+
+  private answerAny(query: HistoryQuery, matches: Transaction[], account: string, now: Date): string {
+    const verb = query.direction === 'in' ? 'receive' : query.direction === 'out' ? 'send' : 'send or receive'
+    const party = query.contactName ? ` ${query.direction === 'in' ? 'from' : 'to'} ${query.contactName}` : ''
+    const when = query.period ? ` ${query.period.label}` : ''
+    if (matches.length === 0) return `No, you did not ${verb} anything${party}${when}.`
+
+    return `Yes. ${this.readTransfers(matches, account, now)}`
+  }
+
+  private answerList(query: HistoryQuery, matches: Transaction[], account: string, now: Date): string {
+    const when = query.period ? ` ${query.period.label}` : ''
+    if (matches.length === 0) return `You have no transactions${when} on ${walletService.getCurrentNetwork().name}.`
+
+    if (query.count === 1) {
+      return `Your last transaction: you ${this.describe(matches[0], account, now)}.`
+    }
+
+    const listed = matches.slice(0, query.count)
+    const heading = listed.length === 1 ? 'Your only transaction' : `Your last ${listed.length} transactions`
+    const items = listed.map((tx, index) => `${index + 1}: you ${this.describe(tx, account, now)}.`)
+    return `${heading}${when}. ${items.join(' ')}`
+  }
+
+  private readTransfers(transfers: Transaction[], account: string, now: Date): string {
+    const read = transfers.slice(0, MAX_READ).map((tx) => `You ${this.describe(tx, account, now)}.`)
+    const rest = transfers.length - read.length
+    return rest > 0 ? `${read.join(' ')} And ${rest} more.` : read.join(' ')
+  }
+
+  /**
+   * "sent 0.1 ETH to Alice yesterday at 3:40 PM", with the status when it did not simply confirm
+   */
+  private describe(tx: Transaction, account: string, now: Date): string {
+    const direction = this.directionOf(tx, account)
+    const amount = `${this.formatAmount(tx.value)} ${tx.tokenSymbol ?? walletService.getNativeCurrency().symbol}`
+    const name = this.nameOf(this.counterpartyOf(tx, account))
+    const action = direction === 'in'
+      ? `received ${amount} from ${name}`
+      : direction === 'self'
+        ? `moved ${amount} to yourself`
+        : `sent ${amount} to ${name}`
+
+    const status = tx.status === 'pending'
+      ? ', still pending'
+      : tx.status === 'failed'
+        ? ', which failed'
+        : tx.status === 'dropped'
+          ? ', which was dropped'
+          : ''
+    return `${action} ${this.formatRelativeTime(tx.timestamp, now)}${status}`
+  }
+
+  private directionOf(tx: Transaction, account: string): Direction {
+    const ours = account.toLowerCase()
+    const sent = tx.from?.toLowerCase() === ours
+    const received = tx.to.toLowerCase() === ours
+    return sent && received ? 'self' : received ? 'in' : 'out'
+  }
+
+  private counterpartyOf(tx: Transaction, account: string): string {
+    return this.directionOf(tx, account) === 'in' ? tx.from ?? '' : tx.to
+  }
+
+  /**
+   * Contact name, "your Savings account", the primary ENS name, or the shortened address
+   */
+  private nameOf(address: string): string {
+    const contact = contactsService.findContactByAddress(address)
+    if (contact) return contact.name
+
+    const { accounts } = useWalletStore.getState()
+    const own = accounts.find((entry) => walletService.getAccountAddress(entry).toLowerCase() === address.toLowerCase())
+    if (own?.label) return `your ${own.label} account`
+
+    return walletService.formatAddressForSpeech(address)
+  }
+
+  private isToken(tx: Transaction, token: string): boolean {
+    if (walletService.isNativeToken(token)) return !tx.tokenAddress && (!tx.tokenSymbol || walletService.isNativeToken(tx.tokenSymbol))
+    return tx.tokenSymbol?.toLowerCase() === token.toLowerCase()
+  }
+
+  private sumBySymbol(transfers: Transaction[]): string[] {
+    const sums = new Map<string, ethers.BigNumber>()
+    transfers.forEach((tx) => {
+      const symbol = tx.tokenSymbol ?? walletService.getNativeCurrency().symbol
+      // Every supported token has at most 18 decimals
+      const amount = ethers.utils.parseUnits(tx.value, 18)
+      sums.set(symbol, (sums.get(symbol) ?? ethers.BigNumber.from(0)).add(amount))
+    })
+    return Array.from(sums.entries()).map(([symbol, sum]) => `${this.formatAmount(ethers.utils.formatUnits(sum, 18))} ${symbol}`)
+  }
+
+  private joinList(items: string[]): string {
+    return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+  }
+
+  /**
+   * At most six decimals, without trailing zeros
+   */
+  private formatAmount(value: string): string {
+    const amount = parseFloat(value)
+    if (amount > 0 && amount < 0.000001) return 'less than 0.000001'
+    return String(parseFloat(amount.toFixed(6)))
+  }
+
+  /**
+   * "today at 3:40 PM", "yesterday at 9:05 AM", "on Monday", "on March 5" or "on March 5, 2024"
+   */
+  private formatRelativeTime(timestamp: number, now: Date): string {
+    const date = new Date(timestamp)
+    const dayStart = (offset: number) => new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset).getTime()
+    const time = date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+
+    if (timestamp >= dayStart(0)) return `today at ${time}`
+    if (timestamp >= dayStart(-1)) return `yesterday at ${time}`
+    if (timestamp >= dayStart(-6)) return `on ${date.toLocaleDateString('en-US', { weekday: 'long' })}`
+    if (date.getFullYear() === now.getFullYear()) {
+      return `on ${date.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`
+    }
+    return `on ${date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`
+  }
+}
+
+export const historyQueryService = new HistoryQueryService()
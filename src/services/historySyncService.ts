@@ -0,0 +1,262 @@
+/**
+ * Echo Wallet - Transaction history sync
+ * Fills the saved history of the active account on the current chain with transfers
+ * it did not send from this device, including incoming payments. Past transfers come
+ * from the configured indexer; without one (or when it fails) the chain itself is scanned.
+ * The active account is re-synced on an interval so new transfers, such as incoming
+ * payments, reach listeners shortly after they are mined.
+ */
+
+import { ethers } from 'ethers'
+import { ChainConfig, Transaction } from '@/types'
+import { WALLET_CONFIG } from '@/config'
+import { useWalletStore, historyKey, transactionKey } from '@/store'
+import { walletService } from './walletService'
+import { EtherscanIndexerClient, IndexerClient } from './indexerService'
+
+const TRANSFER_TOPIC = ethers.utils.id('Transfer(address,address,uint256)')
+
+// Blocks fetched at once while scanning for native transfers
+const BLOCK_BATCH_SIZE = 5
+
+// Called with transfers that were not in the history before, for the synced account
+type NewTransfersListener = (transfers: Transaction[], address: string) => void
+
+class HistorySyncService {
+  private readonly indexer: IndexerClient | null = WALLET_CONFIG.HISTORY.INDEXER_URL
+    ? new EtherscanIndexerClient(WALLET_CONFIG.HISTORY.INDEXER_URL, WALLET_CONFIG.HISTORY.INDEXER_API_KEY)
+    : null
+  // One sync at a time per account and chain
+  private running = new Map<string, Promise<number>>()
+  private listeners = new Set<NewTransfersListener>()
+  private started = false
+
+  /**
+   * Sync whenever the active account or the network changes, and on an interval
+   */
+  start() {
+    if (this.started) return
+    this.started = true
+
+    useWalletStore.subscribe((state, previous) => {
+      if (state.wallet?.address !== previous.wallet?.address || state.network !== previous.network) {
+        this.syncActiveAccount()
+      }
+    })
+    this.syncActiveAccount()
+
+    if (typeof window !== 'undefined') {
+      setInterval(() => this.syncActiveAccount(), WALLET_CONFIG.HISTORY.POLL_INTERVAL)
+    }
+  }
+
+  /**
+   * Listen for transfers found by later syncs. The first sync of an account and chain
+   * only fills in the past, so it reports nothing.
+   */
+  onNewTransfers(listener: NewTransfersListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * Sync the active account; failures are logged, the saved history stays as it was
+   */
+  syncActiveAccount() {
+    const { wallet } = useWalletStore.getState()
+    if (!wallet) return
+
+    this.sync(walletService.getAccountAddress(wallet)).catch((error) => {
+      console.warn('⚠️ Transaction history sync failed:', error)
+    })
+  }
+
+  /**
+   * Bring one account's history on the current chain up to the latest block.
+   * Resolves with the number of new or updated entries.
+   */
+  sync(address: string): Promise<number> {
+    const chain = walletService.getCurrentNetwork()
+    const key = historyKey(chain.chainId, address)
+
+    let pending = this.running.get(key)
+    if (!pending) {
+      pending = this.runSync(chain, address, key).finally(() => this.running.delete(key))
+      this.running.set(key, pending)
+    }
+    return pending
+  }
+
+  private async runSync(chain: ChainConfig, address: string, key: string): Promise<number> {
+    const { historySync, mergeTransactions, setHistorySync } = useWalletStore.getState()
+    // Held for the whole sync: a network switch replaces the wallet service's provider
+    const provider = walletService.getProvider()
+    const toBlock = await provider.getBlockNumber()
+    const lastBlock = historySync[key]?.lastBlock
+    if (lastBlock !== undefined && lastBlock >= toBlock) return 0
+
+    let transactions: Transaction[] | null = null
+    if (this.indexer) {
+      try {
+        transactions = await this.indexer.getTransfers(chain, address, lastBlock === undefined ? 0 : lastBlock + 1, toBlock)
+      } catch (error) {
+        console.warn('⚠️ Indexer unavailable; scanning the chain instead:', error)
+      }
+    }
+    // Whether every block after lastBlock was read; the scan only reaches back so far
+    let complete = true
+    if (!transactions) {
+      const earliest = Math.max(0, toBlock - WALLET_CONFIG.HISTORY.SCAN_BLOCKS + 1)
+      const fromBlock = Math.max(earliest, (lastBlock ?? -1) + 1)
+      transactions = await this.scanChain(chain, provider, address, fromBlock, toBlock)
+      // Without an indexer the scan is all the history there is. With one that failed, the
+      // blocks the scan left out are kept for it, so the sync point stays where it was.
+      complete = !this.indexer || this.nativeScanStart(fromBlock, toBlock) <= (lastBlock ?? -1) + 1
+    }
+
+    const known = new Set(useWalletStore.getState().transactions.map(transactionKey))
+    const added = transactions.filter((tx) => !known.has(transactionKey(tx)))
+
+    mergeTransactions(transactions)
+    if (complete) setHistorySync(key, { lastBlock: toBlock, syncedAt: Date.now() })
+    console.log(`📜 Synced ${transactions.length} transfers for ${address} on ${chain.name} up to block ${toBlock}`)
+
+    if (lastBlock !== undefined && added.length > 0) {
+      this.listeners.forEach((listener) => listener(added, address))
+    }
+    return transactions.length
+  }
+
+  /**
+   * Transfers found on the chain itself: ERC-20 Transfer logs of the chain's tokens, and
+   * top-level native transfers in the most recent blocks. Native value moved inside
+   * contract calls (such as smart account executions) needs an indexer.
+   */
+  private async scanChain(
+    chain: ChainConfig,
+    provider: ethers.providers.JsonRpcProvider,
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Transaction[]> {
+    if (fromBlock > toBlock) return []
+
+    const [tokenTransfers, nativeTransfers] = await Promise.all([
+      this.scanTokenTransfers(chain, provider, address, fromBlock, toBlock),
+      this.scanNativeTransfers(chain, provider, address, this.nativeScanStart(fromBlock, toBlock), toBlock)
+    ])
+    return [...tokenTransfers, ...nativeTransfers]
+  }
+
+  /**
+   * First block read for native transfers, which are found block by block and so over a shorter range
+   */
+  private nativeScanStart(fromBlock: number, toBlock: number): number {
+    return Math.max(fromBlock, toBlock - WALLET_CONFIG.HISTORY.NATIVE_SCAN_BLOCKS + 1)
+  }
+
+  private async scanTokenTransfers(
+    chain: ChainConfig,
+    provider: ethers.providers.JsonRpcProvider,
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Transaction[]> {
+    if (chain.tokens.length === 0) return []
+
+    const accountTopic = ethers.utils.hexZeroPad(address, 32)
+    const tokenAddresses = chain.tokens.map((token) => token.address)
+    const logs: ethers.providers.Log[] = []
+
+    for (let start = fromBlock; start <= toBlock; start += WALLET_CONFIG.HISTORY.LOG_CHUNK_BLOCKS) {
+      const end = Math.min(toBlock, start + WALLET_CONFIG.HISTORY.LOG_CHUNK_BLOCKS - 1)
+      const range = { fromBlock: ethers.utils.hexValue(start), toBlock: ethers.utils.hexValue(end) }
+      // Outgoing (sender topic) and incoming (recipient topic)
+      const [sent, received] = await Promise.all([
+        provider.send('eth_getLogs', [{ ...range, address: tokenAddresses, topics: [TRANSFER_TOPIC, accountTopic] }]),
+        provider.send('eth_getLogs', [{ ...range, address: tokenAddresses, topics: [TRANSFER_TOPIC, null, accountTopic] }])
+      ])
+      logs.push(...sent, ...received)
+    }
+
+    const timestamps = await this.getBlockTimestamps(provider, logs.map((log) => ethers.BigNumber.from(log.blockNumber).toNumber()))
+
+    return logs.flatMap((log) => {
+      const token = chain.tokens.find((known) => known.address.toLowerCase() === log.address.toLowerCase())
+      // ERC-721 Transfer has a third indexed topic and no data
+      if (!token || log.topics.length !== 3) return []
+      const blockNumber = ethers.BigNumber.from(log.blockNumber).toNumber()
+      return [{
+        hash: log.transactionHash,
+        chainId: chain.chainId,
+        from: ethers.utils.getAddress(ethers.utils.hexDataSlice(log.topics[1], 12)),
+        to: ethers.utils.getAddress(ethers.utils.hexDataSlice(log.topics[2], 12)),
+        value: ethers.utils.formatUnits(log.data, token.decimals),
+        tokenSymbol: token.symbol,
+        tokenAddress: token.address,
+        timestamp: timestamps.get(blockNumber)! * 1000,
+        // A logged Transfer only exists in a successful transaction
+        status: 'confirmed' as const,
+        blockNumber
+      }]
+    })
+  }
+
+  private async scanNativeTransfers(
+    chain: ChainConfig,
+    provider: ethers.providers.JsonRpcProvider,
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Transaction[]> {
+    const account = address.toLowerCase()
+    const matches: { tx: ethers.providers.TransactionResponse; to: string; timestamp: number }[] = []
+
+    for (let start = fromBlock; start <= toBlock; start += BLOCK_BATCH_SIZE) {
+      const numbers = Array.from({ length: Math.min(BLOCK_BATCH_SIZE, toBlock - start + 1) }, (_, index) => start + index)
+      const blocks = await Promise.all(numbers.map((number) => provider.getBlockWithTransactions(number)))
+      blocks.forEach((block) => {
+        block.transactions.forEach((tx) => {
+          // Contract creations have no recipient and are not transfers
+          if (!tx.to || tx.value.isZero()) return
+          if (tx.from.toLowerCase() === account || tx.to.toLowerCase() === account) {
+            matches.push({ tx, to: tx.to, timestamp: block.timestamp })
+          }
+        })
+      })
+    }
+
+    return Promise.all(
+      matches.map(async ({ tx, to, timestamp }) => {
+        const receipt = await provider.getTransactionReceipt(tx.hash)
+        return {
+          hash: tx.hash,
+          chainId: chain.chainId,
+          nonce: tx.nonce,
+          from: ethers.utils.getAddress(tx.from),
+          to: ethers.utils.getAddress(to),
+          value: ethers.utils.formatUnits(tx.value, chain.nativeCurrency.decimals),
+          tokenSymbol: chain.nativeCurrency.symbol,
+          timestamp: timestamp * 1000,
+          status: receipt?.status === 0 ? ('failed' as const) : ('confirmed' as const),
+          blockNumber: tx.blockNumber ?? undefined,
+          gasUsed: receipt?.gasUsed.toString()
+        }
+      })
+    )
+  }
+
+  private async getBlockTimestamps(provider: ethers.providers.JsonRpcProvider, blockNumbers: number[]): Promise<Map<number, number>> {
+    const timestamps = new Map<number, number>()
+    const unique = Array.from(new Set(blockNumbers))
+
+    for (let index = 0; index < unique.length; index += BLOCK_BATCH_SIZE) {
+      const batch = unique.slice(index, index + BLOCK_BATCH_SIZE)
+      const blocks = await Promise.all(batch.map((number) => provider.getBlock(number)))
+      blocks.forEach((block) => timestamps.set(block.number, block.timestamp))
+    }
+    return timestamps
+  }
+}
+
+export const historySyncService = new HistorySyncService()
@@ -0,0 +1,87 @@
+/**
+ * Echo Wallet - Incoming payment notifications
+ * Announces native and ERC-20 transfers into the active account as history syncs find
+ * them, and lists them on screen for screen readers.
+ */
+
+import { Transaction } from '@/types'
+import { TTS_TEMPLATES } from '@/config'
+import { useWalletStore, transactionKey } from '@/store'
+import { walletService } from './walletService'
+import { voiceService } from './voiceService'
+import { contactsService } from './contactsService'
+import { ensService } from './ensService'
+import { historySyncService } from './historySyncService'
+
+// While the user is mid-conversation, announcements wait and are retried this often (ms)
+const RETRY_DELAY = 2000
+
+class IncomingPaymentService {
+  private queue: string[] = []
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private started = false
+
+  start() {
+    if (this.started) return
+    this.started = true
+    historySyncService.onNewTransfers((transfers, address) => this.handleNewTransfers(transfers, address))
+  }
+
+  private async handleNewTransfers(transfers: Transaction[], address: string) {
+    const { wallet, addNotification } = useWalletStore.getState()
+    // The user may have switched accounts while the sync ran
+    if (!wallet || walletService.getAccountAddress(wallet).toLowerCase() !== address.toLowerCase()) return
+
+    const account = address.toLowerCase()
+    const incoming = transfers.filter(
+      (tx) => tx.status === 'confirmed' && tx.to.toLowerCase() === account && tx.from?.toLowerCase() !== account
+    )
+    if (incoming.length === 0) return
+
+    // Senders without a contact are named by their primary ENS names
+    await ensService.lookupAddresses(incoming.map((tx) => tx.from ?? ''))
+    incoming.forEach((tx) => {
+      const message = this.describe(tx)
+      console.log(`💸 ${message}`)
+      addNotification({ id: transactionKey(tx), message, timestamp: Date.now() })
+      this.queue.push(message)
+    })
+
+    this.announce()
+  }
+
+  /**
+   * "You received 25 USDC from Alice."; other senders are read by ENS name or shortened address
+   */
+  private describe(tx: Transaction): string {
+    const sender = tx.from ?? ''
+    const name = contactsService.findContactByAddress(sender)?.name ?? walletService.formatAddressForSpeech(sender)
+    const amount = String(parseFloat(parseFloat(tx.value).toFixed(6)))
+    return TTS_TEMPLATES.PAYMENT_RECEIVED
+      .replace('{amount}', amount)
+      .replace('{token}', tx.tokenSymbol ?? walletService.getNativeCurrency().symbol)
+      .replace('{sender}', name)
+  }
+
+  /**
+   * Speak queued notices once the user is not speaking or in a guided flow
+   */
+  private announce() {
+    if (this.queue.length === 0 || this.retryTimer) return
+
+    const { voice, transfer } = useWalletStore.getState()
+    if (voice.isListening || voice.isProcessing || transfer.isActive) {
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null
+        this.announce()
+      }, RETRY_DELAY)
+      return
+    }
+
+    // One utterance for every notice
+    voiceService.speak(this.queue.join(' '))
+    this.queue = []
+  }
+}
+
+export const incomingPaymentService = new IncomingPaymentService()
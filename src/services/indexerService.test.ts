@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { WALLET_CONFIG } from '@/config'
+import { GET, POST } from '@/app/api/mock-indexer/route'
+import { EtherscanIndexerClient, EtherscanTransfer } from './indexerService'
+
+const mainnet = WALLET_CONFIG.NETWORKS.mainnet
+const usdc = mainnet.tokens.find((token) => token.symbol === 'USDC')!
+
+const ACCOUNT = '0x1111111111111111111111111111111111111111'
+const FRIEND = '0x2222222222222222222222222222222222222222'
+const STRANGER = '0x3333333333333333333333333333333333333333'
+const SPAM_TOKEN = '0x4444444444444444444444444444444444444444'
+
+const transfer = (row: Partial<EtherscanTransfer>): EtherscanTransfer => ({
+  blockNumber: '100',
+  timeStamp: '1700000000',
+  hash: `0x${'ab'.repeat(32)}`,
+  from: FRIEND,
+  to: ACCOUNT,
+  value: '1000000000000000000',
+  isError: '0',
+  ...row
+})
+
+const seed = (body: unknown) =>
+  POST(new Request('http://localhost/api/mock-indexer', { method: 'POST', body: JSON.stringify(body) }))
+
+describe('EtherscanIndexerClient with the stand-in indexer', () => {
+  const client = new EtherscanIndexerClient('/api/mock-indexer', '')
+
+  beforeEach(async () => {
+    // Requests go straight to the route handler instead of over the network
+    vi.stubGlobal('fetch', (url: string) => GET(new Request(url)))
+    await seed({ reset: true })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  it('reads native transfers in and out of the account', async () => {
+    await seed({
+      chainId: 1,
+      action: 'txlist',
+      transfers: [
+        transfer({ hash: `0x${'01'.repeat(32)}` }),
+        transfer({ hash: `0x${'02'.repeat(32)}`, from: ACCOUNT, to: FRIEND, value: '500000000000000000', blockNumber: '120' })
+      ]
+    })
+
+    const transactions = await client.getTransfers(mainnet, ACCOUNT, 0, 200)
+
+    expect(transactions).toEqual([
+      expect.objectContaining({ hash: `0x${'01'.repeat(32)}`, chainId: 1, to: ACCOUNT, value: '1.0', tokenSymbol: 'ETH', status: 'confirmed', timestamp: 1700000000000 }),
+      expect.objectContaining({ hash: `0x${'02'.repeat(32)}`, from: ACCOUNT, to: FRIEND, value: '0.5', blockNumber: 120 })
+    ])
+  })
+
+  it('keeps to the block range and the chain', async () => {
+    await seed({
+      chainId: 1,
+      action: 'txlist',
+      transfers: [transfer({ blockNumber: '99' }), transfer({ blockNumber: '100' }), transfer({ blockNumber: '201' })]
+    })
+    await seed({ chainId: 10, action: 'txlist', transfers: [transfer({ blockNumber: '150' })] })
+
+    const transactions = await client.getTransfers(mainnet, ACCOUNT, 100, 200)
+
+    expect(transactions.map((tx) => tx.blockNumber)).toEqual([100])
+  })
+
+  it('leaves out contract calls, contract creations and unknown tokens', async () => {
+    await seed({
+      chainId: 1,
+      action: 'txlist',
+      transfers: [
+        transfer({ value: '0', to: STRANGER, from: ACCOUNT }),
+        transfer({ to: '', from: ACCOUNT, contractAddress: STRANGER })
+      ]
+    })
+    await seed({
+      chainId: 1,
+      action: 'tokentx',
+      transfers: [
+        transfer({ contractAddress: usdc.address.toLowerCase(), value: '2500000' }),
+        transfer({ contractAddress: SPAM_TOKEN, value: '1' })
+      ]
+    })
+
+    const transactions = await client.getTransfers(mainnet, ACCOUNT, 0, 200)
+
+    expect(transactions).toEqual([
+      expect.objectContaining({ value: '2.5', tokenSymbol: 'USDC', tokenAddress: usdc.address, to: ACCOUNT })
+    ])
+  })
+
+  it('includes native value moved by contracts', async () => {
+    await seed({ chainId: 1, action: 'txlistinternal', transfers: [transfer({ from: STRANGER })] })
+
+    const transactions = await client.getTransfers(mainnet, ACCOUNT, 0, 200)
+
+    expect(transactions).toEqual([expect.objectContaining({ from: STRANGER, to: ACCOUNT, value: '1.0' })])
+  })
+
+  it('rejects seeds it cannot serve', async () => {
+    const response = await seed({ chainId: 1, action: 'balance', transfers: [] })
+
+    expect(response.status).toBe(400)
+  })
+
+  it('is hidden in production builds unless it is enabled', async () => {
+    const query = 'http://localhost/api/mock-indexer?action=txlist&address=' + ACCOUNT
+
+    vi.stubEnv('NODE_ENV', 'production')
+    expect((await GET(new Request(query))).status).toBe(404)
+    expect((await seed({ reset: true })).status).toBe(404)
+
+    vi.stubEnv('NEXT_PUBLIC_USE_MOCK_INDEXER', 'true')
+    expect((await GET(new Request(query))).status).toBe(200)
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Echo Wallet - Transaction indexer client
+ * Reads an account's past transfers from an Etherscan-compatible API (Etherscan v2,
+ * Blockscout, or the local stand-in at /api/mock-indexer).
+ */
+
+import { ethers } from 'ethers'
+import { ChainConfig, Transaction } from '@/types'
+
+/**
+ * Minimal indexer API used by the history sync.
+ */
+export interface IndexerClient {
+  // Native and ERC-20 transfers in and out of `address` between the two blocks (inclusive)
+  getTransfers(chain: ChainConfig, address: string, fromBlock: number, toBlock: number): Promise<Transaction[]>
+}
+
+// Row of an Etherscan `txlist`, `txlistinternal` or `tokentx` result
+export interface EtherscanTransfer {
+  blockNumber: string
+  timeStamp: string
+  hash: string
+  nonce?: string
+  from: string
+  to: string
+  value: string
+  gasUsed?: string
+  isError?: string
+  contractAddress?: string
+  tokenSymbol?: string
+  tokenDecimal?: string
+}
+
+export class EtherscanIndexerClient implements IndexerClient {
+  constructor(
+    private readonly apiUrl: string,
+    private readonly apiKey: string
+  ) {}
+
+  async getTransfers(chain: ChainConfig, address: string, fromBlock: number, toBlock: number): Promise<Transaction[]> {
+    const [external, internal, tokens] = await Promise.all(
+      ['txlist', 'txlistinternal', 'tokentx'].map((action) => this.request(chain, action, address, fromBlock, toBlock))
+    )
+    const native = chain.nativeCurrency
+
+    const nativeTransfers = [...external, ...internal]
+      // Zero-value rows are contract calls; their token movements come from `tokentx`.
+      // Contract creations have no recipient and are not transfers
+      .filter((row) => row.value !== '0' && row.to)
+      .map((row) => this.toTransaction(chain, row, native.symbol, native.decimals))
+
+    const tokenTransfers = tokens.flatMap((row) => {
+      // Only the chain's known tokens: indexers also report spam airdrops
+      const token = chain.tokens.find((known) => known.address.toLowerCase() === row.contractAddress?.toLowerCase())
+      return token ? [{ ...this.toTransaction(chain, row, token.symbol, token.decimals), tokenAddress: token.address }] : []
+    })
+
+    return [...nativeTransfers, ...tokenTransfers]
+  }
+
+  private toTransaction(chain: ChainConfig, row: EtherscanTransfer, symbol: string, decimals: number): Transaction {
+    return {
+      hash: row.hash,
+      chainId: chain.chainId,
+      from: ethers.utils.getAddress(row.from),
+      to: ethers.utils.getAddress(row.to),
+      value: ethers.utils.formatUnits(row.value, decimals),
+      tokenSymbol: symbol,
+      timestamp: Number(row.timeStamp) * 1000,
+      status: row.isError === '1' ? 'failed' : 'confirmed',
+      blockNumber: Number(row.blockNumber),
+      gasUsed: row.gasUsed
+    }
+  }
+
+  private async request(
+    chain: ChainConfig,
+    action: string,
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<EtherscanTransfer[]> {
+    const base = typeof window === 'undefined' ? 'http://localhost' : window.location.origin
+    const url = new URL(this.apiUrl, base)
+    url.search = new URLSearchParams({
+      chainid: String(chain.chainId),
+      module: 'account',
+      action,
+      address,
+      startblock: String(fromBlock),
+      endblock: String(toBlock),
+      sort: 'asc',
+      ...(this.apiKey ? { apikey: this.apiKey } : {})
+    }).toString()
+
+    const response = await fetch(url.toString())
+    if (!response.ok) {
+      throw new Error(`Indexer request failed with HTTP ${response.status}`)
+    }
+
+    // Etherscan answers "no transactions" with status 0 and an empty list, and errors with a string result
+    const payload = await response.json()
+    if (!Array.isArray(payload.result)) {
+      throw new Error(payload.result || payload.message || `Indexer rejected ${action}`)
+    }
+    return payload.result as EtherscanTransfer[]
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { VoiceCommandSlots, VoiceCommandType } from '@/types'
+import { IntentParser } from './intentParser'
+import { VoiceRecognitionOptimizer } from './voiceOptimizer'
+
+// As voiceService hands transcripts to the grammar
+const parse = (utterance: string) => IntentParser.parse(VoiceRecognitionOptimizer.optimizeText(utterance))
+
+const INTENTS: [string, VoiceCommandType, VoiceCommandSlots?][] = [
+  // Balance, also when a transfer is only mentioned
+  ['check my balance', 'balance'],
+  ['what is my balance before I transfer', 'balance'],
+  ['how much eth do I have', 'balance'],
+
+  // Transfers start with the verb
+  ['send 0.1 eth to alice', 'transfer', { amount: '0.1', token: 'eth', recipient: { type: 'contact', value: 'alice' }, isComplete: true }],
+  ['send zero point five usdc to vitalik dot eth', 'transfer', { amount: '0.5', token: 'usdc', recipient: { type: 'ens', value: 'vitalik.eth' }, isComplete: true }],
+  ['please quick send 5 usdc', 'transfer', { amount: '5', token: 'usdc', recipient: { type: 'recent', value: '' }, isComplete: true }],
+  ['send half my balance to bob', 'transfer', { amount: '50%', recipient: { type: 'contact', value: 'bob' }, isComplete: true }],
+  ['send everything to bob', 'transfer', { amount: '100%', isComplete: true }],
+  ['send 1 eth to max', 'transfer', { amount: '1', recipient: { type: 'contact', value: 'max' }, isComplete: true }],
+
+  // A transfer verb later in the sentence is a question about history
+  ['how much did I send last week', 'history_query'],
+  ['show my last 5 transactions', 'history_query'],
+
+  // Networks only switch with a verb
+  ['switch to mainnet', 'switch_network', { network: 'mainnet' }],
+  ['change network to arbitrum', 'switch_network', { network: 'arbitrum' }],
+  // The more specific name wins over Ethereum's
+  ['switch to ethereum sepolia', 'switch_network', { network: 'sepolia' }],
+  ['switch to op mainnet', 'switch_network', { network: 'optimism' }],
+  ['use base', 'switch_network', { network: 'base' }],
+
+  ['create a new wallet', 'create_wallet'],
+  ['create a passkey wallet', 'create_passkey_wallet'],
+  ['restore my passkey wallet', 'restore_passkey_wallet'],
+  ['import my wallet', 'import_wallet'],
+  ['import my recovery phrase', 'import_mnemonic'],
+  ['lock the wallet', 'lock_wallet'],
+  ['unlock my wallet', 'unlock_wallet'],
+  ['set a passphrase', 'set_passphrase'],
+  ['list my wallets', 'list_wallets'],
+  ['switch to savings wallet', 'switch_wallet', { name: 'savings' }],
+  ['rename wallet to travel', 'rename_wallet', { name: 'travel' }],
+  ['list my accounts', 'list_accounts'],
+  ['add an account called travel', 'add_account', { name: 'travel' }],
+  ['speed up my last transfer', 'speed_up_transaction'],
+  ['cancel the pending transaction', 'cancel_transaction'],
+  ['show my contacts', 'contacts'],
+  ['read my address', 'read_address']
+]
+
+describe('IntentParser.parse', () => {
+  it.each(INTENTS)('"%s" is %s', (utterance, type, slots) => {
+    const command = parse(utterance)
+    expect(command.type).toBe(type)
+    if (slots) expect(command.slots).toMatchObject(slots)
+  })
+
+  it.each([
+    ["don't send anything", 'transfer'],
+    ['do not lock the wallet', 'lock_wallet'],
+    ["I don't want to switch to mainnet", 'switch_network'],
+    ['never create a new wallet', 'create_wallet']
+  ] as [string, VoiceCommandType][])('"%s" is negated, with %s as the best guess', (utterance, guess) => {
+    const command = parse(utterance)
+    expect(command.type).toBe('unknown')
+    expect(command.slots?.negated).toBe(true)
+    expect(command.slots?.guesses?.[0]?.type).toBe(guess)
+  })
+
+  it('guesses the intent of a near miss', () => {
+    const command = parse('tell me about mainnet')
+    expect(command.type).toBe('unknown')
+    expect(command.slots?.guesses?.map((guess) => guess.type)).toContain('switch_network')
+  })
+
+  it('does not hear a network in "base fee"', () => {
+    const command = parse('switch to base fee estimates')
+    expect(command.type).toBe('unknown')
+    expect(command.slots?.network).toBeUndefined()
+  })
+
+  it('has no guesses for words outside the grammar', () => {
+    const command = parse('the weather is nice')
+    expect(command.type).toBe('unknown')
+    expect(command.slots?.guesses).toEqual([])
+  })
+})
+
+describe('IntentParser.parseAnswer', () => {
+  it.each([
+    ['yes', 'yes'],
+    ['okay, send it', 'yes'],
+    ['confirm', 'yes'],
+    ['no', 'no'],
+    ['nope', 'no'],
+    ["no, don't send", 'no'],
+    ["don't send it", 'no'],
+    ['do not send', 'no'],
+    ['yes, I mean no', 'no'],
+    ['not now', 'no'],
+    ['normal', null],
+    ['token', null],
+    ['', null]
+  ] as [string, 'yes' | 'no' | null][])('"%s" is %s', (answer, expected) => {
+    expect(IntentParser.parseAnswer(answer)).toBe(expected)
+  })
+})
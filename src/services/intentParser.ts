@@ -0,0 +1,402 @@
+/**
+ * Echo Wallet - Intent grammar
+ * Matches spoken commands against a declarative grammar of intents and fills in their
+ * slots (amount, token, recipient, network, time range, names). Every intent whose
+ * patterns match is scored by how much of the utterance it explains; the best one wins
+ * and grammar order breaks ties. Utterances that match nothing, or are negated ("don't
+ * send anything"), come back as 'unknown' with the closest intents as guesses. Expects
+ * text already normalized by VoiceRecognitionOptimizer.
+ */
+
+import { IntentGuess, VoiceCommand, VoiceCommandSlots, VoiceCommandType } from '@/types'
+import { WALLET_CONFIG, findNetworkByName } from '@/config'
+import { VoiceRecognitionOptimizer } from './voiceOptimizer'
+import { HistoryQueryParser } from './historyQueryParser'
+
+// A regular expression, or a test that matches the whole clause or nothing
+type Matcher = RegExp | ((clause: string) => RegExpMatchArray | null)
+
+interface IntentRule {
+  type: VoiceCommandType
+  patterns: Matcher[]
+  // Cue words: an utterance that matches no pattern but says these is a near miss
+  cues: string[]
+  slots?: (clause: string, match: RegExpMatchArray) => VoiceCommandSlots
+}
+
+// A full match scores at least this much; the rest is for covering more of the utterance
+const MATCH_BASE = 0.6
+// Each cue word of a near miss adds this much, up to two
+const CUE_WEIGHT = 0.25
+const MAX_GUESSES = 3
+
+// Dropped from the ends of an utterance so the command verb leads the clause
+const POLITE_PREFIX = /^(?:(?:please|hey|ok|okay|so|now|can you|could you|would you|i want to|i need to|i would like to|i'd like to|let me|let's|go ahead and)\s+)+/
+const POLITE_SUFFIX = /(?:\s+(?:please|thanks|thank you|now))+$/
+// Start of a subordinate clause: "what is my balance before I transfer" asks for the balance
+const SUBORDINATE = /\s+(?:before|after|when|while|once|until|because|if)\s+.*$/
+const NEGATION_WORDS = "don't|dont|do not|never|not"
+const NEGATION = new RegExp(`^(?:i\\s+)?(?:${NEGATION_WORDS})\\s+(?:want to\\s+)?`)
+
+// Answers to a yes-or-no question. A negation anywhere makes the answer a no, so "no,
+// don't send it" never confirms however many yes-words it has.
+const NO_ANSWER = new RegExp(`\\b(?:no|nope|stop|wrong|${NEGATION_WORDS})\\b`)
+const YES_ANSWER = /\b(?:yes|yeah|yep|ok|okay|sure|correct|confirm|confirmed|send)\b/
+
+const TRANSACTION_HASH = /\b0x[a-f0-9]{64}\b/
+
+// Network names long enough not to be mistaken for other words ("eth" is also a token)
+const NETWORK_CUES = Object.values(WALLET_CONFIG.NETWORKS)
+  .flatMap((chain) => chain.spokenNames)
+  .filter((name) => name.length > 3)
+
+const wholeClause = (clause: string) => clause.match(/^.*$/)
+const named = (match: RegExpMatchArray): VoiceCommandSlots => ({ name: match[1]?.trim() || undefined })
+
+const INTENT_RULES: IntentRule[] = [
+  // Passkey wallets first: "create passkey wallet" also reads as creating a wallet
+  {
+    type: 'restore_passkey_wallet',
+    patterns: [/\b(?:restore|recover|import)\b.*\bpasskey\b.*$/, /\bpasskey\b.*\b(?:restore|recover|import)\b.*$/],
+    cues: ['passkey', 'restore', 'recover']
+  },
+  {
+    type: 'create_passkey_wallet',
+    patterns: [/\b(?:create|make|new)\b.*\bpasskey\b.*$/, /\bpasskey\b.*\b(?:create|new)\b.*$/],
+    cues: ['passkey', 'create', 'new']
+  },
+  {
+    type: 'list_wallets',
+    patterns: [/\b(?:list|show|which|what)(?: are)? (?:all )?(?:my |the )?wallets\b/],
+    cues: ['wallets', 'list']
+  },
+  {
+    type: 'rename_wallet',
+    patterns: [/\brename (?:my |the |this )?wallet(?: to| as)? (.+)$/],
+    cues: ['rename'],
+    slots: (clause, match) => named(match)
+  },
+  {
+    type: 'remove_wallet',
+    patterns: [/\b(?:remove|delete|forget) (?:my |the |this )?(?:(.+?) )?wallet\b/],
+    cues: ['remove', 'delete', 'forget'],
+    slots: (clause, match) => named(match)
+  },
+  {
+    type: 'switch_wallet',
+    patterns: [
+      /\b(?:switch|change|go|move) to (?:my |the )?(.+?) wallet\b/,
+      /\b(?:switch|change) wallets?(?: to)? (.+)$/,
+      /\b(?:switch|change|go|move) to (?:my |the )?(wallet \d+)/
+    ],
+    cues: ['switch', 'wallets'],
+    slots: (clause, match) => named(match)
+  },
+  {
+    type: 'list_accounts',
+    patterns: [/\b(?:list|show|which|what)(?: are)? (?:all )?(?:my |the )?accounts\b/],
+    cues: ['accounts', 'list']
+  },
+  {
+    type: 'switch_account',
+    patterns: [
+      /\b(?:switch|change|go|move) to (?:my |the )?(.+?) account\b/,
+      /\b(?:switch|change|go|move) to (?:my |the )?(account \d+)/,
+      /\buse (?:my |the )?(.+?) account\b/
+    ],
+    cues: ['switch', 'account'],
+    slots: (clause, match) => named(match)
+  },
+  {
+    type: 'add_account',
+    patterns: [/\b(?:add|create|open) (?:a |an )?(?:new )?account(?: (?:called|named) (.+))?$/],
+    cues: ['add', 'account'],
+    slots: (clause, match) => named(match)
+  },
+  {
+    type: 'create_wallet',
+    patterns: [/\b(?:create|generate|make)(?: me)? (?:a |my )?(?:new )?wallet\b/, /\bnew wallet\b/],
+    cues: ['create', 'new', 'generate', 'wallet']
+  },
+  {
+    type: 'unlock_wallet',
+    patterns: [/\bunlock (?:the |my )?wallet\b/, /^unlock$/],
+    cues: ['unlock']
+  },
+  {
+    type: 'lock_wallet',
+    patterns: [/\block (?:the |my )?wallet\b/, /^lock$/],
+    cues: ['lock']
+  },
+  {
+    type: 'set_passphrase',
+    patterns: [/\b(?:set|change)(?: a| my| the)? passphrase\b/],
+    cues: ['passphrase', 'password']
+  },
+  {
+    type: 'import_mnemonic',
+    patterns: [/\b(?:recovery|seed|secret) phrase\b/, /\bmnemonic\b/],
+    cues: ['phrase', 'recovery', 'seed', 'words']
+  },
+  {
+    type: 'import_wallet',
+    patterns: [
+      /\b(?:import|restore|recover) (?:my |a |the )?wallet\b/,
+      /\bsign in(?: to)?(?: my)? wallet\b/,
+      /\b(?:biometric|fingerprint|face id|face unlock)\b/
+    ],
+    cues: ['import', 'restore', 'recover', 'wallet']
+  },
+  // Before history: "speed up my last transfer" is about a pending transaction
+  {
+    type: 'speed_up_transaction',
+    patterns: [/\b(?:speed up|accelerate|bump)\b.*\b(?:transaction|transfer|payment)\b.*$/],
+    cues: ['speed', 'accelerate', 'faster', 'stuck']
+  },
+  {
+    type: 'cancel_transaction',
+    patterns: [/\bcancel\b.*\b(?:transaction|transfer|payment)\b.*$/],
+    cues: ['cancel', 'transaction']
+  },
+  {
+    type: 'history_query',
+    patterns: [(clause) => (HistoryQueryParser.isHistoryQuestion(clause) ? wholeClause(clause) : null)],
+    cues: ['history', 'transactions', 'received', 'sent', 'spent'],
+    slots: (clause) => ({ timeRange: HistoryQueryParser.parsePeriod(clause) })
+  },
+  {
+    type: 'transaction_status',
+    patterns: [
+      /\btransaction status\b.*$/,
+      /\b(?:check|track)(?: the| my)? transaction\b.*$/,
+      /\bstatus of (?:the |my )?transaction\b.*$/
+    ],
+    cues: ['status', 'track', 'transaction'],
+    slots: (clause) => ({ hash: clause.match(TRANSACTION_HASH)?.[0] })
+  },
+  // Only a leading verb starts a transfer: "how much did I send" does not
+  {
+    type: 'transfer',
+    patterns: [/^(?:quick )?(?:transfer|send|pay|give)\b.*$/],
+    cues: ['transfer', 'send', 'pay', 'money'],
+    slots: (clause) => IntentParser.parseTransferSlots(clause)
+  },
+  {
+    type: 'contacts',
+    patterns: [/\b(?:(?:show|view|list|open|favorite) )?(?:my )?contacts?\b/, /\baddress book\b/],
+    cues: ['contact', 'contacts', 'friends']
+  },
+  {
+    type: 'read_address',
+    patterns: [
+      /\b(?:read|show|tell me|what is|what's) (?:my |the )?(?:wallet )?address\b(?! book)/,
+      /\b(?:my|wallet) address\b(?! book)/
+    ],
+    cues: ['address']
+  },
+  {
+    type: 'balance',
+    patterns: [/\b(?:(?:check|show|read|what is|what's) )?(?:my |the )?balances?\b/, /\bhow much\b.*\bdo i have\b/],
+    cues: ['balance', 'money', 'funds', 'have']
+  },
+  // A network only counts with a verb: "mainnet" alone is a guess
+  {
+    type: 'switch_network',
+    patterns: [
+      /\b(?:switch|change)(?: the)? networks?\b.*$/,
+      (clause) =>
+        findNetworkByName(clause) ? clause.match(/\b(?:(?:switch|change|go|move|connect)(?: over)? to|use)\b.*$/) : null
+    ],
+    cues: ['network', 'switch', ...NETWORK_CUES],
+    slots: (clause) => ({ network: findNetworkByName(clause)?.id })
+  }
+]
+
+// Spoken names of the intents, for "did you mean …" and "I will not …"
+const INTENT_LABELS: Record<VoiceCommandType, string> = {
+  create_wallet: 'create a wallet',
+  transfer: 'send a transfer',
+  balance: 'check your balance',
+  import_wallet: 'import a wallet',
+  import_mnemonic: 'import a recovery phrase',
+  transaction_status: 'check a transaction',
+  contacts: 'open your contacts',
+  switch_network: 'switch networks',
+  read_address: 'read your address',
+  lock_wallet: 'lock the wallet',
+  unlock_wallet: 'unlock the wallet',
+  set_passphrase: 'set a passphrase',
+  create_passkey_wallet: 'create a passkey wallet',
+  restore_passkey_wallet: 'restore a passkey wallet',
+  list_accounts: 'list your accounts',
+  switch_account: 'switch accounts',
+  add_account: 'add an account',
+  list_wallets: 'list your wallets',
+  switch_wallet: 'switch wallets',
+  rename_wallet: 'rename the wallet',
+  remove_wallet: 'remove a wallet',
+  speed_up_transaction: 'speed up a transaction',
+  cancel_transaction: 'cancel a transaction',
+  history_query: 'hear your transaction history',
+  unknown: 'do something else'
+}
+
+export class IntentParser {
+  /**
+   * Best matching intent of an utterance, or 'unknown' with the closest guesses.
+   * Recognition confidence is left at 0 for the caller to fill in.
+   */
+  static parse(transcript: string): VoiceCommand {
+    const clause = this.mainClause(transcript)
+
+    const negation = clause.match(NEGATION)
+    if (negation) {
+      const rest = clause.slice(negation[0].length)
+      const guesses = this.rank(rest)
+      console.log(`🚫 Negated command: "${transcript}"`)
+      return {
+        type: 'unknown',
+        slots: { text: transcript, negated: true, guesses },
+        confidence: 0,
+        score: guesses[0]?.score ?? 0
+      }
+    }
+
+    let best: { rule: IntentRule; match: RegExpMatchArray; score: number } | null = null
+    for (const rule of INTENT_RULES) {
+      const scored = this.bestMatch(rule, clause)
+      // Later rules only win with a better score
+      if (scored && (!best || scored.score > best.score)) best = { rule, ...scored }
+    }
+
+    if (best) {
+      const slots = best.rule.slots?.(clause, best.match) ?? {}
+      console.log(`🧭 Intent ${best.rule.type} (score ${best.score.toFixed(2)}): "${transcript}"`)
+      return {
+        type: best.rule.type,
+        slots: { text: transcript, ...slots },
+        confidence: 0,
+        score: best.score
+      }
+    }
+
+    const guesses = this.rank(clause)
+    console.log(`❓ No intent for "${transcript}"; guesses: ${guesses.map((guess) => guess.type).join(', ') || 'none'}`)
+    return {
+      type: 'unknown',
+      slots: { text: transcript, guesses },
+      confidence: 0,
+      score: guesses[0]?.score ?? 0
+    }
+  }
+
+  /**
+   * Whether an answer to a yes-or-no question is a yes, a no, or neither.
+   * Words are matched whole: "normal" is not "no" and "token" is not "ok".
+   */
+  static parseAnswer(transcript: string): 'yes' | 'no' | null {
+    const text = transcript.toLowerCase().replace(/[?!,;:."]/g, ' ')
+    if (NO_ANSWER.test(text)) return 'no'
+    return YES_ANSWER.test(text) ? 'yes' : null
+  }
+
+  /**
+   * Spoken name of an intent, e.g. "check your balance"
+   */
+  static describeIntent(type: VoiceCommandType): string {
+    return INTENT_LABELS[type]
+  }
+
+  /**
+   * Amount, token and recipient of a spoken transfer. A transfer is complete once it
+   * names both an amount and a recipient; "quick send" means the most used contact.
+   */
+  static parseTransferSlots(clause: string): VoiceCommandSlots {
+    const parsed = VoiceRecognitionOptimizer.parseTransferCommand(clause)
+    if (parsed) {
+      const validation = VoiceRecognitionOptimizer.validateAmount(parsed.amount)
+      if (!validation.isValid) {
+        console.log(`❌ Amount validation failed: ${validation.message}`)
+        return { isComplete: false }
+      }
+
+      const recipient =
+        parsed.type === 'ens' && parsed.ensName
+          ? { type: 'ens' as const, value: parsed.ensName }
+          : parsed.type === 'contact' && parsed.contactName
+            ? { type: 'contact' as const, value: parsed.contactName }
+            : parsed.type === 'address' && parsed.to
+              ? { type: 'address' as const, value: parsed.to }
+              : { type: 'recent' as const, value: '' }
+
+      return { amount: validation.corrected, token: parsed.token, recipient, isComplete: true }
+    }
+
+    // "send 5 usdc" without a recipient: keep the amount for the guided flow
+    const amountMatch = VoiceRecognitionOptimizer.normalizeBalanceShare(clause).match(/([0-9.]+%?)/)
+    if (amountMatch) {
+      const validation = VoiceRecognitionOptimizer.validateAmount(amountMatch[1])
+      if (validation.isValid) {
+        return {
+          amount: validation.corrected,
+          token: VoiceRecognitionOptimizer.extractToken(clause) || 'eth',
+          isComplete: false
+        }
+      }
+    }
+
+    return { isComplete: false }
+  }
+
+  /**
+   * Lower-case command clause: punctuation, polite words and subordinate clauses removed
+   */
+  private static mainClause(transcript: string): string {
+    return transcript
+      .toLowerCase()
+      .replace(/[?!,;:"]/g, ' ')
+      // Sentence-final periods; decimals and ENS names keep theirs
+      .replace(/\.(?=\s|$)/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(SUBORDINATE, '')
+      .replace(POLITE_PREFIX, '')
+      .replace(POLITE_SUFFIX, '')
+  }
+
+  /**
+   * Highest scoring pattern of a rule: full matches score by the share of the clause covered
+   */
+  private static bestMatch(rule: IntentRule, clause: string): { match: RegExpMatchArray; score: number } | null {
+    if (!clause) return null
+
+    let best: { match: RegExpMatchArray; score: number } | null = null
+    for (const pattern of rule.patterns) {
+      const match = pattern instanceof RegExp ? clause.match(pattern) : pattern(clause)
+      if (!match) continue
+
+      const score = MATCH_BASE + (1 - MATCH_BASE) * (match[0].length / clause.length)
+      if (!best || score > best.score) best = { match, score }
+    }
+    return best
+  }
+
+  /**
+   * Intents an unclear clause came closest to, best first: full matches, then cue words
+   */
+  private static rank(clause: string): IntentGuess[] {
+    const guesses = INTENT_RULES.map((rule) => {
+      const scored = this.bestMatch(rule, clause)
+      if (scored) return { type: rule.type, score: scored.score }
+
+      const hits = rule.cues.filter((cue) => new RegExp(`\\b${cue}\\b`).test(clause)).length
+      return { type: rule.type, score: CUE_WEIGHT * Math.min(hits, 2) }
+    })
+
+    // Stable sort: grammar order breaks ties
+    return guesses
+      .filter((guess) => guess.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_GUESSES)
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * Echo Wallet - Encrypted in-memory keyring
+ * Holds signing keys sealed with AES-GCM and exposes only signing operations.
+ * The keyring locks itself after a period of inactivity and forgets the key the
+ * entries are sealed with. Unlocking unwraps that key again with one derived from
+ * the wallet passphrase or from the passkey's PRF output.
+ */
+
+import { ethers } from 'ethers'
+import { WALLET_CONFIG } from '@/config'
+import { webAuthnService } from './webAuthnService'
+
+const PASSPHRASE_ITERATIONS = 210000
+const WRAP_SALT_LENGTH = 32
+const PRF_WRAP_INFO = 'echo-wallet-keyring-unlock'
+
+interface KeyringSecrets {
+  privateKey: string
+  mnemonic?: string
+}
+
+interface SealedEntry {
+  iv: Uint8Array
+  ciphertext: ArrayBuffer
+}
+
+// The session key sealed with a key derived from the passphrase or a passkey's PRF output
+interface WrappedSessionKey {
+  salt: Uint8Array
+  iv: Uint8Array
+  wrappedKey: ArrayBuffer
+  // Passkey whose PRF output unwraps it
+  credentialId?: string
+}
+
+/**
+ * Thrown when a signing operation is attempted while the keyring is locked.
+ */
+export class KeyringLockedError extends Error {
+  constructor() {
+    super('Wallet is locked. Please unlock it first.')
+    this.name = 'KeyringLockedError'
+  }
+}
+
+/**
+ * ethers Signer backed by the keyring; never sees the private key.
+ */
+class KeyringSigner extends ethers.Signer {
+  readonly provider?: ethers.providers.Provider
+
+  constructor(
+    private readonly keyring: KeyringService,
+    private readonly ownerAddress: string,
+    provider?: ethers.providers.Provider
+  ) {
+    super()
+    ethers.utils.defineReadOnly(this, 'provider', provider)
+  }
+
+  async getAddress(): Promise<string> {
+    return this.ownerAddress
+  }
+
+  signMessage(message: ethers.utils.Bytes | string): Promise<string> {
+    return this.keyring.signMessage(this.ownerAddress, message)
+  }
+
+  signTransaction(transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>): Promise<string> {
+    return this.keyring.signTransaction(this.ownerAddress, transaction)
+  }
+
+  connect(provider: ethers.providers.Provider): KeyringSigner {
+    return new KeyringSigner(this.keyring, this.ownerAddress, provider)
+  }
+}
+
+class KeyringService {
+  private sessionKey: CryptoKey | null = null
+  private entries = new Map<string, SealedEntry>()
+  private locked = true
+  private lockTimer: ReturnType<typeof setTimeout> | null = null
+  private passphraseWrap: WrappedSessionKey | null = null
+  private biometricWrap: WrappedSessionKey | null = null
+  private lockListeners = new Set<(locked: boolean) => void>()
+
+  /**
+   * Seal a key into the keyring and return its address.
+   * Adding a key happens right after the user authenticated, so the keyring is unlocked.
+   * Keys sealed before a lock cannot be opened without unlocking, so they are dropped and
+   * come back when their wallet is imported again.
+   */
+  async addAccount(secrets: KeyringSecrets): Promise<string> {
+    const address = new ethers.Wallet(secrets.privateKey).address
+    if (this.locked && this.entries.size > 0) {
+      console.warn('🔐 Keyring locked; starting over with the new key')
+      this.clear()
+    }
+    const sessionKey = await this.getSessionKey()
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      sessionKey,
+      new TextEncoder().encode(JSON.stringify(secrets))
+    )
+
+    this.entries.set(address.toLowerCase(), { iv, ciphertext })
+    this.setLocked(false)
+    return address
+  }
+
+  /**
+   * Derive another account at a BIP-44 path from the recovery phrase held for `sourceAddress`.
+   * The phrase never leaves the keyring; the derived key is sealed like any other.
+   */
+  async deriveAccount(sourceAddress: string, path: string): Promise<string> {
+    const mnemonic = await this.withSecrets(sourceAddress, (secrets) => secrets.mnemonic)
+    if (!mnemonic) throw new Error('This account has no recovery phrase to derive from')
+
+    const wallet = ethers.Wallet.fromMnemonic(mnemonic, path)
+    return await this.addAccount({ privateKey: wallet.privateKey, mnemonic })
+  }
+
+  /**
+   * Whether the keyring holds a key for this address
+   */
+  hasAccount(address: string): boolean {
+    return this.entries.has(address.toLowerCase())
+  }
+
+  /**
+   * Remove one key from the keyring
+   */
+  removeAccount(address: string) {
+    this.entries.delete(address.toLowerCase())
+  }
+
+  /**
+   * Drop every key and the session key
+   */
+  clear() {
+    this.entries.clear()
+    this.passphraseWrap = null
+    this.biometricWrap = null
+    this.setLocked(true)
+  }
+
+  isLocked(): boolean {
+    return this.locked
+  }
+
+  lock() {
+    this.setLocked(true)
+  }
+
+  /**
+   * Subscribe to lock state changes. Returns an unsubscribe function.
+   */
+  onLockChange(listener: (locked: boolean) => void): () => void {
+    this.lockListeners.add(listener)
+    return () => this.lockListeners.delete(listener)
+  }
+
+  /**
+   * Set the passphrase that can unlock the keyring when biometrics are unavailable
+   */
+  async setPassphrase(passphrase: string) {
+    if (this.locked || !this.sessionKey) throw new KeyringLockedError()
+
+    const salt = crypto.getRandomValues(new Uint8Array(WRAP_SALT_LENGTH))
+    this.passphraseWrap = await this.wrapSessionKey(this.sessionKey, await this.deriveFromPassphrase(passphrase, salt), salt)
+  }
+
+  hasPassphrase(): boolean {
+    return this.passphraseWrap !== null
+  }
+
+  /**
+   * Let biometrics unlock the keyring: the session key is wrapped with a key derived from
+   * the PRF output of a saved passkey. False when the user or the authenticator declined.
+   */
+  async enableBiometricUnlock(): Promise<boolean> {
+    if (this.locked || !this.sessionKey) throw new KeyringLockedError()
+
+    const salt = crypto.getRandomValues(new Uint8Array(WRAP_SALT_LENGTH))
+    const prf = await webAuthnService.verifyUserWithPrf(salt)
+    if (!prf) return false
+
+    const wrap = await this.wrapSessionKey(this.sessionKey, await this.deriveFromPrf(prf.prfOutput, salt), salt)
+    this.biometricWrap = { ...wrap, credentialId: prf.credentialId }
+    return true
+  }
+
+  hasBiometricUnlock(): boolean {
+    return this.biometricWrap !== null
+  }
+
+  /**
+   * Unlock with a WebAuthn user-verification ceremony; the passkey's PRF output unwraps the session key
+   */
+  async unlockWithBiometric(): Promise<boolean> {
+    const wrap = this.biometricWrap
+    if (this.entries.size === 0 || !wrap) return false
+
+    const prf = await webAuthnService.verifyUserWithPrf(wrap.salt, wrap.credentialId)
+    if (!prf) return false
+    return await this.unwrapSessionKey(wrap, await this.deriveFromPrf(prf.prfOutput, wrap.salt))
+  }
+
+  /**
+   * Unlock with the wallet passphrase; a wrong passphrase fails to unwrap the session key
+   */
+  async unlockWithPassphrase(passphrase: string): Promise<boolean> {
+    const wrap = this.passphraseWrap
+    if (this.entries.size === 0 || !wrap) return false
+
+    return await this.unwrapSessionKey(wrap, await this.deriveFromPassphrase(passphrase, wrap.salt))
+  }
+
+  /**
+   * Sign an EIP-191 personal message
+   */
+  async signMessage(address: string, message: ethers.utils.Bytes | string): Promise<string> {
+    return await this.withWallet(address, (wallet) => wallet.signMessage(message))
+  }
+
+  /**
+   * Sign a transaction request
+   */
+  async signTransaction(
+    address: string,
+    transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>
+  ): Promise<string> {
+    const resolved = await ethers.utils.resolveProperties(transaction)
+    return await this.withWallet(address, (wallet) => wallet.signTransaction(resolved))
+  }
+
+  /**
+   * Signer for an address, optionally connected to a provider
+   */
+  getSigner(address: string, provider?: ethers.providers.Provider): ethers.Signer {
+    if (!this.hasAccount(address)) {
+      throw new Error('No key for this address in the keyring')
+    }
+    return new KeyringSigner(this, ethers.utils.getAddress(address), provider)
+  }
+
+  // === Private helpers ===
+
+  /**
+   * Decrypt the key only for the duration of one signing call
+   */
+  private async withWallet<T>(address: string, sign: (wallet: ethers.Wallet) => Promise<T>): Promise<T> {
+    return await this.withSecrets(address, (secrets) => sign(new ethers.Wallet(secrets.privateKey)))
+  }
+
+  private async withSecrets<T>(address: string, read: (secrets: KeyringSecrets) => T | Promise<T>): Promise<T> {
+    if (this.locked || !this.sessionKey) throw new KeyringLockedError()
+
+    const entry = this.entries.get(address.toLowerCase())
+    if (!entry) throw new Error('No key for this address in the keyring')
+
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: entry.iv }, this.sessionKey, entry.ciphertext)
+    const secrets = JSON.parse(new TextDecoder().decode(plaintext)) as KeyringSecrets
+
+    this.scheduleAutoLock()
+    return await read(secrets)
+  }
+
+  /**
+   * AES-GCM key the entries are sealed with, created with the first entry. It can only
+   * leave memory wrapped, and is forgotten on lock.
+   */
+  private async getSessionKey(): Promise<CryptoKey> {
+    if (!this.sessionKey) {
+      this.sessionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt'])
+    }
+    return this.sessionKey
+  }
+
+  private async wrapSessionKey(sessionKey: CryptoKey, wrappingKey: CryptoKey, salt: Uint8Array): Promise<WrappedSessionKey> {
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const wrappedKey = await crypto.subtle.wrapKey('raw', sessionKey, wrappingKey, { name: 'AES-GCM', iv })
+    return { salt, iv, wrappedKey }
+  }
+
+  /**
+   * Restore the session key and unlock; false when the wrapping key is wrong
+   */
+  private async unwrapSessionKey(wrap: WrappedSessionKey, wrappingKey: CryptoKey): Promise<boolean> {
+    try {
+      this.sessionKey = await crypto.subtle.unwrapKey(
+        'raw',
+        wrap.wrappedKey,
+        wrappingKey,
+        { name: 'AES-GCM', iv: wrap.iv },
+        { name: 'AES-GCM', length: 256 },
+        true,
+        ['encrypt', 'decrypt']
+      )
+    } catch {
+      return false
+    }
+    this.setLocked(false)
+    return true
+  }
+
+  private async deriveFromPassphrase(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+    return await crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PASSPHRASE_ITERATIONS },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    )
+  }
+
+  private async deriveFromPrf(prfOutput: BufferSource, salt: Uint8Array): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey('raw', prfOutput, 'HKDF', false, ['deriveKey'])
+    return await crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(PRF_WRAP_INFO) },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    )
+  }
+
+  private setLocked(locked: boolean) {
+    if (locked) {
+      this.clearLockTimer()
+      // Without the session key the sealed entries cannot be opened until it is unwrapped again
+      this.sessionKey = null
+    } else {
+      this.scheduleAutoLock()
+    }
+
+    if (this.locked === locked) return
+    this.locked = locked
+    console.log(locked ? '🔒 Keyring locked' : '🔓 Keyring unlocked')
+    this.lockListeners.forEach((listener) => listener(locked))
+  }
+
+  private scheduleAutoLock() {
+    this.clearLockTimer()
+    this.lockTimer = setTimeout(() => this.setLocked(true), WALLET_CONFIG.SECURITY.SESSION_TIMEOUT)
+  }
+
+  private clearLockTimer() {
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer)
+      this.lockTimer = null
+    }
+  }
+}
+
+// Singleton instance
+export const keyringService = new KeyringService()
@@ -0,0 +1,242 @@
+/**
+ * Echo Wallet - On-device speech engine
+ * Recognition with vosk-browser, a Kaldi recognizer compiled to WebAssembly, limited to
+ * the wallet's grammar. The script and the model are served by the app, so voice
+ * commands work offline and no audio leaves the device. Speech uses the voices the
+ * device synthesizes itself.
+ */
+
+import { RecognitionAlternative } from '@/types'
+import { WALLET_CONFIG } from '@/config'
+import { RecognitionHandlers, RecognitionRequest, SpeechEngine, SpeechGrammarKind, SpeechVoice, UtteranceRequest } from './speechEngine'
+import { SpeechGrammar } from './speechGrammar'
+import { BrowserSynthesis } from './webSpeechEngine'
+
+// The parts of the vosk-browser API used here
+interface VoskWord {
+  word: string
+  conf: number
+}
+
+interface VoskResultMessage {
+  result: { text: string; result?: VoskWord[] }
+}
+
+interface VoskPartialResultMessage {
+  result: { partial: string }
+}
+
+interface VoskRecognizer {
+  setWords(words: boolean): void
+  acceptWaveform(buffer: AudioBuffer): void
+  on(event: 'result', listener: (message: VoskResultMessage) => void): void
+  on(event: 'partialresult', listener: (message: VoskPartialResultMessage) => void): void
+  remove(): void
+}
+
+interface VoskModel {
+  KaldiRecognizer: new (sampleRate: number, grammar?: string) => VoskRecognizer
+}
+
+// Vosk's word for anything outside the grammar
+const UNKNOWN_WORD = '[unk]'
+const BUFFER_SIZE = 4096
+
+// One utterance being listened for
+interface Capture {
+  handlers: RecognitionHandlers
+  stopped: boolean
+  // Undo everything set up for it: timers, microphone, audio graph, recognizer
+  releases: (() => void)[]
+}
+
+function loadScript(url: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const script = document.createElement('script')
+    script.src = url
+    script.async = true
+    script.onload = () => resolve()
+    script.onerror = () => reject(new Error(`Unable to load ${url}`))
+    document.head.appendChild(script)
+  })
+}
+
+class LocalSpeechEngine implements SpeechEngine {
+  readonly id = 'local'
+  readonly label = 'On this device (offline)'
+  readonly onDevice = true
+  private model: Promise<VoskModel> | null = null
+  private capture: Capture | null = null
+  private synthesis = new BrowserSynthesis(true)
+
+  canRecognize(): boolean {
+    return (
+      typeof window !== 'undefined' &&
+      typeof WebAssembly !== 'undefined' &&
+      typeof AudioContext !== 'undefined' &&
+      !!navigator.mediaDevices?.getUserMedia
+    )
+  }
+
+  canSpeak(): boolean {
+    return this.synthesis.isAvailable()
+  }
+
+  startRecognition(request: RecognitionRequest, handlers: RecognitionHandlers) {
+    this.stopRecognition()
+    const capture: Capture = { handlers, stopped: false, releases: [] }
+    this.capture = capture
+    void this.listen(capture, request)
+  }
+
+  stopRecognition() {
+    if (this.capture) this.end(this.capture)
+  }
+
+  speak(utterance: UtteranceRequest, onEnd: () => void) {
+    this.synthesis.speak(utterance, onEnd)
+  }
+
+  cancelSpeech() {
+    this.synthesis.cancel()
+  }
+
+  getVoices(): SpeechVoice[] {
+    return this.synthesis.getVoices()
+  }
+
+  /**
+   * Load the model, open the microphone and feed it to a recognizer for the grammar
+   * until it hears a phrase, nothing is said in time, or the capture is stopped
+   */
+  private async listen(capture: Capture, request: RecognitionRequest) {
+    let model: VoskModel
+    try {
+      model = await this.loadModel()
+    } catch (error) {
+      console.error('Unable to load the on-device speech model:', error)
+      // Tried again on the next listen
+      this.model = null
+      this.fail(capture, 'service-not-allowed')
+      return
+    }
+    if (capture.stopped) return
+
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true }
+      })
+    } catch (error) {
+      this.fail(capture, error instanceof DOMException && error.name === 'NotAllowedError' ? 'not-allowed' : 'audio-capture')
+      return
+    }
+    if (!this.hold(capture, () => stream.getTracks().forEach((track) => track.stop()))) return
+
+    const context = new AudioContext()
+    this.hold(capture, () => void context.close())
+    const grammar = JSON.stringify([...SpeechGrammar.vocabulary(request.grammar), UNKNOWN_WORD])
+    const recognizer = new model.KaldiRecognizer(context.sampleRate, grammar)
+    this.hold(capture, () => recognizer.remove())
+    recognizer.setWords(true)
+
+    const noSpeech = setTimeout(() => this.fail(capture, 'no-speech'), WALLET_CONFIG.LOCAL_SPEECH.NO_SPEECH_TIMEOUT)
+    this.hold(capture, () => clearTimeout(noSpeech))
+
+    let heard = false
+    recognizer.on('partialresult', (message) => {
+      if (heard || capture.stopped || !message.result.partial) return
+      heard = true
+      clearTimeout(noSpeech)
+      capture.handlers.onSpeechStart()
+    })
+
+    // Vosk reports a result at every pause; silence comes back as empty text
+    recognizer.on('result', (message) => {
+      if (capture.stopped || !message.result.text) return
+      const reading = this.reading(message, request.grammar)
+      this.end(capture, () => capture.handlers.onResult([reading]))
+    })
+
+    const source = context.createMediaStreamSource(stream)
+    const processor = context.createScriptProcessor(BUFFER_SIZE, 1, 1)
+    processor.onaudioprocess = (event) => {
+      if (!capture.stopped) recognizer.acceptWaveform(event.inputBuffer)
+    }
+    source.connect(processor)
+    processor.connect(context.destination)
+    this.hold(capture, () => {
+      processor.disconnect()
+      source.disconnect()
+    })
+  }
+
+  private loadModel(): Promise<VoskModel> {
+    if (!this.model) {
+      console.log('🧠 Loading the on-device speech model')
+      const { SCRIPT_URL, MODEL_URL } = WALLET_CONFIG.LOCAL_SPEECH
+      this.model = (window.Vosk ? Promise.resolve() : loadScript(SCRIPT_URL)).then(() => {
+        if (!window.Vosk) throw new Error(`${SCRIPT_URL} did not provide the Vosk API`)
+        return window.Vosk.createModel(MODEL_URL)
+      })
+    }
+    return this.model
+  }
+
+  /**
+   * The phrase as the browser recognizer would write it. Words outside the grammar are
+   * left out and count as unheard, so a phrase of unknown words has no confidence.
+   */
+  private reading(message: VoskResultMessage, grammar: SpeechGrammarKind): RecognitionAlternative {
+    const words = message.result.result ?? []
+    const known = message.result.text.split(' ').filter((word) => word !== UNKNOWN_WORD).join(' ')
+    const confidence = words.length > 0
+      ? words.reduce((sum, word) => sum + (word.word === UNKNOWN_WORD ? 0 : word.conf), 0) / words.length
+      : Number(known.length > 0)
+
+    return {
+      transcript: grammar === 'commands' ? SpeechGrammar.writeNumbers(known) : known,
+      confidence
+    }
+  }
+
+  /**
+   * Register something to undo when the capture ends; undone at once, returning false,
+   * when it has already ended
+   */
+  private hold(capture: Capture, release: () => void): boolean {
+    if (capture.stopped) {
+      release()
+      return false
+    }
+    capture.releases.push(release)
+    return true
+  }
+
+  private fail(capture: Capture, code: string) {
+    this.end(capture, () => capture.handlers.onError(code))
+  }
+
+  /**
+   * Release the capture, report how it ended, then report the end itself, as the Web
+   * Speech API does
+   */
+  private end(capture: Capture, report?: () => void) {
+    if (capture.stopped) return
+    capture.stopped = true
+    if (this.capture === capture) this.capture = null
+    capture.releases.forEach((release) => release())
+
+    report?.()
+    capture.handlers.onEnd()
+  }
+}
+
+export const localSpeechEngine = new LocalSpeechEngine()
+
+declare global {
+  interface Window {
+    // Set by the vosk-browser script
+    Vosk?: { createModel(url: string): Promise<VoskModel> }
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Echo Wallet - Recovery phrase recognizer
+ * Matches dictated words against the BIP-39 English word list, correcting
+ * homophones, digits and near-misses produced by speech recognition.
+ */
+
+import { ethers } from 'ethers'
+
+export interface MnemonicWordMatch {
+  spoken: string
+  // Matched BIP-39 word, or null when nothing was close enough
+  word: string | null
+  corrected: boolean
+}
+
+export class MnemonicRecognizer {
+  static readonly VALID_LENGTHS = [12, 24]
+
+  // Spoken forms that speech engines write as digits or as a homophone of a list word
+  private static readonly SPOKEN_FORMS: Record<string, string> = {
+    '0': 'zero',
+    '1': 'one',
+    '2': 'two',
+    '3': 'three',
+    '6': 'six',
+    '7': 'seven',
+    '8': 'eight',
+    '10': 'ten',
+    won: 'one',
+    to: 'two',
+    too: 'two',
+    ate: 'eight',
+    rite: 'right',
+    see: 'sea',
+    knight: 'night',
+    whole: 'hole',
+    our: 'hour',
+    meet: 'meat',
+    pare: 'pair',
+    sale: 'sail',
+    weight: 'wait',
+    tale: 'tail',
+    son: 'sun',
+    flour: 'flower',
+    knows: 'nose',
+    no: 'know',
+    rode: 'road',
+    their: 'there',
+    blew: 'blue',
+    dear: 'deer',
+    hare: 'hair',
+    made: 'maid',
+    male: 'mail',
+    reel: 'real',
+    steal: 'steel',
+    would: 'wood',
+    hi: 'high',
+    ant: 'aunt',
+    cell: 'sell',
+    lone: 'loan',
+    paws: 'pause',
+    reign: 'rain',
+    wring: 'ring',
+    site: 'sight',
+    tow: 'toe',
+    weigh: 'way',
+    whine: 'wine',
+    serial: 'cereal',
+    poll: 'pole',
+    bored: 'board',
+    creak: 'creek'
+  }
+
+  // Words people say between recovery words; none of them is on the list
+  private static readonly FILLER_WORDS = new Set(['and', 'then', 'comma', 'period', 'um', 'uh', 'the', 'a'])
+
+  private static words: string[] | null = null
+  private static phoneticKeys: string[] | null = null
+
+  /**
+   * Split a dictated group into words and match each one against the word list.
+   * Runs of single letters ("s u n n y") are joined so words can be spelled.
+   */
+  static parseGroup(text: string): MnemonicWordMatch[] {
+    const tokens = text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean)
+
+    const merged: string[] = []
+    let letters = ''
+    for (const token of [...tokens, '']) {
+      if (token.length === 1 && /[a-z]/.test(token)) {
+        letters += token
+        continue
+      }
+      if (letters.length > 1) merged.push(letters)
+      letters = ''
+      if (token && !this.FILLER_WORDS.has(token)) merged.push(token)
+    }
+
+    return merged.map((token) => this.matchWord(token))
+  }
+
+  /**
+   * Match one spoken word: exact, homophone, unique four-letter prefix, then the
+   * closest word by edit distance with a bonus for sounding alike
+   */
+  static matchWord(spoken: string): MnemonicWordMatch {
+    const normalized = spoken.toLowerCase().replace(/[^a-z0-9]/g, '')
+    const candidate = this.SPOKEN_FORMS[normalized] ?? normalized
+    const words = this.getWords()
+
+    if (ethers.wordlists.en.getWordIndex(candidate) >= 0) {
+      return { spoken, word: candidate, corrected: candidate !== normalized }
+    }
+    if (!/^[a-z]{2,}$/.test(candidate)) {
+      return { spoken, word: null, corrected: false }
+    }
+
+    // BIP-39 words are unique in their first four letters
+    if (candidate.length >= 4) {
+      const prefixed = words.filter((word) => word.startsWith(candidate.slice(0, 4)))
+      if (prefixed.length === 1 && this.editDistance(candidate, prefixed[0]) <= 2) {
+        return { spoken, word: prefixed[0], corrected: true }
+      }
+    }
+
+    const key = this.phoneticKey(candidate)
+    const keys = this.getPhoneticKeys()
+    let best: string | null = null
+    let bestScore = Infinity
+    let tied = false
+
+    for (let index = 0; index < words.length; index++) {
+      let score = this.editDistance(candidate, words[index])
+      if (keys[index] === key) score -= 1.5
+      if (score < bestScore) {
+        best = words[index]
+        bestScore = score
+        tied = false
+      } else if (score === bestScore) {
+        tied = true
+      }
+    }
+
+    // Two equally likely words are left for the user to repeat or spell
+    const tolerance = Math.max(1, Math.floor(candidate.length / 3))
+    if (!best || tied || bestScore > tolerance) {
+      return { spoken, word: null, corrected: false }
+    }
+    return { spoken, word: best, corrected: true }
+  }
+
+  /**
+   * Check the word count and the BIP-39 checksum
+   */
+  static isValidMnemonic(mnemonic: string): boolean {
+    const words = mnemonic.trim().split(/\s+/)
+    return this.VALID_LENGTHS.includes(words.length) && ethers.utils.isValidMnemonic(words.join(' '))
+  }
+
+  /**
+   * The BIP-39 English word list, in order
+   */
+  static getWords(): string[] {
+    if (!this.words) {
+      const wordlist = ethers.wordlists.en
+      this.words = Array.from({ length: 2048 }, (_, index) => wordlist.getWord(index))
+    }
+    return this.words
+  }
+
+  private static getPhoneticKeys(): string[] {
+    if (!this.phoneticKeys) {
+      this.phoneticKeys = this.getWords().map((word) => this.phoneticKey(word))
+    }
+    return this.phoneticKeys
+  }
+
+  /**
+   * Rough consonant skeleton so "nite" and "night" or "fone" and "phone" collide
+   */
+  private static phoneticKey(word: string): string {
+    const simplified = word
+      .replace(/^(kn|gn|wr)/, (prefix) => prefix[1])
+      .replace(/ph/g, 'f')
+      .replace(/gh/g, '')
+      .replace(/ck/g, 'k')
+      .replace(/dg/g, 'j')
+      .replace(/c(?=[eiy])/g, 's')
+      .replace(/[cq]/g, 'k')
+      .replace(/x/g, 'ks')
+      .replace(/z/g, 's')
+      .replace(/(.)\1+/g, '$1')
+
+    const first = /[aeiou]/.test(simplified[0]) ? 'a' : simplified[0]
+    return first + simplified.slice(1).replace(/[aeiouyhw]/g, '')
+  }
+
+  private static editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i]
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        )
+      }
+      previous = current
+    }
+    return previous[b.length]
+  }
+}
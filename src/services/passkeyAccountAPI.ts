@@ -0,0 +1,127 @@
+/**
+ * Echo Wallet - Passkey-owned smart account
+ * ERC-4337 account API for a Coinbase Smart Wallet whose only owner is a WebAuthn
+ * P-256 passkey. UserOperation hashes are signed by the authenticator itself, so
+ * there is no mnemonic or private key anywhere in the browser.
+ */
+
+import { ethers } from 'ethers'
+import { BaseAccountAPI } from '@account-abstraction/sdk'
+import { PasskeyAssertion, StoredPasskeySigner } from '@/types/webauthn'
+import { webAuthnService } from './webAuthnService'
+import { P256_CURVE_ORDER, derToRawSignature } from './webAuthnVerifier'
+
+const FACTORY_ABI = ['function createAccount(bytes[] owners, uint256 nonce) payable returns (address)']
+const ACCOUNT_ABI = ['function execute(address target, uint256 value, bytes data) payable']
+const ENTRY_POINT_ABI = ['function getNonce(address sender, uint192 key) view returns (uint256)']
+
+// WebAuthnSol `WebAuthnAuth` wrapped in the account's `SignatureWrapper`
+const WEBAUTHN_AUTH_TYPE =
+  'tuple(bytes authenticatorData, string clientDataJSON, uint256 challengeIndex, uint256 typeIndex, uint256 r, uint256 s)'
+const SIGNATURE_WRAPPER_TYPE = 'tuple(uint256 ownerIndex, bytes signatureData)'
+
+interface PasskeyAccountParams {
+  provider: ethers.providers.Provider
+  entryPointAddress: string
+  factoryAddress: string
+  owner: StoredPasskeySigner
+  index?: ethers.BigNumberish
+}
+
+/**
+ * Encode a passkey assertion the way on-chain P-256 WebAuthn verifiers expect it.
+ * `s` is normalized to the lower half of the curve order to rule out malleability.
+ */
+export function encodePasskeySignature(assertion: PasskeyAssertion, ownerIndex = 0): string {
+  const raw = derToRawSignature(assertion.signature)
+  const r = ethers.BigNumber.from(raw.subarray(0, 32))
+  let s = ethers.BigNumber.from(raw.subarray(32))
+  const order = ethers.BigNumber.from(P256_CURVE_ORDER.toString())
+  if (s.gt(order.div(2))) s = order.sub(s)
+
+  const signatureData = ethers.utils.defaultAbiCoder.encode(
+    [WEBAUTHN_AUTH_TYPE],
+    [
+      {
+        authenticatorData: assertion.authenticatorData,
+        clientDataJSON: assertion.clientDataJSON,
+        challengeIndex: assertion.clientDataJSON.indexOf('"challenge":'),
+        typeIndex: assertion.clientDataJSON.indexOf('"type":'),
+        r,
+        s
+      }
+    ]
+  )
+
+  return ethers.utils.defaultAbiCoder.encode([SIGNATURE_WRAPPER_TYPE], [{ ownerIndex, signatureData }])
+}
+
+/**
+ * A signature of the size and shape a real one has, for gas estimation before the user
+ * approves: bundlers simulate validation with it and charge calldata by its bytes.
+ */
+export function dummyPasskeySignature(ownerIndex = 0): string {
+  const order = ethers.BigNumber.from(P256_CURVE_ORDER.toString())
+  const origin = typeof window !== 'undefined' ? window.location.origin : 'https://localhost'
+  // A base64url SHA-256 challenge is 43 characters
+  const clientDataJSON = JSON.stringify({ type: 'webauthn.get', challenge: 'A'.repeat(43), origin, crossOrigin: false })
+
+  const signatureData = ethers.utils.defaultAbiCoder.encode(
+    [WEBAUTHN_AUTH_TYPE],
+    [
+      {
+        // RP ID hash, user present and verified flags, signature counter
+        authenticatorData: ethers.utils.hexConcat([ethers.utils.hexlify(new Uint8Array(32).fill(0x49)), '0x05', '0x00000001']),
+        clientDataJSON,
+        challengeIndex: clientDataJSON.indexOf('"challenge":'),
+        typeIndex: clientDataJSON.indexOf('"type":'),
+        r: order.sub(1),
+        s: order.div(2)
+      }
+    ]
+  )
+
+  return ethers.utils.defaultAbiCoder.encode([SIGNATURE_WRAPPER_TYPE], [{ ownerIndex, signatureData }])
+}
+
+export class PasskeyAccountAPI extends BaseAccountAPI {
+  private readonly factoryAddress: string
+  private readonly owner: StoredPasskeySigner
+  private readonly index: ethers.BigNumber
+
+  constructor(params: PasskeyAccountParams) {
+    super({ provider: params.provider, entryPointAddress: params.entryPointAddress })
+    this.factoryAddress = params.factoryAddress
+    this.owner = params.owner
+    this.index = ethers.BigNumber.from(params.index ?? 0)
+  }
+
+  async getAccountInitCode(): Promise<string> {
+    const ownerBytes = ethers.utils.defaultAbiCoder.encode(['uint256', 'uint256'], [this.owner.x, this.owner.y])
+    const factory = new ethers.utils.Interface(FACTORY_ABI)
+    return ethers.utils.hexConcat([
+      this.factoryAddress,
+      factory.encodeFunctionData('createAccount', [[ownerBytes], this.index])
+    ])
+  }
+
+  async getNonce(): Promise<ethers.BigNumber> {
+    if (await this.checkAccountPhantom()) {
+      return ethers.BigNumber.from(0)
+    }
+    const entryPoint = new ethers.Contract(this.entryPointAddress, ENTRY_POINT_ABI, this.provider)
+    return await entryPoint.getNonce(await this.getAccountAddress(), 0)
+  }
+
+  async encodeExecute(target: string, value: ethers.BigNumberish, data: string): Promise<string> {
+    return new ethers.utils.Interface(ACCOUNT_ABI).encodeFunctionData('execute', [target, value, data])
+  }
+
+  /**
+   * The userOpHash is the WebAuthn challenge; the user approves with their biometric
+   */
+  async signUserOpHash(userOpHash: string): Promise<string> {
+    const assertion = await webAuthnService.signWithPasskey(this.owner.credentialId, ethers.utils.arrayify(userOpHash))
+    return encodePasskeySignature(assertion)
+  }
+}
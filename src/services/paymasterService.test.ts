@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ethers } from 'ethers'
+import { UserOperation } from '@/types'
+import { POST } from '@/app/api/mock-paymaster/route'
+import { MOCK_PAYMASTER_ADDRESS, MOCK_SPONSORSHIP_GAS_CAP, PaymasterClient } from './paymasterService'
+
+const ENTRY_POINT = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789'
+
+const userOperation = (fields: Partial<UserOperation> = {}): UserOperation => ({
+  sender: '0x5555555555555555555555555555555555555555',
+  nonce: '0x0',
+  initCode: '0x',
+  callData: '0x',
+  callGasLimit: ethers.BigNumber.from(100000).toHexString(),
+  verificationGasLimit: ethers.BigNumber.from(100000).toHexString(),
+  preVerificationGas: ethers.BigNumber.from(50000).toHexString(),
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '0x3b9aca00',
+  paymasterAndData: '0x',
+  signature: '0x',
+  ...fields
+})
+
+const call = (body: unknown) =>
+  POST(new Request('http://localhost/api/mock-paymaster', { method: 'POST', body: JSON.stringify(body) }))
+
+describe('PaymasterClient with the stand-in paymaster', () => {
+  const client = new PaymasterClient('/api/mock-paymaster', ENTRY_POINT)
+
+  beforeEach(() => {
+    // Requests go straight to the route handler instead of over the network
+    vi.stubGlobal('fetch', (url: string, init: RequestInit) => POST(new Request(`http://localhost${url}`, init)))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sponsors an operation within the gas budget', async () => {
+    const outcome = await client.sponsorUserOperation(userOperation())
+
+    expect(outcome).toMatchObject({
+      sponsored: true,
+      result: {
+        callGasLimit: ethers.BigNumber.from(100000).toHexString(),
+        verificationGasLimit: ethers.BigNumber.from(150000).toHexString(),
+        preVerificationGas: ethers.BigNumber.from(50000).toHexString()
+      }
+    })
+  })
+
+  it('lays out paymasterAndData as address, validity window and signature', async () => {
+    const outcome = await client.sponsorUserOperation(userOperation())
+    if (!outcome.sponsored) throw new Error(outcome.reason)
+
+    const data = ethers.utils.arrayify(outcome.result.paymasterAndData)
+    expect(data).toHaveLength(20 + 64 + 65)
+    expect(ethers.utils.getAddress(ethers.utils.hexlify(data.slice(0, 20)))).toBe(ethers.utils.getAddress(MOCK_PAYMASTER_ADDRESS))
+
+    const [validUntil, validAfter] = ethers.utils.defaultAbiCoder.decode(['uint48', 'uint48'], data.slice(20, 84))
+    const now = Math.floor(Date.now() / 1000)
+    expect(validUntil).toBeGreaterThan(now)
+    expect(validUntil).toBeLessThanOrEqual(now + 3600)
+    expect(validAfter).toBe(0)
+    expect(data.slice(84).every((byte) => byte === 0)).toBe(true)
+  })
+
+  it('leaves room for deployment when the operation carries initCode', async () => {
+    const outcome = await client.sponsorUserOperation(userOperation({ initCode: `0x${'ab'.repeat(40)}` }))
+
+    expect(outcome).toMatchObject({ sponsored: true, result: { verificationGasLimit: ethers.BigNumber.from(450000).toHexString() } })
+  })
+
+  it('refuses an operation over the gas budget', async () => {
+    const outcome = await client.sponsorUserOperation(userOperation({ callGasLimit: MOCK_SPONSORSHIP_GAS_CAP.toHexString() }))
+
+    expect(outcome).toEqual({ sponsored: false, reason: 'Sponsorship policy rejected this operation' })
+  })
+
+  it('reports a failing or unreachable paymaster as a refusal', async () => {
+    vi.stubGlobal('fetch', async () => new Response(null, { status: 502 }))
+    await expect(client.sponsorUserOperation(userOperation())).resolves.toEqual({ sponsored: false, reason: 'Paymaster returned HTTP 502' })
+
+    vi.stubGlobal('fetch', async () => {
+      throw new TypeError('fetch failed')
+    })
+    await expect(client.sponsorUserOperation(userOperation())).resolves.toEqual({ sponsored: false, reason: 'Paymaster unreachable' })
+  })
+
+  it('answers only pm_sponsorUserOperation with a UserOperation', async () => {
+    const other = await (await call({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] })).json()
+    const missing = await (await call({ jsonrpc: '2.0', id: 2, method: 'pm_sponsorUserOperation', params: [] })).json()
+
+    expect(other).toMatchObject({ id: 1, error: { code: -32601 } })
+    expect(missing).toMatchObject({ id: 2, error: { code: -32602 } })
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * Echo Wallet - ERC-4337 paymaster client
+ * Requests gas sponsorship for UserOperations so voice users do not need ETH for fees.
+ */
+
+import { ethers } from 'ethers'
+import { PaymasterResult, UserOperation } from '@/types'
+
+// Stand-in verifying paymaster used by the local endpoint
+export const MOCK_PAYMASTER_ADDRESS = '0x00000000000000000000000000000000000e4c40'
+
+// The local endpoint refuses operations whose worst-case gas exceeds this budget
+export const MOCK_SPONSORSHIP_GAS_CAP = ethers.BigNumber.from(2_000_000)
+
+/**
+ * Sponsorship request outcome. A refusal is not an error: the caller falls back to user-paid gas.
+ */
+export type SponsorshipOutcome =
+  | { sponsored: true; result: PaymasterResult }
+  | { sponsored: false; reason: string }
+
+/**
+ * JSON-RPC paymaster client (pm_sponsorUserOperation, as served by ZeroDev and Pimlico).
+ */
+export class PaymasterClient {
+  private requestId = 0
+
+  constructor(
+    private readonly paymasterUrl: string,
+    private readonly entryPointAddress: string
+  ) {}
+
+  async sponsorUserOperation(userOp: UserOperation): Promise<SponsorshipOutcome> {
+    try {
+      const response = await fetch(this.paymasterUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: ++this.requestId,
+          method: 'pm_sponsorUserOperation',
+          params: [userOp, this.entryPointAddress]
+        })
+      })
+
+      if (!response.ok) {
+        return { sponsored: false, reason: `Paymaster returned HTTP ${response.status}` }
+      }
+
+      const payload = await response.json()
+      if (payload.error || !payload.result?.paymasterAndData) {
+        return { sponsored: false, reason: payload.error?.message || 'Sponsorship refused' }
+      }
+
+      const result = payload.result
+      return {
+        sponsored: true,
+        result: {
+          paymasterAndData: result.paymasterAndData,
+          preVerificationGas: ethers.BigNumber.from(result.preVerificationGas ?? userOp.preVerificationGas).toHexString(),
+          verificationGasLimit: ethers.BigNumber.from(result.verificationGasLimit ?? userOp.verificationGasLimit).toHexString(),
+          callGasLimit: ethers.BigNumber.from(result.callGasLimit ?? userOp.callGasLimit).toHexString()
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ Paymaster request failed:', error)
+      return { sponsored: false, reason: 'Paymaster unreachable' }
+    }
+  }
+}
+
+/**
+ * Sponsorship policy of the local stand-in paymaster endpoint.
+ * Returns null when the operation is refused.
+ */
+export function createMockSponsorship(userOp: UserOperation): PaymasterResult | null {
+  const deploying = userOp.initCode && userOp.initCode !== '0x'
+  const callGasLimit = ethers.BigNumber.from(userOp.callGasLimit || 100000)
+  const verificationGasLimit = ethers.BigNumber.from(deploying ? 450000 : 150000)
+  const preVerificationGas = ethers.BigNumber.from(userOp.preVerificationGas || 50000)
+
+  const totalGas = callGasLimit.add(verificationGasLimit).add(preVerificationGas)
+  if (totalGas.gt(MOCK_SPONSORSHIP_GAS_CAP)) {
+    return null
+  }
+
+  // validUntil one hour ahead, validAfter zero, followed by a placeholder 65-byte signature
+  const validUntil = Math.floor(Date.now() / 1000) + 3600
+  const paymasterAndData = ethers.utils.hexConcat([
+    MOCK_PAYMASTER_ADDRESS,
+    ethers.utils.defaultAbiCoder.encode(['uint48', 'uint48'], [validUntil, 0]),
+    new Uint8Array(65)
+  ])
+
+  return {
+    paymasterAndData,
+    preVerificationGas: preVerificationGas.toHexString(),
+    verificationGasLimit: verificationGasLimit.toHexString(),
+    callGasLimit: callGasLimit.toHexString()
+  }
+}
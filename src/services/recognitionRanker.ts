@@ -0,0 +1,245 @@
+/**
+ * Echo Wallet - Recognition alternatives
+ * Chooses among the N-best readings of an utterance. Commands are parsed from every
+ * reading and scored by recognition confidence, how well the grammar matched and what
+ * the wallet knows (saved contacts, wallets and accounts). Answers in the transfer flow
+ * are scored by what the current step expects. When the two best readings mean
+ * different things and score close together, the caller asks which one was meant.
+ */
+
+import { ethers } from 'ethers'
+import { RecognitionAlternative, TransferState, VoiceCommand, VoiceCommandType } from '@/types'
+import { WALLET_CONFIG } from '@/config'
+import { useWalletStore } from '@/store'
+import { contactsService } from './contactsService'
+import { IntentParser } from './intentParser'
+import { VoiceRecognitionOptimizer } from './voiceOptimizer'
+
+export interface RankedReading<T> {
+  value: T
+  transcript: string
+  score: number
+  // Readings with the same key mean the same thing
+  key: string
+  // Set for commands
+  intent?: VoiceCommandType
+}
+
+// Share of the score from recognition confidence and from the grammar match
+const CONFIDENCE_WEIGHT = 0.5
+const GRAMMAR_WEIGHT = 0.3
+// Added when a reading names something the wallet knows or the step expects, taken off when it names something unknown
+const CONTEXT_BONUS = 0.2
+// Readings without a reported confidence count as a little less likely than the one before
+const UNREPORTED_DECAY = 0.9
+
+// Words the transfer flow cancels on; yes and no are read as the confirmation step reads them
+const CANCEL_WORDS = /\b(?:cancel|exit)\b/
+
+export class RecognitionRanker {
+  /**
+   * Commands parsed from every reading, best first
+   */
+  static rankCommands(alternatives: RecognitionAlternative[]): RankedReading<VoiceCommand>[] {
+    const confidences = this.confidences(alternatives)
+
+    return this.sort(
+      alternatives.map((alternative, index) => {
+        const command = IntentParser.parse(alternative.transcript)
+        command.confidence = confidences[index]
+        const grammar = command.type === 'unknown' ? 0 : command.score ?? 0
+
+        return {
+          value: command,
+          transcript: alternative.transcript,
+          score: CONFIDENCE_WEIGHT * confidences[index] + GRAMMAR_WEIGHT * grammar + this.commandContext(command),
+          key: this.commandKey(command),
+          intent: command.type
+        }
+      })
+    )
+  }
+
+  /**
+   * Free-text readings, best first. Outside the transfer flow the text may be a
+   * passphrase or a name, so only the recognizer's own best reading is kept.
+   */
+  static rankText(alternatives: RecognitionAlternative[]): RankedReading<string>[] {
+    const { transfer } = useWalletStore.getState()
+    if (!transfer.isActive) {
+      const [best] = alternatives
+      return [{ value: best.transcript, transcript: best.transcript, score: best.confidence, key: best.transcript }]
+    }
+
+    const confidences = this.confidences(alternatives)
+    return this.sort(
+      alternatives.map((alternative, index) => {
+        const { bonus, key } = this.stepContext(alternative.transcript, transfer.step)
+        return {
+          value: alternative.transcript,
+          transcript: alternative.transcript,
+          score: CONFIDENCE_WEIGHT * confidences[index] + bonus,
+          key
+        }
+      })
+    )
+  }
+
+  /**
+   * The best reading and the best one meaning something else, when they score too close
+   * to pick. Unknown commands are never offered as a choice.
+   */
+  static findAmbiguity<T>(readings: RankedReading<T>[]): [RankedReading<T>, RankedReading<T>] | null {
+    const [best] = readings
+    if (!best || best.intent === 'unknown') return null
+
+    const rival = readings.find((reading) => reading.key !== best.key && reading.intent !== 'unknown')
+    if (!rival || best.score - rival.score >= WALLET_CONFIG.SPEECH_CONFIG.AMBIGUITY_MARGIN) return null
+    return [best, rival]
+  }
+
+  /**
+   * How to name two readings in "did you mean … or …": the commands when they differ,
+   * otherwise the words where the transcripts differ ("alice" and "alex")
+   */
+  static describeChoices<T>(first: RankedReading<T>, second: RankedReading<T>): [string, string] {
+    if (first.intent && second.intent && first.intent !== second.intent) {
+      return [`to ${IntentParser.describeIntent(first.intent)}`, `to ${IntentParser.describeIntent(second.intent)}`]
+    }
+
+    const a = first.transcript.split(' ')
+    const b = second.transcript.split(' ')
+    let start = 0
+    while (start < a.length && start < b.length && a[start] === b[start]) start++
+    let end = 0
+    while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++
+
+    const firstWords = a.slice(start, a.length - end).join(' ')
+    const secondWords = b.slice(start, b.length - end).join(' ')
+    return firstWords && secondWords ? [firstWords, secondWords] : [first.transcript, second.transcript]
+  }
+
+  /**
+   * Which of two choices an answer picks: the choice itself, "the first" / "the second",
+   * or words only one choice has ("balance" for "to check your balance")
+   */
+  static pickChoice(answers: string[], labels: [string, string]): 0 | 1 | null {
+    const phrases = labels.map((label) => label.replace(/^to /, ''))
+    const words = phrases.map((phrase) => phrase.split(' '))
+    const unique = words.map((own, index) => own.filter((word) => word.length > 2 && !words[1 - index].includes(word)))
+
+    for (const answer of answers) {
+      const exact = phrases.indexOf(answer)
+      if (exact === 0 || exact === 1) return exact
+      if (/\b(?:second|latter|other|last)\b/.test(answer)) return 1
+      if (/\b(?:first|former)\b/.test(answer)) return 0
+
+      const spoken = answer.split(' ')
+      const [first, second] = unique.map((own) => own.filter((word) => spoken.includes(word)).length)
+      if (first !== second) return first > second ? 0 : 1
+    }
+    return null
+  }
+
+  /**
+   * Reported confidences, filling in readings the browser gave none for
+   */
+  private static confidences(alternatives: RecognitionAlternative[]): number[] {
+    let previous = 1
+    return alternatives.map((alternative) => {
+      previous = alternative.confidence > 0 ? alternative.confidence : previous * UNREPORTED_DECAY
+      return previous
+    })
+  }
+
+  private static sort<T>(readings: RankedReading<T>[]): RankedReading<T>[] {
+    // Stable: the recognizer's order breaks ties
+    return readings.sort((a, b) => b.score - a.score)
+  }
+
+  /**
+   * Recipients, wallets and accounts the wallet knows make a reading likelier
+   */
+  private static commandContext(command: VoiceCommand): number {
+    const { slots = {} } = command
+    const name = slots.name?.toLowerCase()
+
+    switch (command.type) {
+      case 'transfer':
+        if (slots.recipient?.type === 'contact') {
+          return contactsService.findContact(slots.recipient.value) ? CONTEXT_BONUS : -CONTEXT_BONUS
+        }
+        if (slots.recipient?.type === 'address') {
+          return ethers.utils.isAddress(slots.recipient.value) ? CONTEXT_BONUS : -CONTEXT_BONUS
+        }
+        return slots.recipient?.type === 'ens' ? CONTEXT_BONUS / 2 : 0
+
+      case 'switch_wallet':
+      case 'remove_wallet':
+        if (!name) return 0
+        return useWalletStore.getState().wallets.some((wallet) => wallet.name.toLowerCase().includes(name))
+          ? CONTEXT_BONUS
+          : -CONTEXT_BONUS
+
+      case 'switch_account':
+        if (!name) return 0
+        return useWalletStore.getState().accounts.some((account) => account.label?.toLowerCase().includes(name))
+          ? CONTEXT_BONUS
+          : 0
+
+      default:
+        return 0
+    }
+  }
+
+  private static commandKey(command: VoiceCommand): string {
+    const { slots = {} } = command
+    // Two spellings of one contact are the same recipient
+    const recipient =
+      slots.recipient?.type === 'contact'
+        ? contactsService.findContact(slots.recipient.value)?.id ?? slots.recipient.value
+        : slots.recipient?.value
+    return [command.type, recipient, slots.amount, slots.token, slots.network, slots.name, slots.hash, slots.negated].join('|')
+  }
+
+  /**
+   * What a transfer step expects: a known recipient, an amount, a token, or yes or no
+   */
+  private static stepContext(text: string, step: TransferState['step']): { bonus: number; key: string } {
+    if (CANCEL_WORDS.test(text)) return { bonus: CONTEXT_BONUS, key: 'cancel' }
+
+    switch (step) {
+      case 'recipient': {
+        const contact = contactsService.findContact(text)
+        if (contact) return { bonus: CONTEXT_BONUS, key: contact.id }
+        const ensName = VoiceRecognitionOptimizer.extractEnsName(text)
+        return ensName ? { bonus: CONTEXT_BONUS, key: ensName } : { bonus: 0, key: text }
+      }
+
+      case 'amount': {
+        const amount = VoiceRecognitionOptimizer.normalizeBalanceShare(text).match(/([0-9.]+%?)/)?.[1]
+        return amount && VoiceRecognitionOptimizer.validateAmount(amount).isValid
+          ? { bonus: CONTEXT_BONUS, key: amount }
+          : { bonus: 0, key: text }
+      }
+
+      case 'token': {
+        const token = VoiceRecognitionOptimizer.extractToken(text)
+        return token ? { bonus: CONTEXT_BONUS, key: token } : { bonus: 0, key: text }
+      }
+
+      case 'confirm': {
+        // "send it fast" confirms at a fee speed; a speed without a yes re-quotes the fee,
+        // and a negated reading ("no, don't send it") is a no whatever else it says
+        const feeTier = VoiceRecognitionOptimizer.extractFeeTier(text) ?? ''
+        const answer = IntentParser.parseAnswer(text)
+        if (answer === 'yes') return { bonus: CONTEXT_BONUS, key: `yes ${feeTier}` }
+        if (feeTier) return { bonus: CONTEXT_BONUS, key: feeTier }
+        return answer === 'no' ? { bonus: CONTEXT_BONUS, key: 'cancel' } : { bonus: 0, key: text }
+      }
+
+      default:
+        return { bonus: 0, key: text }
+    }
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Echo Wallet - RPC provider pool
+ * Spreads JSON-RPC calls over several endpoints of one chain. The fastest healthy
+ * endpoint is tried first; endpoints that fail or rate-limit back off and the call
+ * moves on to the next one.
+ */
+
+import { ethers } from 'ethers'
+import { ChainConfig } from '@/types'
+import { WALLET_CONFIG } from '@/config'
+
+/**
+ * Thrown when no endpoint of the chain answered; callers must not treat it as an empty result.
+ */
+export class NetworkUnavailableError extends Error {
+  constructor(
+    readonly networkName: string,
+    readonly cause?: unknown
+  ) {
+    super(`${networkName} is unreachable right now`)
+    this.name = 'NetworkUnavailableError'
+  }
+}
+
+/**
+ * Find a NetworkUnavailableError, including one that ethers wrapped in a CALL_EXCEPTION for eth_call
+ */
+export function asNetworkUnavailable(error: any): NetworkUnavailableError | null {
+  if (error instanceof NetworkUnavailableError) return error
+  if (error?.error instanceof NetworkUnavailableError) return error.error
+  return null
+}
+
+interface RpcEndpoint {
+  url: string
+  provider: ethers.providers.StaticJsonRpcProvider
+  // Smoothed response time in ms; Infinity until the endpoint first answers
+  latency: number
+  failures: number
+  // The endpoint is skipped until this time after a failure
+  backoffUntil: number
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function isRateLimited(error: any): boolean {
+  const rpcError = error?.error
+  return (
+    error?.status === 429 ||
+    rpcError?.code === -32005 ||
+    /rate limit|too many requests/i.test(`${error?.message ?? ''} ${rpcError?.message ?? ''}`)
+  )
+}
+
+/**
+ * Transport failures, HTTP errors and rate limits are worth another endpoint.
+ * JSON-RPC errors such as reverts would fail the same way everywhere.
+ */
+function isRetryable(error: any): boolean {
+  if (isRateLimited(error)) return true
+
+  // ethers reports a JSON-RPC error response as SERVER_ERROR wrapping the node's error
+  const rpcError = error?.error
+  if (error?.code === ethers.errors.SERVER_ERROR && typeof rpcError?.code === 'number') {
+    return /header not found|timeout/i.test(rpcError.message ?? '')
+  }
+
+  return (
+    error?.code === ethers.errors.SERVER_ERROR ||
+    error?.code === ethers.errors.TIMEOUT ||
+    error?.code === ethers.errors.NETWORK_ERROR
+  )
+}
+
+export class RpcPoolProvider extends ethers.providers.StaticJsonRpcProvider {
+  private readonly endpoints: RpcEndpoint[]
+  private readonly networkName: string
+  private lastHealthCheck = 0
+
+  constructor(chain: ChainConfig) {
+    // ethers resolves ENS names through the network's registry
+    const network = { chainId: chain.chainId, name: chain.id, ensAddress: chain.ensRegistry }
+    super(chain.rpcUrls[0], network)
+
+    const { REQUEST_TIMEOUT } = WALLET_CONFIG.RPC_POOL
+    this.networkName = chain.name
+    this.endpoints = chain.rpcUrls.map((url) => ({
+      url,
+      // throttleLimit 1: a 429 comes straight back here instead of being retried against the same endpoint
+      provider: new ethers.providers.StaticJsonRpcProvider({ url, timeout: REQUEST_TIMEOUT, throttleLimit: 1 }, network),
+      latency: Infinity,
+      failures: 0,
+      backoffUntil: 0
+    }))
+  }
+
+  async send(method: string, params: Array<any>): Promise<any> {
+    const { MAX_ROUNDS, BASE_BACKOFF } = WALLET_CONFIG.RPC_POOL
+    this.scheduleHealthCheck()
+
+    let lastError: unknown
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      for (const endpoint of this.rankEndpoints()) {
+        try {
+          return await this.sendTo(endpoint, method, params)
+        } catch (error) {
+          if (!isRetryable(error)) throw error
+          lastError = error
+          this.markFailure(endpoint, error)
+        }
+      }
+
+      // Every endpoint failed this round; give them a moment before the next one
+      if (round < MAX_ROUNDS - 1) await sleep(BASE_BACKOFF * 2 ** round)
+    }
+
+    throw new NetworkUnavailableError(this.networkName, lastError)
+  }
+
+  /**
+   * Probe every endpoint with eth_blockNumber to refresh latencies and clear recovered ones
+   */
+  async checkHealth(): Promise<void> {
+    this.lastHealthCheck = Date.now()
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          await this.sendTo(endpoint, 'eth_blockNumber', [])
+        } catch (error) {
+          this.markFailure(endpoint, error)
+        }
+      })
+    )
+  }
+
+  private scheduleHealthCheck() {
+    if (this.endpoints.length < 2) return
+    if (Date.now() - this.lastHealthCheck < WALLET_CONFIG.RPC_POOL.HEALTH_CHECK_INTERVAL) return
+    this.checkHealth().catch((error) => console.warn('⚠️ RPC health check failed:', error))
+  }
+
+  /**
+   * Endpoints out of backoff, fastest first; untested ones keep their configured order.
+   * When all are backing off, the one that recovers soonest goes first.
+   */
+  private rankEndpoints(): RpcEndpoint[] {
+    const now = Date.now()
+    const available = this.endpoints.filter((endpoint) => endpoint.backoffUntil <= now)
+    if (available.length === 0) {
+      return [...this.endpoints].sort((a, b) => a.backoffUntil - b.backoffUntil)
+    }
+    return available.sort((a, b) => (a.latency === b.latency ? 0 : a.latency < b.latency ? -1 : 1))
+  }
+
+  private async sendTo(endpoint: RpcEndpoint, method: string, params: Array<any>): Promise<any> {
+    const started = Date.now()
+    const result = await endpoint.provider.send(method, params)
+
+    const elapsed = Date.now() - started
+    endpoint.latency = endpoint.latency === Infinity ? elapsed : endpoint.latency * 0.7 + elapsed * 0.3
+    endpoint.failures = 0
+    endpoint.backoffUntil = 0
+    return result
+  }
+
+  private markFailure(endpoint: RpcEndpoint, error: unknown) {
+    const { BASE_BACKOFF, MAX_BACKOFF } = WALLET_CONFIG.RPC_POOL
+    endpoint.failures++
+
+    // Rate limits clear slower than transient errors
+    const base = isRateLimited(error) ? BASE_BACKOFF * 4 : BASE_BACKOFF
+    const delay = Math.min(MAX_BACKOFF, base * 2 ** (endpoint.failures - 1))
+    endpoint.backoffUntil = Date.now() + delay
+
+    console.warn(`⚠️ RPC endpoint ${new URL(endpoint.url).host} failed; retrying it in ${delay}ms:`, (error as Error)?.message ?? error)
+  }
+}
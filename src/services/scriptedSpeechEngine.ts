@@ -0,0 +1,102 @@
+/**
+ * Echo Wallet - Scripted speech engine
+ * Stands in for a microphone and a speaker in tests: each recognition takes the next
+ * scripted answer, and everything the wallet says is written down instead of spoken.
+ * Install one with voiceService.useEngine().
+ */
+
+import { RecognitionAlternative } from '@/types'
+import { RecognitionHandlers, RecognitionRequest, SpeechEngine, SpeechVoice, UtteranceRequest } from './speechEngine'
+
+// A phrase heard with full confidence, readings as the recognizer would offer them, or a recognition error code
+export type ScriptedAnswer = string | RecognitionAlternative[] | { error: string }
+
+export class ScriptedSpeechEngine implements SpeechEngine {
+  readonly id = 'scripted'
+  readonly label = 'Scripted'
+  readonly onDevice = true
+  // Everything spoken, in order
+  readonly spoken: string[] = []
+  // Grammar of every recognition, in order
+  readonly requests: RecognitionRequest[] = []
+  private answers: ScriptedAnswer[]
+  private listener: RecognitionHandlers | null = null
+  // Bumped on every start and stop, so an answer on its way to a stopped recognition is dropped
+  private recognitionTurn = 0
+  private speechTurn = 0
+
+  constructor(answers: ScriptedAnswer[] = []) {
+    this.answers = [...answers]
+  }
+
+  /**
+   * Queue more answers; one is given at once if the wallet is already listening
+   */
+  say(...answers: ScriptedAnswer[]) {
+    this.answers.push(...answers)
+    this.answerNext()
+  }
+
+  canRecognize(): boolean {
+    return true
+  }
+
+  canSpeak(): boolean {
+    return true
+  }
+
+  startRecognition(request: RecognitionRequest, handlers: RecognitionHandlers) {
+    this.requests.push(request)
+    this.recognitionTurn++
+    this.listener = handlers
+    this.answerNext()
+  }
+
+  stopRecognition() {
+    this.recognitionTurn++
+    const listener = this.listener
+    this.listener = null
+    listener?.onEnd()
+  }
+
+  /**
+   * Messages end on the next tick, as if spoken instantly
+   */
+  speak(utterance: UtteranceRequest, onEnd: () => void) {
+    this.spoken.push(utterance.text)
+    const turn = ++this.speechTurn
+    setTimeout(() => {
+      if (turn === this.speechTurn) onEnd()
+    }, 0)
+  }
+
+  cancelSpeech() {
+    this.speechTurn++
+  }
+
+  getVoices(): SpeechVoice[] {
+    return [{ id: 'scripted', name: 'Scripted voice', lang: 'en-US', onDevice: true }]
+  }
+
+  /**
+   * Give the next answer on the next tick, so the wallet is done starting to listen
+   */
+  private answerNext() {
+    const listener = this.listener
+    if (!listener || this.answers.length === 0) return
+    const answer = this.answers.shift() as ScriptedAnswer
+    const turn = this.recognitionTurn
+    this.listener = null
+
+    setTimeout(() => {
+      if (turn !== this.recognitionTurn) return
+      if (typeof answer === 'object' && 'error' in answer) {
+        listener.onError(answer.error)
+      } else {
+        listener.onSpeechStart()
+        listener.onResult(typeof answer === 'string' ? [{ transcript: answer, confidence: 1 }] : answer)
+      }
+      listener.onEnd()
+    }, 0)
+  }
+}
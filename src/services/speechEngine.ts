@@ -0,0 +1,63 @@
+/**
+ * Echo Wallet - Speech engines
+ * What voiceService needs from a speech backend: recognize one utterance, speak one
+ * message and list the voices it can speak with. voiceService keeps the queueing,
+ * ranking and clarification on top, so every engine behaves the same to the user.
+ */
+
+import { RecognitionAlternative } from '@/types'
+
+// Words a recognizer with a grammar listens for: wallet commands and answers, or recovery words
+export type SpeechGrammarKind = 'commands' | 'dictation'
+
+export interface SpeechVoice {
+  id: string
+  name: string
+  lang: string
+  // Synthesized on the device rather than by a speech service
+  onDevice: boolean
+}
+
+export interface RecognitionRequest {
+  language: string
+  maxAlternatives: number
+  // Engines without a grammar ignore it
+  grammar: SpeechGrammarKind
+}
+
+export interface RecognitionHandlers {
+  // Readings as heard, before optimization, in the engine's order
+  onResult: (alternatives: RecognitionAlternative[]) => void
+  // Web Speech API error codes: 'no-speech', 'audio-capture', 'not-allowed', 'aborted', ...
+  onError: (code: string) => void
+  // The user started talking
+  onSpeechStart: () => void
+  onEnd: () => void
+}
+
+export interface UtteranceRequest {
+  text: string
+  language: string
+  // One of getVoices(); the engine's default voice when omitted
+  voiceId?: string
+  rate: number
+  pitch: number
+  volume: number
+}
+
+export interface SpeechEngine {
+  readonly id: string
+  // Shown in settings
+  readonly label: string
+  // Neither audio nor text is sent to a speech service
+  readonly onDevice: boolean
+  canRecognize(): boolean
+  canSpeak(): boolean
+  // Listen for one utterance. Throws when the recognizer cannot start.
+  startRecognition(request: RecognitionRequest, handlers: RecognitionHandlers): void
+  stopRecognition(): void
+  // onEnd is called once the message has been spoken or has failed, but not after cancelSpeech()
+  speak(utterance: UtteranceRequest, onEnd: () => void): void
+  cancelSpeech(): void
+  getVoices(): SpeechVoice[]
+}
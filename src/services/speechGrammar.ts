@@ -0,0 +1,124 @@
+/**
+ * Echo Wallet - Speech grammar
+ * Words an on-device recognizer listens for. A small model is only accurate with a
+ * small vocabulary: the words of wallet commands and answers plus the names the wallet
+ * knows (contacts, wallets, accounts, networks and tokens), or the BIP-39 word list
+ * while a recovery phrase is dictated.
+ */
+
+import { WALLET_CONFIG } from '@/config'
+import { useWalletStore } from '@/store'
+import { contactsService } from './contactsService'
+import { MnemonicRecognizer } from './mnemonicRecognizer'
+import { SpeechGrammarKind } from './speechEngine'
+
+// Command verbs, answers and the filler words around them, as the intent grammar and the dialogs expect them
+const COMMAND_WORDS = `
+  create make new generate import restore recover passkey recovery phrase seed words
+  wallet wallets account accounts add called named rename as remove delete forget switch use change
+  check balance balances what is was are my how much do did does have has i me you it this that these those
+  show list read tell say the a an of to from for with and or in on at by over
+  address contacts contact friends frequent network testnet mainnet
+  lock unlock set passphrase password
+  transfer send sending pay give money funds everything all half quarter tenth percent share
+  transaction transactions transfers payment payments history status track
+  last latest recent previous past speed up accelerate faster stuck cancel exit
+  go back step repeat again more next done stop
+  yes yeah yep no nope ok okay confirm correct right wrong sure
+  fast fastest slow slower slowest cheap cheaper cheapest normal standard fee fees gas
+  receive received get got gotten sent spent paid incoming outgoing came
+  today yesterday week month year days
+  first second other former latter one
+  please thanks thank hey can could would like want need let let's don't do not never
+  point dot eth ether ethereum usd coin tether matic
+  zero oh two three four five six seven eight nine ten eleven twelve thirteen fourteen fifteen
+  sixteen seventeen eighteen nineteen twenty thirty forty fifty sixty seventy eighty ninety
+  hundred thousand million
+`
+
+// Dictation keeps its own way out and back, since "cancel" and "exit" are recovery words
+const DICTATION_WORDS = 'stop import go back previous step and then comma period um uh'
+
+// Spelling: recovery words, names, and token symbols said letter by letter ("u s d c")
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz'.split('')
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70,
+  eighty: 80, ninety: 90
+}
+const SCALES: Record<string, number> = { thousand: 1000, million: 1000000 }
+
+export class SpeechGrammar {
+  /**
+   * Words to listen for, lower case and without duplicates
+   */
+  static vocabulary(kind: SpeechGrammarKind): string[] {
+    const words = kind === 'dictation'
+      ? [...MnemonicRecognizer.getWords(), ...DICTATION_WORDS.split(' '), ...LETTERS]
+      : [...COMMAND_WORDS.split(/\s+/), ...LETTERS, ...this.knownNames()]
+
+    return Array.from(new Set(words.filter(Boolean)))
+  }
+
+  /**
+   * Write spoken numbers as digits, as browser recognizers do: "twenty five" → "25",
+   * "two hundred" → "200". Other words are left as they are.
+   */
+  static writeNumbers(text: string): string {
+    const output: string[] = []
+    let total = 0
+    let current = 0
+    let inNumber = false
+
+    const flush = () => {
+      if (inNumber) output.push(String(total + current))
+      total = 0
+      current = 0
+      inNumber = false
+    }
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      if (word in SMALL_NUMBERS) {
+        const value = SMALL_NUMBERS[word]
+        const tens = current % 100
+        // "one two" and "zero one" are two numbers; "twenty five" and "two hundred one" are one
+        const joins = tens === 0 ? current > 0 || total > 0 : tens >= 20 && tens % 10 === 0 && value < 10
+        if (inNumber && !joins) flush()
+        current += value
+        inNumber = true
+      } else if (word === 'hundred' && inNumber) {
+        current = (current || 1) * 100
+      } else if (word in SCALES && inNumber) {
+        total += (current || 1) * SCALES[word]
+        current = 0
+      } else {
+        flush()
+        output.push(word)
+      }
+    }
+    flush()
+
+    return output.join(' ')
+  }
+
+  /**
+   * Words of the contacts, wallets, accounts, networks and tokens the user may name
+   */
+  private static knownNames(): string[] {
+    const { wallets, accounts } = useWalletStore.getState()
+    const names = [
+      ...contactsService.getContacts().flatMap((contact) => [contact.name, contact.nickname ?? '']),
+      ...wallets.map((wallet) => wallet.name),
+      ...accounts.map((account) => account.label ?? ''),
+      ...Object.values(WALLET_CONFIG.NETWORKS).flatMap((chain) => [
+        ...chain.spokenNames,
+        chain.nativeCurrency.symbol,
+        ...chain.tokens.map((token) => token.symbol)
+      ])
+    ]
+
+    return names.flatMap((name) => name.toLowerCase().split(/[^a-z0-9']+/))
+  }
+}
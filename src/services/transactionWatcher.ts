@@ -0,0 +1,116 @@
+/**
+ * Echo Wallet - Transaction watcher
+ * Polls every pending transaction of the current chain until it is mined, replaced or
+ * dropped, records the outcome in the store and tells the user.
+ */
+
+import { Transaction, TransactionOutcome } from '@/types'
+import { WALLET_CONFIG } from '@/config'
+import { useWalletStore } from '@/store'
+import { walletService } from './walletService'
+import { voiceService } from './voiceService'
+import { contactsService } from './contactsService'
+import { ensService } from './ensService'
+import { NetworkUnavailableError } from './rpcPool'
+
+class TransactionWatcher {
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private started = false
+
+  /**
+   * Watch from now on: new pending transactions and network switches restart polling
+   */
+  start() {
+    if (this.started) return
+    this.started = true
+
+    useWalletStore.subscribe((state, previous) => {
+      if (state.transactions !== previous.transactions || state.network !== previous.network) {
+        this.schedule()
+      }
+    })
+    this.schedule()
+  }
+
+  /**
+   * Spoken description, e.g. "transfer of 0.1 ETH to Alice"
+   */
+  describe(transaction: Transaction): string {
+    const recipient = contactsService.findContactByAddress(transaction.to)?.name ?? walletService.formatAddressForSpeech(transaction.to)
+    const symbol = transaction.tokenSymbol ?? walletService.getNativeCurrency().symbol
+    return `transfer of ${transaction.value} ${symbol} to ${recipient}`
+  }
+
+  private getPendingTransactions(): Transaction[] {
+    const { chainId } = walletService.getCurrentNetwork()
+    return useWalletStore.getState().transactions.filter((tx) => tx.status === 'pending' && tx.chainId === chainId)
+  }
+
+  private schedule() {
+    if (this.timer || this.getPendingTransactions().length === 0) return
+    this.timer = setTimeout(() => this.poll(), WALLET_CONFIG.TRANSACTION_WATCHER.POLL_INTERVAL)
+  }
+
+  private async poll() {
+    for (const transaction of this.getPendingTransactions()) {
+      try {
+        const outcome = await walletService.checkTransaction(transaction)
+        if (outcome) await this.settle(transaction, outcome)
+      } catch (error) {
+        // Unreachable network: every other check would fail the same way until the next round
+        if (error instanceof NetworkUnavailableError) break
+        console.warn(`⚠️ Could not check transaction ${transaction.hash}:`, error)
+      }
+    }
+
+    this.timer = null
+    this.schedule()
+  }
+
+  /**
+   * Record the outcome and announce it. A replacement that lost to its original hands the
+   * announcement to the original, which was mined instead.
+   */
+  private async settle(transaction: Transaction, outcome: TransactionOutcome) {
+    const { transactions, updateTransaction } = useWalletStore.getState()
+    console.log(`🔔 Transaction ${transaction.hash} ${outcome.status}`)
+
+    updateTransaction(transaction.hash, {
+      status: outcome.status,
+      transactionHash: outcome.transactionHash,
+      blockNumber: outcome.blockNumber,
+      gasUsed: outcome.gasUsed,
+      failureReason: outcome.reason
+    })
+
+    const original = transaction.replaces ? transactions.find((tx) => tx.hash === transaction.replaces) : undefined
+
+    if (original && outcome.status === 'replaced') {
+      const originalOutcome = await walletService.checkTransaction(original).catch(() => null)
+      if (originalOutcome?.status === 'confirmed' || originalOutcome?.status === 'failed') {
+        await this.settle({ ...original, replaces: undefined }, originalOutcome)
+        return
+      }
+    }
+
+    // Recipients without a contact are named by their primary ENS names
+    await ensService.lookupAddresses([(original ?? transaction).to])
+    const transfer = this.describe(original ?? transaction)
+    switch (outcome.status) {
+      case 'confirmed':
+        voiceService.speakTemplate(transaction.replacement === 'cancel' ? 'TRANSACTION_CANCELLED' : 'TRANSACTION_CONFIRMED', { transfer })
+        break
+      case 'failed':
+        voiceService.speakTemplate('TRANSACTION_FAILED', { transfer, reason: outcome.reason ?? 'the transaction was reverted' })
+        break
+      case 'replaced':
+        voiceService.speakTemplate('TRANSACTION_REPLACED', { transfer })
+        break
+      case 'dropped':
+        voiceService.speakTemplate('TRANSACTION_DROPPED', { transfer })
+        break
+    }
+  }
+}
+
+export const transactionWatcher = new TransactionWatcher()
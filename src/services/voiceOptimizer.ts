@@ -3,6 +3,33 @@
  * Normalizes English speech transcripts for numbers, tokens, and common phrases.
  */
 
+import { FeeTier } from '@/types'
+import { WALLET_CONFIG } from '@/config'
+
+// Lower-case symbols of every native currency and token the wallet can send
+const SUPPORTED_TOKEN_SYMBOLS = Array.from(
+  new Set([
+    'eth',
+    ...Object.values(WALLET_CONFIG.NETWORKS).flatMap((chain) => [
+      chain.nativeCurrency.symbol.toLowerCase(),
+      ...chain.tokens.map((token) => token.symbol.toLowerCase())
+    ])
+  ])
+)
+
+const TOKEN_PATTERN = `(${SUPPORTED_TOKEN_SYMBOLS.join('|')})`
+
+// Decimal amount, or a share of the balance such as "50%" after normalizeBalanceShare
+const AMOUNT_PATTERN = '([0-9.]+%?)'
+
+// Where a share of the balance is the amount: right after the transfer verb, or opening an
+// answer to "how much", and followed by the recipient, a token or nothing ("send 1 eth to max" keeps max)
+const SHARE_START = '(^|\\b(?:transfer|send|pay|give)\\s+)'
+const SHARE_END = `(?=\\s+to\\b|\\s+(?:${SUPPORTED_TOKEN_SYMBOLS.join('|')})\\b|\\s*$)`
+
+// ENS name after normalizeEnsNames, e.g. "vitalik.eth" or "pay.alice.eth"
+const ENS_PATTERN = '((?:[a-z0-9-]+\\.)+eth)\\b'
+
 export class VoiceRecognitionOptimizer {
   private static readonly NUMBER_WORD_MAP: Record<string, string> = {
     zero: '0',
@@ -36,7 +63,14 @@ export class VoiceRecognitionOptimizer {
     'e-th': 'eth',
     'e t': 'eth',
     'ee th': 'eth',
-    'eth token': 'eth'
+    'eth token': 'eth',
+    'u s d c': 'usdc',
+    'usd coin': 'usdc',
+    'usd c': 'usdc',
+    'u s d t': 'usdt',
+    'usd t': 'usdt',
+    tether: 'usdt',
+    matic: 'pol'
   }
 
   private static readonly COMMON_REPLACEMENTS: Array<{ pattern: RegExp; value: string }> = [
@@ -57,6 +91,7 @@ export class VoiceRecognitionOptimizer {
 
     let optimized = text.trim().toLowerCase()
 
+    optimized = this.normalizeEnsNames(optimized)
     optimized = this.normalizeNumbers(optimized)
     optimized = this.normalizeTokens(optimized)
     optimized = this.fixCommonMisrecognitions(optimized)
@@ -100,6 +135,16 @@ export class VoiceRecognitionOptimizer {
     return result.replace(/\s{2,}/g, ' ').trim()
   }
 
+  /**
+   * Join spoken ENS names: "vitalik dot eth" → "vitalik.eth". Runs before numbers, which
+   * would read a "dot" followed by a space as a decimal point.
+   */
+  private static normalizeEnsNames(text: string): string {
+    return text.replace(/\b[a-z0-9-]+(?:\s*(?:\bdot\b|\.)\s*[a-z0-9-]+)*\s*(?:\bdot\b|\.)\s*eth\b/g, (name) =>
+      name.replace(/\s*(?:\bdot\b|\.)\s*/g, '.')
+    )
+  }
+
   /**
    * Normalize token names to their canonical values.
    */
@@ -133,62 +178,97 @@ export class VoiceRecognitionOptimizer {
   static parseTransferCommand(optimizedText: string) {
     if (!optimizedText) return null
 
-    const text = optimizedText.trim()
+    const text = this.normalizeBalanceShare(optimizedText.trim())
+
+    // Before contacts: the contact patterns would take "vitalik" from "vitalik.eth"
+    const ensPatterns: Array<{
+      pattern: RegExp
+      extract: (match: RegExpMatchArray) => { amount: string; ensName: string; token?: string }
+    }> = [
+      {
+        pattern: new RegExp(`\\b(?:transfer|send|pay)\\s*${AMOUNT_PATTERN}\\s*${TOKEN_PATTERN}?\\s*to\\s*${ENS_PATTERN}`, 'i'),
+        extract: (match) => ({ amount: match[1], token: match[2], ensName: match[3] })
+      },
+      {
+        pattern: new RegExp(`\\b(?:transfer|send)\\s*to\\s*${ENS_PATTERN}\\s*${AMOUNT_PATTERN}\\s*${TOKEN_PATTERN}?`, 'i'),
+        extract: (match) => ({ ensName: match[1], amount: match[2], token: match[3] })
+      },
+      {
+        pattern: new RegExp(`\\b(?:give|pay)\\s*${ENS_PATTERN}\\s*${AMOUNT_PATTERN}\\s*${TOKEN_PATTERN}?`, 'i'),
+        extract: (match) => ({ ensName: match[1], amount: match[2], token: match[3] })
+      }
+    ]
 
     const contactPatterns: Array<{
       pattern: RegExp
-      extract: (match: RegExpMatchArray) => { amount: string; contactName: string }
+      extract: (match: RegExpMatchArray) => { amount: string; contactName: string; token?: string }
     }> = [
       {
-        pattern: /\b(?:transfer|send)\s*([0-9.]+)\s*(?:eth|ether|ethereum)?\s*to\s*([a-z][a-z\s]+)/i,
-        extract: (match) => ({ amount: match[1], contactName: match[2] })
+        pattern: new RegExp(`\\b(?:transfer|send)\\s*${AMOUNT_PATTERN}\\s*${TOKEN_PATTERN}?\\s*to\\s*([a-z][a-z\\s]+)`, 'i'),
+        extract: (match) => ({ amount: match[1], token: match[2], contactName: match[3] })
       },
       {
-        pattern: /\b(?:transfer|send)\s*to\s*([a-z][a-z\s]+)\s*([0-9.]+)\s*(?:eth|ether|ethereum)?/i,
-        extract: (match) => ({ contactName: match[1], amount: match[2] })
+        pattern: new RegExp(`\\b(?:transfer|send)\\s*to\\s*([a-z][a-z\\s]+)\\s*${AMOUNT_PATTERN}\\s*${TOKEN_PATTERN}?`, 'i'),
+        extract: (match) => ({ contactName: match[1], amount: match[2], token: match[3] })
       },
       {
-        pattern: /\b(?:give|pay)\s*([a-z][a-z\s]+)\s*([0-9.]+)\s*(?:eth|ether|ethereum)?/i,
-        extract: (match) => ({ contactName: match[1], amount: match[2] })
+        pattern: new RegExp(`\\b(?:give|pay)\\s*([a-z][a-z\\s]+)\\s*${AMOUNT_PATTERN}\\s*${TOKEN_PATTERN}?`, 'i'),
+        extract: (match) => ({ contactName: match[1], amount: match[2], token: match[3] })
       }
     ]
 
     const addressPatterns: Array<{
       pattern: RegExp
-      extract: (match: RegExpMatchArray) => { amount: string; address: string }
+      extract: (match: RegExpMatchArray) => { amount: string; address: string; token?: string }
     }> = [
       {
-        pattern: /\b(?:transfer|send)\s*([0-9.]+)\s*(?:eth|ether|ethereum)?\s*to\s*(0x[a-f0-9]{6,})/i,
-        extract: (match) => ({ amount: match[1], address: match[2] })
+        pattern: new RegExp(`\\b(?:transfer|send)\\s*${AMOUNT_PATTERN}\\s*${TOKEN_PATTERN}?\\s*to\\s*(0x[a-f0-9]{6,})`, 'i'),
+        extract: (match) => ({ amount: match[1], token: match[2], address: match[3] })
       },
       {
-        pattern: /\b(?:transfer|send)\s*to\s*(0x[a-f0-9]{6,})\s*([0-9.]+)\s*(?:eth|ether|ethereum)?/i,
-        extract: (match) => ({ address: match[1], amount: match[2] })
+        pattern: new RegExp(`\\b(?:transfer|send)\\s*to\\s*(0x[a-f0-9]{6,})\\s*${AMOUNT_PATTERN}\\s*${TOKEN_PATTERN}?`, 'i'),
+        extract: (match) => ({ address: match[1], amount: match[2], token: match[3] })
       }
     ]
 
-    const quickPatterns: Array<{ pattern: RegExp; extract: (match: RegExpMatchArray) => string }> = [
+    const quickPatterns: Array<{ pattern: RegExp; extract: (match: RegExpMatchArray) => { amount: string; token?: string } }> = [
       {
-        pattern: /\bquick\s*(?:transfer|send)\s*([0-9.]+)/i,
-        extract: (match) => match[1]
+        pattern: new RegExp(`\\bquick\\s*(?:transfer|send)\\s*${AMOUNT_PATTERN}\\s*${TOKEN_PATTERN}?`, 'i'),
+        extract: (match) => ({ amount: match[1], token: match[2] })
       },
       {
-        pattern: /\b(?:transfer|send)\s*([0-9.]+)$/i,
-        extract: (match) => match[1]
+        pattern: new RegExp(`\\b(?:transfer|send)\\s*${AMOUNT_PATTERN}\\s*${TOKEN_PATTERN}?$`, 'i'),
+        extract: (match) => ({ amount: match[1], token: match[2] })
       }
     ]
 
+    for (const { pattern, extract } of ensPatterns) {
+      const match = text.match(pattern)
+      if (match) {
+        const { amount, ensName, token = 'eth' } = extract(match)
+
+        console.log(`✅ Parsed ENS transfer → name=${ensName}, amount=${amount} ${token.toUpperCase()}`)
+
+        return {
+          type: 'ens',
+          amount,
+          token: token.toLowerCase(),
+          ensName: ensName.toLowerCase()
+        }
+      }
+    }
+
     for (const { pattern, extract } of contactPatterns) {
       const match = text.match(pattern)
       if (match) {
-        const { amount, contactName } = extract(match)
+        const { amount, contactName, token = 'eth' } = extract(match)
 
-        console.log(`✅ Parsed contact transfer → recipient=${contactName}, amount=${amount} ETH`)
+        console.log(`✅ Parsed contact transfer → recipient=${contactName}, amount=${amount} ${token.toUpperCase()}`)
 
         return {
           type: 'contact',
           amount,
-          token: 'eth',
+          token: token.toLowerCase(),
           contactName: contactName.trim()
         }
       }
@@ -197,14 +277,14 @@ export class VoiceRecognitionOptimizer {
     for (const { pattern, extract } of addressPatterns) {
       const match = text.match(pattern)
       if (match) {
-        const { amount, address } = extract(match)
+        const { amount, address, token = 'eth' } = extract(match)
 
-        console.log(`✅ Parsed address transfer → address=${address}, amount=${amount} ETH`)
+        console.log(`✅ Parsed address transfer → address=${address}, amount=${amount} ${token.toUpperCase()}`)
 
         return {
           type: 'address',
           amount,
-          token: 'eth',
+          token: token.toLowerCase(),
           to: address.trim()
         }
       }
@@ -213,13 +293,13 @@ export class VoiceRecognitionOptimizer {
     for (const { pattern, extract } of quickPatterns) {
       const match = text.match(pattern)
       if (match) {
-        const amount = extract(match)
-        console.log(`✅ Parsed quick transfer → amount=${amount} ETH`)
+        const { amount, token = 'eth' } = extract(match)
+        console.log(`✅ Parsed quick transfer → amount=${amount} ${token.toUpperCase()}`)
 
         return {
           type: 'quick',
           amount,
-          token: 'eth'
+          token: token.toLowerCase()
         }
       }
     }
@@ -228,6 +308,73 @@ export class VoiceRecognitionOptimizer {
     return null
   }
 
+  /**
+   * Turn spoken shares of the balance into percentages: "everything" and "all my usdc"
+   * → "100%" and "100% usdc", "half my balance" → "50%", "20 percent" → "20%". Only in
+   * the amount position; "all" means something else in other commands, and "max" may be
+   * a recipient. Expects optimized text, where "half" and "quarter" are already "0.5" and "0.25".
+   */
+  static normalizeBalanceShare(optimizedText: string): string {
+    const owner = '(?:\\s+of)?(?:\\s+(?:my|the|our|it\\b))?(?:\\s+(?:balance|funds|money)\\b)?'
+    return optimizedText
+      .replace(
+        new RegExp(`${SHARE_START}(?:the\\s+)?(?:all|everything|max|maximum|(?:my\\s+)?(?:entire|whole|full)\\s+balance)\\b${owner}${SHARE_END}`, 'g'),
+        (_, start: string) => `${start}100%`
+      )
+      .replace(
+        new RegExp(`${SHARE_START}(\\d+(?:\\.\\d+)?)\\s*(?:percent|per cent|%)${owner}${SHARE_END}`, 'g'),
+        (_, start: string, percent: string) => `${start}${percent}%`
+      )
+      .replace(
+        new RegExp(`${SHARE_START}(?:a\\s+)?(0\\.\\d+)(?:\\s+of)?\\s+(?:my|the|our)\\b(?:\\s+(?:balance|funds|money)\\b)?${SHARE_END}`, 'g'),
+        (_, start: string, fraction: string) => `${start}${parseFloat((parseFloat(fraction) * 100).toFixed(4))}%`
+      )
+  }
+
+  /**
+   * Share of the balance (0 to 1) that an amount such as "50%" stands for; null for plain amounts.
+   */
+  static getBalanceShare(amount: string): number | null {
+    const match = amount.trim().match(/^(\d+(?:\.\d+)?)%$/)
+    return match ? parseFloat(match[1]) / 100 : null
+  }
+
+  /**
+   * Spoken share, e.g. "all", "half" or "20 percent"
+   */
+  static describeBalanceShare(share: number): string {
+    if (share === 1) return 'all'
+    if (share === 0.5) return 'half'
+    if (share === 0.25) return 'a quarter'
+    return `${parseFloat((share * 100).toFixed(2))} percent`
+  }
+
+  /**
+   * Find an ENS name such as "vitalik.eth" in optimized text, if any.
+   */
+  static extractEnsName(optimizedText: string): string | undefined {
+    const match = optimizedText.match(new RegExp(`\\b${ENS_PATTERN}`, 'i'))
+    return match?.[1].toLowerCase()
+  }
+
+  /**
+   * Find a supported token symbol mentioned in the text (lower-case), if any.
+   */
+  static extractToken(optimizedText: string): string | undefined {
+    const match = optimizedText.match(new RegExp(`\\b${TOKEN_PATTERN}\\b`, 'i'))
+    return match?.[1].toLowerCase()
+  }
+
+  /**
+   * Find a spoken fee speed ("send it fast", "use the cheapest fee"), if any.
+   */
+  static extractFeeTier(optimizedText: string): FeeTier | undefined {
+    if (/\b(fast|faster|fastest|quick|quickly|urgent|priority)\b/.test(optimizedText)) return 'fast'
+    if (/\b(slow|slower|slowest|cheap|cheaper|cheapest|lowest|economy)\b/.test(optimizedText)) return 'slow'
+    if (/\b(normal|standard|regular|medium|average)\b/.test(optimizedText)) return 'normal'
+    return undefined
+  }
+
   /**
    * Validate and sanitize amount strings.
    */
@@ -236,6 +383,15 @@ export class VoiceRecognitionOptimizer {
       return { isValid: false, corrected: '', message: 'Please specify the transfer amount.' }
     }
 
+    // A share of the balance is resolved against the balance before confirmation, so it has no upper limit here
+    const share = this.getBalanceShare(amount)
+    if (share !== null) {
+      if (share <= 0 || share > 1) {
+        return { isValid: false, corrected: '', message: 'You can send at most your whole balance. Please repeat the amount.' }
+      }
+      return { isValid: true, corrected: amount.trim(), message: `Transfer amount: ${this.describeBalanceShare(share)} of your balance` }
+    }
+
     let corrected = amount.replace(/[^\d.]/g, '')
 
     const num = parseFloat(corrected)
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { TTS_TEMPLATES } from '@/config'
+import { VoiceCommand } from '@/types'
+import { ScriptedSpeechEngine } from './scriptedSpeechEngine'
+import { voiceService } from './voiceService'
+
+// The scripted engine answers and finishes speaking on later ticks; let them all pass
+const settle = async () => {
+  for (let tick = 0; tick < 10; tick++) {
+    await new Promise((resolve) => setTimeout(resolve, 0))
+  }
+}
+
+describe('voiceService with a scripted engine', () => {
+  let engine: ScriptedSpeechEngine
+
+  beforeEach(() => {
+    engine = new ScriptedSpeechEngine()
+    voiceService.useEngine(engine)
+  })
+
+  describe('listening', () => {
+    it('parses what it hears into a command', async () => {
+      const onCommand = vi.fn<(command: VoiceCommand) => void>()
+      engine.say('check my balance')
+
+      voiceService.startListening(onCommand)
+      await settle()
+
+      expect(onCommand).toHaveBeenCalledOnce()
+      expect(onCommand.mock.calls[0][0]).toMatchObject({ type: 'balance' })
+      expect(engine.requests.map((request) => request.grammar)).toEqual(['commands'])
+      expect(voiceService.getState()).toMatchObject({ isListening: false, engine: 'scripted' })
+    })
+
+    it('starts the recognizer only once the app has finished speaking', async () => {
+      voiceService.speak('Please say your command.')
+      voiceService.startListening(() => {})
+      await Promise.resolve()
+      expect(engine.requests).toHaveLength(0)
+
+      await settle()
+      expect(engine.spoken).toEqual(['Please say your command.'])
+      expect(engine.requests).toHaveLength(1)
+    })
+
+    it('delivers answers optimized, or as heard while dictating', async () => {
+      const answers: string[] = []
+      engine.say('zero point five', 'abandon ability able')
+
+      voiceService.startListeningForText((text) => answers.push(text))
+      await settle()
+      voiceService.startListeningForText((text) => answers.push(text), undefined, { raw: true })
+      await settle()
+
+      expect(answers).toEqual(['0.5', 'abandon ability able'])
+      expect(engine.requests.map((request) => request.grammar)).toEqual(['commands', 'dictation'])
+    })
+
+    it('says when it did not catch speech, then lets the listener ask again', async () => {
+      const onError = vi.fn<(error: string) => void>()
+      engine.say([{ transcript: 'mumble', confidence: 0.2 }])
+
+      voiceService.startListening(() => {}, onError)
+      await settle()
+
+      expect(engine.spoken).toEqual([TTS_TEMPLATES.SPEECH_NOT_CAUGHT])
+      expect(onError).toHaveBeenCalledOnce()
+      expect(voiceService.isRetryableError(onError.mock.calls[0][0])).toBe(true)
+    })
+
+    it('stays quiet when nothing was said', async () => {
+      const onError = vi.fn<(error: string) => void>()
+      engine.say({ error: 'no-speech' })
+
+      voiceService.startListening(() => {}, onError)
+      await settle()
+
+      expect(engine.spoken).toEqual([])
+      expect(voiceService.isRetryableError(onError.mock.calls[0][0])).toBe(true)
+    })
+
+    it('drops an answer to a recognition that was stopped', async () => {
+      const onCommand = vi.fn<(command: VoiceCommand) => void>()
+      voiceService.startListening(onCommand)
+      await settle()
+
+      engine.say('check my balance')
+      voiceService.stopListening()
+      await settle()
+
+      expect(onCommand).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('speaking', () => {
+    it('says messages one after another', async () => {
+      const first = voiceService.speak('One.')
+      voiceService.speak('Two.')
+      await first
+      await settle()
+
+      expect(engine.spoken).toEqual(['One.', 'Two.'])
+      expect(voiceService.isSpeaking()).toBe(false)
+    })
+
+    it('puts urgent messages first and says the message they cut off again', async () => {
+      voiceService.speak('Your balance is 1 ETH.')
+      voiceService.speak('Anything else?')
+      voiceService.speak('Your wallet has been locked.', { priority: 'urgent' })
+      await settle()
+
+      expect(engine.spoken).toEqual(['Your balance is 1 ETH.', 'Your wallet has been locked.', 'Your balance is 1 ETH.', 'Anything else?'])
+    })
+
+    it('skips chatter once there is something newer to say', async () => {
+      voiceService.speak('Checking.')
+      voiceService.speak('Processing your request...', { priority: 'chatter' })
+      voiceService.speak('Done.')
+      await settle()
+
+      expect(engine.spoken).toEqual(['Checking.', 'Done.'])
+    })
+
+    it('stops everything at once when the voice key interrupts', async () => {
+      const first = voiceService.speak('One.')
+      const second = voiceService.speak('Two.')
+      voiceService.interrupt()
+
+      // Both count as done, so nobody waiting on them hangs
+      await Promise.all([first, second])
+      await settle()
+      expect(engine.spoken).toEqual(['One.'])
+      expect(voiceService.isSpeaking()).toBe(false)
+    })
+
+    it('stops an announcement that started while listening when the user talks', async () => {
+      voiceService.startListening(() => {})
+      await settle()
+
+      engine.say('check my balance')
+      voiceService.speak('You received 5 USDC.')
+      voiceService.speak('From Alice.')
+      await settle()
+
+      expect(engine.spoken).toEqual(['You received 5 USDC.'])
+    })
+  })
+})
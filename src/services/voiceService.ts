@@ -1,152 +1,209 @@
 /**
  * Echo Wallet - Voice Recognition Service (refactored)
  * Handles speech input and speech output with additional optimization.
+ * Speech output is queued by priority, and the recognizer starts only once the app
+ * has stopped speaking, so it never hears the app itself. Barge-in is therefore the
+ * voice key: talking over a question does not stop it. Only a message that starts while
+ * the recognizer is already running (a payment announcement) stops when the user talks.
+ * Recognition and synthesis go through the speech engine selected in settings.
  */
 
-import { VoiceCommand } from '@/types'
-import { TTS_TEMPLATES, WALLET_CONFIG } from '@/config'
+import { RecognitionAlternative, SpeechEngineId, SpeechPriority, VoiceCommand } from '@/types'
+import { SPEECH_ENGINE_IDS, TTS_TEMPLATES, WALLET_CONFIG } from '@/config'
+import { useWalletStore } from '@/store'
 import { VoiceRecognitionOptimizer } from './voiceOptimizer'
+import { RecognitionRanker, RankedReading } from './recognitionRanker'
+import { SpeechEngine } from './speechEngine'
+import { webSpeechEngine } from './webSpeechEngine'
+import { localSpeechEngine } from './localSpeechEngine'
+
+// Engines offered in settings
+const SPEECH_ENGINES: Record<SpeechEngineId, SpeechEngine> = {
+  'web-speech': webSpeechEngine,
+  local: localSpeechEngine
+}
+
+// Passed to error callbacks when speech was heard but not understood; the user was already told
+const NOT_CAUGHT_ERROR = 'Speech not caught'
+
+// A "did you mean … or …" question waiting for its answer
+interface Clarification {
+  labels: [string, string]
+  choose: (index: 0 | 1) => void
+}
 
-// Speech recognition type declarations
-interface SpeechRecognitionEvent {
-  results: SpeechRecognitionResultList
-  resultIndex: number
+export interface SpeakOptions {
+  rate?: number
+  pitch?: number
+  volume?: number
+  // The text is kept out of logs
+  sensitive?: boolean
+  // 'normal' when omitted
+  priority?: SpeechPriority
 }
 
-interface SpeechRecognitionErrorEvent {
-  error: string
-  message: string
+// A speech engine as offered in settings
+export interface SpeechEngineOption {
+  id: SpeechEngineId
+  label: string
+  onDevice: boolean
+  // This browser can run its recognizer
+  supported: boolean
+}
+
+// A message waiting to be spoken, or being spoken
+interface QueuedSpeech {
+  text: string
+  options: SpeakOptions
+  priority: SpeechPriority
+  // Resolves the promise returned by speak()
+  done: () => void
 }
 
 class VoiceService {
-  private recognition: any = null
-  private synthesis: SpeechSynthesis | null = null
-  private availableVoices: SpeechSynthesisVoice[] = []
+  private engine: SpeechEngine = SPEECH_ENGINES[useWalletStore.getState().speechEngine]
   private isListening = false
   private onCommandCallback?: (command: VoiceCommand) => void
+  // Set during step-by-step flows: receives the optimized transcript instead of a parsed command
+  private onTextCallback?: (text: string) => void
+  // Set while dictating: receives the transcript as heard, skipping optimization and parsing
+  private onRawTextCallback?: (text: string) => void
   private onErrorCallback?: (error: string) => void
+  private clarification?: Clarification
+  // Bumped on every start and stop, so a start still waiting for silence, or a recognizer
+  // still reporting on an earlier attempt, can tell it is stale
+  private recognitionAttempt = 0
+  // Messages waiting their turn, and the one being spoken
+  private speechQueue: QueuedSpeech[] = []
+  private speaking: QueuedSpeech | null = null
+  // Called once nothing is left to say
+  private silenceWaiters: (() => void)[] = []
 
   constructor() {
-    this.initSpeechRecognition()
-    this.initSpeechSynthesis()
+    // The store owns the selected engine, including the choice restored after a reload
+    useWalletStore.subscribe((state, previous) => {
+      if (state.speechEngine !== previous.speechEngine) this.useEngine(SPEECH_ENGINES[state.speechEngine])
+    })
   }
 
-  private ensureSpeechRecognition() {
-    if (this.recognition) return
-    this.initSpeechRecognition()
+  /**
+   * Switch recognition and synthesis to another engine, such as a scripted one in tests.
+   * Listening and speech on the previous engine are stopped.
+   */
+  useEngine(engine: SpeechEngine) {
+    if (engine === this.engine) return
+
+    this.stopListening()
+    this.interrupt()
+    this.engine = engine
+    console.log(`🎙️ Speech engine: ${engine.label}`)
   }
 
-  private ensureSpeechSynthesis() {
-    if (this.synthesis) return
-    this.initSpeechSynthesis()
+  getEngine(): SpeechEngine {
+    return this.engine
   }
 
   /**
-   * Initialize speech recognition.
+   * Engines offered in settings, in order
    */
-  private initSpeechRecognition() {
-    if (typeof window === 'undefined') return
+  listEngines(): SpeechEngineOption[] {
+    return SPEECH_ENGINE_IDS.map((id) => {
+      const engine = SPEECH_ENGINES[id]
+      return { id, label: engine.label, onDevice: engine.onDevice, supported: engine.canRecognize() }
+    })
+  }
 
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
-    
-    if (!SpeechRecognition) {
-      console.warn('Speech recognition is not supported in this browser')
+  /**
+   * Hand a recognized utterance to whoever is listening
+   */
+  private handleResult(results: RecognitionAlternative[]) {
+    // Recovery words are matched and read back by the caller, so low confidence is not dropped.
+    // The transcript is not logged because it may hold recovery words.
+    if (this.onRawTextCallback) {
+      const transcript = results[0]?.transcript.trim()
+      if (transcript) this.onRawTextCallback(transcript)
+      else this.notCaught()
       return
     }
 
-    this.recognition = new SpeechRecognition()
-    this.recognition.lang = WALLET_CONFIG.SPEECH_CONFIG.DEFAULT_LANGUAGE
-    this.recognition.continuous = false
-    this.recognition.interimResults = false
-    this.recognition.maxAlternatives = WALLET_CONFIG.SPEECH_CONFIG.MAX_ALTERNATIVES
-
-    this.recognition.onresult = (event: SpeechRecognitionEvent) => {
-      const result = event.results[0]
-      if (result.isFinal && result[0].confidence > WALLET_CONFIG.SPEECH_CONFIG.CONFIDENCE_THRESHOLD) {
-        const rawTranscript = result[0].transcript.trim()
-        
-        // Use the optimizer to post-process the transcript
-        const optimizedTranscript = VoiceRecognitionOptimizer.optimizeText(rawTranscript)
-
-        console.log(`🎤 Raw transcript: "${rawTranscript}"`)
-        console.log(`✨ Optimized transcript: "${optimizedTranscript}"`)
-        
-        this.processVoiceInput(optimizedTranscript, result[0].confidence)
-      }
+    const [best] = results
+    if (!best || best.confidence <= WALLET_CONFIG.SPEECH_CONFIG.CONFIDENCE_THRESHOLD) {
+      console.log(`🤔 Low confidence (${(best?.confidence ?? 0).toFixed(2)}): "${best?.transcript ?? ''}"`)
+      this.notCaught()
+      return
     }
 
-    this.recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-      console.error('Speech recognition error:', event.error)
-
-      let errorMessage = 'Speech recognition failed. Please try again.'
-
-      // Provide user-friendly messages for different error types
-      switch (event.error) {
-        case 'no-speech':
-          // For no-speech errors, log only and avoid speaking an error
-          console.log('🔇 No speech detected. Waiting for the user to speak again.')
-          this.isListening = false
-          // Pass a friendly error to the callback without speaking it aloud
-          this.onErrorCallback?.('No speech detected')
-          return
-        case 'audio-capture':
-          errorMessage = 'Unable to access the microphone. Please check the connection and allow microphone access in the browser.'
-          break
-        case 'not-allowed':
-          errorMessage = 'Microphone permission denied. Please allow microphone access in your browser settings.'
-          break
-        case 'network':
-          errorMessage = 'Network connection issue. Please check your connection and try again.'
-          break
-        case 'aborted':
-          // User stopped the recognition manually; no error needs to be spoken
-          this.isListening = false
-          return
-        case 'bad-grammar':
-          errorMessage = 'Speech recognition encountered a grammar error. Please repeat your command clearly.'
-          break
-        case 'service-not-allowed':
-          errorMessage = 'Speech recognition service is unavailable. Please try again later.'
-          break
-        default:
-          errorMessage = `Speech recognition encountered an issue: ${event.error}. Please try again.`
-      }
+    // Every reading the recognizer offers, in its own order, post-processed by the optimizer
+    const alternatives: RecognitionAlternative[] = results.map((result) => ({
+      transcript: VoiceRecognitionOptimizer.optimizeText(result.transcript.trim()),
+      confidence: result.confidence
+    }))
+    console.log('🎤 Recognized:', alternatives.map((alternative) => `"${alternative.transcript}" (${alternative.confidence.toFixed(2)})`).join(', '))
 
-      // Speak the error message and pass it to the callback
-      this.speak(errorMessage)
-      this.onErrorCallback?.(errorMessage)
-      this.isListening = false
+    if (this.clarification) {
+      this.answerClarification(this.clarification, alternatives)
+      return
     }
 
-    this.recognition.onend = () => {
-      this.isListening = false
+    if (this.onTextCallback) {
+      this.processTextInput(alternatives, this.onTextCallback)
+      return
     }
-  }
 
-  /**
-   * Initialize speech synthesis.
-   */
-  private initSpeechSynthesis() {
-    if (typeof window === 'undefined') return
-    this.synthesis = window.speechSynthesis
+    this.processVoiceInput(alternatives)
+  }
 
-    const populateVoices = () => {
-      if (!this.synthesis) return
-      this.availableVoices = this.synthesis.getVoices()
+  private handleError(error: string) {
+    console.error('Speech recognition error:', error)
+    this.clarification = undefined
+
+    let errorMessage = 'Speech recognition failed. Please try again.'
+
+    // Provide user-friendly messages for different error types
+    switch (error) {
+      case 'no-speech':
+        // For no-speech errors, log only and avoid speaking an error
+        console.log('🔇 No speech detected. Waiting for the user to speak again.')
+        this.isListening = false
+        // Pass a friendly error to the callback without speaking it aloud
+        this.onErrorCallback?.('No speech detected')
+        return
+      case 'audio-capture':
+        errorMessage = 'Unable to access the microphone. Please check the connection and allow microphone access in the browser.'
+        break
+      case 'not-allowed':
+        errorMessage = 'Microphone permission denied. Please allow microphone access in your browser settings.'
+        break
+      case 'network':
+        errorMessage = 'Network connection issue. Please check your connection and try again.'
+        break
+      case 'aborted':
+        // User stopped the recognition manually; no error needs to be spoken
+        this.isListening = false
+        return
+      case 'bad-grammar':
+        errorMessage = 'Speech recognition encountered a grammar error. Please repeat your command clearly.'
+        break
+      case 'service-not-allowed':
+        errorMessage = this.engine.onDevice
+          ? 'The on-device speech model could not be loaded. Please check the speech settings.'
+          : 'Speech recognition service is unavailable. Please try again later.'
+        break
+      default:
+        errorMessage = `Speech recognition encountered an issue: ${error}. Please try again.`
     }
 
-    populateVoices()
-    if (this.synthesis) {
-      this.synthesis.addEventListener('voiceschanged', populateVoices)
-    }
+    // Speak the error message and pass it to the callback
+    this.speak(errorMessage)
+    this.onErrorCallback?.(errorMessage)
+    this.isListening = false
   }
 
   /**
    * Start listening for voice input.
    */
   startListening(onCommand: (command: VoiceCommand) => void, onError?: (error: string) => void) {
-    this.ensureSpeechRecognition()
-    if (!this.recognition) {
+    if (!this.engine.canRecognize()) {
       onError?.('Speech recognition is not available')
       return
     }
@@ -156,24 +213,19 @@ class VoiceService {
     }
 
     this.onCommandCallback = onCommand
+    this.onTextCallback = undefined
+    this.onRawTextCallback = undefined
     this.onErrorCallback = onError
-    this.isListening = true
-
-    try {
-      this.recognition.start()
-    } catch (error) {
-      console.error('Unable to start speech recognition:', error)
-      this.isListening = false
-      onError?.('Unable to start speech recognition')
-    }
+    this.clarification = undefined
+    this.startRecognition(onError)
   }
 
   /**
    * Start listening for raw text (used during step-by-step flows).
+   * With `raw`, the transcript is delivered exactly as recognized.
    */
-  startListeningForText(onText: (text: string) => void, onError?: (error: string) => void) {
-    this.ensureSpeechRecognition()
-    if (!this.recognition) {
+  startListeningForText(onText: (text: string) => void, onError?: (error: string) => void, options?: { raw?: boolean }) {
+    if (!this.engine.canRecognize()) {
       onError?.('Speech recognition is not available')
       return
     }
@@ -182,269 +234,296 @@ class VoiceService {
       this.stopListening()
     }
 
-    // Use a temporary callback that passes the raw transcript without parsing
-    this.onCommandCallback = (command) => {
-      // Pass the command text when available; otherwise fall back to the command type
-      const text = typeof command.parameters?.text === 'string'
-        ? command.parameters.text
-        : command.type
-      onText(text)
-    }
+    // Deliver the transcript itself: a command parse would turn "send it fast" into "transfer"
+    this.onCommandCallback = undefined
+    this.onTextCallback = options?.raw ? undefined : onText
+    this.onRawTextCallback = options?.raw ? onText : undefined
     this.onErrorCallback = onError
+    this.clarification = undefined
+    this.startRecognition(onError)
+  }
+
+  /**
+   * Start the recognizer once nothing is left to say, so it never hears the app itself
+   */
+  private startRecognition(onError?: (error: string) => void) {
+    const attempt = ++this.recognitionAttempt
     this.isListening = true
 
-    try {
-      this.recognition.start()
-    } catch (error) {
-      console.error('Unable to start speech recognition:', error)
-      this.isListening = false
-      onError?.('Unable to start speech recognition')
-    }
+    void this.whenSilent().then(() => {
+      // Stopped or started again while waiting
+      if (attempt !== this.recognitionAttempt || !this.isListening) return
+      // Reports from a recognition that was stopped or replaced are dropped
+      const isCurrent = () => attempt === this.recognitionAttempt
+
+      try {
+        this.engine.startRecognition(
+          {
+            language: WALLET_CONFIG.SPEECH_CONFIG.DEFAULT_LANGUAGE,
+            maxAlternatives: WALLET_CONFIG.SPEECH_CONFIG.MAX_ALTERNATIVES,
+            grammar: this.onRawTextCallback ? 'dictation' : 'commands'
+          },
+          {
+            onResult: (alternatives) => {
+              if (isCurrent()) this.handleResult(alternatives)
+            },
+            onError: (error) => {
+              if (isCurrent()) this.handleError(error)
+            },
+            // An announcement that started while listening stops when the user talks
+            onSpeechStart: () => {
+              if (isCurrent()) this.interrupt()
+            },
+            onEnd: () => {
+              if (isCurrent()) this.isListening = false
+            }
+          }
+        )
+      } catch (error) {
+        console.error('Unable to start speech recognition:', error)
+        this.isListening = false
+        onError?.('Unable to start speech recognition')
+      }
+    })
+  }
+
+  /**
+   * Whether a listening error only means the user should be asked again: nothing was
+   * heard, or speech was too unclear (the user has already heard "I didn't catch that")
+   */
+  isRetryableError(error: string): boolean {
+    return error.includes('No speech detected') || error === NOT_CAUGHT_ERROR
   }
 
   /**
    * Stop listening for voice input.
    */
   stopListening() {
-    if (this.recognition && this.isListening) {
-      this.recognition.stop()
+    this.recognitionAttempt++
+    if (this.isListening) {
+      this.engine.stopRecognition()
       this.isListening = false
     }
   }
 
   /**
-   * Speak a message using speech synthesis.
+   * Queue a message for speech synthesis. Resolves once it has been spoken, dropped or
+   * cut off. Urgent messages cut off anything less urgent and go first (a normal message
+   * they cut off is said again after them); chatter gives way to anything said after it.
    */
-  speak(text: string, options?: { rate?: number; pitch?: number; volume?: number }) {
-    this.ensureSpeechSynthesis()
-    if (!this.synthesis) {
+  speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    if (!this.engine.canSpeak()) {
       console.warn('Speech synthesis is not available')
-      return
-    }
-
-    // Cancel any ongoing speech
-    this.synthesis.cancel()
-
-    const utterance = new SpeechSynthesisUtterance(text)
-    if (this.availableVoices.length === 0) {
-      this.availableVoices = this.synthesis.getVoices()
+      return Promise.resolve()
     }
 
-    if (this.availableVoices.length > 0) {
-      const preferredLanguage = WALLET_CONFIG.SPEECH_CONFIG.DEFAULT_LANGUAGE?.toLowerCase()
-      const fallbackLanguage = preferredLanguage?.split('-')?.[0]
+    const priority = options.priority ?? 'normal'
+    return new Promise((resolve) => {
+      const item: QueuedSpeech = { text, options, priority, done: resolve }
+      this.dropQueued((queued) => queued.priority === 'chatter')
+
+      if (priority === 'urgent') {
+        this.queueUrgent(item)
+        const interrupted = this.speaking
+        if (interrupted && interrupted.priority !== 'urgent') {
+          if (interrupted.priority === 'normal') {
+            this.speechQueue.splice(this.speechQueue.indexOf(item) + 1, 0, interrupted)
+          }
+          this.cutOff()
+        }
+      } else {
+        this.speechQueue.push(item)
+        if (this.speaking?.priority === 'chatter') this.cutOff()
+      }
 
-      const matchingVoice = this.availableVoices.find((voice) => {
-        const lang = voice.lang?.toLowerCase()
-        return lang === preferredLanguage || (fallbackLanguage && lang?.startsWith(`${fallbackLanguage}-`))
-      })
+      if (!this.speaking) this.speakNext()
+    })
+  }
 
-      utterance.voice = matchingVoice || this.availableVoices[0]
-    }
-    utterance.lang = WALLET_CONFIG.SPEECH_CONFIG.DEFAULT_LANGUAGE
-    utterance.rate = options?.rate || 1
-    utterance.pitch = options?.pitch || 1
-    utterance.volume = options?.volume || 1
+  /**
+   * Barge-in: stop speaking at once and drop everything waiting to be said
+   */
+  interrupt() {
+    if (!this.isSpeaking()) return
 
-    console.log(`🔊 Speaking: "${text}"`)
-    this.synthesis.speak(utterance)
+    console.log('✋ Speech interrupted')
+    this.dropQueued(() => true)
+    this.cutOff()
+    this.speakNext()
   }
 
   /**
-   * Speak using one of the predefined text-to-speech templates.
+   * Whether anything is being said or waiting to be said
    */
-  speakTemplate(template: keyof typeof TTS_TEMPLATES, variables?: Record<string, string>) {
-    let text = TTS_TEMPLATES[template]
-    
-    if (variables) {
-      Object.entries(variables).forEach(([key, value]) => {
-        text = text.replace(`{${key}}`, value)
-      })
+  isSpeaking(): boolean {
+    return this.speaking !== null || this.speechQueue.length > 0
+  }
+
+  private speakNext() {
+    const item = this.speechQueue.shift()
+    if (!item) {
+      const waiters = this.silenceWaiters
+      this.silenceWaiters = []
+      waiters.forEach((resume) => resume())
+      return
     }
 
-    this.speak(text)
+    this.speaking = item
+    console.log(item.options.sensitive ? '🔊 Speaking sensitive text' : `🔊 Speaking: "${item.text}"`)
+    this.engine.speak(
+      {
+        text: item.text,
+        language: WALLET_CONFIG.SPEECH_CONFIG.DEFAULT_LANGUAGE,
+        voiceId: this.pickVoice(),
+        rate: item.options.rate || 1,
+        pitch: item.options.pitch || 1,
+        volume: item.options.volume || 1
+      },
+      () => {
+        if (this.speaking !== item) return
+        this.speaking = null
+        item.done()
+        this.speakNext()
+      }
+    )
   }
 
   /**
-   * Handle voice input that has already been optimized.
+   * After the urgent messages already waiting, ahead of everything else
    */
-  private processVoiceInput(transcript: string, confidence: number) {
-    console.log('🎤 Processing voice input:', transcript, 'confidence:', confidence)
-
-    // If the consumer expects raw text (step-by-step flow), create a pseudo command
-    const command = this.parseCommand(transcript)
-    if (command) {
-      command.confidence = confidence
-      this.onCommandCallback?.(command)
-    } else {
-      // Fallback: deliver the transcript as a generic text command
-      const textCommand: VoiceCommand = {
-        type: 'text_input',
-        parameters: { text: transcript },
-        confidence: confidence
-      }
-      this.onCommandCallback?.(textCommand)
-    }
+  private queueUrgent(item: QueuedSpeech) {
+    const firstLessUrgent = this.speechQueue.findIndex((queued) => queued.priority !== 'urgent')
+    this.speechQueue.splice(firstLessUrgent < 0 ? this.speechQueue.length : firstLessUrgent, 0, item)
   }
 
   /**
-   * Parse optimized transcript into a high-level command.
+   * Stop the message being spoken without starting the next one. It counts as done
+   * unless it is queued again.
    */
-  private parseCommand(transcript: string): VoiceCommand | null {
-    const text = transcript.toLowerCase()
-
-    if (
-      text.includes('create wallet') ||
-      text.includes('create a wallet') ||
-      text.includes('create new wallet') ||
-      text.includes('new wallet') ||
-      text.includes('generate wallet')
-    ) {
-      return { type: 'create_wallet', confidence: 0 }
-    }
+  private cutOff() {
+    if (!this.speaking) return
 
-    if (
-      text.includes('import wallet') ||
-      text.includes('restore wallet') ||
-      text.includes('recover wallet') ||
-      text.includes('sign in wallet') ||
-      text.includes('biometric') ||
-      text.includes('fingerprint') ||
-      text.includes('face id') ||
-      text.includes('face unlock')
-    ) {
-      return { type: 'import_wallet', confidence: 0 }
-    }
-
-    if (text.includes('balance') || text.includes('check balance') || text.includes('show balance')) {
-      return { type: 'balance', confidence: 0 }
-    }
+    const item = this.speaking
+    this.speaking = null
+    this.engine.cancelSpeech()
+    if (!this.speechQueue.includes(item)) item.done()
+  }
 
-    if (
-      text.includes('contact') ||
-      text.includes('contacts') ||
-      text.includes('address book') ||
-      text.includes('show contacts') ||
-      text.includes('view contacts') ||
-      text.includes('favorite contacts')
-    ) {
-      console.log('🔍 Recognized contacts command:', transcript)
-      return {
-        type: 'contacts',
-        parameters: { text: transcript },
-        confidence: 0
-      }
-    }
+  private dropQueued(predicate: (queued: QueuedSpeech) => boolean) {
+    const dropped = this.speechQueue.filter(predicate)
+    this.speechQueue = this.speechQueue.filter((queued) => !predicate(queued))
+    dropped.forEach((queued) => queued.done())
+  }
 
-    if (
-      text.includes('read address') ||
-      text.includes('show address') ||
-      text.includes('my address') ||
-      text.includes('wallet address') ||
-      text.includes('what is my address')
-    ) {
-      return {
-        type: 'read_address',
-        parameters: { text: transcript },
-        confidence: 0
-      }
-    }
+  /**
+   * Resolves once nothing is being said or waiting to be said
+   */
+  private whenSilent(): Promise<void> {
+    if (!this.isSpeaking()) return Promise.resolve()
+    return new Promise((resolve) => this.silenceWaiters.push(resolve))
+  }
 
-    if (text.includes('transfer') || text.includes('send') || text.includes('pay')) {
-      const transferInfo = this.parseSimpleTransfer(transcript)
-
-      if (transferInfo && transferInfo.type !== 'amount_only') {
-        return {
-          type: 'transfer',
-          parameters: {
-            text: transcript,
-            ...transferInfo,
-            token: transferInfo.token || 'eth',
-            isComplete: true
-          },
-          confidence: 0
-        }
-      }
+  /**
+   * The engine's voice for the configured language, or for another region of it
+   */
+  private pickVoice(): string | undefined {
+    const voices = this.engine.getVoices()
+    const preferredLanguage = WALLET_CONFIG.SPEECH_CONFIG.DEFAULT_LANGUAGE?.toLowerCase()
+    const fallbackLanguage = preferredLanguage?.split('-')?.[0]
+
+    const matchingVoice = voices.find((voice) => {
+      const lang = voice.lang?.toLowerCase()
+      return lang === preferredLanguage || (fallbackLanguage && lang?.startsWith(`${fallbackLanguage}-`))
+    })
+    return (matchingVoice || voices[0])?.id
+  }
 
-      return {
-        type: 'transfer',
-        parameters: {
-          text: transcript,
-          ...(transferInfo?.type === 'amount_only'
-            ? { amount: transferInfo.amount, token: 'eth' }
-            : {}),
-          isComplete: false
-        },
-        confidence: 0
-      }
+  /**
+   * Speak using one of the predefined text-to-speech templates.
+   */
+  speakTemplate(template: keyof typeof TTS_TEMPLATES, variables?: Record<string, string>, options?: SpeakOptions): Promise<void> {
+    let text = TTS_TEMPLATES[template]
+    
+    if (variables) {
+      Object.entries(variables).forEach(([key, value]) => {
+        text = text.replace(`{${key}}`, value)
+      })
     }
 
-    if (text.includes('transaction status') || text.includes('check transaction') || text.includes('track transaction')) {
-      const hash = this.extractTransactionHash(text)
-      return {
-        type: 'transaction_status',
-        parameters: { hash },
-        confidence: 0
-      }
-    }
+    return this.speak(text, options)
+  }
 
-    if (text.includes('switch network') || text.includes('change network') || text.includes('mainnet') || text.includes('testnet')) {
-      return {
-        type: 'switch_network',
-        parameters: { text: transcript },
-        confidence: 0
-      }
+  /**
+   * Parse every reading into a command and deliver the best one, or ask which one was
+   * meant when two readings that mean different things are about as likely.
+   */
+  private processVoiceInput(alternatives: RecognitionAlternative[]) {
+    const readings = RecognitionRanker.rankCommands(alternatives)
+    const onCommand = this.onCommandCallback
+    const deliver = (reading: RankedReading<VoiceCommand>) => {
+      console.log('🎤 Processing voice input:', reading.transcript, 'confidence:', reading.value.confidence)
+      onCommand?.(reading.value)
     }
 
-    return null
+    const ambiguity = RecognitionRanker.findAmbiguity(readings)
+    if (ambiguity) {
+      this.askToChoose(ambiguity, deliver)
+      return
+    }
+    deliver(readings[0])
   }
 
   /**
-   * Extract a transaction hash from free-form text.
+   * Deliver the reading of a free-text answer that fits the current transfer step best
    */
-  private extractTransactionHash(text: string): string | undefined {
-    const hashPattern = /(0x[a-fA-F0-9]{64})/
-    const match = text.match(hashPattern)
-    return match?.[0]
+  private processTextInput(alternatives: RecognitionAlternative[], onText: (text: string) => void) {
+    const readings = RecognitionRanker.rankText(alternatives)
+    const ambiguity = RecognitionRanker.findAmbiguity(readings)
+    if (ambiguity) {
+      this.askToChoose(ambiguity, (reading) => onText(reading.value))
+      return
+    }
+    onText(readings[0].value)
   }
 
   /**
-   * Parse transfer-related utterances and extract useful parameters.
+   * "Did you mean Alice or Alex?", then listen for the answer
    */
-  private parseSimpleTransfer(transcript: string): any {
-    const optimizedText = VoiceRecognitionOptimizer.optimizeText(transcript)
-    console.log(`🔍 Parsing transfer command: "${optimizedText}"`)
-
-    const parsed = VoiceRecognitionOptimizer.parseTransferCommand(optimizedText)
-    if (parsed && parsed.amount) {
-      const validation = VoiceRecognitionOptimizer.validateAmount(parsed.amount)
-      if (!validation.isValid) {
-        console.log(`❌ Amount validation failed: ${validation.message}`)
-        return null
-      }
+  private askToChoose<T>(choices: [RankedReading<T>, RankedReading<T>], deliver: (reading: RankedReading<T>) => void) {
+    const labels = RecognitionRanker.describeChoices(choices[0], choices[1])
+    console.log(`❔ Ambiguous readings: "${choices[0].transcript}" (${choices[0].score.toFixed(2)}) or "${choices[1].transcript}" (${choices[1].score.toFixed(2)})`)
+
+    this.clarification = { labels, choose: (index) => deliver(choices[index]) }
+    this.speak(TTS_TEMPLATES.CLARIFY_CHOICE.replace('{first}', labels[0]).replace('{second}', labels[1]))
+    this.startRecognition((error) => {
+      this.clarification = undefined
+      this.onErrorCallback?.(error)
+    })
+  }
 
-      return {
-        ...parsed,
-        amount: validation.corrected,
-        token: parsed.token || 'eth'
-      }
+  private answerClarification(clarification: Clarification, alternatives: RecognitionAlternative[]) {
+    this.clarification = undefined
+    const index = RecognitionRanker.pickChoice(
+      alternatives.map((alternative) => alternative.transcript),
+      clarification.labels
+    )
+    if (index === null) {
+      this.notCaught()
+      return
     }
 
-    const amountMatch = optimizedText.match(/([0-9.]+)/i)
-    if (amountMatch) {
-      const validation = VoiceRecognitionOptimizer.validateAmount(amountMatch[1])
-      if (validation.isValid) {
-        console.log(`✅ Extracted amount only: ${validation.corrected} ETH`)
-        return {
-          type: 'amount_only',
-          amount: validation.corrected,
-          token: 'eth'
-        }
-      }
-    }
+    console.log(`✅ Chose "${clarification.labels[index]}"`)
+    clarification.choose(index)
+  }
 
-    console.log('❌ Failed to parse transfer command')
-    return null
+  /**
+   * Say so instead of staying silent, and let the listener ask again
+   */
+  private notCaught() {
+    this.clarification = undefined
+    // Once said, so that the listener asks again after it
+    const onError = this.onErrorCallback
+    void this.speak(TTS_TEMPLATES.SPEECH_NOT_CAUGHT).then(() => onError?.(NOT_CAUGHT_ERROR))
   }
 
   /**
@@ -453,18 +532,11 @@ class VoiceService {
   getState() {
     return {
       isListening: this.isListening,
-      isSupported: !!this.recognition && !!this.synthesis
+      isSupported: this.engine.canRecognize() && this.engine.canSpeak(),
+      engine: this.engine.id
     }
   }
 }
 
 // Singleton instance
 export const voiceService = new VoiceService()
-
-// Global type declarations
-declare global {
-  interface Window {
-    SpeechRecognition: any
-    webkitSpeechRecognition: any
-  }
-}
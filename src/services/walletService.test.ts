@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ethers } from 'ethers'
+import { Transaction, UserOperation } from '@/types'
+import { useWalletStore } from '@/store'
+import { POST } from '@/app/api/mock-paymaster/route'
+import { computeUserOpHash } from './bundlerService'
+import { MOCK_PAYMASTER_ADDRESS } from './paymasterService'
+import { walletService, SponsorshipRefusedError } from './walletService'
+
+vi.hoisted(() => {
+  // Runs before the imports, so the config reads it when it loads
+  process.env.NEXT_PUBLIC_USE_MOCK_BUNDLER = 'true'
+  process.env.NEXT_PUBLIC_USE_MOCK_PAYMASTER = 'true'
+})
+
+const owner = new ethers.Wallet(`0x${'42'.repeat(32)}`)
+const SMART_ACCOUNT = '0x5555555555555555555555555555555555555555'
+const FRIEND = '0x2222222222222222222222222222222222222222'
+const GWEI = ethers.utils.parseUnits('1', 'gwei').toHexString()
+
+const EXECUTE_INTERFACE = new ethers.utils.Interface(['function execute(address dest, uint256 value, bytes func)'])
+
+// Whether the fake node serves eth_feeHistory, and the plain transactions sent through it
+const node = vi.hoisted(() => ({ feeHistory: true, sent: [] as Record<string, unknown>[] }))
+
+vi.mock('./keyringService', () => ({
+  keyringService: {
+    // With a provider the signer sends plain transactions from the EOA
+    getSigner: (_address: string, provider?: unknown) =>
+      provider
+        ? {
+            sendTransaction: async (transaction: Record<string, unknown>) => {
+              node.sent.push(transaction)
+              return { hash: `0x${'03'.repeat(32)}`, nonce: node.sent.length - 1 }
+            }
+          }
+        : owner
+  },
+  KeyringLockedError: class extends Error {}
+}))
+
+// Every block pays a base fee of 1 gwei and tips 1 gwei at each percentile; the legacy gas price is 2 gwei
+vi.mock('./rpcPool', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./rpcPool')>()),
+  RpcPoolProvider: class {
+    async send(method: string) {
+      if (method !== 'eth_feeHistory' || !node.feeHistory) throw new Error(`the method ${method} does not exist`)
+      return { baseFeePerGas: [GWEI, GWEI], reward: [[GWEI, GWEI, GWEI]] }
+    }
+
+    async getGasPrice() {
+      return ethers.utils.parseUnits('2', 'gwei')
+    }
+  }
+}))
+
+// A deployed SimpleAccount of the owner; gas limits come from the bundler
+vi.mock('@account-abstraction/sdk', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@account-abstraction/sdk')>()),
+  SimpleAccountAPI: class {
+    constructor(private readonly params: { entryPointAddress: string; owner: ethers.Signer }) {}
+
+    async getCounterFactualAddress() {
+      return SMART_ACCOUNT
+    }
+
+    async createUnsignedUserOp(info: { target: string; value: ethers.BigNumberish; data: string; maxFeePerGas: string; maxPriorityFeePerGas: string }) {
+      return {
+        sender: SMART_ACCOUNT,
+        nonce: 0,
+        initCode: '0x',
+        callData: EXECUTE_INTERFACE.encodeFunctionData('execute', [info.target, info.value, info.data]),
+        callGasLimit: 0,
+        verificationGasLimit: 0,
+        preVerificationGas: 0,
+        maxFeePerGas: info.maxFeePerGas,
+        maxPriorityFeePerGas: info.maxPriorityFeePerGas,
+        paymasterAndData: '0x',
+        signature: '0x'
+      }
+    }
+
+    async signUserOp(userOp: UserOperation) {
+      const userOpHash = computeUserOpHash(userOp, this.params.entryPointAddress, walletService.getCurrentNetwork().chainId)
+      return { ...userOp, signature: await this.params.owner.signMessage(ethers.utils.arrayify(userOpHash)) }
+    }
+  }
+}))
+
+const network = walletService.getCurrentNetwork()
+
+const send = (requireSponsorship?: boolean) =>
+  walletService.transferETH({ to: FRIEND, amount: '0.5', requireSponsorship }, owner.address)
+
+beforeEach(() => {
+  useWalletStore.setState({
+    accounts: [{ address: owner.address, isSmartWallet: true, aaWalletAddress: SMART_ACCOUNT }]
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('walletService with the mock bundler', () => {
+  beforeEach(() => {
+    // No paymaster answers, so the account pays its own gas
+    vi.stubGlobal('fetch', async () => {
+      throw new TypeError('fetch failed')
+    })
+  })
+
+  it('sends a transfer from the smart account as a signed UserOperation', async () => {
+    const result = await walletService.transferETH({ to: FRIEND, amount: '0.5' }, owner.address)
+    const userOp = result.userOperation!
+
+    expect(result.hash).toBe(computeUserOpHash(userOp, network.entryPointAddress, network.chainId))
+    expect(result.sponsored).toBe(false)
+    expect(userOp.sender).toBe(SMART_ACCOUNT)
+    expect(EXECUTE_INTERFACE.decodeFunctionData('execute', userOp.callData).slice(0, 2)).toEqual([
+      FRIEND,
+      ethers.utils.parseEther('0.5')
+    ])
+    expect(ethers.utils.verifyMessage(ethers.utils.arrayify(result.hash), userOp.signature)).toBe(owner.address)
+  })
+
+  it('uses the bundler gas limits and the fee tier prices', async () => {
+    const result = await walletService.transferETH({ to: FRIEND, amount: '0.5', feeTier: 'fast' }, owner.address)
+    const fast = (await walletService.getFeeTiers()).fast
+
+    expect(result.userOperation).toMatchObject({
+      callGasLimit: ethers.BigNumber.from(100000).toHexString(),
+      verificationGasLimit: ethers.BigNumber.from(100000).toHexString(),
+      preVerificationGas: ethers.BigNumber.from(50000).toHexString(),
+      maxFeePerGas: ethers.BigNumber.from(fast.maxFeePerGas).toHexString(),
+      maxPriorityFeePerGas: ethers.BigNumber.from(fast.maxPriorityFeePerGas).toHexString()
+    })
+  })
+
+  it('finds the receipt of a submitted operation', async () => {
+    const { hash } = await walletService.transferETH({ to: FRIEND, amount: '0.5' }, owner.address)
+
+    await expect(walletService.getUserOperationReceipt(hash)).resolves.toMatchObject({
+      userOpHash: hash,
+      transactionHash: ethers.utils.keccak256(hash),
+      success: true
+    })
+    await expect(walletService.getUserOperationReceipt(`0x${'ee'.repeat(32)}`)).resolves.toBeNull()
+  })
+
+  it('reports a pending operation as confirmed when the watcher checks it', async () => {
+    const result = await walletService.transferETH({ to: FRIEND, amount: '0.5' }, owner.address)
+    const pending: Transaction = {
+      hash: result.hash,
+      chainId: network.chainId,
+      from: SMART_ACCOUNT,
+      to: FRIEND,
+      value: '0.5',
+      timestamp: Date.now(),
+      status: 'pending',
+      userOperation: result.userOperation
+    }
+
+    await expect(walletService.checkTransaction(pending)).resolves.toEqual({
+      status: 'confirmed',
+      transactionHash: ethers.utils.keccak256(result.hash),
+      blockNumber: undefined,
+      gasUsed: '150000',
+      reason: undefined
+    })
+  })
+})
+
+describe('walletService with the mock paymaster', () => {
+  beforeEach(() => {
+    // Requests go straight to the route handler instead of over the network
+    vi.stubGlobal('fetch', (url: string, init: RequestInit) => POST(new Request(`http://localhost${url}`, init)))
+  })
+
+  it('tells the user before confirming that the gas is covered', async () => {
+    const quote = await walletService.quoteTransfer({ to: FRIEND, amount: '0.5' }, owner.address)
+
+    expect(quote.sponsored).toBe(true)
+  })
+
+  it('submits the operation with paymasterAndData and the owner signature over it', async () => {
+    const result = await send(true)
+    const userOp = result.userOperation!
+
+    expect(result.sponsored).toBe(true)
+    expect(ethers.utils.getAddress(ethers.utils.hexDataSlice(userOp.paymasterAndData, 0, 20))).toBe(ethers.utils.getAddress(MOCK_PAYMASTER_ADDRESS))
+    expect(userOp.verificationGasLimit).toBe(ethers.BigNumber.from(150000).toHexString())
+    expect(result.hash).toBe(computeUserOpHash(userOp, network.entryPointAddress, network.chainId))
+    expect(ethers.utils.verifyMessage(ethers.utils.arrayify(result.hash), userOp.signature)).toBe(owner.address)
+    await expect(walletService.getUserOperationReceipt(result.hash)).resolves.toMatchObject({ success: true })
+  })
+})
+
+describe('walletService when the paymaster refuses', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', async () =>
+      Response.json({ jsonrpc: '2.0', id: 1, error: { code: -32500, message: 'Sponsorship policy rejected this operation' } })
+    )
+  })
+
+  it('says so before confirming', async () => {
+    const quote = await walletService.quoteTransfer({ to: FRIEND, amount: '0.5' }, owner.address)
+
+    expect(quote.sponsored).toBe(false)
+  })
+
+  it('falls back to gas paid by the account', async () => {
+    const result = await send()
+
+    expect(result.sponsored).toBe(false)
+    expect(result.userOperation?.paymasterAndData).toBe('0x')
+    await expect(walletService.getUserOperationReceipt(result.hash)).resolves.toMatchObject({ success: true })
+  })
+
+  it('sends nothing when the user was promised sponsored gas', async () => {
+    await expect(send(true)).rejects.toThrow(SponsorshipRefusedError)
+    await expect(send(true)).rejects.toMatchObject({ reason: 'Sponsorship policy rejected this operation' })
+  })
+})
+
+describe('walletService on a node without eth_feeHistory', () => {
+  const gasPrice = ethers.utils.parseUnits('2', 'gwei').toString()
+
+  beforeEach(() => {
+    node.feeHistory = false
+    node.sent = []
+    useWalletStore.setState({ accounts: [{ address: owner.address, isSmartWallet: false }] })
+  })
+
+  afterEach(() => {
+    node.feeHistory = true
+  })
+
+  it('prices every tier at the legacy gas price', async () => {
+    const tiers = Object.values(await walletService.getFeeTiers())
+
+    expect(tiers.map((tier) => [tier.gasPrice, tier.maxFeePerGas, tier.maxPriorityFeePerGas])).toEqual(
+      Array(tiers.length).fill([gasPrice, gasPrice, gasPrice])
+    )
+  })
+
+  it('sends a legacy transaction instead of an EIP-1559 one', async () => {
+    await walletService.transferETH({ to: FRIEND, amount: '0.5' }, owner.address)
+
+    expect(node.sent).toEqual([{ to: FRIEND, value: ethers.utils.parseEther('0.5'), type: 0, gasPrice }])
+  })
+})
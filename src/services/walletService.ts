@@ -4,10 +4,18 @@
  */
 
 import { ethers } from 'ethers'
-import { WalletAccount, TransferRequest, Transaction } from '@/types'
+import { BaseAccountAPI, SimpleAccountAPI } from '@account-abstraction/sdk'
+import { WalletAccount, TransferRequest, TransferQuote, TransferResult, Transaction, UserOperation, TokenBalance, NetworkId, ChainConfig, NativeCurrency, TokenInfo, FeeTier, FeeTierPrice, FeeEstimate, ReplacementKind, TransactionOutcome } from '@/types'
 import { WALLET_CONFIG } from '@/config'
+import { useWalletStore } from '@/store'
 import { webAuthnService } from './webAuthnService'
-import { BiometricAvailability } from '@/types/webauthn'
+import { keyringService, KeyringLockedError } from './keyringService'
+import { BundlerClient, HttpBundlerClient, MockBundlerClient } from './bundlerService'
+import { PaymasterClient } from './paymasterService'
+import { PasskeyAccountAPI, dummyPasskeySignature } from './passkeyAccountAPI'
+import { RpcPoolProvider, asNetworkUnavailable } from './rpcPool'
+import { ensService } from './ensService'
+import { BiometricAvailability, StoredPasskeySigner, WebAuthnErrorType } from '@/types/webauthn'
 
 // ERC20 ABI (transfer function)
 const ERC20_ABI = [
@@ -17,12 +25,82 @@ const ERC20_ABI = [
   'function symbol() view returns (string)'
 ]
 
+const ENTRY_POINT_NONCE_ABI = ['function getNonce(address sender, uint192 key) view returns (uint256)']
+
+// 65-byte ECDSA signature that recovers without reverting, for estimating SimpleAccount gas before signing
+const DUMMY_ECDSA_SIGNATURE =
+  '0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c'
+
+// UserOperation as produced by the SDK (fields may still be BigNumbers or promises)
+type UserOperationStruct = ethers.utils.Deferrable<{
+  sender: string
+  nonce: ethers.BigNumberish
+  initCode: ethers.utils.BytesLike
+  callData: ethers.utils.BytesLike
+  callGasLimit: ethers.BigNumberish
+  verificationGasLimit: ethers.BigNumberish
+  preVerificationGas: ethers.BigNumberish
+  maxFeePerGas: ethers.BigNumberish
+  maxPriorityFeePerGas: ethers.BigNumberish
+  paymasterAndData: ethers.utils.BytesLike
+  signature: ethers.utils.BytesLike
+}>
+
+// Call executed by the smart account
+interface AccountCall {
+  target: string
+  value: ethers.BigNumberish
+  data: string
+}
+
+/**
+ * Thrown when a transaction to speed up or cancel was already included (or is unknown to the network)
+ */
+export class TransactionNotPendingError extends Error {
+  constructor(readonly hash: string) {
+    super('The transaction is no longer pending')
+    this.name = 'TransactionNotPendingError'
+  }
+}
+
+/**
+ * Thrown when a smart account has to send a UserOperation but the network has no bundler
+ */
+export class BundlerUnavailableError extends Error {
+  constructor(readonly network: string) {
+    super(`No bundler is configured for ${network}, so this smart account cannot send`)
+    this.name = 'BundlerUnavailableError'
+  }
+}
+
+/**
+ * Thrown when the paymaster refuses an operation the user was told it would sponsor
+ */
+export class SponsorshipRefusedError extends Error {
+  constructor(readonly reason: string) {
+    super('Gas sponsorship was refused after all, so nothing was sent. Start the transfer again to hear the fee you would pay')
+    this.name = 'SponsorshipRefusedError'
+  }
+}
+
 class WalletService {
   private provider: ethers.providers.JsonRpcProvider | null = null
-  private currentNetwork: 'mainnet' | 'sepolia' = 'sepolia'
+  private bundler: BundlerClient | null = null
+  private paymaster: PaymasterClient | null = null
+  private currentNetwork: NetworkId = useWalletStore.getState().network
+  // Passkey owners of passkey smart accounts, keyed by lowercase account address
+  private passkeyOwners = new Map<string, StoredPasskeySigner>()
 
   constructor() {
     this.initProvider()
+
+    // The store owns the selected network, including the choice restored after a reload
+    useWalletStore.subscribe((state) => {
+      if (state.network === this.currentNetwork) return
+      this.currentNetwork = state.network
+      this.initProvider()
+      console.log(`🌐 Switched to ${this.getCurrentNetwork().name}`)
+    })
   }
 
   /**
@@ -30,7 +108,347 @@ class WalletService {
    */
   private initProvider() {
     const networkConfig = WALLET_CONFIG.NETWORKS[this.currentNetwork]
-    this.provider = new ethers.providers.JsonRpcProvider(networkConfig.rpcUrl)
+    this.provider = new RpcPoolProvider(networkConfig)
+    if (WALLET_CONFIG.ACCOUNT_ABSTRACTION.USE_MOCK_BUNDLER) {
+      this.bundler = new MockBundlerClient(networkConfig.entryPointAddress, networkConfig.chainId)
+    } else if (networkConfig.bundlerUrl) {
+      this.bundler = new HttpBundlerClient(networkConfig.bundlerUrl, networkConfig.entryPointAddress)
+    } else {
+      this.bundler = null
+      console.warn(`⚠️ No bundler configured for ${networkConfig.name}; new accounts send from their EOA`)
+    }
+    // Without a paymaster the account pays for its operations, and nobody is asked
+    const { PAYMASTER_ENABLED, USE_MOCK_PAYMASTER, MOCK_PAYMASTER_URL } = WALLET_CONFIG.ACCOUNT_ABSTRACTION
+    const paymasterUrl = USE_MOCK_PAYMASTER ? MOCK_PAYMASTER_URL : networkConfig.paymasterUrl
+    this.paymaster = PAYMASTER_ENABLED && paymasterUrl
+      ? new PaymasterClient(paymasterUrl, networkConfig.entryPointAddress)
+      : null
+  }
+
+  /**
+   * Build the account API: the passkey account for passkey wallets,
+   * otherwise the SimpleAccount for an owner key held in the keyring
+   */
+  private getAccountAPI(ownerAddress: string): BaseAccountAPI {
+    if (!this.provider) throw new Error('Provider not initialized')
+
+    const networkConfig = WALLET_CONFIG.NETWORKS[this.currentNetwork]
+    const passkeyOwner = this.passkeyOwners.get(ownerAddress.toLowerCase())
+    if (passkeyOwner) {
+      return this.getPasskeyAccountAPI(passkeyOwner)
+    }
+
+    return new SimpleAccountAPI({
+      provider: this.provider,
+      entryPointAddress: networkConfig.entryPointAddress,
+      factoryAddress: networkConfig.factoryAddress,
+      owner: keyringService.getSigner(ownerAddress)
+    })
+  }
+
+  private getPasskeyAccountAPI(owner: StoredPasskeySigner): PasskeyAccountAPI {
+    if (!this.provider) throw new Error('Provider not initialized')
+
+    const networkConfig = WALLET_CONFIG.NETWORKS[this.currentNetwork]
+    return new PasskeyAccountAPI({
+      provider: this.provider,
+      entryPointAddress: networkConfig.entryPointAddress,
+      factoryAddress: networkConfig.passkeyFactoryAddress,
+      owner
+    })
+  }
+
+  /**
+   * Compute the counterfactual smart account address (valid before deployment)
+   */
+  async getSmartAccountAddress(ownerAddress: string): Promise<string> {
+    return await this.getAccountAPI(ownerAddress).getCounterFactualAddress()
+  }
+
+  /**
+   * Attach the smart account address to an EOA-backed wallet. A key that was in use
+   * before (`existing`) keeps sending from its EOA when the EOA has been used on this
+   * network, so its funds stay where the user left them.
+   */
+  private async attachSmartAccount(account: WalletAccount, existing = false): Promise<WalletAccount> {
+    // Funds sent to a smart account could not leave it without a bundler
+    if (!WALLET_CONFIG.ACCOUNT_ABSTRACTION.ENABLED || !this.bundler) return account
+
+    if (existing && (await this.hasEOAActivity(account.address))) {
+      console.log('👛 EOA already in use; keeping it as the funds address:', account.address)
+      return account
+    }
+
+    try {
+      const aaWalletAddress = await this.getSmartAccountAddress(account.address)
+      console.log('🏦 Smart account address:', aaWalletAddress)
+      return { ...account, isSmartWallet: true, aaWalletAddress }
+    } catch (error) {
+      console.warn('⚠️ Could not compute smart account address; using EOA mode:', error)
+      return { ...account, isSmartWallet: false, aaWalletAddress: undefined }
+    }
+  }
+
+  /**
+   * Whether the EOA has sent transactions or holds the native currency or a default token.
+   * Counts as used when the network cannot tell, since moving funds needs the user's say.
+   */
+  private async hasEOAActivity(address: string): Promise<boolean> {
+    if (!this.provider) return true
+
+    try {
+      const [nonce, balance, tokens] = await Promise.all([
+        this.provider.getTransactionCount(address),
+        this.provider.getBalance(address),
+        this.getTokenBalances(address)
+      ])
+      return nonce > 0 || !balance.isZero() || tokens.some((token) => token.error || parseFloat(token.balance) > 0)
+    } catch (error) {
+      console.warn('⚠️ Could not check the EOA for activity; keeping EOA mode:', error)
+      return true
+    }
+  }
+
+  /**
+   * BIP-44 path of the account at `index`
+   */
+  getDerivationPath(index: number): string {
+    return `${WALLET_CONFIG.HD_ACCOUNTS.BASE_PATH}/${index}`
+  }
+
+  /**
+   * Label and path of the first account derived from a recovery phrase
+   */
+  private getPrimaryAccountInfo(): Pick<WalletAccount, 'label' | 'derivationPath'> {
+    return { label: WALLET_CONFIG.HD_ACCOUNTS.DEFAULT_LABELS[0], derivationPath: this.getDerivationPath(0) }
+  }
+
+  /**
+   * Derive the next BIP-44 account from the recovery phrase behind `primary`
+   */
+  async deriveAccount(primary: WalletAccount, index: number, label: string): Promise<WalletAccount> {
+    const path = this.getDerivationPath(index)
+    const address = await keyringService.deriveAccount(primary.address, path)
+    console.log(`🧭 Derived account "${label}" at ${path}:`, address)
+
+    // Imported phrases may have used this account before
+    return await this.attachSmartAccount({
+      address,
+      isSmartWallet: false,
+      aaWalletAddress: undefined,
+      label,
+      derivationPath: path
+    }, true)
+  }
+
+  /**
+   * The primary account followed by the default labelled accounts (Savings, Spending, ...)
+   */
+  async deriveDefaultAccounts(primary: WalletAccount): Promise<WalletAccount[]> {
+    if (primary.signer === 'passkey') return [primary]
+
+    const accounts = [primary]
+    const labels = WALLET_CONFIG.HD_ACCOUNTS.DEFAULT_LABELS
+    for (let index = 1; index < labels.length; index++) {
+      accounts.push(await this.deriveAccount(primary, index, labels[index]))
+    }
+    return accounts
+  }
+
+  /**
+   * Create a wallet whose smart account is owned by a new passkey (no mnemonic)
+   */
+  async createPasskeyWallet(walletName = 'Passkey Wallet'): Promise<WalletAccount> {
+    const result = await webAuthnService.registerPasskeySigner(walletName)
+    if (!result.success || !result.signer) {
+      throw new Error(result.error?.message || 'Passkey registration failed')
+    }
+    return await this.attachPasskeySigner(result.signer)
+  }
+
+  /**
+   * Restore a passkey wallet from the passkey alone; works after browser storage was cleared
+   */
+  async restorePasskeyWallet(): Promise<WalletAccount> {
+    const result = await webAuthnService.recoverPasskeySigner()
+    if (!result.success || !result.signer) {
+      throw new Error(result.error?.message || 'Passkey recovery failed')
+    }
+    return await this.attachPasskeySigner(result.signer)
+  }
+
+  private async attachPasskeySigner(signer: StoredPasskeySigner): Promise<WalletAccount> {
+    const address = await this.getPasskeyAccountAPI(signer).getCounterFactualAddress()
+    this.passkeyOwners.set(address.toLowerCase(), signer)
+    console.log('🔑 Passkey smart account address:', address)
+    return {
+      address,
+      isSmartWallet: true,
+      aaWalletAddress: address,
+      signer: 'passkey',
+      label: signer.walletName,
+      passkeyCredentialId: signer.credentialId
+    }
+  }
+
+  /**
+   * Reconnect a saved passkey account to its signer (e.g. after a page reload).
+   * Returns false when the passkey record is no longer stored on this device.
+   */
+  async ensurePasskeySigner(wallet: WalletAccount): Promise<boolean> {
+    if (this.isPasskeyAccount(wallet.address)) return true
+
+    const signer = (await webAuthnService.getPasskeySigners()).find(
+      (stored) => stored.credentialId === wallet.passkeyCredentialId
+    )
+    if (!signer) return false
+
+    this.passkeyOwners.set(wallet.address.toLowerCase(), signer)
+    return true
+  }
+
+  /**
+   * Whether the account is signed by a passkey instead of a keyring key
+   */
+  isPasskeyAccount(address: string): boolean {
+    return this.passkeyOwners.has(address.toLowerCase())
+  }
+
+  /**
+   * Address holding the funds: the smart account when available, else the EOA
+   */
+  getAccountAddress(wallet: WalletAccount): string {
+    return wallet.isSmartWallet && wallet.aaWalletAddress ? wallet.aaWalletAddress : wallet.address
+  }
+
+  /**
+   * Build, sign and submit a UserOperation through the bundler.
+   * The first operation carries initCode, which deploys the account.
+   * The paymaster is asked to sponsor gas first; on refusal the account pays, unless
+   * `requireSponsorship` is set.
+   */
+  async sendUserOperation(
+    call: AccountCall,
+    ownerAddress: string,
+    fees?: FeeTierPrice,
+    requireSponsorship = false
+  ): Promise<TransferResult> {
+    if (!this.bundler) throw new BundlerUnavailableError(this.getCurrentNetwork().name)
+
+    const accountAPI = this.getAccountAPI(ownerAddress)
+    const estimatedOp = await this.buildUserOperation(accountAPI, call, fees)
+
+    if (estimatedOp.initCode !== '0x') {
+      console.log('🏗️ Smart account not deployed yet; deploying with initCode')
+    }
+
+    return this.submitUserOperation(accountAPI, estimatedOp, requireSponsorship)
+  }
+
+  /**
+   * Sponsor (when a paymaster is configured), sign and submit a gas-estimated UserOperation
+   */
+  private async submitUserOperation(
+    accountAPI: BaseAccountAPI,
+    estimatedOp: UserOperation,
+    requireSponsorship = false
+  ): Promise<TransferResult> {
+    if (!this.bundler) throw new BundlerUnavailableError(this.getCurrentNetwork().name)
+
+    let sponsored = false
+    let finalOp: UserOperation = estimatedOp
+    if (this.paymaster) {
+      const sponsorship = await this.paymaster.sponsorUserOperation(estimatedOp)
+      if (sponsorship.sponsored) {
+        finalOp = { ...estimatedOp, ...sponsorship.result }
+        sponsored = true
+        console.log('⛽ Gas sponsored by paymaster')
+      } else if (requireSponsorship) {
+        throw new SponsorshipRefusedError(sponsorship.reason)
+      } else {
+        console.warn('⚠️ Sponsorship refused; falling back to user-paid gas:', sponsorship.reason)
+      }
+    }
+
+    const signedOp = await this.toUserOperation(await accountAPI.signUserOp(finalOp))
+
+    const userOpHash = await this.bundler.sendUserOperation(signedOp)
+    console.log('📨 UserOperation submitted:', userOpHash)
+
+    return { hash: userOpHash, userOperation: signedOp, sponsored }
+  }
+
+  /**
+   * Unsigned UserOperation with bundler gas limits and, when given, the fee tier's prices
+   */
+  private async buildUserOperation(accountAPI: BaseAccountAPI, call: AccountCall, fees?: FeeTierPrice): Promise<UserOperation> {
+    if (!this.bundler) throw new BundlerUnavailableError(this.getCurrentNetwork().name)
+
+    const unsignedOp = await this.toUserOperation(
+      await accountAPI.createUnsignedUserOp({
+        target: call.target,
+        value: call.value,
+        data: call.data,
+        maxFeePerGas: fees?.maxFeePerGas,
+        maxPriorityFeePerGas: fees?.maxPriorityFeePerGas
+      })
+    )
+
+    // Validation is simulated with a stand-in of the real signature's shape, which an empty one lacks
+    const signature = accountAPI instanceof PasskeyAccountAPI ? dummyPasskeySignature() : DUMMY_ECDSA_SIGNATURE
+    const gasEstimate = await this.bundler.estimateUserOperationGas({ ...unsignedOp, signature })
+    return { ...unsignedOp, ...gasEstimate }
+  }
+
+  /**
+   * Whether transfers from this owner go through the smart account as UserOperations
+   */
+  private usesUserOperations(ownerAddress: string): boolean {
+    // Passkey accounts can only act through UserOperations
+    if (this.isPasskeyAccount(ownerAddress)) return true
+
+    // Accounts keep the mode they were created in, so funds are always sent from where they are held
+    const account = useWalletStore.getState().accounts.find(
+      (candidate) => candidate.address.toLowerCase() === ownerAddress.toLowerCase()
+    )
+    return !!account?.isSmartWallet && !!account.aaWalletAddress
+  }
+
+  /**
+   * The call a transfer makes: a plain value transfer, or ERC-20 `transfer` on the token
+   */
+  private async toTransferCall(request: TransferRequest): Promise<AccountCall> {
+    if (!request.token) {
+      return { target: request.to, value: ethers.utils.parseEther(request.amount), data: '0x' }
+    }
+
+    const contract = new ethers.Contract(request.token, ERC20_ABI, this.provider!)
+    const decimals = await contract.decimals()
+    const amount = ethers.utils.parseUnits(request.amount, decimals)
+    return { target: request.token, value: 0, data: contract.interface.encodeFunctionData('transfer', [request.to, amount]) }
+  }
+
+  /**
+   * Normalize an SDK UserOperation struct into hex strings for JSON-RPC
+   */
+  private async toUserOperation(struct: UserOperationStruct): Promise<UserOperation> {
+    const resolved = await ethers.utils.resolveProperties(struct)
+    const quantity = (value: ethers.BigNumberish) => ethers.BigNumber.from(value).toHexString()
+    const bytes = (value: ethers.utils.BytesLike) => ethers.utils.hexlify(value)
+
+    return {
+      sender: ethers.utils.getAddress(resolved.sender as string),
+      nonce: quantity(resolved.nonce),
+      initCode: bytes(resolved.initCode),
+      callData: bytes(resolved.callData),
+      callGasLimit: quantity(resolved.callGasLimit),
+      verificationGasLimit: quantity(resolved.verificationGasLimit),
+      preVerificationGas: quantity(resolved.preVerificationGas),
+      maxFeePerGas: quantity(resolved.maxFeePerGas),
+      maxPriorityFeePerGas: quantity(resolved.maxPriorityFeePerGas),
+      paymasterAndData: bytes(resolved.paymasterAndData),
+      signature: bytes(resolved.signature)
+    }
   }
 
   /**
@@ -39,6 +457,8 @@ class WalletService {
   async createWallet(options?: {
     enableBiometric?: boolean
     walletName?: string
+    // Encrypts the saved mnemonic when the authenticator has no PRF support
+    passphrase?: string
   }): Promise<WalletAccount> {
     try {
       console.log('🚀 Starting wallet creation...')
@@ -51,37 +471,27 @@ class WalletService {
         throw new Error('Wallet creation failed: missing required information')
       }
 
-      // Validate address format
-      if (!ethers.utils.isAddress(wallet.address)) {
-        throw new Error('Wallet creation failed: invalid address format')
+      // Validate address, key and mnemonic before the secrets go into the keyring
+      if (!this.validateSecrets(wallet.address, wallet.privateKey, wallet.mnemonic.phrase)) {
+        throw new Error('Wallet creation failed: generated key material is inconsistent')
       }
 
-      const walletAccount: WalletAccount = {
-        address: wallet.address,
+      await keyringService.addAccount({
         privateKey: wallet.privateKey,
-        mnemonic: wallet.mnemonic?.phrase,
-        isSmartWallet: false, // temporary EOA wallet
-        aaWalletAddress: undefined
-      }
+        mnemonic: wallet.mnemonic.phrase
+      })
+
+      const walletAccount = await this.attachSmartAccount({
+        address: wallet.address,
+        isSmartWallet: false,
+        aaWalletAddress: undefined,
+        ...this.getPrimaryAccountInfo()
+      })
 
       // Detailed logging
       console.log('✅ Wallet created successfully!')
       console.log('📍 Wallet address:', wallet.address)
-      console.log('🔑 Private key length:', wallet.privateKey.length, 'characters')
-      console.log('📝 Mnemonic:', wallet.mnemonic?.phrase)
-      console.log('🔢 Mnemonic word count:', wallet.mnemonic?.phrase.split(' ').length)
-      
-      // Verify mnemonic and private key alignment
-      try {
-        const recoveredWallet = ethers.Wallet.fromMnemonic(wallet.mnemonic?.phrase || '')
-        if (recoveredWallet.address === wallet.address) {
-          console.log('✅ Mnemonic verification succeeded: wallet can be recovered correctly')
-        } else {
-          console.error('❌ Mnemonic verification failed: recovered address does not match')
-        }
-      } catch (error) {
-        console.error('❌ Mnemonic verification failed:', error)
-      }
+      console.log('🔐 Signing key sealed in the encrypted keyring')
 
       // Save to WebAuthn when biometrics are enabled
       if (options?.enableBiometric) {
@@ -89,7 +499,8 @@ class WalletService {
         const biometricResult = await webAuthnService.registerCredentialAndSaveWallet(
           wallet.address,
           wallet.mnemonic?.phrase || '',
-          options.walletName || 'My Wallet'
+          options.walletName || 'My Wallet',
+          options.passphrase
         )
         
         if (biometricResult.success) {
@@ -111,15 +522,15 @@ class WalletService {
    */
   async importWallet(mnemonic: string): Promise<WalletAccount> {
     try {
-      const wallet = ethers.Wallet.fromMnemonic(mnemonic)
+      const wallet = ethers.Wallet.fromMnemonic(mnemonic, this.getDerivationPath(0))
+      await keyringService.addAccount({ privateKey: wallet.privateKey, mnemonic })
       
-      return {
+      return await this.attachSmartAccount({
         address: wallet.address,
-        privateKey: wallet.privateKey,
-        mnemonic: mnemonic,
         isSmartWallet: false,
-        aaWalletAddress: undefined
-      }
+        aaWalletAddress: undefined,
+        ...this.getPrimaryAccountInfo()
+      }, true)
     } catch (error) {
       console.error('Wallet import failed:', error)
       throw new Error('Wallet import failed')
@@ -127,22 +538,18 @@ class WalletService {
   }
 
   /**
-   * Get ETH balance
+   * Get the native currency balance. Throws NetworkUnavailableError rather than
+   * reporting zero when no RPC endpoint answers.
    */
   async getETHBalance(address: string): Promise<string> {
     if (!this.provider) throw new Error('Provider not initialized')
-    
-    try {
-      const balance = await this.provider.getBalance(address)
-      return ethers.utils.formatEther(balance)
-    } catch (error) {
-      console.error('Failed to fetch ETH balance:', error)
-      return '0'
-    }
+
+    const balance = await this.provider.getBalance(address)
+    return ethers.utils.formatEther(balance)
   }
 
   /**
-   * Get ERC20 token balance
+   * Get ERC20 token balance. Throws when it cannot be read rather than reporting zero.
    */
   async getTokenBalance(tokenAddress: string, walletAddress: string): Promise<string> {
     if (!this.provider) throw new Error('Provider not initialized')
@@ -153,28 +560,90 @@ class WalletService {
       const decimals = await contract.decimals()
       return ethers.utils.formatUnits(balance, decimals)
     } catch (error) {
+      const unavailable = asNetworkUnavailable(error)
+      if (unavailable) throw unavailable
       console.error('Failed to fetch token balance:', error)
-      return '0'
+      throw new Error(`Could not read the balance of token ${tokenAddress}`)
     }
   }
 
   /**
-   * Send ETH transfer (requires private key signature)
+   * Get the default token list for the current network
+   */
+  getDefaultTokens(): TokenInfo[] {
+    return this.getCurrentNetwork().tokens
+  }
+
+  /**
+   * Native currency of the current network (ETH, or POL on Polygon)
+   */
+  getNativeCurrency(): NativeCurrency {
+    return this.getCurrentNetwork().nativeCurrency
+  }
+
+  /**
+   * Whether a spoken symbol means the native currency. "ETH" is the wallet's
+   * default token name, so it stands for the native currency on every chain.
+   */
+  isNativeToken(symbol: string): boolean {
+    const normalized = symbol.trim().toUpperCase()
+    return normalized === 'ETH' || normalized === this.getNativeCurrency().symbol
+  }
+
+  /**
+   * Find a default token on the current network by symbol (case-insensitive)
+   */
+  findToken(symbol: string) {
+    const normalized = symbol.trim().toUpperCase()
+    return this.getDefaultTokens().find((token) => token.symbol === normalized)
+  }
+
+  /**
+   * Get balances for every default token on the current network. A token that cannot be
+   * read is returned with its error; an unreachable network still throws.
    */
-  async transferETH(request: TransferRequest, privateKey: string): Promise<string> {
+  async getTokenBalances(walletAddress: string): Promise<TokenBalance[]> {
+    return await Promise.all(
+      this.getDefaultTokens().map(async (token) => {
+        const info = { symbol: token.symbol, address: token.address, name: token.name, decimals: token.decimals }
+        try {
+          return { ...info, balance: await this.getTokenBalance(token.address, walletAddress) }
+        } catch (error) {
+          if (asNetworkUnavailable(error)) throw error
+          return { ...info, balance: '', error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      })
+    )
+  }
+
+  /**
+   * Send ETH transfer (signed by the keyring)
+   */
+  async transferETH(request: TransferRequest, ownerAddress: string): Promise<TransferResult> {
     if (!this.provider) throw new Error('Provider not initialized')
     
     try {
-      const wallet = new ethers.Wallet(privateKey, this.provider)
+      const value = ethers.utils.parseEther(request.amount)
+      const fees = (await this.getFeeTiers())[request.feeTier ?? 'normal']
+
+      if (this.usesUserOperations(ownerAddress)) {
+        return await this.sendUserOperation({ target: request.to, value, data: '0x' }, ownerAddress, fees, request.requireSponsorship)
+      }
+
+      const signer = keyringService.getSigner(ownerAddress, this.provider)
       
-      const tx = await wallet.sendTransaction({
+      const tx = await signer.sendTransaction({
         to: request.to,
-        value: ethers.utils.parseEther(request.amount)
+        value,
+        ...this.toFeeFields(fees)
       })
 
-      return tx.hash
+      return { hash: tx.hash, nonce: tx.nonce }
     } catch (error) {
       console.error('ETH transfer failed:', error)
+      if (error instanceof KeyringLockedError || error instanceof BundlerUnavailableError || error instanceof SponsorshipRefusedError) throw error
+      const unavailable = asNetworkUnavailable(error)
+      if (unavailable) throw unavailable
       throw new Error('Transfer failed')
     }
   }
@@ -182,29 +651,222 @@ class WalletService {
   /**
    * Send ERC20 token transfer
    */
-  async transferToken(request: TransferRequest, privateKey: string): Promise<string> {
+  async transferToken(request: TransferRequest, ownerAddress: string): Promise<TransferResult> {
     if (!this.provider) throw new Error('Provider not initialized')
     if (!request.token) throw new Error('Token address not provided')
     
     try {
-      const wallet = new ethers.Wallet(privateKey, this.provider)
-      const contract = new ethers.Contract(request.token, ERC20_ABI, wallet)
+      const contract = new ethers.Contract(request.token, ERC20_ABI, this.provider)
       
       // Fetch token decimals
       const decimals = await contract.decimals()
+      const amount = ethers.utils.parseUnits(request.amount, decimals)
+      const fees = (await this.getFeeTiers())[request.feeTier ?? 'normal']
+
+      if (this.usesUserOperations(ownerAddress)) {
+        const data = contract.interface.encodeFunctionData('transfer', [request.to, amount])
+        return await this.sendUserOperation({ target: request.token, value: 0, data }, ownerAddress, fees, request.requireSponsorship)
+      }
       
-      const tx = await contract.transfer(
-        request.to,
-        ethers.utils.parseUnits(request.amount, decimals)
-      )
+      const signer = keyringService.getSigner(ownerAddress, this.provider)
+      const tx = await contract.connect(signer).transfer(request.to, amount, this.toFeeFields(fees))
 
-      return tx.hash
+      return { hash: tx.hash, nonce: tx.nonce }
     } catch (error) {
       console.error('Token transfer failed:', error)
+      if (error instanceof KeyringLockedError || error instanceof BundlerUnavailableError || error instanceof SponsorshipRefusedError) throw error
+      const unavailable = asNetworkUnavailable(error)
+      if (unavailable) throw unavailable
       throw new Error('Token transfer failed')
     }
   }
 
+  /**
+   * Replace a pending transaction by reusing its nonce with bumped fees: the same call
+   * for a speed-up, a zero-value transfer back to the sender for a cancellation
+   */
+  async replaceTransaction(transaction: Transaction, ownerAddress: string, kind: ReplacementKind): Promise<TransferResult> {
+    if (!this.provider) throw new Error('Provider not initialized')
+
+    try {
+      const current = (await this.getFeeTiers()).fast
+
+      if (transaction.userOperation) {
+        return await this.replaceUserOperation(transaction, ownerAddress, kind, current)
+      }
+
+      const original = await this.provider.getTransaction(transaction.hash)
+      if (!original || original.blockNumber) throw new TransactionNotPendingError(transaction.hash)
+
+      const fees = this.bumpFees(
+        original.maxFeePerGas ?? original.gasPrice ?? 0,
+        original.maxPriorityFeePerGas ?? original.gasPrice ?? 0,
+        current
+      )
+      const call = kind === 'cancel'
+        ? { to: original.from, value: 0, data: '0x', gasLimit: 21000 }
+        : { to: original.to, value: original.value, data: original.data, gasLimit: original.gasLimit }
+
+      const signer = keyringService.getSigner(ownerAddress, this.provider)
+      const tx = await signer.sendTransaction({
+        ...call,
+        nonce: original.nonce,
+        ...this.toFeeFields(fees)
+      })
+
+      return { hash: tx.hash, nonce: tx.nonce }
+    } catch (error: any) {
+      console.error('Transaction replacement failed:', error)
+      if (error instanceof KeyringLockedError || error instanceof TransactionNotPendingError || error instanceof BundlerUnavailableError) throw error
+      const unavailable = asNetworkUnavailable(error)
+      if (unavailable) throw unavailable
+      // The original was included while the replacement was being prepared
+      if (error?.code === ethers.errors.NONCE_EXPIRED) throw new TransactionNotPendingError(transaction.hash)
+      throw new Error('Transaction replacement failed')
+    }
+  }
+
+  /**
+   * Resubmit a pending UserOperation under the same nonce; bundlers replace it when both fees rise
+   */
+  private async replaceUserOperation(
+    transaction: Transaction,
+    ownerAddress: string,
+    kind: ReplacementKind,
+    current: FeeTierPrice
+  ): Promise<TransferResult> {
+    const original = transaction.userOperation!
+    const accountAPI = this.getAccountAPI(ownerAddress)
+
+    // The account nonce only moves past the original once it is included
+    const nonce = await accountAPI.getNonce()
+    if (!nonce.eq(original.nonce)) throw new TransactionNotPendingError(transaction.hash)
+
+    const fees = this.bumpFees(original.maxFeePerGas, original.maxPriorityFeePerGas, current)
+    const replacement = kind === 'cancel'
+      ? await this.buildUserOperation(accountAPI, { target: original.sender, value: 0, data: '0x' }, fees)
+      : {
+          ...original,
+          maxFeePerGas: ethers.BigNumber.from(fees.maxFeePerGas).toHexString(),
+          maxPriorityFeePerGas: ethers.BigNumber.from(fees.maxPriorityFeePerGas).toHexString(),
+          // Sponsorship and signature cover the old fees
+          paymasterAndData: '0x',
+          signature: '0x'
+        }
+
+    return this.submitUserOperation(accountAPI, replacement)
+  }
+
+  /**
+   * Fees for a replacement: the original's raised by the replacement multiplier,
+   * or today's fast tier when that is higher
+   */
+  private bumpFees(maxFeePerGas: ethers.BigNumberish, maxPriorityFeePerGas: ethers.BigNumberish, current: FeeTierPrice): FeeTierPrice {
+    const multiplier = Math.round(WALLET_CONFIG.FEES.REPLACEMENT_MULTIPLIER * 1000)
+    const raise = (previous: ethers.BigNumberish, now: string) => {
+      // Round up so the increase never falls short of the minimum
+      const bumped = ethers.BigNumber.from(previous).mul(multiplier).add(999).div(1000)
+      return bumped.gt(now) ? bumped : ethers.BigNumber.from(now)
+    }
+
+    const priorityFee = raise(maxPriorityFeePerGas, current.maxPriorityFeePerGas)
+    const maxFee = raise(maxFeePerGas, current.maxFeePerGas)
+    const bumpedMaxFee = (maxFee.lt(priorityFee) ? priorityFee : maxFee).toString()
+    return {
+      ...current,
+      maxFeePerGas: bumpedMaxFee,
+      maxPriorityFeePerGas: priorityFee.toString(),
+      gasPrice: current.gasPrice ? bumpedMaxFee : undefined
+    }
+  }
+
+  /**
+   * Fee fields of a plain transaction: EIP-1559, or the legacy gas price where the node has no fee history
+   */
+  private toFeeFields(fees: FeeTierPrice): Pick<ethers.providers.TransactionRequest, 'type' | 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'> {
+    if (fees.gasPrice) return { type: 0, gasPrice: fees.gasPrice }
+    return { type: 2, maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas }
+  }
+
+  /**
+   * Check a pending transaction of the current chain: its receipt once mined, otherwise
+   * whether its nonce was used by another transaction or it was forgotten.
+   * Null while it is still pending.
+   */
+  async checkTransaction(transaction: Transaction): Promise<TransactionOutcome | null> {
+    if (!this.provider) throw new Error('Provider not initialized')
+    if (transaction.userOperation && !this.bundler) throw new BundlerUnavailableError(this.getCurrentNetwork().name)
+
+    const mined = await this.getMinedOutcome(transaction)
+    if (mined) return mined
+
+    if (!transaction.userOperation && (await this.provider.getTransaction(transaction.hash))) return null
+
+    const nonceUsed = await this.isNonceUsed(transaction)
+    if (nonceUsed === null) return null
+    if (nonceUsed) {
+      // The transaction itself may have been mined between the two lookups
+      return (await this.getMinedOutcome(transaction)) ?? { status: 'replaced' }
+    }
+
+    // Pool endpoints can lag behind each other, so only a long silence means dropped
+    const age = Date.now() - transaction.timestamp
+    return age > WALLET_CONFIG.TRANSACTION_WATCHER.DROP_AFTER ? { status: 'dropped' } : null
+  }
+
+  private async getMinedOutcome(transaction: Transaction): Promise<TransactionOutcome | null> {
+    if (transaction.userOperation) {
+      const receipt = await this.bundler!.getUserOperationReceipt(transaction.hash)
+      if (!receipt) return null
+      return {
+        status: receipt.success ? 'confirmed' : 'failed',
+        transactionHash: receipt.transactionHash || undefined,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.actualGasUsed,
+        reason: receipt.reason
+      }
+    }
+
+    const receipt = await this.provider!.getTransactionReceipt(transaction.hash)
+    if (!receipt) return null
+    return {
+      status: receipt.status === 1 ? 'confirmed' : 'failed',
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      reason: receipt.status === 1 ? undefined : await this.getRevertReason(transaction.hash)
+    }
+  }
+
+  /**
+   * Whether the account has moved past the transaction's nonce; null when the nonce is unknown
+   */
+  private async isNonceUsed(transaction: Transaction): Promise<boolean | null> {
+    if (transaction.userOperation) {
+      const { sender, nonce } = transaction.userOperation
+      const entryPoint = new ethers.Contract(this.getCurrentNetwork().entryPointAddress, ENTRY_POINT_NONCE_ABI, this.provider!)
+      const current: ethers.BigNumber = await entryPoint.getNonce(sender, 0)
+      return current.gt(nonce)
+    }
+
+    if (transaction.nonce === undefined || !transaction.from) return null
+    const count = await this.provider!.getTransactionCount(transaction.from, 'latest')
+    return count > transaction.nonce
+  }
+
+  /**
+   * Replay a reverted transaction at its block to recover the revert reason
+   */
+  private async getRevertReason(hash: string): Promise<string | undefined> {
+    try {
+      const tx = await this.provider!.getTransaction(hash)
+      if (!tx?.blockNumber) return undefined
+      await this.provider!.call({ from: tx.from, to: tx.to, data: tx.data, value: tx.value, gasLimit: tx.gasLimit }, tx.blockNumber)
+      return undefined
+    } catch (error: any) {
+      return error?.reason ?? undefined
+    }
+  }
+
   /**
    * Query transaction status
    */
@@ -212,6 +874,19 @@ class WalletService {
     if (!this.provider) throw new Error('Provider not initialized')
     
     try {
+      const userOpReceipt = await this.getUserOperationReceipt(hash)
+      if (userOpReceipt) {
+        return {
+          hash: userOpReceipt.transactionHash,
+          chainId: this.getCurrentNetwork().chainId,
+          to: '',
+          value: '0',
+          gasLimit: userOpReceipt.actualGasUsed,
+          timestamp: Date.now(),
+          status: userOpReceipt.success ? 'confirmed' : 'failed'
+        }
+      }
+
       const tx = await this.provider.getTransaction(hash)
       if (!tx) return null
 
@@ -219,6 +894,7 @@ class WalletService {
       
       return {
         hash,
+        chainId: this.getCurrentNetwork().chainId,
         to: tx.to || '',
         value: ethers.utils.formatEther(tx.value),
         gasPrice: tx.gasPrice ? ethers.utils.formatUnits(tx.gasPrice, 'gwei') : undefined,
@@ -233,11 +909,32 @@ class WalletService {
   }
 
   /**
-   * Switch network
+   * Look up a UserOperation receipt from the bundler (null while pending or unknown)
    */
-  async switchNetwork(network: 'mainnet' | 'sepolia') {
-    this.currentNetwork = network
-    this.initProvider()
+  async getUserOperationReceipt(userOpHash: string) {
+    if (!this.bundler || !WALLET_CONFIG.ACCOUNT_ABSTRACTION.ENABLED) return null
+
+    try {
+      return await this.bundler.getUserOperationReceipt(userOpHash)
+    } catch (error) {
+      console.error('Failed to query UserOperation receipt:', error)
+      return null
+    }
+  }
+
+  /**
+   * Provider of the current network, for services that read the chain directly
+   */
+  getProvider(): ethers.providers.JsonRpcProvider {
+    if (!this.provider) throw new Error('Provider not initialized')
+    return this.provider
+  }
+
+  /**
+   * Switch network; the store records the choice and the provider follows it
+   */
+  switchNetwork(network: NetworkId) {
+    useWalletStore.getState().setNetwork(network)
   }
 
   /**
@@ -252,52 +949,186 @@ class WalletService {
    */
   formatAddressForSpeech(address: string): string {
     if (!address) return ''
-    // Simplified address speech: first 6 + last 4
-    return `${address.slice(0, 6)}...${address.slice(-4)}`
+    // A primary ENS name that was already looked up, else first 6 + last 4
+    return ensService.getCachedName(address) ?? `${address.slice(0, 6)}...${address.slice(-4)}`
   }
 
   /**
    * Get current network configuration
    */
-  getCurrentNetwork() {
+  getCurrentNetwork(): ChainConfig {
     return WALLET_CONFIG.NETWORKS[this.currentNetwork]
   }
 
   /**
-   * Estimate gas costs
+   * EIP-1559 prices for each fee tier. Priority fees are the configured reward percentiles
+   * of recent blocks; the max fee adds headroom over the next block's base fee.
+   * Nodes without eth_feeHistory get the node's legacy gas price for every tier.
    */
-  async estimateGas(request: TransferRequest): Promise<string> {
+  async getFeeTiers(): Promise<Record<FeeTier, FeeTierPrice>> {
     if (!this.provider) throw new Error('Provider not initialized')
-    
+
+    const { HISTORY_BLOCKS, TIERS } = WALLET_CONFIG.FEES
+    const tiers = Object.keys(TIERS) as FeeTier[]
+    let baseFee: ethers.BigNumber
+    let priorityFees: ethers.BigNumber[]
+    let legacy = false
+
+    try {
+      const history = await this.provider.send('eth_feeHistory', [
+        ethers.utils.hexValue(HISTORY_BLOCKS),
+        'latest',
+        tiers.map((tier) => TIERS[tier].PERCENTILE)
+      ])
+      // The last entry is the base fee of the next block
+      baseFee = ethers.BigNumber.from(history.baseFeePerGas[history.baseFeePerGas.length - 1])
+      priorityFees = tiers.map((_, index) => {
+        // Median across blocks; empty blocks report zero and are skipped
+        const rewards = (history.reward as string[][])
+          .map((block) => ethers.BigNumber.from(block[index]))
+          .filter((reward) => !reward.isZero())
+          .sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0))
+        return rewards[Math.floor(rewards.length / 2)] ?? ethers.BigNumber.from(0)
+      })
+    } catch (error) {
+      const unavailable = asNetworkUnavailable(error)
+      if (unavailable) throw unavailable
+
+      // Nodes without eth_feeHistory may not take EIP-1559 transactions either: the whole
+      // legacy gas price goes in the fee fields, so max fee and priority fee are both it
+      console.warn('⚠️ eth_feeHistory unavailable; using the legacy gas price:', error)
+      const gasPrice = await this.provider.getGasPrice()
+      baseFee = ethers.BigNumber.from(0)
+      priorityFees = tiers.map(() => gasPrice)
+      legacy = true
+    }
+
+    const blockTime = this.getCurrentNetwork().blockTime
+    const prices = {} as Record<FeeTier, FeeTierPrice>
+    let floor = ethers.BigNumber.from(0)
+    tiers.forEach((tier, index) => {
+      // A faster tier never tips less than a slower one
+      const priorityFee = priorityFees[index].gt(floor) ? priorityFees[index] : floor
+      floor = priorityFee
+      const headroom = Math.round(TIERS[tier].BASE_FEE_MULTIPLIER * 1000)
+      prices[tier] = {
+        tier,
+        maxFeePerGas: baseFee.mul(headroom).div(1000).add(priorityFee).toString(),
+        maxPriorityFeePerGas: priorityFee.toString(),
+        baseFeePerGas: baseFee.toString(),
+        gasPrice: legacy ? priorityFee.toString() : undefined,
+        expectedWaitSeconds: Math.ceil(TIERS[tier].WAIT_BLOCKS * blockTime)
+      }
+    })
+    return prices
+  }
+
+  /**
+   * Gas and likely cost of a transfer at every fee tier
+   */
+  async estimateTransferFees(request: TransferRequest, ownerAddress: string): Promise<Record<FeeTier, FeeEstimate>> {
+    return (await this.quoteTransfer(request, ownerAddress, false)).fees
+  }
+
+  /**
+   * Fees of a transfer at every fee tier and, for UserOperations, whether the paymaster
+   * would sponsor it, so the user hears who pays before confirming
+   */
+  async quoteTransfer(request: TransferRequest, ownerAddress: string, askPaymaster = true): Promise<TransferQuote> {
+    if (!this.provider) throw new Error('Provider not initialized')
+
+    const [prices, call] = await Promise.all([this.getFeeTiers(), this.toTransferCall(request)])
+
+    let gasLimit: ethers.BigNumber
+    let sponsored: boolean | undefined
+    if (this.usesUserOperations(ownerAddress)) {
+      const userOp = await this.buildUserOperation(this.getAccountAPI(ownerAddress), call, prices.normal)
+      gasLimit = ethers.BigNumber.from(userOp.callGasLimit)
+        .add(userOp.verificationGasLimit)
+        .add(userOp.preVerificationGas)
+      if (askPaymaster && this.paymaster) {
+        sponsored = (await this.paymaster.sponsorUserOperation(userOp)).sponsored
+      }
+    } else {
+      gasLimit = await this.provider.estimateGas({ from: ownerAddress, to: call.target, value: call.value, data: call.data })
+    }
+
+    const estimates = {} as Record<FeeTier, FeeEstimate>
+    for (const price of Object.values(prices)) {
+      const perGas = ethers.BigNumber.from(price.baseFeePerGas).add(price.maxPriorityFeePerGas)
+      estimates[price.tier] = {
+        ...price,
+        gasLimit: gasLimit.toString(),
+        estimatedCost: ethers.utils.formatEther(gasLimit.mul(perGas))
+      }
+    }
+    return { fees: estimates, sponsored }
+  }
+
+  /**
+   * Amount for "send everything" or "send half my balance": a share of the account's
+   * balance of the sent token. Native sends keep back the gas at the fast tier's max fee,
+   * so the transfer stays affordable whichever speed is picked at confirmation.
+   */
+  async getBalanceShareAmount(
+    wallet: WalletAccount,
+    request: TransferRequest,
+    share: number
+  ): Promise<{ amount: string; feeReserved: boolean }> {
+    if (!this.provider) throw new Error('Provider not initialized')
+
+    const account = this.getAccountAddress(wallet)
+    const basisPoints = Math.round(share * 10000)
+
     try {
-      let gasEstimate: ethers.BigNumber
-      
       if (request.token) {
-        // ERC20 token transfer
         const contract = new ethers.Contract(request.token, ERC20_ABI, this.provider)
-        const decimals = await contract.decimals()
-        gasEstimate = await contract.estimateGas.transfer(
-          request.to,
-          ethers.utils.parseUnits(request.amount, decimals)
-        )
-      } else {
-        // ETH transfer
-        gasEstimate = await this.provider.estimateGas({
-          to: request.to,
-          value: ethers.utils.parseEther(request.amount)
-        })
+        const [balance, decimals] = await Promise.all([contract.balanceOf(account), contract.decimals()])
+        return { amount: ethers.utils.formatUnits(balance.mul(basisPoints).div(10000), decimals), feeReserved: false }
       }
-      
-      const gasPrice = await this.provider.getGasPrice()
-      const totalGas = gasEstimate.mul(gasPrice)
-      
-      return ethers.utils.formatEther(totalGas)
+
+      // Gas does not depend on the amount; one wei keeps the estimate clear of balance checks
+      const [balance, fees] = await Promise.all([
+        this.provider.getBalance(account),
+        this.estimateTransferFees({ ...request, amount: ethers.utils.formatEther(1) }, wallet.address)
+      ])
+      const spendable = balance.sub(ethers.BigNumber.from(fees.fast.gasLimit).mul(fees.fast.maxFeePerGas))
+      const amount = balance.mul(basisPoints).div(10000)
+
+      if (spendable.lte(0)) return { amount: '0', feeReserved: true }
+      return amount.gt(spendable)
+        ? { amount: ethers.utils.formatEther(spendable), feeReserved: true }
+        : { amount: ethers.utils.formatEther(amount), feeReserved: false }
     } catch (error) {
-      console.error('Failed to estimate gas:', error)
-      return '0.001' // default value
+      const unavailable = asNetworkUnavailable(error)
+      if (unavailable) throw unavailable
+      throw error
     }
   }
 
+  /**
+   * Spoken fee, e.g. "about 0.0003 ETH, roughly 30 seconds"
+   */
+  formatFeeForSpeech(estimate: FeeEstimate): string {
+    const cost = parseFloat(estimate.estimatedCost)
+    const symbol = this.getNativeCurrency().symbol
+    // Two significant digits are enough to compare tiers by ear
+    const amount = cost === 0
+      ? '0'
+      : cost < 0.000001
+        ? 'less than 0.000001'
+        : String(parseFloat(cost.toFixed(Math.max(0, 1 - Math.floor(Math.log10(cost))))))
+
+    const seconds = estimate.expectedWaitSeconds
+    const wait = seconds < 5
+      ? 'a few seconds'
+      : seconds < 90
+        ? `${Math.round(seconds / 5) * 5} seconds`
+        : `${Math.round(seconds / 60)} minutes`
+
+    return `about ${amount} ${symbol}, roughly ${wait}`
+  }
+
   /**
    * Validate wallet completeness and correctness
    */
@@ -305,58 +1136,23 @@ class WalletService {
     try {
       console.log('🔍 Starting wallet validation...')
       
-      // Check required fields
-      if (!wallet.address || !wallet.privateKey) {
-        console.error('❌ Wallet is missing required information')
-        return false
-      }
-
       // Validate address format
-      if (!ethers.utils.isAddress(wallet.address)) {
+      if (!wallet.address || !ethers.utils.isAddress(wallet.address)) {
         console.error('❌ Wallet address format is invalid:', wallet.address)
         return false
       }
 
-      // Validate private key format
-      if (!wallet.privateKey.startsWith('0x') || wallet.privateKey.length !== 66) {
-        console.error('❌ Private key format is invalid')
+      // The signing key must be held by the keyring (passkey accounts sign on the authenticator)
+      if (wallet.signer !== 'passkey' && !keyringService.hasAccount(wallet.address)) {
+        console.error('❌ No signing key in the keyring for this wallet')
         return false
       }
 
-      // Validate private key and address match
-      try {
-        const walletFromPrivateKey = new ethers.Wallet(wallet.privateKey)
-        if (walletFromPrivateKey.address !== wallet.address) {
-          console.error('❌ Private key does not match address')
-          return false
-        }
-      } catch (error) {
-        console.error('❌ Invalid private key:', error)
+      if (wallet.isSmartWallet && (!wallet.aaWalletAddress || !ethers.utils.isAddress(wallet.aaWalletAddress))) {
+        console.error('❌ Smart account address is invalid:', wallet.aaWalletAddress)
         return false
       }
 
-      // Validate mnemonic (if present)
-      if (wallet.mnemonic) {
-        try {
-          const walletFromMnemonic = ethers.Wallet.fromMnemonic(wallet.mnemonic)
-          if (walletFromMnemonic.address !== wallet.address) {
-            console.error('❌ Mnemonic does not match address')
-            return false
-          }
-          
-          // Check mnemonic word count
-          const words = wallet.mnemonic.split(' ')
-          if (words.length !== 12 && words.length !== 24) {
-            console.error('❌ Unexpected mnemonic word count:', words.length)
-            return false
-          }
-          
-        } catch (error) {
-          console.error('❌ Invalid mnemonic:', error)
-          return false
-        }
-      }
-
       console.log('✅ Wallet validation succeeded!')
       return true
     } catch (error) {
@@ -365,6 +1161,50 @@ class WalletService {
     }
   }
 
+  /**
+   * Validate raw key material before it is sealed in the keyring
+   */
+  private validateSecrets(address: string, privateKey: string, mnemonic?: string): boolean {
+    // Validate private key format
+    if (!privateKey.startsWith('0x') || privateKey.length !== 66) {
+      console.error('❌ Private key format is invalid')
+      return false
+    }
+
+    // Validate private key and address match
+    try {
+      if (new ethers.Wallet(privateKey).address !== address) {
+        console.error('❌ Private key does not match address')
+        return false
+      }
+    } catch (error) {
+      console.error('❌ Invalid private key:', error)
+      return false
+    }
+
+    // Validate mnemonic (if present)
+    if (mnemonic) {
+      try {
+        if (ethers.Wallet.fromMnemonic(mnemonic).address !== address) {
+          console.error('❌ Mnemonic does not match address')
+          return false
+        }
+
+        // Check mnemonic word count
+        const words = mnemonic.split(' ')
+        if (words.length !== 12 && words.length !== 24) {
+          console.error('❌ Unexpected mnemonic word count:', words.length)
+          return false
+        }
+      } catch (error) {
+        console.error('❌ Invalid mnemonic:', error)
+        return false
+      }
+    }
+
+    return true
+  }
+
   /**
    * Test wallet connectivity (balance query)
    */
@@ -395,10 +1235,15 @@ class WalletService {
   /**
    * Complete wallet creation and verification flow (with biometrics)
    */
-  async createAndVerifyWallet(): Promise<WalletAccount> {
+  async createAndVerifyWallet(options?: {
+    enableBiometric?: boolean
+    passphrase?: string
+    walletName?: string
+  }): Promise<WalletAccount> {
     // First check biometric availability
     const biometricAvailability = await this.checkBiometricAvailability()
-    const enableBiometric = biometricAvailability.isSupported && biometricAvailability.isAvailable
+    const enableBiometric = biometricAvailability.isSupported && biometricAvailability.isAvailable &&
+      options?.enableBiometric !== false
     
     if (enableBiometric) {
       console.log('🔐 Biometrics detected; enabling secure storage')
@@ -409,7 +1254,8 @@ class WalletService {
     // Create wallet and enable biometric storage
     const wallet = await this.createWallet({
       enableBiometric,
-      walletName: `Wallet ${new Date().toLocaleString()}`
+      walletName: options?.walletName || `Wallet ${new Date().toLocaleString()}`,
+      passphrase: options?.passphrase
     })
     
     // Validate wallet information
@@ -429,10 +1275,11 @@ class WalletService {
   /**
    * Recover wallet via biometrics
    */
-  async recoverWalletWithBiometric(): Promise<{
+  async recoverWalletWithBiometric(passphrase?: string, credentialId?: string): Promise<{
     success: boolean
     wallets?: WalletAccount[]
     error?: string
+    errorType?: WebAuthnErrorType
   }> {
     try {
       console.log('🔐 Starting biometric wallet recovery...')
@@ -447,12 +1294,13 @@ class WalletService {
       }
 
       // Run biometric verification and wallet recovery
-      const recoveryResult = await webAuthnService.authenticateAndRecoverWallet()
+      const recoveryResult = await webAuthnService.authenticateAndRecoverWallet(passphrase, credentialId)
       
       if (!recoveryResult.success || !recoveryResult.wallets) {
         return {
           success: false,
-          error: recoveryResult.error?.message || 'Wallet recovery failed'
+          error: recoveryResult.error?.message || 'Wallet recovery failed',
+          errorType: recoveryResult.error?.type
         }
       }
 
@@ -470,13 +1318,17 @@ class WalletService {
             continue
           }
 
-          const walletAccount: WalletAccount = {
-            address: wallet.address,
+          await keyringService.addAccount({
             privateKey: wallet.privateKey,
-            mnemonic: recoveredWallet.mnemonic,
+            mnemonic: recoveredWallet.mnemonic
+          })
+
+          const walletAccount = await this.attachSmartAccount({
+            address: wallet.address,
             isSmartWallet: false,
-            aaWalletAddress: undefined
-          }
+            aaWalletAddress: undefined,
+            ...this.getPrimaryAccountInfo()
+          }, true)
 
           walletAccounts.push(walletAccount)
           
@@ -515,6 +1367,14 @@ class WalletService {
     return await webAuthnService.checkBiometricAvailability()
   }
 
+  /**
+   * Whether the saved mnemonic can be encrypted with a key from the authenticator (PRF).
+   * Undefined when the browser cannot tell before registration.
+   */
+  async isBiometricEncryptionSupported(): Promise<boolean | undefined> {
+    return await webAuthnService.isPrfSupported()
+  }
+
   /**
    * Get wallet recovery status
    */
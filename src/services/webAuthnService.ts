@@ -5,6 +5,9 @@
 
 import {
   StoredWalletCredential,
+  StoredPasskeySigner,
+  PasskeyAssertion,
+  MnemonicEncryption,
   WalletRecoveryInfo,
   WebAuthnError,
   BiometricAvailability,
@@ -17,9 +20,40 @@ import {
   stringToUint8Array,
   uint8ArrayToBase64,
   base64ToUint8Array,
+  base64ToBase64Url,
   buildRelyingPartyEntity,
   resolveRelyingPartyId,
+  resolveExpectedOrigin,
 } from "@/config/webauthn";
+import {
+  COSE_ALG_ES256,
+  P256PublicKey,
+  WebAuthnVerificationError,
+  coseKeyToP256,
+  encodeP256CoseKey,
+  parseAuthenticatorData,
+  parseAttestationObject,
+  recoverP256PublicKeys,
+  verifyAssertion,
+  verifyAuthenticatorData,
+  verifyClientData,
+} from "./webAuthnVerifier";
+
+/**
+ * 需要口令才能加密/解密助记词时抛出
+ */
+class PassphraseRequiredError extends Error {
+  constructor() {
+    super(WEBAUTHN_CONFIG.ERROR_MESSAGES.PASSPHRASE_REQUIRED);
+    this.name = "PassphraseRequiredError";
+  }
+}
+
+interface SealingKey {
+  key: CryptoKey;
+  kdf: MnemonicEncryption["kdf"];
+  salt: Uint8Array;
+}
 
 class WebAuthnService {
   private isInitialized = false;
@@ -107,13 +141,31 @@ class WebAuthnService {
     }
   }
 
+  /**
+   * 检查浏览器是否声明支持 PRF 扩展（无法判断时返回 undefined）
+   */
+  async isPrfSupported(): Promise<boolean | undefined> {
+    if (!this.isWebAuthnSupported()) return false;
+    try {
+      if (typeof PublicKeyCredential.getClientCapabilities !== "function") {
+        return undefined;
+      }
+      const capabilities = await PublicKeyCredential.getClientCapabilities();
+      return capabilities["extension:prf"];
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * 注册生物识别凭证并保存钱包
+   * 助记词使用 AES-GCM 加密，密钥由 PRF 扩展输出派生；不支持 PRF 时使用口令
    */
   async registerCredentialAndSaveWallet(
     walletAddress: string,
     mnemonic: string,
-    walletName: string = "My Wallet"
+    walletName: string = "My Wallet",
+    passphrase?: string
   ): Promise<{
     success: boolean;
     credentialId?: string;
@@ -134,6 +186,7 @@ class WebAuthnService {
       const userId = generateUserId();
       const challenge = generateChallenge();
       const userIdBase64 = uint8ArrayToBase64(userId);
+      const salt = this.randomBytes(WEBAUTHN_CONFIG.ENCRYPTION.SALT_LENGTH);
 
       const createOptions: CredentialCreationOptions = {
         publicKey: {
@@ -148,6 +201,7 @@ class WebAuthnService {
           authenticatorSelection: WEBAUTHN_CONFIG.AUTHENTICATOR_SELECTION,
           timeout: WEBAUTHN_CONFIG.TIMEOUT.REGISTRATION,
           attestation: "direct",
+          extensions: { prf: { eval: { first: salt } } },
         },
       };
 
@@ -161,31 +215,54 @@ class WebAuthnService {
 
       const response = credential.response as AuthenticatorAttestationResponse;
       const credentialId = uint8ArrayToBase64(new Uint8Array(credential.rawId));
-      const publicKey = await this.extractPublicKeyFromAttestation(
-        response.attestationObject
+
+      // 解析 CBOR 证明对象，保存真实的 COSE 公钥
+      verifyClientData(response.clientDataJSON, {
+        type: "webauthn.create",
+        challenge,
+        origin: resolveExpectedOrigin(),
+      });
+      const attestation = parseAttestationObject(response.attestationObject);
+      await verifyAuthenticatorData(attestation.authData, resolveRelyingPartyId());
+      const sealingKey = await this.resolveRegistrationKey(
+        credential,
+        salt,
+        passphrase
+      );
+      const { encryptedMnemonic, encryption } = await this.sealMnemonic(
+        mnemonic,
+        sealingKey
       );
-      const encryptedMnemonic = await this.encryptMnemonic(mnemonic, publicKey);
 
       const walletCredential: StoredWalletCredential = {
         credentialId,
-        publicKey: uint8ArrayToBase64(publicKey),
-        counter: 0,
+        publicKey: uint8ArrayToBase64(attestation.publicKey),
+        publicKeyAlgorithm: attestation.publicKeyAlgorithm,
+        counter: attestation.authData.signCount,
         created: new Date().toISOString(),
         lastUsed: new Date().toISOString(),
         walletAddress,
         walletName,
         encryptedMnemonic,
+        encryption,
         userHandle: userIdBase64,
       };
 
       await this.storeWalletCredential(walletCredential);
-      console.log("✅ 生物识别注册成功，钱包已安全保存");
+      console.log(
+        `✅ 生物识别注册成功，钱包已安全保存（密钥来源：${encryption.kdf}）`
+      );
       return { success: true, credentialId };
     } catch (error: any) {
       console.error("❌ 生物识别注册失败:", error);
       let errorType: WebAuthnError["type"] = "UNKNOWN_ERROR";
       if (error.name === "NotAllowedError") errorType = "USER_CANCELLED";
       else if (error.name === "NotSupportedError") errorType = "NOT_SUPPORTED";
+      else if (error.name === "PassphraseRequiredError")
+        errorType = "PASSPHRASE_REQUIRED";
+      else if (error.name === "OperationError") errorType = "DECRYPTION_FAILED";
+      else if (error instanceof WebAuthnVerificationError)
+        errorType = error.type;
       return {
         success: false,
         error: {
@@ -201,8 +278,13 @@ class WebAuthnService {
 
   /**
    * 通过生物识别验证并恢复钱包
+   * 旧版 XOR 记录在解密成功后自动迁移到 AES-GCM
+   * 指定 selectedCredentialId 时只允许该凭证（用户已通过语音选择钱包）
    */
-  async authenticateAndRecoverWallet(): Promise<{
+  async authenticateAndRecoverWallet(
+    passphrase?: string,
+    selectedCredentialId?: string
+  ): Promise<{
     success: boolean;
     wallets?: WalletRecoveryInfo[];
     error?: WebAuthnError;
@@ -219,7 +301,10 @@ class WebAuthnService {
         };
       }
 
-      const storedCredentials = await this.getStoredCredentials();
+      const storedCredentials = (await this.getStoredCredentials()).filter(
+        (cred) =>
+          !selectedCredentialId || cred.credentialId === selectedCredentialId
+      );
       if (storedCredentials.length === 0) {
         return {
           success: false,
@@ -230,6 +315,22 @@ class WebAuthnService {
         };
       }
 
+      // PRF 记录使用已保存的输入；旧记录预先生成新盐，以便本次验证同时完成迁移
+      const prfInputs: Record<string, AuthenticationExtensionsPRFValues> = {};
+      const migrationSalts = new Map<string, Uint8Array>();
+      for (const cred of storedCredentials) {
+        let salt: Uint8Array | undefined;
+        if (cred.encryption?.kdf === "prf") {
+          salt = base64ToUint8Array(cred.encryption.salt);
+        } else if (!cred.encryption) {
+          salt = this.randomBytes(WEBAUTHN_CONFIG.ENCRYPTION.SALT_LENGTH);
+          migrationSalts.set(cred.credentialId, salt);
+        }
+        if (salt) {
+          prfInputs[base64ToBase64Url(cred.credentialId)] = { first: salt };
+        }
+      }
+
       const challenge = generateChallenge();
       const requestOptions: CredentialRequestOptions = {
         publicKey: {
@@ -241,6 +342,10 @@ class WebAuthnService {
           timeout: WEBAUTHN_CONFIG.TIMEOUT.AUTHENTICATION,
           userVerification: WEBAUTHN_CONFIG.USER_VERIFICATION,
           rpId: resolveRelyingPartyId(),
+          extensions:
+            Object.keys(prfInputs).length > 0
+              ? { prf: { evalByCredential: prfInputs } }
+              : undefined,
         },
       };
 
@@ -261,13 +366,32 @@ class WebAuthnService {
         throw new Error(WEBAUTHN_CONFIG.ERROR_MESSAGES.CREDENTIAL_NOT_FOUND);
       }
 
-      const publicKey = base64ToUint8Array(matchedCredential.publicKey);
-      const mnemonic = await this.decryptMnemonic(
-        matchedCredential.encryptedMnemonic,
-        publicKey
+      // 验证断言签名、挑战、来源和签名计数器
+      const counter = await verifyAssertion(credential, matchedCredential, {
+        challenge,
+        origin: resolveExpectedOrigin(),
+        rpId: resolveRelyingPartyId(),
+      });
+
+      const prfOutput = credential.getClientExtensionResults().prf?.results
+        ?.first;
+      const mnemonic = await this.openMnemonic(
+        matchedCredential,
+        prfOutput,
+        passphrase
       );
 
-      await this.updateLastUsed(credentialId);
+      if (!matchedCredential.encryption) {
+        await this.migrateLegacyCredential(
+          matchedCredential,
+          mnemonic,
+          prfOutput,
+          migrationSalts.get(credentialId),
+          passphrase
+        );
+      }
+
+      await this.updateLastUsed(credentialId, counter);
       console.log("✅ 生物识别验证成功，钱包恢复完成");
       return {
         success: true,
@@ -286,6 +410,11 @@ class WebAuthnService {
       let errorType: WebAuthnError["type"] = "UNKNOWN_ERROR";
       if (error.name === "NotAllowedError") errorType = "USER_CANCELLED";
       else if (error.name === "NotSupportedError") errorType = "NOT_SUPPORTED";
+      else if (error.name === "PassphraseRequiredError")
+        errorType = "PASSPHRASE_REQUIRED";
+      else if (error.name === "OperationError") errorType = "DECRYPTION_FAILED";
+      else if (error instanceof WebAuthnVerificationError)
+        errorType = error.type;
       return {
         success: false,
         error: {
@@ -299,6 +428,180 @@ class WebAuthnService {
     }
   }
 
+  /**
+   * 使用已保存的凭证进行一次用户验证
+   */
+  async verifyUser(): Promise<boolean> {
+    return (await this.assertStoredCredential()) !== null;
+  }
+
+  /**
+   * 用户验证并计算 PRF 输出（用于封装和解开钥匙串密钥）。
+   * 指定凭证时只允许该凭证；认证器不支持 PRF 或验证失败时返回 null
+   */
+  async verifyUserWithPrf(
+    salt: Uint8Array,
+    credentialId?: string
+  ): Promise<{ credentialId: string; prfOutput: BufferSource } | null> {
+    const credential = await this.assertStoredCredential(
+      { prf: { eval: { first: salt } } },
+      credentialId
+    );
+    const prfOutput = credential?.getClientExtensionResults().prf?.results?.first;
+    if (!credential || !prfOutput) return null;
+    return {
+      credentialId: uint8ArrayToBase64(new Uint8Array(credential.rawId)),
+      prfOutput,
+    };
+  }
+
+  /**
+   * 注册作为智能账户签名者的通行密钥（仅 ES256，不保存助记词）
+   */
+  async registerPasskeySigner(walletName: string = "Passkey Wallet"): Promise<{
+    success: boolean;
+    signer?: StoredPasskeySigner;
+    error?: WebAuthnError;
+  }> {
+    await this.ensureInitialized();
+    try {
+      if (!this.isWebAuthnSupported()) {
+        return {
+          success: false,
+          error: {
+            type: "NOT_SUPPORTED",
+            message: WEBAUTHN_CONFIG.ERROR_MESSAGES.NOT_SUPPORTED,
+          },
+        };
+      }
+
+      const challenge = generateChallenge();
+      const credential = (await navigator.credentials.create({
+        publicKey: {
+          challenge,
+          rp: buildRelyingPartyEntity(),
+          user: {
+            id: generateUserId(),
+            name: walletName,
+            displayName: walletName,
+          },
+          pubKeyCredParams: [{ type: "public-key", alg: COSE_ALG_ES256 }],
+          authenticatorSelection: WEBAUTHN_CONFIG.AUTHENTICATOR_SELECTION,
+          timeout: WEBAUTHN_CONFIG.TIMEOUT.REGISTRATION,
+          attestation: "none",
+        },
+      })) as PublicKeyCredential | null;
+
+      if (!credential) {
+        throw new Error(WEBAUTHN_CONFIG.ERROR_MESSAGES.REGISTRATION_FAILED);
+      }
+
+      const response = credential.response as AuthenticatorAttestationResponse;
+      verifyClientData(response.clientDataJSON, {
+        type: "webauthn.create",
+        challenge,
+        origin: resolveExpectedOrigin(),
+      });
+      const attestation = parseAttestationObject(response.attestationObject);
+      await verifyAuthenticatorData(attestation.authData, resolveRelyingPartyId());
+
+      const signer = this.toPasskeySigner(
+        uint8ArrayToBase64(new Uint8Array(credential.rawId)),
+        coseKeyToP256(attestation.publicKey),
+        walletName
+      );
+      await this.storePasskeySigner(signer);
+      console.log("✅ 通行密钥签名者注册成功");
+      return { success: true, signer };
+    } catch (error: any) {
+      console.error("❌ 通行密钥注册失败:", error);
+      return { success: false, error: this.toWebAuthnError(error) };
+    }
+  }
+
+  /**
+   * 已注册的通行密钥签名者
+   */
+  async getPasskeySigners(): Promise<StoredPasskeySigner[]> {
+    if (typeof window === "undefined") return [];
+    const stored = localStorage.getItem(
+      WEBAUTHN_CONFIG.STORAGE_KEYS.PASSKEY_SIGNERS
+    );
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  /**
+   * 使用通行密钥对挑战签名（例如 UserOperation 哈希），失败时抛出异常
+   */
+  async signWithPasskey(
+    credentialId: string,
+    challenge: Uint8Array
+  ): Promise<PasskeyAssertion> {
+    await this.ensureInitialized();
+    return this.getPasskeyAssertion(challenge, credentialId);
+  }
+
+  /**
+   * 本地记录丢失时从通行密钥恢复签名者：
+   * 一次签名可恢复两个候选公钥，第二次签名确定唯一公钥
+   */
+  async recoverPasskeySigner(walletName: string = "Passkey Wallet"): Promise<{
+    success: boolean;
+    signer?: StoredPasskeySigner;
+    error?: WebAuthnError;
+  }> {
+    await this.ensureInitialized();
+    try {
+      if (!this.isWebAuthnSupported()) {
+        return {
+          success: false,
+          error: {
+            type: "NOT_SUPPORTED",
+            message: WEBAUTHN_CONFIG.ERROR_MESSAGES.NOT_SUPPORTED,
+          },
+        };
+      }
+
+      // 不限定凭证，由用户选择设备上的通行密钥
+      const first = await this.getPasskeyAssertion(generateChallenge());
+      const existing = (await this.getPasskeySigners()).find(
+        (signer) => signer.credentialId === first.credentialId
+      );
+      if (existing) return { success: true, signer: existing };
+
+      const second = await this.getPasskeyAssertion(
+        generateChallenge(),
+        first.credentialId
+      );
+
+      const [firstCandidates, secondCandidates] = await Promise.all([
+        this.recoverCandidates(first),
+        this.recoverCandidates(second),
+      ]);
+      const publicKey = firstCandidates.find((candidate) =>
+        secondCandidates.some(
+          (other) =>
+            uint8ArrayToBase64(other.x) === uint8ArrayToBase64(candidate.x) &&
+            uint8ArrayToBase64(other.y) === uint8ArrayToBase64(candidate.y)
+        )
+      );
+      if (!publicKey) {
+        throw new WebAuthnVerificationError(
+          "VERIFICATION_FAILED",
+          "Could not recover the passkey public key"
+        );
+      }
+
+      const signer = this.toPasskeySigner(first.credentialId, publicKey, walletName);
+      await this.storePasskeySigner(signer);
+      console.log("✅ 通行密钥签名者已恢复");
+      return { success: true, signer };
+    } catch (error: any) {
+      console.error("❌ 通行密钥恢复失败:", error);
+      return { success: false, error: this.toWebAuthnError(error) };
+    }
+  }
+
   /**
    * 获取钱包恢复状态
    */
@@ -314,6 +617,7 @@ class WebAuthnService {
           walletName: cred.walletName,
           created: cred.created,
           lastUsed: cred.lastUsed,
+          encryption: cred.encryption?.kdf ?? "legacy",
         })),
         isRecovering: false,
         error: null,
@@ -355,6 +659,164 @@ class WebAuthnService {
 
   // === 私有方法 ===
 
+  /**
+   * 用已保存的凭证完成一次断言并校验签名；失败时返回 null
+   */
+  private async assertStoredCredential(
+    extensions?: AuthenticationExtensionsClientInputs,
+    credentialId?: string
+  ): Promise<PublicKeyCredential | null> {
+    await this.ensureInitialized();
+    try {
+      if (!this.isWebAuthnSupported()) return null;
+
+      const storedCredentials = (await this.getStoredCredentials()).filter(
+        (cred) => !credentialId || cred.credentialId === credentialId
+      );
+      if (storedCredentials.length === 0) return null;
+
+      const challenge = generateChallenge();
+      const credential = (await navigator.credentials.get({
+        publicKey: {
+          challenge,
+          allowCredentials: storedCredentials.map((cred) => ({
+            type: "public-key",
+            id: base64ToUint8Array(cred.credentialId),
+          })),
+          timeout: WEBAUTHN_CONFIG.TIMEOUT.AUTHENTICATION,
+          userVerification: WEBAUTHN_CONFIG.USER_VERIFICATION,
+          rpId: resolveRelyingPartyId(),
+          extensions,
+        },
+      })) as PublicKeyCredential | null;
+
+      if (!credential) return null;
+
+      const assertedId = uint8ArrayToBase64(new Uint8Array(credential.rawId));
+      const matched = storedCredentials.find(
+        (cred) => cred.credentialId === assertedId
+      );
+      if (!matched) return null;
+
+      const counter = await verifyAssertion(credential, matched, {
+        challenge,
+        origin: resolveExpectedOrigin(),
+        rpId: resolveRelyingPartyId(),
+      });
+      await this.updateLastUsed(assertedId, counter);
+      return credential;
+    } catch (error) {
+      console.error("❌ 用户验证失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 执行一次通行密钥断言并校验客户端数据（签名由链上验证器检查）
+   */
+  private async getPasskeyAssertion(
+    challenge: Uint8Array,
+    credentialId?: string
+  ): Promise<PasskeyAssertion> {
+    if (!this.isWebAuthnSupported()) {
+      throw new Error(WEBAUTHN_CONFIG.ERROR_MESSAGES.NOT_SUPPORTED);
+    }
+
+    const credential = (await navigator.credentials.get({
+      publicKey: {
+        challenge,
+        allowCredentials: credentialId
+          ? [{ type: "public-key", id: base64ToUint8Array(credentialId) }]
+          : [],
+        timeout: WEBAUTHN_CONFIG.TIMEOUT.AUTHENTICATION,
+        userVerification: WEBAUTHN_CONFIG.USER_VERIFICATION,
+        rpId: resolveRelyingPartyId(),
+      },
+    })) as PublicKeyCredential | null;
+
+    if (!credential) {
+      throw new Error(WEBAUTHN_CONFIG.ERROR_MESSAGES.AUTHENTICATION_FAILED);
+    }
+
+    const response = credential.response as AuthenticatorAssertionResponse;
+    verifyClientData(response.clientDataJSON, {
+      type: "webauthn.get",
+      challenge,
+      origin: resolveExpectedOrigin(),
+    });
+    const authenticatorData = new Uint8Array(response.authenticatorData);
+    await verifyAuthenticatorData(
+      parseAuthenticatorData(authenticatorData),
+      resolveRelyingPartyId()
+    );
+
+    return {
+      credentialId: uint8ArrayToBase64(new Uint8Array(credential.rawId)),
+      authenticatorData,
+      clientDataJSON: new TextDecoder().decode(response.clientDataJSON),
+      signature: new Uint8Array(response.signature),
+    };
+  }
+
+  private async recoverCandidates(
+    assertion: PasskeyAssertion
+  ): Promise<P256PublicKey[]> {
+    const clientDataHash = new Uint8Array(
+      await crypto.subtle.digest(
+        "SHA-256",
+        stringToUint8Array(assertion.clientDataJSON)
+      )
+    );
+    const signedData = new Uint8Array(
+      assertion.authenticatorData.length + clientDataHash.length
+    );
+    signedData.set(assertion.authenticatorData);
+    signedData.set(clientDataHash, assertion.authenticatorData.length);
+    return recoverP256PublicKeys(assertion.signature, signedData);
+  }
+
+  private toPasskeySigner(
+    credentialId: string,
+    publicKey: P256PublicKey,
+    walletName: string
+  ): StoredPasskeySigner {
+    const toHex = (bytes: Uint8Array) =>
+      "0x" + Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+    return {
+      credentialId,
+      publicKey: uint8ArrayToBase64(encodeP256CoseKey(publicKey)),
+      x: toHex(publicKey.x),
+      y: toHex(publicKey.y),
+      walletName,
+      created: new Date().toISOString(),
+    };
+  }
+
+  private async storePasskeySigner(signer: StoredPasskeySigner): Promise<void> {
+    const signers = (await this.getPasskeySigners()).filter(
+      (existing) => existing.credentialId !== signer.credentialId
+    );
+    signers.push(signer);
+    localStorage.setItem(
+      WEBAUTHN_CONFIG.STORAGE_KEYS.PASSKEY_SIGNERS,
+      JSON.stringify(signers)
+    );
+  }
+
+  private toWebAuthnError(error: any): WebAuthnError {
+    let errorType: WebAuthnError["type"] = "UNKNOWN_ERROR";
+    if (error.name === "NotAllowedError") errorType = "USER_CANCELLED";
+    else if (error.name === "NotSupportedError") errorType = "NOT_SUPPORTED";
+    else if (error instanceof WebAuthnVerificationError) errorType = error.type;
+    return {
+      type: errorType,
+      message:
+        WEBAUTHN_CONFIG.ERROR_MESSAGES[errorType] ||
+        WEBAUTHN_CONFIG.ERROR_MESSAGES.UNKNOWN_ERROR,
+      originalError: error,
+    };
+  }
+
   private async storeWalletCredential(
     credential: StoredWalletCredential
   ): Promise<void> {
@@ -381,13 +843,19 @@ class WebAuthnService {
     return stored ? JSON.parse(stored) : [];
   }
 
-  private async updateLastUsed(credentialId: string): Promise<void> {
+  private async updateLastUsed(
+    credentialId: string,
+    counter?: number
+  ): Promise<void> {
     const credentials = await this.getStoredCredentials();
     const credentialIndex = credentials.findIndex(
       (cred) => cred.credentialId === credentialId
     );
     if (credentialIndex >= 0) {
       credentials[credentialIndex].lastUsed = new Date().toISOString();
+      if (counter !== undefined) {
+        credentials[credentialIndex].counter = counter;
+      }
       localStorage.setItem(
         WEBAUTHN_CONFIG.STORAGE_KEYS.CREDENTIALS,
         JSON.stringify(credentials)
@@ -395,26 +863,205 @@ class WebAuthnService {
     }
   }
 
-  private async extractPublicKeyFromAttestation(
-    _attestationObject?: ArrayBuffer
-  ): Promise<Uint8Array> {
-    void _attestationObject
-    return new Uint8Array(32).fill(1);
+  /**
+   * 注册时确定加密密钥：优先 PRF 输出，否则使用口令
+   */
+  private async resolveRegistrationKey(
+    credential: PublicKeyCredential,
+    salt: Uint8Array,
+    passphrase?: string
+  ): Promise<SealingKey> {
+    const prf = credential.getClientExtensionResults().prf;
+    let prfOutput = prf?.results?.first;
+
+    // 部分认证器只在注册时启用 PRF，需要再做一次断言才能取得输出
+    if (!prfOutput && prf?.enabled) {
+      prfOutput = await this.evaluatePrf(credential.rawId, salt);
+    }
+
+    if (prfOutput) {
+      return { key: await this.deriveKeyFromPrf(prfOutput, salt), kdf: "prf", salt };
+    }
+    if (passphrase) {
+      return {
+        key: await this.deriveKeyFromPassphrase(passphrase, salt),
+        kdf: "pbkdf2",
+        salt,
+      };
+    }
+    throw new PassphraseRequiredError();
   }
 
-  private async encryptMnemonic(
-    mnemonic: string,
-    publicKey: Uint8Array
+  /**
+   * 对指定凭证执行一次带 PRF 输入的断言
+   */
+  private async evaluatePrf(
+    rawId: ArrayBuffer,
+    salt: Uint8Array
+  ): Promise<BufferSource | undefined> {
+    const assertion = (await navigator.credentials.get({
+      publicKey: {
+        challenge: generateChallenge(),
+        allowCredentials: [{ type: "public-key", id: rawId }],
+        timeout: WEBAUTHN_CONFIG.TIMEOUT.AUTHENTICATION,
+        userVerification: WEBAUTHN_CONFIG.USER_VERIFICATION,
+        rpId: resolveRelyingPartyId(),
+        extensions: { prf: { eval: { first: salt } } },
+      },
+    })) as PublicKeyCredential | null;
+    return assertion?.getClientExtensionResults().prf?.results?.first;
+  }
+
+  /**
+   * 解密已保存的助记词（支持 PRF、口令和旧版 XOR 记录）
+   */
+  private async openMnemonic(
+    credential: StoredWalletCredential,
+    prfOutput: BufferSource | undefined,
+    passphrase?: string
   ): Promise<string> {
-    const mnemonicBytes = stringToUint8Array(mnemonic);
-    const encrypted = new Uint8Array(mnemonicBytes.length);
-    for (let i = 0; i < mnemonicBytes.length; i++) {
-      encrypted[i] = mnemonicBytes[i] ^ publicKey[i % publicKey.length];
+    const { encryption } = credential;
+    if (!encryption) {
+      return this.decryptLegacyMnemonic(
+        credential.encryptedMnemonic,
+        base64ToUint8Array(credential.publicKey)
+      );
+    }
+
+    const salt = base64ToUint8Array(encryption.salt);
+    let key: CryptoKey;
+    if (encryption.kdf === "prf") {
+      if (!prfOutput) {
+        throw new Error(WEBAUTHN_CONFIG.ERROR_MESSAGES.DECRYPTION_FAILED);
+      }
+      key = await this.deriveKeyFromPrf(prfOutput, salt);
+    } else {
+      if (!passphrase) throw new PassphraseRequiredError();
+      key = await this.deriveKeyFromPassphrase(passphrase, salt);
     }
-    return uint8ArrayToBase64(encrypted);
+
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: base64ToUint8Array(encryption.iv) },
+      key,
+      base64ToUint8Array(credential.encryptedMnemonic)
+    );
+    return new TextDecoder().decode(plaintext);
   }
 
-  private async decryptMnemonic(
+  /**
+   * 将旧版 XOR 记录重新加密为 AES-GCM 并保存
+   */
+  private async migrateLegacyCredential(
+    credential: StoredWalletCredential,
+    mnemonic: string,
+    prfOutput: BufferSource | undefined,
+    prfSalt: Uint8Array | undefined,
+    passphrase?: string
+  ): Promise<void> {
+    let sealingKey: SealingKey;
+    if (prfOutput && prfSalt) {
+      sealingKey = {
+        key: await this.deriveKeyFromPrf(prfOutput, prfSalt),
+        kdf: "prf",
+        salt: prfSalt,
+      };
+    } else if (passphrase) {
+      const salt = this.randomBytes(WEBAUTHN_CONFIG.ENCRYPTION.SALT_LENGTH);
+      sealingKey = {
+        key: await this.deriveKeyFromPassphrase(passphrase, salt),
+        kdf: "pbkdf2",
+        salt,
+      };
+    } else {
+      throw new PassphraseRequiredError();
+    }
+
+    const sealed = await this.sealMnemonic(mnemonic, sealingKey);
+    await this.storeWalletCredential({ ...credential, ...sealed });
+    console.log(`🔐 旧版钱包记录已迁移到 AES-GCM（密钥来源：${sealingKey.kdf}）`);
+  }
+
+  private async sealMnemonic(
+    mnemonic: string,
+    sealingKey: SealingKey
+  ): Promise<{ encryptedMnemonic: string; encryption: MnemonicEncryption }> {
+    const iv = this.randomBytes(WEBAUTHN_CONFIG.ENCRYPTION.IV_LENGTH);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      sealingKey.key,
+      stringToUint8Array(mnemonic)
+    );
+    return {
+      encryptedMnemonic: uint8ArrayToBase64(new Uint8Array(ciphertext)),
+      encryption: {
+        version: WEBAUTHN_CONFIG.ENCRYPTION.VERSION,
+        kdf: sealingKey.kdf,
+        salt: uint8ArrayToBase64(sealingKey.salt),
+        iv: uint8ArrayToBase64(iv),
+      },
+    };
+  }
+
+  /**
+   * PRF 输出经 HKDF 派生为 AES-GCM 密钥
+   */
+  private async deriveKeyFromPrf(
+    prfOutput: BufferSource,
+    salt: Uint8Array
+  ): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey("raw", prfOutput, "HKDF", false, [
+      "deriveKey",
+    ]);
+    return crypto.subtle.deriveKey(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt,
+        info: stringToUint8Array(WEBAUTHN_CONFIG.ENCRYPTION.HKDF_INFO),
+      },
+      baseKey,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+
+  /**
+   * 口令经 PBKDF2 派生为 AES-GCM 密钥
+   */
+  private async deriveKeyFromPassphrase(
+    passphrase: string,
+    salt: Uint8Array
+  ): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey(
+      "raw",
+      stringToUint8Array(passphrase),
+      "PBKDF2",
+      false,
+      ["deriveKey"]
+    );
+    return crypto.subtle.deriveKey(
+      {
+        name: "PBKDF2",
+        hash: "SHA-256",
+        salt,
+        iterations: WEBAUTHN_CONFIG.ENCRYPTION.PBKDF2_ITERATIONS,
+      },
+      baseKey,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+
+  private randomBytes(length: number): Uint8Array {
+    return crypto.getRandomValues(new Uint8Array(length));
+  }
+
+  /**
+   * 仅用于读取旧版记录，新记录不再使用 XOR
+   */
+  private async decryptLegacyMnemonic(
     encryptedMnemonic: string,
     publicKey: Uint8Array
   ): Promise<string> {
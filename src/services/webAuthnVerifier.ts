@@ -0,0 +1,513 @@
+/**
+ * Echo Wallet - WebAuthn response verification
+ * Decodes attestation objects (CBOR/COSE) and verifies assertion signatures,
+ * client data and sign counters in the browser with WebCrypto.
+ */
+
+import { StoredWalletCredential, WebAuthnErrorType } from '@/types/webauthn'
+import {
+  WEBAUTHN_CONFIG,
+  base64ToBase64Url,
+  base64ToUint8Array,
+  stringToUint8Array,
+  uint8ArrayToBase64
+} from '@/config/webauthn'
+
+// COSE algorithm identifiers accepted at registration
+export const COSE_ALG_ES256 = -7
+export const COSE_ALG_RS256 = -257
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01
+const FLAG_USER_VERIFIED = 0x04
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40
+
+type CborValue = number | bigint | string | boolean | null | undefined | Uint8Array | CborValue[] | Map<CborValue, CborValue>
+
+export interface AuthenticatorData {
+  rpIdHash: Uint8Array
+  flags: number
+  signCount: number
+  credentialId?: Uint8Array
+  // Raw COSE_Key bytes of the attested credential
+  credentialPublicKey?: Uint8Array
+}
+
+export interface ParsedAttestation {
+  fmt: string
+  authData: AuthenticatorData
+  publicKey: Uint8Array
+  publicKeyAlgorithm: number
+}
+
+/**
+ * Verification failure; `type` maps straight onto the WebAuthn error surfaced to the UI.
+ */
+export class WebAuthnVerificationError extends Error {
+  constructor(
+    readonly type: WebAuthnErrorType,
+    message: string
+  ) {
+    super(message)
+    this.name = 'WebAuthnVerificationError'
+  }
+}
+
+/**
+ * Decode a single CBOR item (RFC 8949). Returns the value and the offset just past it.
+ * Supports the subset WebAuthn uses: integers, byte/text strings, arrays, maps and simple values.
+ */
+export function decodeCbor(bytes: Uint8Array, offset = 0): { value: CborValue; end: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const initial = bytes[offset]
+  if (initial === undefined) throw new Error('CBOR: unexpected end of input')
+
+  const majorType = initial >> 5
+  const info = initial & 0x1f
+  let position = offset + 1
+
+  const readLength = (): number => {
+    if (info < 24) return info
+    if (info === 24) return bytes[position++]
+    if (info === 25) {
+      const length = view.getUint16(position)
+      position += 2
+      return length
+    }
+    if (info === 26) {
+      const length = view.getUint32(position)
+      position += 4
+      return length
+    }
+    if (info === 27) {
+      const length = view.getBigUint64(position)
+      position += 8
+      if (length > BigInt(Number.MAX_SAFE_INTEGER)) throw new Error('CBOR: integer too large')
+      return Number(length)
+    }
+    throw new Error('CBOR: indefinite lengths are not supported')
+  }
+
+  switch (majorType) {
+    case 0:
+      return { value: readLength(), end: position }
+    case 1:
+      return { value: -1 - readLength(), end: position }
+    case 2: {
+      const length = readLength()
+      return { value: bytes.slice(position, position + length), end: position + length }
+    }
+    case 3: {
+      const length = readLength()
+      return { value: new TextDecoder().decode(bytes.subarray(position, position + length)), end: position + length }
+    }
+    case 4: {
+      const length = readLength()
+      const items: CborValue[] = []
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(bytes, position)
+        items.push(item.value)
+        position = item.end
+      }
+      return { value: items, end: position }
+    }
+    case 5: {
+      const length = readLength()
+      const map = new Map<CborValue, CborValue>()
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(bytes, position)
+        const entry = decodeCbor(bytes, key.end)
+        map.set(key.value, entry.value)
+        position = entry.end
+      }
+      return { value: map, end: position }
+    }
+    case 6:
+      // Tags are skipped; WebAuthn structures do not rely on them
+      readLength()
+      return decodeCbor(bytes, position)
+    case 7:
+      if (info === 20) return { value: false, end: position }
+      if (info === 21) return { value: true, end: position }
+      if (info === 22) return { value: null, end: position }
+      if (info === 23) return { value: undefined, end: position }
+      throw new Error(`CBOR: unsupported simple value ${info}`)
+    default:
+      throw new Error(`CBOR: unsupported major type ${majorType}`)
+  }
+}
+
+/**
+ * Parse authenticator data (WebAuthn §6.1), including attested credential data when present
+ */
+export function parseAuthenticatorData(authData: Uint8Array): AuthenticatorData {
+  if (authData.length < 37) throw new Error('Authenticator data too short')
+
+  const view = new DataView(authData.buffer, authData.byteOffset, authData.byteLength)
+  const result: AuthenticatorData = {
+    rpIdHash: authData.slice(0, 32),
+    flags: authData[32],
+    signCount: view.getUint32(33)
+  }
+
+  if (result.flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    // aaguid (16 bytes), credentialIdLength (2 bytes), credentialId, credentialPublicKey
+    let position = 37 + 16
+    const credentialIdLength = view.getUint16(position)
+    position += 2
+    result.credentialId = authData.slice(position, position + credentialIdLength)
+    position += credentialIdLength
+
+    const { end } = decodeCbor(authData, position)
+    result.credentialPublicKey = authData.slice(position, end)
+  }
+
+  return result
+}
+
+/**
+ * Decode an attestation object and extract the credential public key.
+ * The attestation statement itself is not checked: the wallet trusts any authenticator
+ * the user registers, but it must know the real key to verify later assertions.
+ */
+export function parseAttestationObject(attestationObject: ArrayBuffer): ParsedAttestation {
+  const { value } = decodeCbor(new Uint8Array(attestationObject))
+  if (!(value instanceof Map)) throw new Error('Attestation object is not a CBOR map')
+
+  const authDataBytes = value.get('authData')
+  if (!(authDataBytes instanceof Uint8Array)) throw new Error('Attestation object has no authData')
+
+  const authData = parseAuthenticatorData(authDataBytes)
+  if (!authData.credentialPublicKey) throw new Error('Attestation has no credential public key')
+
+  const coseKey = decodeCbor(authData.credentialPublicKey).value
+  if (!(coseKey instanceof Map)) throw new Error('Credential public key is not a COSE key')
+
+  const algorithm = coseKey.get(3)
+  if (algorithm !== COSE_ALG_ES256 && algorithm !== COSE_ALG_RS256) {
+    throw new Error(`Unsupported COSE algorithm: ${String(algorithm)}`)
+  }
+
+  return {
+    fmt: String(value.get('fmt') ?? 'none'),
+    authData,
+    publicKey: authData.credentialPublicKey,
+    publicKeyAlgorithm: algorithm
+  }
+}
+
+/**
+ * Check clientDataJSON of a registration or assertion ceremony
+ */
+export function verifyClientData(
+  clientDataJSON: ArrayBuffer,
+  expected: { type: 'webauthn.create' | 'webauthn.get'; challenge: Uint8Array; origin: string }
+) {
+  let clientData: { type?: string; challenge?: string; origin?: string }
+  try {
+    clientData = JSON.parse(new TextDecoder().decode(clientDataJSON))
+  } catch {
+    throw new WebAuthnVerificationError('VERIFICATION_FAILED', 'Client data is not valid JSON')
+  }
+
+  if (clientData.type !== expected.type) {
+    throw new WebAuthnVerificationError('VERIFICATION_FAILED', `Unexpected ceremony type: ${clientData.type}`)
+  }
+  if (clientData.challenge !== toBase64Url(expected.challenge)) {
+    throw new WebAuthnVerificationError('VERIFICATION_FAILED', 'Challenge mismatch')
+  }
+  if (clientData.origin !== expected.origin) {
+    throw new WebAuthnVerificationError('VERIFICATION_FAILED', `Unexpected origin: ${clientData.origin}`)
+  }
+}
+
+/**
+ * Check the relying party hash and flags of authenticator data
+ */
+export async function verifyAuthenticatorData(authData: AuthenticatorData, rpId: string) {
+  const expectedRpIdHash = new Uint8Array(await crypto.subtle.digest('SHA-256', stringToUint8Array(rpId)))
+  if (!bytesEqual(authData.rpIdHash, expectedRpIdHash)) {
+    throw new WebAuthnVerificationError('VERIFICATION_FAILED', 'Relying party ID hash mismatch')
+  }
+  if (!(authData.flags & FLAG_USER_PRESENT)) {
+    throw new WebAuthnVerificationError('VERIFICATION_FAILED', 'User presence flag not set')
+  }
+  if (WEBAUTHN_CONFIG.USER_VERIFICATION === 'required' && !(authData.flags & FLAG_USER_VERIFIED)) {
+    throw new WebAuthnVerificationError('VERIFICATION_FAILED', 'User verification flag not set')
+  }
+}
+
+/**
+ * Verify an assertion against the stored credential.
+ * Returns the new sign counter to persist.
+ */
+export async function verifyAssertion(
+  credential: PublicKeyCredential,
+  stored: StoredWalletCredential,
+  expected: { challenge: Uint8Array; origin: string; rpId: string }
+): Promise<number> {
+  const response = credential.response as AuthenticatorAssertionResponse
+
+  verifyClientData(response.clientDataJSON, {
+    type: 'webauthn.get',
+    challenge: expected.challenge,
+    origin: expected.origin
+  })
+
+  const authDataBytes = new Uint8Array(response.authenticatorData)
+  const authData = parseAuthenticatorData(authDataBytes)
+  await verifyAuthenticatorData(authData, expected.rpId)
+
+  // Records created before key extraction only hold a placeholder key, so nothing proves
+  // the assertion came from the registered authenticator
+  if (stored.publicKeyAlgorithm === undefined) {
+    throw new WebAuthnVerificationError('REREGISTRATION_REQUIRED', WEBAUTHN_CONFIG.ERROR_MESSAGES.REREGISTRATION_REQUIRED)
+  }
+
+  const clientDataHash = new Uint8Array(await crypto.subtle.digest('SHA-256', response.clientDataJSON))
+  const signedData = concatBytes(authDataBytes, clientDataHash)
+  const valid = await verifySignature(
+    base64ToUint8Array(stored.publicKey),
+    stored.publicKeyAlgorithm,
+    new Uint8Array(response.signature),
+    signedData
+  )
+  if (!valid) {
+    throw new WebAuthnVerificationError('VERIFICATION_FAILED', 'Assertion signature is invalid')
+  }
+
+  // Authenticators without a counter always report zero; otherwise it must strictly increase
+  if ((authData.signCount !== 0 || stored.counter !== 0) && authData.signCount <= stored.counter) {
+    throw new WebAuthnVerificationError(
+      'CLONED_AUTHENTICATOR',
+      `Sign counter did not increase (stored ${stored.counter}, received ${authData.signCount})`
+    )
+  }
+
+  return authData.signCount
+}
+
+/**
+ * Verify a signature with a COSE-encoded public key
+ */
+export async function verifySignature(
+  coseKeyBytes: Uint8Array,
+  algorithm: number,
+  signature: Uint8Array,
+  data: Uint8Array
+): Promise<boolean> {
+  const key = await importCoseKey(coseKeyBytes, algorithm)
+
+  if (algorithm === COSE_ALG_ES256) {
+    return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, derToRawSignature(signature), data)
+  }
+  return crypto.subtle.verify({ name: 'RSASSA-PKCS1-v1_5' }, key, signature, data)
+}
+
+/**
+ * Convert a COSE_Key into a WebCrypto verification key
+ */
+export async function importCoseKey(coseKeyBytes: Uint8Array, algorithm: number): Promise<CryptoKey> {
+  const coseKey = decodeCbor(coseKeyBytes).value
+  if (!(coseKey instanceof Map)) throw new Error('Invalid COSE key')
+
+  if (algorithm === COSE_ALG_ES256) {
+    // kty 2 (EC2), crv 1 (P-256), x = -2, y = -3
+    const x = coseKey.get(-2)
+    const y = coseKey.get(-3)
+    if (coseKey.get(1) !== 2 || coseKey.get(-1) !== 1 || !(x instanceof Uint8Array) || !(y instanceof Uint8Array)) {
+      throw new Error('COSE key is not a P-256 key')
+    }
+    return crypto.subtle.importKey(
+      'jwk',
+      { kty: 'EC', crv: 'P-256', x: toBase64Url(x), y: toBase64Url(y), ext: true },
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    )
+  }
+
+  if (algorithm === COSE_ALG_RS256) {
+    // kty 3 (RSA), n = -1, e = -2
+    const n = coseKey.get(-1)
+    const e = coseKey.get(-2)
+    if (coseKey.get(1) !== 3 || !(n instanceof Uint8Array) || !(e instanceof Uint8Array)) {
+      throw new Error('COSE key is not an RSA key')
+    }
+    return crypto.subtle.importKey(
+      'jwk',
+      { kty: 'RSA', alg: 'RS256', n: toBase64Url(n), e: toBase64Url(e), ext: true },
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    )
+  }
+
+  throw new Error(`Unsupported COSE algorithm: ${algorithm}`)
+}
+
+/**
+ * WebAuthn ES256 signatures are ASN.1 DER; WebCrypto expects raw r || s
+ */
+export function derToRawSignature(der: Uint8Array, size = 32): Uint8Array {
+  if (der[0] !== 0x30) throw new Error('Signature is not a DER sequence')
+
+  let position = der[1] & 0x80 ? 2 + (der[1] & 0x7f) : 2
+  const readInteger = (): Uint8Array => {
+    if (der[position] !== 0x02) throw new Error('Malformed DER integer')
+    const length = der[position + 1]
+    let value = der.subarray(position + 2, position + 2 + length)
+    position += 2 + length
+    while (value.length > size && value[0] === 0) value = value.subarray(1)
+    if (value.length > size) throw new Error('DER integer too long')
+    const padded = new Uint8Array(size)
+    padded.set(value, size - value.length)
+    return padded
+  }
+
+  return concatBytes(readInteger(), readInteger())
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return base64ToBase64Url(uint8ArrayToBase64(bytes))
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length)
+  result.set(a)
+  result.set(b, a.length)
+  return result
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index])
+}
+
+// === P-256 public key recovery ===
+
+const P256 = {
+  p: BigInt('0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff'),
+  n: BigInt('0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551'),
+  b: BigInt('0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b'),
+  gx: BigInt('0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296'),
+  gy: BigInt('0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5')
+}
+
+// Order of the P-256 group; on-chain verifiers reject signatures with s above half of it
+export const P256_CURVE_ORDER = P256.n
+
+type AffinePoint = { x: bigint; y: bigint } | null
+
+export interface P256PublicKey {
+  x: Uint8Array
+  y: Uint8Array
+}
+
+/**
+ * Recover the candidate P-256 public keys that produced an ES256 signature over `data`.
+ * Two candidates come back (one per parity of R); a second signature from the same
+ * key disambiguates them. Used to restore a passkey account without stored state.
+ */
+export async function recoverP256PublicKeys(derSignature: Uint8Array, data: Uint8Array): Promise<P256PublicKey[]> {
+  const raw = derToRawSignature(derSignature)
+  const r = bytesToBigInt(raw.subarray(0, 32))
+  const s = bytesToBigInt(raw.subarray(32))
+  const e = bytesToBigInt(new Uint8Array(await crypto.subtle.digest('SHA-256', data))) % P256.n
+
+  const rInverse = modPow(r, P256.n - BigInt(2), P256.n)
+  const u1 = mod(-e * rInverse, P256.n)
+  const u2 = mod(s * rInverse, P256.n)
+  const generator = { x: P256.gx, y: P256.gy }
+
+  const candidates: P256PublicKey[] = []
+  const ySquared = mod(r ** BigInt(3) - BigInt(3) * r + P256.b, P256.p)
+  const y = modPow(ySquared, (P256.p + BigInt(1)) / BigInt(4), P256.p)
+  if (mod(y * y, P256.p) !== ySquared) return candidates
+
+  for (const ry of [y, P256.p - y]) {
+    const q = pointAdd(scalarMultiply(generator, u1), scalarMultiply({ x: r, y: ry }, u2))
+    if (q) candidates.push({ x: bigIntToBytes(q.x), y: bigIntToBytes(q.y) })
+  }
+  return candidates
+}
+
+function pointAdd(a: AffinePoint, b: AffinePoint): AffinePoint {
+  if (!a) return b
+  if (!b) return a
+  const { p } = P256
+
+  let slope: bigint
+  if (a.x === b.x) {
+    if (mod(a.y + b.y, p) === BigInt(0)) return null
+    // Doubling with a = -3
+    slope = mod((BigInt(3) * a.x * a.x - BigInt(3)) * modPow(BigInt(2) * a.y, p - BigInt(2), p), p)
+  } else {
+    slope = mod((b.y - a.y) * modPow(mod(b.x - a.x, p), p - BigInt(2), p), p)
+  }
+
+  const x = mod(slope * slope - a.x - b.x, p)
+  return { x, y: mod(slope * (a.x - x) - a.y, p) }
+}
+
+function scalarMultiply(point: AffinePoint, scalar: bigint): AffinePoint {
+  let result: AffinePoint = null
+  let addend = point
+  while (scalar > BigInt(0)) {
+    if (scalar & BigInt(1)) result = pointAdd(result, addend)
+    addend = pointAdd(addend, addend)
+    scalar >>= BigInt(1)
+  }
+  return result
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = BigInt(1)
+  base = mod(base, modulus)
+  while (exponent > BigInt(0)) {
+    if (exponent & BigInt(1)) result = (result * base) % modulus
+    base = (base * base) % modulus
+    exponent >>= BigInt(1)
+  }
+  return result
+}
+
+function mod(value: bigint, modulus: bigint): bigint {
+  const result = value % modulus
+  return result >= BigInt(0) ? result : result + modulus
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((value, byte) => (value << BigInt(8)) | BigInt(byte), BigInt(0))
+}
+
+function bigIntToBytes(value: bigint, size = 32): Uint8Array {
+  const bytes = new Uint8Array(size)
+  for (let i = size - 1; i >= 0; i--) {
+    bytes[i] = Number(value & BigInt(0xff))
+    value >>= BigInt(8)
+  }
+  return bytes
+}
+
+/**
+ * Extract the P-256 coordinates from a COSE_Key
+ */
+export function coseKeyToP256(coseKeyBytes: Uint8Array): P256PublicKey {
+  const coseKey = decodeCbor(coseKeyBytes).value
+  if (!(coseKey instanceof Map)) throw new Error('Invalid COSE key')
+
+  const x = coseKey.get(-2)
+  const y = coseKey.get(-3)
+  if (coseKey.get(3) !== COSE_ALG_ES256 || !(x instanceof Uint8Array) || !(y instanceof Uint8Array)) {
+    throw new Error('COSE key is not an ES256 key')
+  }
+  return { x, y }
+}
+
+/**
+ * Encode P-256 coordinates as a COSE_Key: {1: 2, 3: -7, -1: 1, -2: x, -3: y}
+ */
+export function encodeP256CoseKey(key: P256PublicKey): Uint8Array {
+  const header = [0xa5, 0x01, 0x02, 0x03, 0x26, 0x20, 0x01]
+  return new Uint8Array([...header, 0x21, 0x58, 0x20, ...key.x, 0x22, 0x58, 0x20, ...key.y])
+}
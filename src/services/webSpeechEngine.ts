@@ -0,0 +1,184 @@
+/**
+ * Echo Wallet - Web Speech API engine
+ * Recognition with the browser's SpeechRecognition and speech with speechSynthesis.
+ * Most browsers send the audio to their vendor's speech service. BrowserSynthesis is
+ * shared with the on-device engine, which keeps to voices installed on the device.
+ */
+
+import { RecognitionAlternative } from '@/types'
+import { RecognitionHandlers, RecognitionRequest, SpeechEngine, SpeechVoice, UtteranceRequest } from './speechEngine'
+
+// Speech recognition type declarations
+interface SpeechRecognitionEvent {
+  results: SpeechRecognitionResultList
+  resultIndex: number
+}
+
+interface SpeechRecognitionErrorEvent {
+  error: string
+  message: string
+}
+
+/**
+ * speechSynthesis, optionally limited to the voices the device synthesizes itself
+ */
+export class BrowserSynthesis {
+  private synthesis: SpeechSynthesis | null = null
+  private voices: SpeechSynthesisVoice[] = []
+  private current: SpeechSynthesisUtterance | null = null
+  private warnedNoLocalVoice = false
+
+  constructor(private readonly onDeviceOnly: boolean) {}
+
+  private ensureSynthesis() {
+    if (this.synthesis || typeof window === 'undefined' || !window.speechSynthesis) return
+    this.synthesis = window.speechSynthesis
+
+    const populateVoices = () => {
+      if (!this.synthesis) return
+      this.voices = this.synthesis.getVoices()
+    }
+
+    populateVoices()
+    this.synthesis.addEventListener('voiceschanged', populateVoices)
+  }
+
+  isAvailable(): boolean {
+    this.ensureSynthesis()
+    return !!this.synthesis
+  }
+
+  getVoices(): SpeechVoice[] {
+    this.ensureSynthesis()
+    if (this.voices.length === 0 && this.synthesis) {
+      this.voices = this.synthesis.getVoices()
+    }
+
+    return this.voices
+      .filter((voice) => !this.onDeviceOnly || voice.localService)
+      .map((voice) => ({ id: voice.voiceURI, name: voice.name, lang: voice.lang, onDevice: voice.localService }))
+  }
+
+  speak(request: UtteranceRequest, onEnd: () => void) {
+    this.ensureSynthesis()
+    if (!this.synthesis) {
+      onEnd()
+      return
+    }
+
+    const utterance = new SpeechSynthesisUtterance(request.text)
+    const voice = this.voices.find((candidate) => candidate.voiceURI === request.voiceId)
+    if (voice) {
+      utterance.voice = voice
+    } else if (this.onDeviceOnly && !this.warnedNoLocalVoice) {
+      // Better heard through the browser's default voice than not at all
+      console.warn('No on-device voice is installed; speaking with the browser default voice')
+      this.warnedNoLocalVoice = true
+    }
+    utterance.lang = request.language
+    utterance.rate = request.rate
+    utterance.pitch = request.pitch
+    utterance.volume = request.volume
+
+    const finish = () => {
+      if (this.current !== utterance) return
+      this.current = null
+      onEnd()
+    }
+    // Errors, including cancellation by another page, end the message too
+    utterance.onend = finish
+    utterance.onerror = finish
+    this.current = utterance
+    this.synthesis.speak(utterance)
+  }
+
+  cancel() {
+    this.current = null
+    this.synthesis?.cancel()
+  }
+}
+
+class WebSpeechEngine implements SpeechEngine {
+  readonly id = 'web-speech'
+  readonly label = 'Browser speech service'
+  readonly onDevice = false
+  private recognition: any = null
+  private handlers: RecognitionHandlers | null = null
+  private synthesis = new BrowserSynthesis(false)
+
+  /**
+   * Initialize speech recognition.
+   */
+  private ensureRecognition() {
+    if (this.recognition || typeof window === 'undefined') return
+
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
+    if (!SpeechRecognition) {
+      console.warn('Speech recognition is not supported in this browser')
+      return
+    }
+
+    this.recognition = new SpeechRecognition()
+    this.recognition.continuous = false
+    this.recognition.interimResults = false
+
+    this.recognition.onspeechstart = () => this.handlers?.onSpeechStart()
+
+    this.recognition.onresult = (event: SpeechRecognitionEvent) => {
+      const result = event.results[0]
+      if (!result.isFinal) return
+
+      const alternatives: RecognitionAlternative[] = Array.from({ length: result.length }, (_, index) => ({
+        transcript: result[index].transcript.trim(),
+        confidence: result[index].confidence
+      }))
+      this.handlers?.onResult(alternatives)
+    }
+
+    this.recognition.onerror = (event: SpeechRecognitionErrorEvent) => this.handlers?.onError(event.error)
+    this.recognition.onend = () => this.handlers?.onEnd()
+  }
+
+  canRecognize(): boolean {
+    this.ensureRecognition()
+    return !!this.recognition
+  }
+
+  canSpeak(): boolean {
+    return this.synthesis.isAvailable()
+  }
+
+  startRecognition(request: RecognitionRequest, handlers: RecognitionHandlers) {
+    this.ensureRecognition()
+    this.recognition.lang = request.language
+    this.recognition.maxAlternatives = request.maxAlternatives
+    this.handlers = handlers
+    this.recognition.start()
+  }
+
+  stopRecognition() {
+    this.recognition?.stop()
+  }
+
+  speak(utterance: UtteranceRequest, onEnd: () => void) {
+    this.synthesis.speak(utterance, onEnd)
+  }
+
+  cancelSpeech() {
+    this.synthesis.cancel()
+  }
+
+  getVoices(): SpeechVoice[] {
+    return this.synthesis.getVoices()
+  }
+}
+
+export const webSpeechEngine = new WebSpeechEngine()
+
+// Global type declarations
+declare global {
+  interface Window {
+    SpeechRecognition: any
+    webkitSpeechRecognition: any
+  }
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WALLET_CONFIG } from "@/config";
+import { Transaction } from "@/types";
+import { encryptedStorage } from "./encryptedStorage";
+import { useWalletStore } from "./index";
+
+const STORE_NAME = "echo_wallet_registry";
+
+// Just enough IndexedDB for the key store: one database with one object store
+function createKeyDatabase() {
+  const records = new Map<IDBValidKey, unknown>();
+  const respond = (result: unknown) => {
+    const request: { result: unknown; onsuccess?: () => void } = { result };
+    setTimeout(() => request.onsuccess?.(), 0);
+    return request;
+  };
+  const store = {
+    get: (key: IDBValidKey) => respond(records.get(key)),
+    put: (value: unknown, key: IDBValidKey) => {
+      records.set(key, value);
+      return respond(key);
+    },
+  };
+  const db = { transaction: () => ({ objectStore: () => store }) };
+  return { open: () => respond(db) };
+}
+
+// A saved history at its cap, with the fields a synced transfer carries
+const fullHistory = (): Transaction[] =>
+  Array.from({ length: WALLET_CONFIG.HISTORY.MAX_TRANSACTIONS }, (_, index) => ({
+    hash: `0x${index.toString(16).padStart(64, "0")}`,
+    from: "0x1111111111111111111111111111111111111111",
+    to: "0x2222222222222222222222222222222222222222",
+    value: "0.125",
+    tokenSymbol: "USDC",
+    tokenAddress: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+    gasUsed: "65000",
+    timestamp: 1700000000000 + index,
+    status: "confirmed",
+    chainId: 1,
+    nonce: index,
+    blockNumber: 19000000 + index,
+  }));
+
+describe("encryptedStorage", () => {
+  let saved: Map<string, string>;
+
+  beforeEach(() => {
+    saved = new Map();
+    vi.stubGlobal("window", globalThis);
+    vi.stubGlobal("indexedDB", createKeyDatabase());
+    vi.stubGlobal("localStorage", {
+      getItem: (name: string) => saved.get(name) ?? null,
+      setItem: (name: string, value: string) => saved.set(name, value),
+      removeItem: (name: string) => saved.delete(name),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("seals and restores a full transaction history", async () => {
+    const history = fullHistory();
+    useWalletStore.setState({ transactions: history });
+    await vi.waitFor(() => expect(saved.has(STORE_NAME)).toBe(true));
+
+    // Only ciphertext reaches localStorage
+    expect(saved.get(STORE_NAME)).not.toContain(history[0].hash);
+
+    const restored = JSON.parse((await encryptedStorage.getItem(STORE_NAME)) as string);
+    expect(restored.state.transactions).toEqual(history);
+  });
+});
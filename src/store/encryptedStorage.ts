@@ -0,0 +1,116 @@
+/**
+ * Echo Wallet - Encrypted persistence for the store
+ * Values are sealed with AES-GCM before they reach localStorage. The key is a
+ * non-extractable CryptoKey kept in IndexedDB, so its raw bytes are never exposed.
+ */
+
+import type { StateStorage } from "zustand/middleware";
+
+const KEY_DB_NAME = "echo_wallet_keys";
+const KEY_STORE_NAME = "keys";
+const STORAGE_KEY_ID = "store";
+
+let storageKeyPromise: Promise<CryptoKey> | null = null;
+
+interface SealedValue {
+  iv: string;
+  data: string;
+}
+
+function openKeyDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(KEY_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runKeyRequest<T>(db: IDBDatabase, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(KEY_STORE_NAME, mode).objectStore(KEY_STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Load the storage key, creating it on first use
+ */
+function getStorageKey(): Promise<CryptoKey> {
+  if (!storageKeyPromise) {
+    storageKeyPromise = (async () => {
+      const db = await openKeyDatabase();
+      const existing = await runKeyRequest<CryptoKey | undefined>(db, "readonly", (store) => store.get(STORAGE_KEY_ID));
+      if (existing) return existing;
+
+      const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+      await runKeyRequest(db, "readwrite", (store) => store.put(key, STORAGE_KEY_ID));
+      return key;
+    })();
+    storageKeyPromise.catch(() => {
+      storageKeyPromise = null;
+    });
+  }
+  return storageKeyPromise;
+}
+
+// fromCharCode takes one argument per byte, so a whole saved history would overflow the stack
+const BASE64_CHUNK_SIZE = 0x8000;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(offset, offset + BASE64_CHUNK_SIZE)));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function isAvailable(): boolean {
+  return typeof window !== "undefined" && typeof indexedDB !== "undefined" && !!window.crypto?.subtle;
+}
+
+export const encryptedStorage: StateStorage = {
+  getItem: async (name) => {
+    if (!isAvailable()) return null;
+
+    const stored = localStorage.getItem(name);
+    if (!stored) return null;
+
+    try {
+      const sealed = JSON.parse(stored) as SealedValue;
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(sealed.iv) },
+        await getStorageKey(),
+        fromBase64(sealed.data)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch (error) {
+      // A lost IndexedDB key makes the saved state unreadable; start fresh rather than fail
+      console.warn("⚠️ Could not decrypt saved wallet registry:", error);
+      return null;
+    }
+  },
+
+  setItem: async (name, value) => {
+    if (!isAvailable()) return;
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      await getStorageKey(),
+      new TextEncoder().encode(value)
+    );
+    const sealed: SealedValue = { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+    localStorage.setItem(name, JSON.stringify(sealed));
+  },
+
+  removeItem: (name) => {
+    if (!isAvailable()) return;
+    localStorage.removeItem(name);
+  },
+};
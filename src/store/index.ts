@@ -1,17 +1,36 @@
 /**
  * Echo Wallet - Global state management
- * Manage application state with Zustand
+ * Manage application state with Zustand. The wallet registry, the selected
+ * network, the speech engine and the transaction history are persisted encrypted.
  */
 
 import { create } from "zustand";
-import { AppState, WalletAccount, Transaction, VoiceState, WalletBalance, TransferState } from "@/types";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { AppState, NetworkId, SpeechEngineId, WalletAccount, WalletRecord, Transaction, VoiceState, WalletBalance, TransferState, HistorySyncState, PaymentNotification } from "@/types";
+import { DEFAULT_NETWORK, SPEECH_ENGINE_IDS, WALLET_CONFIG, isNetworkId, isSpeechEngineId } from "@/config";
+import { encryptedStorage } from "./encryptedStorage";
 
 interface WalletStore extends AppState {
   // Wallet actions
   setWallet: (wallet: WalletAccount | null) => void;
+  addAccount: (account: WalletAccount) => void;
+  setActiveAccount: (address: string) => void;
+
+  // Wallet registry
+  addWallet: (record: WalletRecord) => void;
+  renameWallet: (id: string, name: string) => void;
+  removeWallet: (id: string) => void;
+  setActiveWallet: (id: string) => void;
   updateBalance: (balance: WalletBalance) => void;
   addTransaction: (transaction: Transaction) => void;
   updateTransaction: (hash: string, updates: Partial<Transaction>) => void;
+  // Add synced history entries; ones already known are updated in place
+  mergeTransactions: (transactions: Transaction[]) => void;
+  setHistorySync: (key: string, sync: HistorySyncState) => void;
+
+  // Incoming payment notices
+  addNotification: (notification: PaymentNotification) => void;
+  dismissNotification: (id: string) => void;
 
   // Voice state
   setVoiceState: (voice: Partial<VoiceState>) => void;
@@ -19,25 +38,78 @@ interface WalletStore extends AppState {
   // Shared address display
   setSharedAddress: (address: string | null) => void;
 
+  // Keyring lock state
+  setWalletLocked: (locked: boolean) => void;
+
   // Transfer state
   setTransferState: (transfer: Partial<TransferState>) => void;
 
   // App state
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
-  setNetwork: (network: "mainnet" | "sepolia" | "polygon") => void;
+  // The selected network; walletService follows this value
+  setNetwork: (network: NetworkId) => void;
+  // The selected speech engine; voiceService follows this value
+  setSpeechEngine: (engine: SpeechEngineId) => void;
 
-  // Reset state
+  // Reset the session; saved wallets, the network, the speech engine and the history are kept
   reset: () => void;
 }
 
+type PersistedState = Pick<AppState, "wallets" | "activeWalletId" | "network" | "speechEngine" | "transactions" | "historySync">;
+
+/**
+ * Key of one account's history on one chain
+ */
+export function historyKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+/**
+ * The same transfer reported by the wallet, the indexer or a log scan; userOps are matched by their mined hash
+ */
+export function transactionKey(tx: Transaction): string {
+  return [
+    tx.chainId,
+    (tx.transactionHash ?? tx.hash).toLowerCase(),
+    tx.from?.toLowerCase() ?? "",
+    tx.to.toLowerCase(),
+    tx.tokenAddress?.toLowerCase() ?? "native",
+  ].join(":");
+}
+
+/**
+ * Transfers in and out of one account on one chain, newest first
+ */
+export function accountHistory(transactions: Transaction[], chainId: number, address: string): Transaction[] {
+  const account = address.toLowerCase();
+  return transactions.filter(
+    (tx) => tx.chainId === chainId && (tx.from?.toLowerCase() === account || tx.to.toLowerCase() === account)
+  );
+}
+
+// Active wallet view derived from the registry
+function activeWalletView(wallets: WalletRecord[], activeWalletId: string | null) {
+  const record = wallets.find((entry) => entry.id === activeWalletId);
+  return {
+    activeWalletId: record ? record.id : null,
+    accounts: record ? record.accounts : [],
+    wallet: record ? record.accounts[0] ?? null : null,
+  };
+}
+
 const initialState: AppState = {
+  wallets: [],
+  activeWalletId: null,
   wallet: null,
+  accounts: [],
   balance: {
     eth: "0",
     tokens: [],
   },
   transactions: [],
+  historySync: {},
+  notifications: [],
   voice: {
     isListening: false,
     isProcessing: false,
@@ -48,73 +120,219 @@ const initialState: AppState = {
     recipient: null,
     amount: '',
     token: 'ETH',
+    feeTier: 'normal',
   },
   isLoading: false,
   error: null,
   sharedAddress: null,
-  network: "sepolia",
+  network: DEFAULT_NETWORK,
+  walletLocked: true,
+  speechEngine: SPEECH_ENGINE_IDS[0],
 };
 
-export const useWalletStore = create<WalletStore>((set) => ({
-  ...initialState,
+export const useWalletStore = create<WalletStore>()(
+  persist(
+    (set) => ({
+      ...initialState,
 
-  // Wallet actions
-  setWallet: (wallet) =>
-    set((state) => ({
-      wallet,
-      sharedAddress:
-        wallet && state.sharedAddress && state.sharedAddress.toLowerCase() === wallet.address.toLowerCase()
-          ? state.sharedAddress
-          : null,
-    })),
-
-  updateBalance: (balance) => set({ balance }),
-
-  addTransaction: (transaction) =>
-    set((state) => ({
-      transactions: [transaction, ...state.transactions],
-    })),
-
-  updateTransaction: (hash, updates) =>
-    set((state) => ({
-      transactions: state.transactions.map((tx) =>
-        tx.hash === hash ? { ...tx, ...updates } : tx
-      ),
-    })),
+      // Wallet actions
+      setWallet: (wallet) =>
+        set((state) => ({
+          wallet,
+          sharedAddress:
+            wallet && state.sharedAddress && state.sharedAddress.toLowerCase() === wallet.address.toLowerCase()
+              ? state.sharedAddress
+              : null,
+        })),
 
-  // Voice state
-  setVoiceState: (voiceUpdates) =>
-    set((state) => ({
-      voice: { ...state.voice, ...voiceUpdates },
-    })),
+      // Accounts of the active wallet; the active one is mirrored in `wallet`
+      addAccount: (account) =>
+        set((state) => {
+          const accounts = [
+            ...state.accounts.filter((existing) => existing.address.toLowerCase() !== account.address.toLowerCase()),
+            account,
+          ];
+          return {
+            accounts,
+            wallets: state.wallets.map((record) =>
+              record.id === state.activeWalletId ? { ...record, accounts } : record
+            ),
+          };
+        }),
 
-  // Shared address display
-  setSharedAddress: (address) => set({ sharedAddress: address }),
+      setActiveAccount: (address) =>
+        set((state) => {
+          const active = state.accounts.find((account) => account.address.toLowerCase() === address.toLowerCase());
+          if (!active) return {};
+          // Balance is refreshed for the new account by the caller
+          return { wallet: active, balance: initialState.balance, sharedAddress: null };
+        }),
 
-  // Transfer state
-  setTransferState: (transferUpdates) =>
-    set((state) => ({
-      transfer: { ...state.transfer, ...transferUpdates },
-    })),
+      // Wallet registry
+      addWallet: (record) =>
+        set((state) => {
+          // Restoring a saved wallet keeps its name
+          const existing = state.wallets.find((entry) => entry.id === record.id);
+          const saved = existing ? { ...record, name: existing.name, createdAt: existing.createdAt } : record;
+          const wallets = existing
+            ? state.wallets.map((entry) => (entry.id === record.id ? saved : entry))
+            : [...state.wallets, saved];
+          return {
+            wallets,
+            ...activeWalletView(wallets, saved.id),
+            balance: initialState.balance,
+            sharedAddress: null,
+          };
+        }),
 
-  // App state
-  setLoading: (isLoading) => set({ isLoading }),
+      renameWallet: (id, name) =>
+        set((state) => ({
+          wallets: state.wallets.map((record) => (record.id === id ? { ...record, name } : record)),
+        })),
+
+      removeWallet: (id) =>
+        set((state) => {
+          const wallets = state.wallets.filter((record) => record.id !== id);
+          if (state.activeWalletId !== id) return { wallets };
+          return {
+            wallets,
+            ...activeWalletView(wallets, wallets[0]?.id ?? null),
+            balance: initialState.balance,
+            sharedAddress: null,
+          };
+        }),
+
+      setActiveWallet: (id) =>
+        set((state) => {
+          if (!state.wallets.some((record) => record.id === id)) return {};
+          return { ...activeWalletView(state.wallets, id), balance: initialState.balance, sharedAddress: null };
+        }),
+
+      updateBalance: (balance) => set({ balance }),
+
+      addTransaction: (transaction) =>
+        set((state) => ({
+          transactions: [transaction, ...state.transactions].slice(0, WALLET_CONFIG.HISTORY.MAX_TRANSACTIONS),
+        })),
+
+      updateTransaction: (hash, updates) =>
+        set((state) => ({
+          transactions: state.transactions.map((tx) =>
+            tx.hash === hash ? { ...tx, ...updates } : tx
+          ),
+        })),
+
+      mergeTransactions: (incoming) =>
+        set((state) => {
+          const byKey = new Map(state.transactions.map((tx) => [transactionKey(tx), tx]));
+          incoming.forEach((tx) => {
+            const key = transactionKey(tx);
+            const existing = byKey.get(key);
+            // Entries we sent keep their hash, nonce and replacement links; the chain adds the outcome
+            byKey.set(key, existing ? { ...tx, ...existing, status: tx.status, blockNumber: tx.blockNumber, gasUsed: tx.gasUsed ?? existing.gasUsed } : tx);
+          });
+          const transactions = Array.from(byKey.values())
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, WALLET_CONFIG.HISTORY.MAX_TRANSACTIONS);
+          return { transactions };
+        }),
+
+      setHistorySync: (key, sync) =>
+        set((state) => ({
+          historySync: { ...state.historySync, [key]: sync },
+        })),
+
+      // Incoming payment notices; a handful is enough on screen
+      addNotification: (notification) =>
+        set((state) => ({
+          notifications: [notification, ...state.notifications.filter((entry) => entry.id !== notification.id)].slice(0, 5),
+        })),
+
+      dismissNotification: (id) =>
+        set((state) => ({
+          notifications: state.notifications.filter((entry) => entry.id !== id),
+        })),
+
+      // Voice state
+      setVoiceState: (voiceUpdates) =>
+        set((state) => ({
+          voice: { ...state.voice, ...voiceUpdates },
+        })),
+
+      // Shared address display
+      setSharedAddress: (address) => set({ sharedAddress: address }),
+
+      // Keyring lock state
+      setWalletLocked: (walletLocked) => set({ walletLocked }),
+
+      // Transfer state
+      setTransferState: (transferUpdates) =>
+        set((state) => ({
+          transfer: { ...state.transfer, ...transferUpdates },
+        })),
+
+      // App state
+      setLoading: (isLoading) => set({ isLoading }),
+
+      setError: (error) => set({ error }),
 
-  setError: (error) => set({ error }),
+      setNetwork: (network) => set({ network }),
 
-  setNetwork: (network) => set({ network }),
+      setSpeechEngine: (speechEngine) => set({ speechEngine }),
 
-  // Reset state
-  reset: () => set(initialState),
-}));
+      // Reset the session; saved wallets, the network, the speech engine and the history are kept
+      reset: () =>
+        set((state) => ({
+          ...initialState,
+          wallets: state.wallets,
+          network: state.network,
+          speechEngine: state.speechEngine,
+          transactions: state.transactions,
+          historySync: state.historySync,
+        })),
+    }),
+    {
+      name: "echo_wallet_registry",
+      storage: createJSONStorage<PersistedState>(() => encryptedStorage),
+      partialize: (state): PersistedState => ({
+        wallets: state.wallets,
+        activeWalletId: state.activeWalletId,
+        network: state.network,
+        speechEngine: state.speechEngine,
+        transactions: state.transactions,
+        historySync: state.historySync,
+      }),
+      // Restore the active wallet as a read-only view; signing keys return on the next unlock
+      merge: (persisted, current) => {
+        const saved = persisted as PersistedState | undefined;
+        // The speech engine is chosen before any wallet is saved
+        const speechEngine = isSpeechEngineId(saved?.speechEngine) ? saved.speechEngine : current.speechEngine;
+        if (!saved?.wallets) return { ...current, speechEngine };
+        return {
+          ...current,
+          wallets: saved.wallets,
+          ...activeWalletView(saved.wallets, saved.activeWalletId),
+          // A network dropped from the registry falls back to the default
+          network: isNetworkId(saved.network) ? saved.network : current.network,
+          speechEngine,
+          transactions: Array.isArray(saved.transactions) ? saved.transactions : current.transactions,
+          historySync: saved.historySync ?? current.historySync,
+        };
+      },
+    }
+  )
+);
 
 // Selector hooks
 export const useWallet = () => useWalletStore((state) => state.wallet);
+export const useAccounts = () => useWalletStore((state) => state.accounts);
+export const useWallets = () => useWalletStore((state) => state.wallets);
 export const useBalance = () => useWalletStore((state) => state.balance);
 export const useTransactions = () =>
   useWalletStore((state) => state.transactions);
 export const useVoiceState = () => useWalletStore((state) => state.voice);
 export const useTransferState = () => useWalletStore((state) => state.transfer);
+export const useSpeechEngine = () => useWalletStore((state) => state.speechEngine);
 export const useAppState = () =>
   useWalletStore((state) => ({
     isLoading: state.isLoading,
@@ -19,12 +19,28 @@ export interface UserOperation {
 }
 
 // Wallet types
+// Public wallet view; the signing key lives only in the keyring service
 export interface WalletAccount {
   address: string
-  privateKey: string
-  mnemonic?: string
   isSmartWallet: boolean
   aaWalletAddress?: string
+  // 'passkey': the account is owned by a WebAuthn passkey and `address` is the smart account itself
+  signer?: 'keyring' | 'passkey'
+  // Spoken name of the account, e.g. "Savings"
+  label?: string
+  // BIP-44 path of accounts derived from a recovery phrase
+  derivationPath?: string
+  // WebAuthn credential that signs for passkey accounts
+  passkeyCredentialId?: string
+}
+
+// Saved wallet: one recovery phrase (or passkey) and the accounts derived from it
+export interface WalletRecord {
+  // Lowercase address of the first account; stable across restores
+  id: string
+  name: string
+  accounts: WalletAccount[]
+  createdAt: number
 }
 
 export interface WalletBalance {
@@ -38,31 +54,231 @@ export interface TokenBalance {
   balance: string
   decimals: number
   name: string
+  // Set when the token contract could not be read; `balance` is then empty, never a made-up zero
+  error?: string
+}
+
+// Network types
+export type NetworkId = 'mainnet' | 'sepolia' | 'arbitrum' | 'optimism' | 'base' | 'polygon' | 'devnet'
+
+export interface NativeCurrency {
+  name: string
+  symbol: string
+  decimals: number
+}
+
+export interface TokenInfo {
+  symbol: string
+  address: string
+  name: string
+  decimals: number
+}
+
+export interface ChainConfig {
+  id: NetworkId
+  chainId: number
+  name: string
+  // Lower-case names a user may say to pick this chain
+  spokenNames: string[]
+  testnet: boolean
+  // Average seconds between blocks, for spoken wait estimates
+  blockTime: number
+  nativeCurrency: NativeCurrency
+  // Tried fastest first, failing over to the others
+  rpcUrls: string[]
+  explorerUrl?: string
+  bundlerUrl: string
+  paymasterUrl: string
+  entryPointAddress: string
+  factoryAddress: string
+  passkeyFactoryAddress: string
+  // Default ERC-20 tokens shown and sendable on this chain
+  tokens: TokenInfo[]
+  // ENS registry deployed on this chain
+  ensRegistry?: string
+  // Chain whose ENS registry names are resolved on when this one has none
+  ensNetwork?: NetworkId
 }
 
 // Transaction types
 export interface Transaction {
+  // Transaction hash, or the userOpHash for UserOperations
   hash: string
+  // Hash of the mined transaction when `hash` is a userOpHash
+  transactionHash?: string
+  // Sender of the value; for history entries this or `to` is one of our accounts
+  from?: string
+  // Recipient of the value (not the token contract)
   to: string
   value: string
+  tokenSymbol?: string
+  // ERC-20 contract; absent for the native currency
+  tokenAddress?: string
   gasPrice?: string
   gasLimit?: string
   timestamp: number
-  status: 'pending' | 'confirmed' | 'failed'
+  // 'replaced': another transaction with the same nonce was broadcast or mined in its place.
+  // 'dropped': the network forgot it without mining anything for its nonce.
+  status: 'pending' | 'confirmed' | 'failed' | 'replaced' | 'dropped'
   userOperation?: UserOperation
+  // Chain the transaction belongs to
+  chainId: number
+  // Account nonce; a replacement reuses it
+  nonce?: number
+  // Filled in once mined
+  blockNumber?: number
+  gasUsed?: string
+  failureReason?: string
+  // Replacement chain: the hash this one supersedes and the hash that superseded it
+  replaces?: string
+  replacedBy?: string
+  replacement?: ReplacementKind
 }
 
+// Result of checking a pending transaction against the chain
+export interface TransactionOutcome {
+  status: 'confirmed' | 'failed' | 'replaced' | 'dropped'
+  transactionHash?: string
+  blockNumber?: number
+  gasUsed?: string
+  reason?: string
+}
+
+// History sync progress of one account on one chain
+export interface HistorySyncState {
+  // Transfers up to and including this block are in the history
+  lastBlock: number
+  syncedAt: number
+}
+
+// On-screen notice of an incoming payment
+export interface PaymentNotification {
+  id: string
+  // Same sentence that is spoken, e.g. "You received 25 USDC from Alice"
+  message: string
+  timestamp: number
+}
+
+// 'speed_up' resends the same call with higher fees; 'cancel' sends a zero-value self-transfer
+export type ReplacementKind = 'speed_up' | 'cancel'
+
 export interface TransferRequest {
   to: string
   amount: string
   token?: string
   tokenSymbol?: string
+  // EIP-1559 fee tier; 'normal' when omitted
+  feeTier?: FeeTier
+  // Set when the user was told the paymaster covers the gas: refused rather than sent at their cost
+  requireSponsorship?: boolean
+}
+
+// Fee types
+export type FeeTier = 'slow' | 'normal' | 'fast'
+
+export interface FeeTierPrice {
+  tier: FeeTier
+  // Wei, as decimal strings
+  maxFeePerGas: string
+  maxPriorityFeePerGas: string
+  // Base fee expected in the next block
+  baseFeePerGas: string
+  // Set where the node has no fee history: plain transactions pay this legacy gas price
+  gasPrice?: string
+  expectedWaitSeconds: number
+}
+
+export interface FeeEstimate extends FeeTierPrice {
+  gasLimit: string
+  // Likely cost in the native currency at the next base fee
+  estimatedCost: string
+}
+
+// Fees of a transfer before it is confirmed
+export interface TransferQuote {
+  fees: Record<FeeTier, FeeEstimate>
+  // Set for UserOperations when a paymaster is configured: whether it would cover the gas
+  sponsored?: boolean
+}
+
+export interface TransferResult {
+  hash: string
+  // Account nonce of a plain transaction; UserOperations carry theirs in `userOperation`
+  nonce?: number
+  userOperation?: UserOperation
+  // Set for UserOperations: whether a paymaster covered the gas
+  sponsored?: boolean
 }
 
 // Voice-related types
+export type VoiceCommandType = 'create_wallet' | 'transfer' | 'balance' | 'import_wallet' | 'import_mnemonic' | 'transaction_status' | 'contacts' | 'switch_network' | 'read_address' | 'lock_wallet' | 'unlock_wallet' | 'set_passphrase' | 'create_passkey_wallet' | 'restore_passkey_wallet' | 'list_accounts' | 'switch_account' | 'add_account' | 'list_wallets' | 'switch_wallet' | 'rename_wallet' | 'remove_wallet' | 'speed_up_transaction' | 'cancel_transaction' | 'history_query' | 'unknown'
+
+// Calendar period in local time, e.g. "this month"
+export interface TimeRange {
+  label: string
+  // Milliseconds since the epoch; start inclusive, end exclusive
+  start: number
+  end: number
+}
+
+// Spoken transfer recipient, before it is looked up
+export interface RecipientSlot {
+  // 'recent' is the most used contact ("quick send")
+  type: 'contact' | 'address' | 'ens' | 'recent'
+  // Contact name, hex address or ENS name; empty for 'recent'
+  value: string
+}
+
+// An intent the words came close to, with its match score (0 to 1)
+export interface IntentGuess {
+  type: VoiceCommandType
+  score: number
+}
+
+// Values the intent grammar fills in from the utterance
+export interface VoiceCommandSlots {
+  // Transcript the command was recognized from
+  text?: string
+  // Validated decimal amount or balance share ("50%")
+  amount?: string
+  // Lower-case token symbol
+  token?: string
+  recipient?: RecipientSlot
+  network?: NetworkId
+  timeRange?: TimeRange
+  // Wallet or account name
+  name?: string
+  // Transaction hash
+  hash?: string
+  // Transfers: both the amount and the recipient were spoken
+  isComplete?: boolean
+  // The intent was negated ("don't send anything")
+  negated?: boolean
+  // Unknown intents: closest intents, best first
+  guesses?: IntentGuess[]
+}
+
 export interface VoiceCommand {
-  type: 'create_wallet' | 'transfer' | 'balance' | 'import_wallet' | 'transaction_status' | 'contacts' | 'switch_network' | 'read_address' | 'text_input'
-  parameters?: Record<string, unknown>
+  type: VoiceCommandType
+  slots?: VoiceCommandSlots
+  // Speech recognition confidence
+  confidence: number
+  // How well the words matched the intent grammar (0 to 1)
+  score?: number
+}
+
+// How a spoken message competes with others: 'urgent' (security warnings) cuts off
+// anything less urgent and goes first; 'chatter' (progress notes) gives way to anything newer
+export type SpeechPriority = 'urgent' | 'normal' | 'chatter'
+
+// Speech backend chosen in settings: the browser's Web Speech API, or recognition that runs on the device
+export type SpeechEngineId = 'web-speech' | 'local'
+
+// One reading of an utterance from the recognizer's N-best list
+export interface RecognitionAlternative {
+  // Optimized transcript
+  transcript: string
+  // 0 to 1; some browsers report 0 for every reading but the first
   confidence: number
 }
 
@@ -78,25 +294,39 @@ export interface TransferState {
   isActive: boolean;
   step: 'idle' | 'recipient' | 'amount' | 'token' | 'confirm';
   recipient: {
-    type: 'contact' | 'address';
+    type: 'contact' | 'address' | 'ens';
     value: string;
     displayName?: string;
   } | null;
+  // Decimal amount, or a share of the balance such as "50%" until the confirmation step works it out
   amount: string;
   token: string;
+  feeTier: FeeTier;
 }
 
 // Application state types
 export interface AppState {
+  // Saved wallets and the active one
+  wallets: WalletRecord[]
+  activeWalletId: string | null
+  // Accounts of the active wallet and the active account
   wallet: WalletAccount | null
+  accounts: WalletAccount[]
   balance: WalletBalance
+  // History of every account and chain, newest first
   transactions: Transaction[]
+  // Keyed by historyKey(chainId, address)
+  historySync: Record<string, HistorySyncState>
+  // Incoming payments announced this session, newest first
+  notifications: PaymentNotification[]
   voice: VoiceState
   transfer: TransferState;
   isLoading: boolean
   error: string | null
   sharedAddress: string | null
-  network: 'mainnet' | 'sepolia' | 'polygon'
+  network: NetworkId
+  walletLocked: boolean
+  speechEngine: SpeechEngineId
 }
 
 // ERC-4337 related types
@@ -107,6 +337,15 @@ export interface AAWalletConfig {
   factoryAddress: string
 }
 
+export interface UserOperationReceipt {
+  userOpHash: string
+  transactionHash: string
+  success: boolean
+  actualGasUsed?: string
+  blockNumber?: number
+  reason?: string
+}
+
 export interface PaymasterResult {
   paymasterAndData: string
   preVerificationGas: string
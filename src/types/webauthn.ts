@@ -39,16 +39,50 @@ export interface WebAuthnCredentialRequestOptions {
  */
 export interface StoredWalletCredential {
   credentialId: string
-  publicKey: string
-  counter: number
+  publicKey: string // COSE 编码的凭证公钥（Base64）
+  publicKeyAlgorithm?: number // COSE 算法（-7 ES256 / -257 RS256）；缺失表示旧记录，公钥不可用
+  counter: number // 最近一次验证的签名计数器
   created: string
   lastUsed: string
   walletAddress: string
   walletName: string
-  encryptedMnemonic: string // 使用WebAuthn公钥加密的助记词
+  encryptedMnemonic: string // AES-GCM 加密的助记词（旧记录为 XOR）
+  encryption?: MnemonicEncryption // 缺失表示旧版 XOR 记录，下次解锁时自动迁移
   userHandle: string
 }
 
+/**
+ * 作为智能账户签名者的通行密钥（无助记词）
+ */
+export interface StoredPasskeySigner {
+  credentialId: string
+  publicKey: string // COSE 编码的 P-256 公钥（Base64）
+  x: string // 公钥坐标（0x 十六进制）
+  y: string
+  walletName: string
+  created: string
+}
+
+/**
+ * 通行密钥对挑战的签名结果
+ */
+export interface PasskeyAssertion {
+  credentialId: string
+  authenticatorData: Uint8Array
+  clientDataJSON: string
+  signature: Uint8Array // DER 编码的 ES256 签名
+}
+
+/**
+ * 助记词加密参数
+ */
+export interface MnemonicEncryption {
+  version: number
+  kdf: 'prf' | 'pbkdf2' // 密钥来源：WebAuthn PRF 扩展或口令
+  salt: string // PRF 输入或 PBKDF2 盐（Base64）
+  iv: string // AES-GCM IV（Base64）
+}
+
 /**
  * WebAuthn身份验证结果
  */
@@ -91,6 +125,10 @@ export type WebAuthnErrorType =
   | 'REGISTRATION_FAILED'
   | 'CREDENTIAL_NOT_FOUND'
   | 'DECRYPTION_FAILED'
+  | 'PASSPHRASE_REQUIRED'
+  | 'VERIFICATION_FAILED'
+  | 'CLONED_AUTHENTICATOR'
+  | 'REREGISTRATION_REQUIRED'
   | 'UNKNOWN_ERROR'
 
 /**
@@ -131,6 +169,7 @@ export interface WalletRecoveryState {
     walletName: string
     created: string
     lastUsed: string
+    encryption: MnemonicEncryption['kdf'] | 'legacy'
   }>
   isRecovering: boolean
   error: WebAuthnError | null